@@ -0,0 +1,4 @@
+-- AlterEnum: papéis de membership com escopo de projeto
+ALTER TYPE "membership_role" ADD VALUE 'project_viewer';
+ALTER TYPE "membership_role" ADD VALUE 'project_editor';
+ALTER TYPE "membership_role" ADD VALUE 'project_manager';
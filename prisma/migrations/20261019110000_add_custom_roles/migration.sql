@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "membership_role" ADD VALUE 'custom';
+
+-- CreateTable
+CREATE TABLE "company_roles" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "company_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "memberships" ADD COLUMN "custom_role_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "company_roles_company_id_idx" ON "company_roles"("company_id");
+
+-- CreateIndex
+CREATE INDEX "memberships_custom_role_id_idx" ON "memberships"("custom_role_id");
+
+-- AddForeignKey
+ALTER TABLE "company_roles" ADD CONSTRAINT "company_roles_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_custom_role_id_fkey" FOREIGN KEY ("custom_role_id") REFERENCES "company_roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: cada família de refresh tokens existente vira uma sessão
+INSERT INTO "sessions" ("id", "user_id", "created_at", "last_seen_at", "revoked_at")
+SELECT "family_id", "user_id", MIN("created_at"), MAX("created_at"),
+       CASE WHEN BOOL_AND("revoked_at" IS NOT NULL) THEN MAX("revoked_at") END
+FROM "refresh_tokens"
+GROUP BY "family_id", "user_id";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" RENAME COLUMN "family_id" TO "session_id";
+
+-- RenameIndex
+ALTER INDEX "refresh_tokens_family_id_idx" RENAME TO "refresh_tokens_session_id_idx";
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_revoked_at_idx" ON "sessions"("user_id", "revoked_at");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
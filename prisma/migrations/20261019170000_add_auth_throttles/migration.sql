@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "auth_throttle_action" AS ENUM ('login', 'forgot_password');
+
+-- CreateTable
+CREATE TABLE "auth_throttles" (
+    "id" TEXT NOT NULL,
+    "action" "auth_throttle_action" NOT NULL,
+    "key" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_attempt_at" TIMESTAMP(3) NOT NULL,
+    "locked_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auth_throttles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_throttles_action_key_key" ON "auth_throttles"("action", "key");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "password_history" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "password_hash" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "password_policies" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "min_length" INTEGER NOT NULL,
+    "require_uppercase" BOOLEAN NOT NULL,
+    "require_lowercase" BOOLEAN NOT NULL,
+    "require_digit" BOOLEAN NOT NULL,
+    "require_symbol" BOOLEAN NOT NULL,
+    "block_common_passwords" BOOLEAN NOT NULL,
+    "block_personal_info" BOOLEAN NOT NULL,
+    "history_size" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "password_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "password_history_user_id_created_at_idx" ON "password_history"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "password_policies_company_id_key" ON "password_policies"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "password_history" ADD CONSTRAINT "password_history_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "password_policies" ADD CONSTRAINT "password_policies_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
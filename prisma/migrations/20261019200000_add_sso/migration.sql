@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "company_sso_configs" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "client_secret" TEXT NOT NULL,
+    "allowed_domains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "auto_provision" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "company_sso_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "oidc_login_requests" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "state_hash" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "code_verifier" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oidc_login_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_sso_configs_company_id_key" ON "company_sso_configs"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oidc_login_requests_state_hash_key" ON "oidc_login_requests"("state_hash");
+
+-- CreateIndex
+CREATE INDEX "oidc_login_requests_expires_at_idx" ON "oidc_login_requests"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "company_sso_configs" ADD CONSTRAINT "company_sso_configs_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oidc_login_requests" ADD CONSTRAINT "oidc_login_requests_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
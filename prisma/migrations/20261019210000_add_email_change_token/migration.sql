@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "token_type" ADD VALUE 'email_change';
+
+-- AlterTable
+ALTER TABLE "password_reset_tokens" ADD COLUMN "new_email" TEXT;
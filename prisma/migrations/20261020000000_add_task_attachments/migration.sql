@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "task_attachments" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "uploaded_by" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "task_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_attachments_task_id_deleted_at_idx" ON "task_attachments"("task_id", "deleted_at");
+
+-- CreateIndex
+CREATE INDEX "task_attachments_checksum_idx" ON "task_attachments"("checksum");
+
+-- CreateIndex
+CREATE INDEX "task_attachments_storage_key_idx" ON "task_attachments"("storage_key");
+
+-- AddForeignKey
+ALTER TABLE "task_attachments" ADD CONSTRAINT "task_attachments_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_attachments" ADD CONSTRAINT "task_attachments_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
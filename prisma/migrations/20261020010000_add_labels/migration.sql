@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "labels" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "labels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "task_labels" (
+    "task_id" TEXT NOT NULL,
+    "label_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_labels_pkey" PRIMARY KEY ("task_id","label_id")
+);
+
+-- CreateIndex
+-- Nomes únicos por workspace sem diferenciar maiúsculas; o Prisma não representa índices de
+-- expressão, por isso a restrição existe apenas aqui e não no schema
+CREATE UNIQUE INDEX "labels_workspace_id_name_key" ON "labels"("workspace_id", lower("name"));
+
+-- CreateIndex
+CREATE INDEX "task_labels_label_id_idx" ON "task_labels"("label_id");
+
+-- AddForeignKey
+ALTER TABLE "labels" ADD CONSTRAINT "labels_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_labels" ADD CONSTRAINT "task_labels_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_labels" ADD CONSTRAINT "task_labels_label_id_fkey" FOREIGN KEY ("label_id") REFERENCES "labels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
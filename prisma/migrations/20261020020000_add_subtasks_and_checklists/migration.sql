@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "block_done_with_open_subtasks" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "columns" ADD COLUMN "is_done" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: a coluna "Concluído" criada por padrão passa a marcar tarefas como concluídas
+UPDATE "columns" SET "is_done" = true WHERE "name" = 'Concluído';
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "parent_task_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "task_checklist_items" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "is_completed" BOOLEAN NOT NULL DEFAULT false,
+    "completed_at" TIMESTAMP(3),
+    "assignee_id" TEXT,
+    "due_date" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_parent_task_id_idx" ON "tasks"("parent_task_id");
+
+-- CreateIndex
+CREATE INDEX "task_checklist_items_task_id_order_idx" ON "task_checklist_items"("task_id", "order");
+
+-- CreateIndex
+CREATE INDEX "task_checklist_items_assignee_id_idx" ON "task_checklist_items"("assignee_id");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_parent_task_id_fkey" FOREIGN KEY ("parent_task_id") REFERENCES "tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_checklist_items" ADD CONSTRAINT "task_checklist_items_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_checklist_items" ADD CONSTRAINT "task_checklist_items_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
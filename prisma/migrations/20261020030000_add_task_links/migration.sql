@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "task_link_type" AS ENUM ('blocks', 'relates_to', 'duplicates');
+
+-- CreateTable
+CREATE TABLE "task_links" (
+    "id" TEXT NOT NULL,
+    "source_task_id" TEXT NOT NULL,
+    "target_task_id" TEXT NOT NULL,
+    "type" "task_link_type" NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_links_source_task_id_target_task_id_type_key" ON "task_links"("source_task_id", "target_task_id", "type");
+
+-- CreateIndex
+CREATE INDEX "task_links_target_task_id_type_idx" ON "task_links"("target_task_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "task_links" ADD CONSTRAINT "task_links_source_task_id_fkey" FOREIGN KEY ("source_task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_links" ADD CONSTRAINT "task_links_target_task_id_fkey" FOREIGN KEY ("target_task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_links" ADD CONSTRAINT "task_links_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
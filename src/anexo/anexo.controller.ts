@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { AnexoService, UploadedAttachment } from './anexo.service';
+
+@ApiTags('anexos')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller('empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/tarefas/:taskId/anexos')
+export class AnexoController {
+  constructor(private readonly anexoService: AnexoService) {}
+
+  @Post()
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Anexar arquivo à tarefa' })
+  @ApiResponse({
+    status: 201,
+    description: 'Anexo criado — se o mesmo arquivo já estiver anexado, retorna o existente',
+  })
+  @ApiResponse({ status: 400, description: 'Arquivo ausente ou vazio' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  @ApiResponse({ status: 413, description: 'Arquivo maior que o limite configurado' })
+  @ApiResponse({ status: 415, description: 'Tipo não permitido ou conteúdo não confere' })
+  uploadAttachment(
+    @Param() scope: TaskScope,
+    @UploadedFile() file: UploadedAttachment | undefined,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.anexoService.uploadAttachment(scope, file, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar anexos da tarefa' })
+  @ApiResponse({ status: 200, description: 'Anexos ativos da tarefa' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  listAttachments(@Param() scope: TaskScope) {
+    return this.anexoService.listAttachments(scope);
+  }
+
+  @Get(':attachmentId/download')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Baixar o conteúdo do anexo' })
+  @ApiResponse({ status: 200, description: 'Conteúdo do arquivo (stream)' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou anexo não encontrado' })
+  async downloadAttachment(@Param() scope: TaskScope, @Param('attachmentId') attachmentId: string) {
+    const { attachment, stream } = await this.anexoService.downloadAttachment(scope, attachmentId);
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: contentDisposition(attachment.fileName),
+    });
+  }
+
+  @Delete(':attachmentId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover anexo' })
+  @ApiResponse({ status: 204, description: 'Anexo removido' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou anexo não encontrado' })
+  async deleteAttachment(
+    @Param() scope: TaskScope,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.anexoService.deleteAttachment(scope, attachmentId, user.id);
+  }
+}
+
+/** Força o download, com fallback ASCII e o nome original em UTF-8 (RFC 6266 / 5987) */
+function contentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
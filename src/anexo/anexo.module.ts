@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AnexoController } from './anexo.controller';
+import { AnexoRepository } from './anexo.repository';
+import { AnexoService, maxAttachmentBytes } from './anexo.service';
+import { storageDriverProvider } from './storage/storage.provider';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    // Arquivos ficam em memória; o limite do multer interrompe uploads grandes antes do fim
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: maxAttachmentBytes(configService), files: 1 },
+      }),
+    }),
+  ],
+  controllers: [AnexoController],
+  providers: [AnexoRepository, AnexoService, storageDriverProvider],
+})
+export class AnexoModule {}
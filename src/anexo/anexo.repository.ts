@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } satisfies Prisma.UserSelect;
+
+const ATTACHMENT_SELECT = {
+  id: true,
+  taskId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  checksum: true,
+  createdAt: true,
+  uploadedBy: { select: USER_SUMMARY_SELECT },
+} satisfies Prisma.TaskAttachmentSelect;
+
+@Injectable()
+export class AnexoRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────────
+
+  /** Tarefa ativa do projeto, validando também workspace e empresa da rota */
+  findTask(taskId: string, projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        projectId,
+        deletedAt: null,
+        project: { workspaceId, deletedAt: null, workspace: { companyId, deletedAt: null } },
+      },
+      select: { id: true },
+    });
+  }
+
+  // ── Attachments ───────────────────────────────────────────────────────────────
+
+  findAttachment(attachmentId: string, taskId: string) {
+    return this.prisma.taskAttachment.findFirst({
+      where: { id: attachmentId, taskId, deletedAt: null },
+    });
+  }
+
+  findAttachments(taskId: string) {
+    return this.prisma.taskAttachment.findMany({
+      where: { taskId, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: ATTACHMENT_SELECT,
+    });
+  }
+
+  /**
+   * Cria o anexo gravando o conteúdo apenas se nenhum anexo ativo já referenciar o mesmo
+   * objeto (deduplicação por checksum). Se a tarefa já tiver um anexo ativo com o mesmo
+   * conteúdo, ele é retornado com `created: false`. Um advisory lock por checksum serializa
+   * uploads e remoções do mesmo conteúdo, inclusive reenvios simultâneos para a mesma tarefa.
+   */
+  createAttachment(data: Prisma.TaskAttachmentUncheckedCreateInput, store: () => Promise<void>) {
+    return this.prisma.$transaction(
+      async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${data.checksum}))`;
+
+        const existing = await tx.taskAttachment.findFirst({
+          where: { taskId: data.taskId, checksum: data.checksum, deletedAt: null },
+          select: ATTACHMENT_SELECT,
+        });
+        if (existing) {
+          return { attachment: existing, created: false };
+        }
+
+        const shared = await tx.taskAttachment.count({
+          where: { storageKey: data.storageKey, deletedAt: null },
+        });
+        if (shared === 0) {
+          await store();
+        }
+
+        const attachment = await tx.taskAttachment.create({ data, select: ATTACHMENT_SELECT });
+        return { attachment, created: true };
+      },
+      { timeout: 60_000 },
+    );
+  }
+
+  softDeleteAttachment(id: string) {
+    return this.prisma.taskAttachment.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  /**
+   * Chamado depois do soft delete já confirmado: quando não resta anexo ativo com o mesmo
+   * conteúdo, `release` remove o objeto do armazenamento. A transação não grava nada, só
+   * mantém o advisory lock do checksum para que um upload simultâneo do mesmo conteúdo
+   * espere e grave o objeto de novo em vez de reaproveitar o que está sendo removido.
+   */
+  releaseStoredObject(
+    attachment: { checksum: string; storageKey: string },
+    release: () => Promise<void>,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${attachment.checksum}))`;
+
+      const remaining = await tx.taskAttachment.count({
+        where: { storageKey: attachment.storageKey, deletedAt: null },
+      });
+      if (remaining === 0) {
+        await release();
+      }
+    });
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { AnexoRepository } from './anexo.repository';
+import { AnexoService, UploadedAttachment } from './anexo.service';
+import { StorageDriver } from './storage/storage-driver';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const SCOPE: TaskScope = {
+  companyId: 'company-1',
+  workspaceId: 'ws-1',
+  projectId: 'project-1',
+  taskId: 'task-1',
+};
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.from('imagem'),
+]);
+
+function sha256(value: Buffer) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function makeFile(overrides: Partial<UploadedAttachment> = {}): UploadedAttachment {
+  return {
+    originalname: 'tela.png',
+    mimetype: 'image/png',
+    size: PNG.length,
+    buffer: PNG,
+    ...overrides,
+  };
+}
+
+function makeAttachment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'att-1',
+    taskId: 'task-1',
+    uploadedById: 'user-1',
+    fileName: 'tela.png',
+    mimeType: 'image/png',
+    size: PNG.length,
+    checksum: sha256(PNG),
+    storageKey: `attachments/${sha256(PNG).slice(0, 2)}/${sha256(PNG)}`,
+    createdAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof AnexoRepository, jest.Mock>> = {},
+): jest.Mocked<AnexoRepository> {
+  return {
+    findTask: jest.fn().mockResolvedValue({ id: 'task-1' }),
+    findAttachment: jest.fn().mockResolvedValue(makeAttachment()),
+    findAttachments: jest.fn().mockResolvedValue([]),
+    // Simula o caso sem outro anexo com o mesmo conteúdo: grava e cria
+    createAttachment: jest
+      .fn()
+      .mockImplementation(async (data: Record<string, unknown>, store: () => Promise<void>) => {
+        await store();
+        return { attachment: makeAttachment(data), created: true };
+      }),
+    softDeleteAttachment: jest.fn().mockResolvedValue(makeAttachment()),
+    // Simula o caso em que o anexo removido era o último com aquele conteúdo
+    releaseStoredObject: jest
+      .fn()
+      .mockImplementation((_attachment: unknown, release: () => Promise<void>) => release()),
+    ...overrides,
+  } as unknown as jest.Mocked<AnexoRepository>;
+}
+
+function makeStorage(): jest.Mocked<StorageDriver> {
+  return {
+    put: jest.fn().mockResolvedValue(undefined),
+    get: jest.fn().mockResolvedValue(Readable.from([PNG])),
+    delete: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(
+  repo: jest.Mocked<AnexoRepository>,
+  storage = makeStorage(),
+  configOverrides: Record<string, unknown> = {},
+) {
+  const configService = {
+    get: jest.fn((key: string, fallback?: unknown) => configOverrides[key] ?? fallback),
+  } as unknown as ConfigService;
+  return new AnexoService(repo, storage, configService, makeLogger() as any);
+}
+
+// ── uploadAttachment ───────────────────────────────────────────────────────────
+
+describe('AnexoService.uploadAttachment', () => {
+  it('lança NotFoundException quando a tarefa não existe no escopo', async () => {
+    const repo = makeRepo({ findTask: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).uploadAttachment(SCOPE, makeFile(), 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança BadRequestException quando nenhum arquivo é enviado', async () => {
+    await expect(
+      makeService(makeRepo()).uploadAttachment(SCOPE, undefined, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança PayloadTooLargeException acima do limite configurado', async () => {
+    const service = makeService(makeRepo(), makeStorage(), { ATTACHMENT_MAX_SIZE_MB: 1 });
+    const file = makeFile({ size: 1024 * 1024 + 1 });
+    await expect(service.uploadAttachment(SCOPE, file, 'user-1')).rejects.toThrow(
+      PayloadTooLargeException,
+    );
+  });
+
+  it('lança UnsupportedMediaTypeException para tipo fora da lista permitida', async () => {
+    const file = makeFile({ mimetype: 'text/html', originalname: 'x.html' });
+    await expect(makeService(makeRepo()).uploadAttachment(SCOPE, file, 'user-1')).rejects.toThrow(
+      UnsupportedMediaTypeException,
+    );
+  });
+
+  it('lança UnsupportedMediaTypeException quando o conteúdo não confere com o tipo', async () => {
+    const body = Buffer.from('<script>alert(1)</script>');
+    const file = makeFile({ buffer: body, size: body.length });
+    await expect(makeService(makeRepo()).uploadAttachment(SCOPE, file, 'user-1')).rejects.toThrow(
+      UnsupportedMediaTypeException,
+    );
+  });
+
+  it('grava o conteúdo endereçado pelo checksum e registra o anexo', async () => {
+    const repo = makeRepo();
+    const storage = makeStorage();
+    const file = makeFile({ originalname: '../../etc/te\u0000la.png', mimetype: 'IMAGE/PNG' });
+    await makeService(repo, storage).uploadAttachment(SCOPE, file, 'user-1');
+
+    const checksum = sha256(PNG);
+    const storageKey = `attachments/${checksum.slice(0, 2)}/${checksum}`;
+    expect(repo.createAttachment.mock.calls[0][0]).toEqual({
+      taskId: 'task-1',
+      uploadedById: 'user-1',
+      fileName: 'tela.png',
+      mimeType: 'image/png',
+      size: PNG.length,
+      checksum,
+      storageKey,
+    });
+    expect(storage.put).toHaveBeenCalledWith(storageKey, PNG, 'image/png');
+  });
+
+  it('retorna o anexo existente quando o mesmo arquivo já está na tarefa', async () => {
+    const existing = makeAttachment();
+    const repo = makeRepo({
+      createAttachment: jest.fn().mockResolvedValue({ attachment: existing, created: false }),
+    });
+    const storage = makeStorage();
+    const result = await makeService(repo, storage).uploadAttachment(SCOPE, makeFile(), 'user-1');
+
+    expect(result).toBe(existing);
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+});
+
+// ── downloadAttachment ─────────────────────────────────────────────────────────
+
+describe('AnexoService.downloadAttachment', () => {
+  it('lança NotFoundException quando o anexo não pertence à tarefa', async () => {
+    const repo = makeRepo({ findAttachment: jest.fn().mockResolvedValue(null) });
+    const storage = makeStorage();
+    await expect(makeService(repo, storage).downloadAttachment(SCOPE, 'att-x')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(storage.get).not.toHaveBeenCalled();
+  });
+
+  it('retorna os metadados e o stream lido do armazenamento', async () => {
+    const storage = makeStorage();
+    const { attachment, stream } = await makeService(makeRepo(), storage).downloadAttachment(
+      SCOPE,
+      'att-1',
+    );
+    expect(storage.get).toHaveBeenCalledWith(attachment.storageKey);
+    expect(stream).toBeInstanceOf(Readable);
+  });
+});
+
+// ── deleteAttachment ───────────────────────────────────────────────────────────
+
+describe('AnexoService.deleteAttachment', () => {
+  it('lança NotFoundException quando o anexo não existe', async () => {
+    const repo = makeRepo({ findAttachment: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).deleteAttachment(SCOPE, 'att-x', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.softDeleteAttachment).not.toHaveBeenCalled();
+  });
+
+  it('remove o objeto do armazenamento só depois do soft delete', async () => {
+    const repo = makeRepo();
+    const storage = makeStorage();
+    await makeService(repo, storage).deleteAttachment(SCOPE, 'att-1', 'user-1');
+    expect(repo.softDeleteAttachment).toHaveBeenCalledWith('att-1');
+    expect(storage.delete).toHaveBeenCalledWith(makeAttachment().storageKey);
+    expect(repo.softDeleteAttachment.mock.invocationCallOrder[0]).toBeLessThan(
+      storage.delete.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('mantém o objeto quando o soft delete falha', async () => {
+    const repo = makeRepo({ softDeleteAttachment: jest.fn().mockRejectedValue(new Error('db')) });
+    const storage = makeStorage();
+    await expect(
+      makeService(repo, storage).deleteAttachment(SCOPE, 'att-1', 'user-1'),
+    ).rejects.toThrow('db');
+    expect(repo.releaseStoredObject).not.toHaveBeenCalled();
+    expect(storage.delete).not.toHaveBeenCalled();
+  });
+
+  it('não falha a remoção quando o objeto não pode ser apagado', async () => {
+    const storage = makeStorage();
+    storage.delete.mockRejectedValue(new Error('storage down'));
+    await expect(
+      makeService(makeRepo(), storage).deleteAttachment(SCOPE, 'att-1', 'user-1'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import * as path from 'path';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { AnexoRepository } from './anexo.repository';
+import { ALLOWED_MIME_TYPES, matchesMimeType } from './file-types';
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver';
+
+/** Arquivo recebido pelo FileInterceptor (armazenamento em memória do multer) */
+export interface UploadedAttachment {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/** Tamanho máximo de um anexo em bytes (ATTACHMENT_MAX_SIZE_MB, padrão 10 MB) */
+export function maxAttachmentBytes(configService: ConfigService) {
+  return Number(configService.get('ATTACHMENT_MAX_SIZE_MB', 10)) * 1024 * 1024;
+}
+
+@Injectable()
+export class AnexoService {
+  constructor(
+    private readonly repo: AnexoRepository,
+    @Inject(STORAGE_DRIVER)
+    private readonly storage: StorageDriver,
+    private readonly configService: ConfigService,
+    @InjectPinoLogger(AnexoService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se a tarefa não existir no projeto/workspace/empresa da rota */
+  private async assertTask(scope: TaskScope) {
+    const task = await this.repo.findTask(
+      scope.taskId,
+      scope.projectId,
+      scope.workspaceId,
+      scope.companyId,
+    );
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+    return task;
+  }
+
+  private async assertAttachment(scope: TaskScope, attachmentId: string) {
+    const attachment = await this.repo.findAttachment(attachmentId, scope.taskId);
+    if (!attachment) {
+      throw new NotFoundException('Anexo não encontrado');
+    }
+    return attachment;
+  }
+
+  /** Valida tamanho e tipo; o tipo declarado precisa corresponder ao conteúdo do arquivo */
+  private assertFile(file: UploadedAttachment | undefined): asserts file is UploadedAttachment {
+    if (!file) {
+      throw new BadRequestException('Envie o arquivo no campo "file"');
+    }
+    if (file.size === 0) {
+      throw new BadRequestException('O arquivo está vazio');
+    }
+
+    const maxBytes = maxAttachmentBytes(this.configService);
+    if (file.size > maxBytes) {
+      throw new PayloadTooLargeException(
+        `O arquivo excede o limite de ${Math.floor(maxBytes / (1024 * 1024))} MB`,
+      );
+    }
+
+    const mimeType = normalizeMimeType(file.mimetype);
+    if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+      throw new UnsupportedMediaTypeException('Tipo de arquivo não permitido');
+    }
+    if (!matchesMimeType(mimeType, file.buffer)) {
+      throw new UnsupportedMediaTypeException(
+        'O conteúdo do arquivo não corresponde ao tipo informado',
+      );
+    }
+  }
+
+  // ── Anexos ────────────────────────────────────────────────────────────────────
+
+  /**
+   * Anexa o arquivo à tarefa. O conteúdo é endereçado pelo SHA-256: reenviar o mesmo arquivo
+   * para a tarefa retorna o anexo existente, e arquivos iguais em tarefas diferentes
+   * compartilham o mesmo objeto no armazenamento.
+   */
+  async uploadAttachment(
+    scope: TaskScope,
+    file: UploadedAttachment | undefined,
+    uploadedById: string,
+  ) {
+    await this.assertTask(scope);
+    this.assertFile(file);
+
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+
+    const mimeType = normalizeMimeType(file.mimetype);
+    const storageKey = `attachments/${checksum.slice(0, 2)}/${checksum}`;
+
+    const { attachment, created } = await this.repo.createAttachment(
+      {
+        taskId: scope.taskId,
+        uploadedById,
+        fileName: sanitizeFileName(file.originalname),
+        mimeType,
+        size: file.size,
+        checksum,
+        storageKey,
+      },
+      () => this.storage.put(storageKey, file.buffer, mimeType),
+    );
+
+    if (!created) {
+      this.logger.info(
+        { taskId: scope.taskId, attachmentId: attachment.id, uploadedById },
+        'Task attachment deduplicated',
+      );
+      return attachment;
+    }
+
+    this.logger.info(
+      {
+        taskId: scope.taskId,
+        attachmentId: attachment.id,
+        mimeType,
+        size: file.size,
+        uploadedById,
+      },
+      'Task attachment uploaded',
+    );
+    return attachment;
+  }
+
+  async listAttachments(scope: TaskScope) {
+    await this.assertTask(scope);
+    return this.repo.findAttachments(scope.taskId);
+  }
+
+  /** Metadados do anexo e o stream do conteúdo, lido do armazenamento sob demanda */
+  async downloadAttachment(scope: TaskScope, attachmentId: string) {
+    await this.assertTask(scope);
+    const attachment = await this.assertAttachment(scope, attachmentId);
+
+    const stream = await this.storage.get(attachment.storageKey);
+    return { attachment, stream };
+  }
+
+  async deleteAttachment(scope: TaskScope, attachmentId: string, performedById: string) {
+    await this.assertTask(scope);
+    const attachment = await this.assertAttachment(scope, attachmentId);
+
+    await this.repo.softDeleteAttachment(attachment.id);
+    this.logger.info(
+      { taskId: scope.taskId, attachmentId, performedById },
+      'Task attachment soft-deleted',
+    );
+
+    // O anexo já foi removido: uma falha aqui só deixa o objeto órfão no armazenamento
+    await this.repo
+      .releaseStoredObject(attachment, () => this.storage.delete(attachment.storageKey))
+      .catch((err: unknown) => {
+        this.logger.error(
+          { attachmentId, storageKey: attachment.storageKey, err },
+          'Failed to release attachment content',
+        );
+      });
+  }
+}
+
+/** "Image/PNG; charset=x" → "image/png" */
+function normalizeMimeType(mimeType: string) {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+/** Mantém apenas o nome do arquivo, sem caminho nem caracteres de controle */
+function sanitizeFileName(name: string) {
+  const base = path.basename(name.replace(/\\/g, '/'));
+  // eslint-disable-next-line no-control-regex
+  const clean = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return clean.slice(-255) || 'arquivo';
+}
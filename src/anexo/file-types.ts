@@ -0,0 +1,45 @@
+/**
+ * Tipos aceitos como anexo. O tipo declarado pelo cliente só é aceito quando o conteúdo
+ * confere: binários pela assinatura (magic bytes), texto pela ausência de bytes nulos.
+ */
+const SIGNATURES: Record<string, (file: Buffer) => boolean> = {
+  'image/png': (f) => startsWith(f, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/jpeg': (f) => startsWith(f, [0xff, 0xd8, 0xff]),
+  'image/gif': (f) =>
+    f
+      .subarray(0, 6)
+      .toString('latin1')
+      .match(/^GIF8[79]a$/) !== null,
+  'image/webp': (f) =>
+    f.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    f.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': (f) => f.subarray(0, 5).toString('latin1') === '%PDF-',
+  // Formatos do Office são pacotes zip
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': isZip,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': isZip,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': isZip,
+  'application/zip': isZip,
+  'text/plain': isText,
+  'text/csv': isText,
+  'text/markdown': isText,
+};
+
+export const ALLOWED_MIME_TYPES = Object.keys(SIGNATURES);
+
+/** true se o tipo é aceito e o conteúdo do arquivo corresponde a ele */
+export function matchesMimeType(mimeType: string, file: Buffer): boolean {
+  const check = SIGNATURES[mimeType];
+  return !!check && check(file);
+}
+
+function startsWith(file: Buffer, bytes: number[]) {
+  return file.length >= bytes.length && bytes.every((b, i) => file[i] === b);
+}
+
+function isZip(file: Buffer) {
+  return startsWith(file, [0x50, 0x4b, 0x03, 0x04]);
+}
+
+function isText(file: Buffer) {
+  return !file.subarray(0, 8192).includes(0);
+}
@@ -0,0 +1,49 @@
+import { NotFoundException } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageDriver } from './local-storage.driver';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+async function readAll(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+let root: string;
+let driver: LocalStorageDriver;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  driver = new LocalStorageDriver(root);
+});
+
+afterEach(() => fs.rm(root, { recursive: true, force: true }));
+
+// ── LocalStorageDriver ─────────────────────────────────────────────────────────
+
+describe('LocalStorageDriver', () => {
+  it('grava, lê e remove arquivos sob o diretório raiz', async () => {
+    const body = Buffer.from('conteúdo');
+
+    await driver.put('attachments/ab/abc123', body);
+    expect(await fs.readFile(path.join(root, 'attachments/ab/abc123'))).toEqual(body);
+    expect(await readAll(await driver.get('attachments/ab/abc123'))).toEqual(body);
+
+    await driver.delete('attachments/ab/abc123');
+    await expect(driver.get('attachments/ab/abc123')).rejects.toThrow(NotFoundException);
+  });
+
+  it('não falha ao remover arquivo inexistente', async () => {
+    await expect(driver.delete('attachments/xx/missing')).resolves.toBeUndefined();
+  });
+
+  it('recusa chaves que saem do diretório raiz', async () => {
+    await expect(driver.put('../fora', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+  });
+});
@@ -0,0 +1,48 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver';
+
+/** Grava os objetos como arquivos sob um diretório raiz (STORAGE_LOCAL_DIR) */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Grava em arquivo temporário e renomeia, para que leituras nunca vejam um arquivo parcial
+    const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpPath, body);
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new NotFoundException('Arquivo não encontrado no armazenamento');
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /** Caminho absoluto da chave, recusando qualquer tentativa de sair do diretório raiz */
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
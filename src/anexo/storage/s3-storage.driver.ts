@@ -0,0 +1,193 @@
+import { BadGatewayException, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PinoLogger } from 'nestjs-pino';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { StorageDriver } from './storage-driver';
+
+const HTTP_TIMEOUT_MS = 30 * 1000;
+const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+export interface S3StorageOptions {
+  /** Ex.: https://s3.us-east-1.amazonaws.com ou http://localhost:9000 (MinIO) */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Endereça o bucket no caminho (/bucket/chave) em vez do host — exigido pelo MinIO */
+  forcePathStyle: boolean;
+}
+
+/**
+ * Driver para serviços compatíveis com a API do S3 (AWS, MinIO, R2...), usando
+ * PUT/GET/DELETE de objetos assinados com AWS Signature Version 4.
+ */
+export class S3StorageDriver implements StorageDriver {
+  constructor(
+    private readonly options: S3StorageOptions,
+    private readonly logger: PinoLogger,
+  ) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType });
+    if (!response.ok) {
+      throw await this.failure('put', key, response);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new NotFoundException('Arquivo não encontrado no armazenamento');
+    }
+    if (!response.ok || !response.body) {
+      throw await this.failure('get', key, response);
+    }
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw await this.failure('delete', key, response);
+    }
+  }
+
+  private objectUrl(key: string) {
+    const endpoint = new URL(this.options.endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+    if (this.options.forcePathStyle) {
+      endpoint.pathname = `${endpoint.pathname.replace(/\/+$/, '')}/${this.options.bucket}/${encodedKey}`;
+    } else {
+      endpoint.hostname = `${this.options.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `/${encodedKey}`;
+    }
+    return endpoint;
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ) {
+    const url = this.objectUrl(key);
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': toAmzDate(new Date()),
+    };
+    headers.authorization = signV4({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+    });
+
+    // O fetch define o host a partir da URL e não aceita o cabeçalho explícito
+    const requestHeaders = { ...headers };
+    delete requestHeaders.host;
+    try {
+      return await fetch(url, {
+        method,
+        headers: requestHeaders,
+        body: body && new Uint8Array(body),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+    } catch (err: unknown) {
+      this.logger.error({ method, key, err }, 'Object storage unreachable');
+      throw new BadGatewayException('Armazenamento de arquivos indisponível');
+    }
+  }
+
+  private async failure(operation: string, key: string, response: Response) {
+    const detail = await response.text().catch(() => '');
+    this.logger.error(
+      { operation, key, status: response.status, detail: detail.slice(0, 500) },
+      'Object storage request failed',
+    );
+    return new BadGatewayException('Armazenamento de arquivos indisponível');
+  }
+}
+
+/**
+ * Calcula o cabeçalho Authorization (AWS4-HMAC-SHA256) assinando todos os cabeçalhos
+ * informados. Os nomes dos cabeçalhos devem estar em minúsculas e incluir host e x-amz-date.
+ */
+export function signV4(params: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}): string {
+  const amzDate = params.headers['x-amz-date'];
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${params.region}/s3/aws4_request`;
+
+  const names = Object.keys(params.headers).sort();
+  const canonicalHeaders = names
+    .map((name) => `${name}:${params.headers[name].trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalQuery = [...params.url.searchParams]
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    params.method,
+    params.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    params.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = hmac(`AWS4${params.secretAccessKey}`, date);
+  for (const part of [params.region, 's3', 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return (
+    `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  );
+}
+
+function hmac(key: string | Buffer, value: string) {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+function sha256Hex(value: string | Buffer) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/** 20130524T000000Z */
+function toAmzDate(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/** encodeURIComponent também escapa !'()* — exigido pela forma canônica da assinatura */
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
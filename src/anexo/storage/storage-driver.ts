@@ -0,0 +1,16 @@
+import { Readable } from 'stream';
+
+/** Token de injeção do driver de armazenamento configurado em STORAGE_DRIVER */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Armazenamento de objetos binários por chave. As chaves são geradas pela aplicação
+ * (nunca pelo cliente) e usam "/" como separador.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Lança NotFoundException se o objeto não existir */
+  get(key: string): Promise<Readable>;
+  /** Não falha se o objeto já tiver sido removido */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver';
+
+/** Seleciona o driver pela variável STORAGE_DRIVER (local | s3) */
+export const storageDriverProvider: Provider = {
+  provide: STORAGE_DRIVER,
+  inject: [ConfigService, PinoLogger],
+  useFactory: (configService: ConfigService, logger: PinoLogger): StorageDriver => {
+    const driver = configService.get<string>('STORAGE_DRIVER', 'local');
+
+    if (driver === 's3') {
+      logger.setContext(S3StorageDriver.name);
+      return new S3StorageDriver(
+        {
+          endpoint: configService.getOrThrow<string>('S3_ENDPOINT'),
+          region: configService.get<string>('S3_REGION', 'us-east-1'),
+          bucket: configService.getOrThrow<string>('S3_BUCKET'),
+          accessKeyId: configService.getOrThrow<string>('S3_ACCESS_KEY_ID'),
+          secretAccessKey: configService.getOrThrow<string>('S3_SECRET_ACCESS_KEY'),
+          forcePathStyle: configService.get<string>('S3_FORCE_PATH_STYLE', 'false') === 'true',
+        },
+        logger,
+      );
+    }
+
+    if (driver !== 'local') {
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+    }
+    return new LocalStorageDriver(configService.get<string>('STORAGE_LOCAL_DIR', './storage'));
+  },
+};
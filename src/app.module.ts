@@ -2,15 +2,30 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_FILTER, APP_GUARD, HttpAdapterHost } from '@nestjs/core';
 import { Logger, LoggerModule } from 'nestjs-pino';
+import { AnexoModule } from './anexo/anexo.module';
 import { AuthModule } from './auth/auth.module';
+import { ImpersonationGuard } from './auth/guards/impersonation.guard';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { PasswordResetGuard } from './auth/guards/password-reset.guard';
+import { ChecklistModule } from './checklist/checklist.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { ComentarioModule } from './comentario/comentario.module';
+import { ConviteModule } from './convite/convite.module';
 import { EmpresaModule } from './empresa/empresa.module';
+import { EtiquetaModule } from './etiqueta/etiqueta.module';
 import { HealthModule } from './health/health.module';
 import { MailerModule } from './mailer/mailer.module';
 import { MeModule } from './me/me.module';
+import { PapelModule } from './papel/papel.module';
+import { PermissionGuard } from './policy/guards/permission.guard';
+import { PolicyModule } from './policy/policy.module';
 import { PrismaModule } from './prisma/prisma.module';
+import { ProjetoModule } from './projeto/projeto.module';
+import { SsoModule } from './sso/sso.module';
 import { SuperadminModule } from './superadmin/superadmin.module';
+import { TarefaModule } from './tarefa/tarefa.module';
+import { VinculoModule } from './vinculo/vinculo.module';
+import { WorkspaceModule } from './workspace/workspace.module';
 
 @Module({
   imports: [
@@ -26,6 +41,8 @@ import { SuperadminModule } from './superadmin/superadmin.module';
         const level = config.get<string>('LOG_LEVEL', isDev ? 'debug' : 'info');
 
         return {
+          // Campos adicionados com PinoLogger.assign (ex.: impersonatorId) também vão para o log de resposta
+          assignResponse: true,
           pinoHttp: {
             level,
             // Gera um requestId UUID para cada request — usado para correlação no Grafana
@@ -66,15 +83,39 @@ import { SuperadminModule } from './superadmin/superadmin.module';
     MailerModule,
     HealthModule,
     AuthModule,
+    PolicyModule,
     SuperadminModule,
     EmpresaModule,
+    PapelModule,
+    ConviteModule,
     MeModule,
+    ProjetoModule,
+    TarefaModule,
+    ComentarioModule,
+    AnexoModule,
+    EtiquetaModule,
+    ChecklistModule,
+    VinculoModule,
+    WorkspaceModule,
+    SsoModule,
   ],
   providers: [
     {
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: PasswordResetGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ImpersonationGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: PermissionGuard,
+    },
     {
       provide: APP_FILTER,
       useFactory: (httpAdapterHost: HttpAdapterHost, logger: Logger) =>
@@ -0,0 +1,230 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthThrottleAction } from '../generated/prisma/client';
+import { AuthRepository } from './auth.repository';
+import { AuthThrottleService } from './auth-throttle.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function makeRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'throttle-1',
+    action: AuthThrottleAction.login,
+    key: 'account:test@example.com',
+    attempts: 1,
+    lastAttemptAt: NOW,
+    lockedUntil: null as Date | null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeRepo(overrides: Partial<Record<keyof AuthRepository, jest.Mock>> = {}) {
+  return {
+    findThrottles: jest.fn().mockResolvedValue([]),
+    registerThrottleAttempt: jest.fn().mockResolvedValue(makeRecord()),
+    lockThrottle: jest.fn().mockResolvedValue({}),
+    deleteThrottle: jest.fn().mockResolvedValue({ count: 1 }),
+    ...overrides,
+  } as unknown as jest.Mocked<AuthRepository>;
+}
+
+function makeService(repo: jest.Mocked<AuthRepository>) {
+  const configService = {
+    get: jest.fn((_key: string, fallback?: unknown) => fallback),
+  } as unknown as ConfigService;
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+  return new AuthThrottleService(repo, configService, logger as any);
+}
+
+async function catchHttp(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (err) {
+    return err as HttpException;
+  }
+  throw new Error('esperava exceção');
+}
+
+beforeEach(() => jest.useFakeTimers({ now: NOW }));
+afterEach(() => jest.useRealTimers());
+
+// ── assertLoginAllowed ─────────────────────────────────────────────────────────
+
+describe('AuthThrottleService.assertLoginAllowed', () => {
+  it('permite quando não há registros', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(
+      service.assertLoginAllowed('Test@Example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+    expect(repo.findThrottles).toHaveBeenCalledWith(AuthThrottleAction.login, [
+      'account:test@example.com',
+      'ip:10.0.0.1',
+    ]);
+  });
+
+  it('lança 423 com retryAfter quando a conta está bloqueada', async () => {
+    const repo = makeRepo({
+      findThrottles: jest
+        .fn()
+        .mockResolvedValue([
+          makeRecord({ attempts: 10, lockedUntil: new Date(NOW.getTime() + 90_000) }),
+        ]),
+    });
+    const err = await catchHttp(makeService(repo).assertLoginAllowed('test@example.com'));
+    expect(err.getStatus()).toBe(HttpStatus.LOCKED);
+    expect(err.getResponse()).toEqual(expect.objectContaining({ retryAfter: 90 }));
+  });
+
+  it('lança 429 quando o IP está bloqueado', async () => {
+    const repo = makeRepo({
+      findThrottles: jest.fn().mockResolvedValue([
+        makeRecord({
+          key: 'ip:10.0.0.1',
+          attempts: 50,
+          lockedUntil: new Date(NOW.getTime() + 60_000),
+        }),
+      ]),
+    });
+    const err = await catchHttp(
+      makeService(repo).assertLoginAllowed('test@example.com', '10.0.0.1'),
+    );
+    expect(err.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  });
+
+  it('exige espera progressiva a partir da terceira falha', async () => {
+    const repo = makeRepo({
+      findThrottles: jest
+        .fn()
+        .mockResolvedValue([
+          makeRecord({ attempts: 5, lastAttemptAt: new Date(NOW.getTime() - 1_000) }),
+        ]),
+    });
+    const err = await catchHttp(makeService(repo).assertLoginAllowed('test@example.com'));
+    expect(err.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(err.getResponse()).toEqual(expect.objectContaining({ retryAfter: 3 }));
+  });
+
+  it('permite depois que a espera progressiva passou', async () => {
+    const repo = makeRepo({
+      findThrottles: jest
+        .fn()
+        .mockResolvedValue([
+          makeRecord({ attempts: 5, lastAttemptAt: new Date(NOW.getTime() - 5_000) }),
+        ]),
+    });
+    await expect(makeService(repo).assertLoginAllowed('test@example.com')).resolves.toBeUndefined();
+  });
+
+  it('ignora falhas fora da janela e bloqueios expirados', async () => {
+    const repo = makeRepo({
+      findThrottles: jest.fn().mockResolvedValue([
+        makeRecord({
+          attempts: 10,
+          lastAttemptAt: new Date(NOW.getTime() - 20 * 60_000),
+          lockedUntil: new Date(NOW.getTime() - 5 * 60_000),
+        }),
+      ]),
+    });
+    await expect(makeService(repo).assertLoginAllowed('test@example.com')).resolves.toBeUndefined();
+  });
+});
+
+// ── recordLoginFailure ─────────────────────────────────────────────────────────
+
+describe('AuthThrottleService.recordLoginFailure', () => {
+  it('registra a falha para a conta e para o IP', async () => {
+    const repo = makeRepo();
+    await makeService(repo).recordLoginFailure('test@example.com', '10.0.0.1');
+    expect(repo.registerThrottleAttempt).toHaveBeenCalledWith(
+      AuthThrottleAction.login,
+      'account:test@example.com',
+      expect.any(Date),
+    );
+    expect(repo.registerThrottleAttempt).toHaveBeenCalledWith(
+      AuthThrottleAction.login,
+      'ip:10.0.0.1',
+      expect.any(Date),
+    );
+    expect(repo.lockThrottle).not.toHaveBeenCalled();
+  });
+
+  it('bloqueia a conta ao atingir o limite de falhas', async () => {
+    const repo = makeRepo({
+      registerThrottleAttempt: jest.fn().mockResolvedValue(makeRecord({ attempts: 10 })),
+    });
+    await makeService(repo).recordLoginFailure('test@example.com');
+    expect(repo.lockThrottle).toHaveBeenCalledWith(
+      'throttle-1',
+      new Date(NOW.getTime() + 15 * 60_000),
+    );
+  });
+
+  it('não estende bloqueio já vigente', async () => {
+    const repo = makeRepo({
+      registerThrottleAttempt: jest
+        .fn()
+        .mockResolvedValue(
+          makeRecord({ attempts: 11, lockedUntil: new Date(NOW.getTime() + 60_000) }),
+        ),
+    });
+    await makeService(repo).recordLoginFailure('test@example.com');
+    expect(repo.lockThrottle).not.toHaveBeenCalled();
+  });
+
+  it('usa limite maior para o IP', async () => {
+    const repo = makeRepo({
+      registerThrottleAttempt: jest
+        .fn()
+        .mockResolvedValue(makeRecord({ key: 'ip:10.0.0.1', attempts: 10 })),
+    });
+    await makeService(repo).recordLoginFailure('test@example.com', '10.0.0.1');
+    // 10 falhas bloqueiam a conta, mas não o IP
+    expect(repo.lockThrottle).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── unlockAccount ──────────────────────────────────────────────────────────────
+
+describe('AuthThrottleService.unlockAccount', () => {
+  it('remove o registro de falhas da conta', async () => {
+    const repo = makeRepo();
+    await makeService(repo).unlockAccount('Test@Example.com', 'super-1');
+    expect(repo.deleteThrottle).toHaveBeenCalledWith(
+      AuthThrottleAction.login,
+      'account:test@example.com',
+    );
+  });
+});
+
+// ── assertForgotPasswordAllowed ────────────────────────────────────────────────
+
+describe('AuthThrottleService.assertForgotPasswordAllowed', () => {
+  it('permite dentro do limite', async () => {
+    const repo = makeRepo({
+      registerThrottleAttempt: jest.fn().mockResolvedValue(makeRecord({ attempts: 3 })),
+    });
+    await expect(
+      makeService(repo).assertForgotPasswordAllowed('test@example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+    expect(repo.registerThrottleAttempt).toHaveBeenCalledWith(
+      AuthThrottleAction.forgot_password,
+      'account:test@example.com',
+      expect.any(Date),
+    );
+  });
+
+  it('lança 429 acima do limite por conta', async () => {
+    const repo = makeRepo({
+      registerThrottleAttempt: jest.fn().mockResolvedValue(makeRecord({ attempts: 4 })),
+    });
+    const err = await catchHttp(makeService(repo).assertForgotPasswordAllowed('test@example.com'));
+    expect(err.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(err.getResponse()).toEqual(expect.objectContaining({ retryAfter: 3600 }));
+  });
+});
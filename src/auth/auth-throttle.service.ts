@@ -0,0 +1,184 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { AuthThrottleAction } from '../generated/prisma/client';
+import { AuthRepository } from './auth.repository';
+
+/** Falhas toleradas antes de começar a exigir espera entre tentativas */
+const PROGRESSIVE_DELAY_AFTER = 3;
+const MAX_PROGRESSIVE_DELAY_SECONDS = 60;
+
+const ACCOUNT_PREFIX = 'account:';
+const IP_PREFIX = 'ip:';
+
+/**
+ * Limita tentativas de login e de recuperação de senha por conta (email) e por IP.
+ * Os contadores ficam no Postgres para valer entre instâncias.
+ */
+@Injectable()
+export class AuthThrottleService {
+  constructor(
+    private readonly repo: AuthRepository,
+    private readonly configService: ConfigService,
+    @InjectPinoLogger(AuthThrottleService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  // ── Login ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Lança 423 se a conta estiver bloqueada, ou 429 se o IP estiver bloqueado ou se a
+   * espera progressiva desde a última falha ainda não passou.
+   */
+  async assertLoginAllowed(email: string, ipAddress?: string): Promise<void> {
+    const now = Date.now();
+    const windowStart = this.windowStart('LOGIN_FAILURE_WINDOW_MINUTES', 15);
+    const records = await this.repo.findThrottles(
+      AuthThrottleAction.login,
+      this.keys(email, ipAddress),
+    );
+
+    for (const record of records) {
+      const isAccount = record.key.startsWith(ACCOUNT_PREFIX);
+
+      if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+        const retryAfter = this.toSeconds(record.lockedUntil.getTime() - now);
+        throw isAccount
+          ? new HttpException(
+              {
+                message:
+                  'Conta temporariamente bloqueada por excesso de tentativas. Tente novamente mais tarde.',
+                retryAfter,
+              },
+              HttpStatus.LOCKED,
+            )
+          : this.tooManyRequests(retryAfter);
+      }
+
+      if (record.lastAttemptAt < windowStart) {
+        continue;
+      }
+
+      const retryAt = record.lastAttemptAt.getTime() + this.progressiveDelayMs(record.attempts);
+      if (retryAt > now) {
+        throw this.tooManyRequests(this.toSeconds(retryAt - now));
+      }
+    }
+  }
+
+  /** Conta uma falha para a conta e o IP, bloqueando quem atingir o limite */
+  async recordLoginFailure(email: string, ipAddress?: string): Promise<void> {
+    const windowStart = this.windowStart('LOGIN_FAILURE_WINDOW_MINUTES', 15);
+    const lockoutMinutes = this.numberConfig('LOGIN_LOCKOUT_MINUTES', 15);
+
+    for (const key of this.keys(email, ipAddress)) {
+      const record = await this.repo.registerThrottleAttempt(
+        AuthThrottleAction.login,
+        key,
+        windowStart,
+      );
+
+      const isAccount = key.startsWith(ACCOUNT_PREFIX);
+      const maxFailures = isAccount
+        ? this.numberConfig('LOGIN_MAX_FAILURES_PER_ACCOUNT', 10)
+        : this.numberConfig('LOGIN_MAX_FAILURES_PER_IP', 50);
+
+      const alreadyLocked = record.lockedUntil !== null && record.lockedUntil > new Date();
+      if (record.attempts >= maxFailures && !alreadyLocked) {
+        const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+        await this.repo.lockThrottle(record.id, lockedUntil);
+        this.logger.warn(
+          { scope: isAccount ? 'account' : 'ip', key, attempts: record.attempts, lockedUntil },
+          'Login locked after repeated failures',
+        );
+      }
+    }
+  }
+
+  async resetLoginFailures(email: string): Promise<void> {
+    await this.repo.deleteThrottle(AuthThrottleAction.login, this.accountKey(email));
+  }
+
+  /** Remove o bloqueio e zera as falhas da conta — usado pelo superadmin */
+  async unlockAccount(email: string, performedById: string): Promise<void> {
+    await this.repo.deleteThrottle(AuthThrottleAction.login, this.accountKey(email));
+    this.logger.info({ email, performedById }, 'Account login unlocked');
+  }
+
+  // ── Recuperação de senha ──────────────────────────────────────────────────────
+
+  /**
+   * Conta o pedido de recuperação para o email e o IP e lança 429 acima do limite.
+   * Vale para emails existentes ou não, para não revelar quais contas existem.
+   */
+  async assertForgotPasswordAllowed(email: string, ipAddress?: string): Promise<void> {
+    const windowMinutes = this.numberConfig('FORGOT_PASSWORD_WINDOW_MINUTES', 60);
+    const windowStart = this.windowStart('FORGOT_PASSWORD_WINDOW_MINUTES', 60);
+
+    for (const key of this.keys(email, ipAddress)) {
+      const record = await this.repo.registerThrottleAttempt(
+        AuthThrottleAction.forgot_password,
+        key,
+        windowStart,
+      );
+
+      const isAccount = key.startsWith(ACCOUNT_PREFIX);
+      const maxRequests = isAccount
+        ? this.numberConfig('FORGOT_PASSWORD_MAX_PER_ACCOUNT', 3)
+        : this.numberConfig('FORGOT_PASSWORD_MAX_PER_IP', 20);
+
+      if (record.attempts > maxRequests) {
+        this.logger.warn(
+          { scope: isAccount ? 'account' : 'ip', key, attempts: record.attempts },
+          'Password reset requests throttled',
+        );
+        throw this.tooManyRequests(windowMinutes * 60);
+      }
+    }
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────────
+
+  private keys(email: string, ipAddress?: string) {
+    const keys = [this.accountKey(email)];
+    if (ipAddress) {
+      keys.push(`${IP_PREFIX}${ipAddress}`);
+    }
+    return keys;
+  }
+
+  private accountKey(email: string) {
+    return `${ACCOUNT_PREFIX}${email.trim().toLowerCase()}`;
+  }
+
+  /** 0 até PROGRESSIVE_DELAY_AFTER falhas; depois 1s, 2s, 4s… limitado a MAX_PROGRESSIVE_DELAY_SECONDS */
+  private progressiveDelayMs(attempts: number) {
+    if (attempts < PROGRESSIVE_DELAY_AFTER) {
+      return 0;
+    }
+    const seconds = Math.min(
+      2 ** (attempts - PROGRESSIVE_DELAY_AFTER),
+      MAX_PROGRESSIVE_DELAY_SECONDS,
+    );
+    return seconds * 1000;
+  }
+
+  private tooManyRequests(retryAfter: number) {
+    return new HttpException(
+      { message: 'Muitas tentativas. Aguarde antes de tentar novamente.', retryAfter },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private windowStart(key: string, fallbackMinutes: number) {
+    return new Date(Date.now() - this.numberConfig(key, fallbackMinutes) * 60 * 1000);
+  }
+
+  private numberConfig(key: string, fallback: number) {
+    return Number(this.configService.get<number>(key, fallback));
+  }
+
+  private toSeconds(ms: number) {
+    return Math.max(1, Math.ceil(ms / 1000));
+  }
+}
@@ -2,8 +2,10 @@ import {
   Body,
   Controller,
   Get,
+  Headers,
   HttpCode,
   HttpStatus,
+  Ip,
   Param,
   Post,
   Query,
@@ -11,21 +13,31 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { AuthService } from './auth.service';
+import { AuthService, LoginUser } from './auth.service';
+import { AllowPendingPasswordReset } from './decorators/allow-pending-password-reset.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
+import { DenyImpersonation } from './decorators/deny-impersonation.decorator';
 import { Public } from './decorators/public.decorator';
 import { ConsumeFirstAccessDto } from './dto/consume-first-access.dto';
 import { ConfirmResetPasswordDto } from './dto/confirm-reset-password.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { AuthUser } from './strategies/jwt.strategy';
+import { TwoFactorService } from './two-factor.service';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @Public()
   @UseGuards(LocalAuthGuard)
@@ -33,32 +45,150 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Login com email e senha' })
   @ApiBody({ type: LoginDto })
-  @ApiResponse({ status: 200, description: 'JWT retornado com dados do usuário' })
+  @ApiResponse({
+    status: 200,
+    description: 'JWT retornado com dados do usuário, ou challengeToken quando há 2FA',
+  })
   @ApiResponse({ status: 401, description: 'Credenciais inválidas' })
-  login(@Request() req: { user: AuthUser }) {
-    return this.authService.login(req.user);
+  login(
+    @Request() req: { user: LoginUser & { totpEnabledAt: Date | null } },
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.twoFactorService.loginWithPassword(req.user, { userAgent, ipAddress });
+  }
+
+  // ── 2FA ──────────────────────────────────────────────────────────────────────
+
+  @Public()
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Segundo passo do login — código TOTP ou de recuperação' })
+  @ApiResponse({ status: 200, description: 'JWT retornado com dados do usuário' })
+  @ApiResponse({ status: 401, description: 'Desafio inválido/expirado ou código inválido' })
+  verifyTwoFactor(
+    @Body() dto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.twoFactorService.verifyLogin(dto.challengeToken, dto.code, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Public()
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Iniciar cadastro obrigatório de 2FA durante o login' })
+  @ApiResponse({ status: 200, description: 'Segredo e URI otpauth retornados' })
+  @ApiResponse({ status: 401, description: 'Desafio inválido ou expirado' })
+  beginTwoFactorSetup(@Body() dto: TwoFactorChallengeDto) {
+    return this.twoFactorService.beginSetup(dto.challengeToken);
+  }
+
+  @Public()
+  @Post('2fa/setup/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Concluir cadastro obrigatório de 2FA — retorna JWT e códigos' })
+  @ApiResponse({ status: 200, description: 'JWT e códigos de recuperação retornados' })
+  @ApiResponse({ status: 400, description: 'Código inválido' })
+  @ApiResponse({ status: 401, description: 'Desafio inválido ou expirado' })
+  confirmTwoFactorSetup(
+    @Body() dto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.twoFactorService.confirmSetup(dto.challengeToken, dto.code, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('2fa/enroll')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Iniciar cadastro de 2FA — retorna URI otpauth' })
+  @ApiResponse({ status: 200, description: 'Segredo e URI otpauth retornados' })
+  @ApiResponse({ status: 409, description: '2FA já está ativa' })
+  enrollTwoFactor(@CurrentUser() user: AuthUser) {
+    return this.twoFactorService.beginEnrollment(user.id);
+  }
+
+  @Post('2fa/confirm')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirmar cadastro de 2FA com o primeiro código' })
+  @ApiResponse({ status: 200, description: '2FA ativa — códigos de recuperação retornados' })
+  @ApiResponse({ status: 400, description: 'Código inválido ou nenhum cadastro em andamento' })
+  confirmTwoFactor(@CurrentUser() user: AuthUser, @Body() dto: TwoFactorCodeDto) {
+    return this.twoFactorService.confirmEnrollment(user.id, dto.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Gerar novos códigos de recuperação (invalida os anteriores)' })
+  @ApiResponse({ status: 200, description: 'Novos códigos de recuperação retornados' })
+  @ApiResponse({ status: 400, description: 'Código inválido ou 2FA inativa' })
+  regenerateRecoveryCodes(@CurrentUser() user: AuthUser, @Body() dto: TwoFactorCodeDto) {
+    return this.twoFactorService.regenerateRecoveryCodes(user.id, dto.code);
+  }
+
+  @Post('2fa/disable')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Desativar 2FA' })
+  @ApiResponse({ status: 200, description: '2FA desativada' })
+  @ApiResponse({ status: 400, description: 'Código inválido ou 2FA inativa' })
+  @ApiResponse({ status: 403, description: 'Empresa do usuário exige 2FA' })
+  async disableTwoFactor(@CurrentUser() user: AuthUser, @Body() dto: TwoFactorCodeDto) {
+    await this.twoFactorService.disable(user.id, dto.code);
+    return { message: 'ok' };
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Trocar refresh token por um novo par de tokens (rotação)' })
+  @ApiResponse({ status: 200, description: 'Novo access_token e refresh_token retornados' })
+  @ApiResponse({ status: 401, description: 'Refresh token inválido, expirado ou reutilizado' })
+  refresh(@Body() dto: RefreshTokenDto) {
+    return this.authService.refresh(dto.refreshToken);
   }
 
   @Post('logout')
   @HttpCode(HttpStatus.OK)
+  @AllowPendingPasswordReset()
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Logout (stateless — invalida sessão no cliente)' })
+  @ApiOperation({ summary: 'Logout — revoga a sessão atual e seus refresh tokens' })
   @ApiResponse({ status: 200, description: 'Logout realizado' })
   @ApiResponse({ status: 401, description: 'Token ausente ou inválido' })
-  logout() {
+  async logout(@CurrentUser() user: AuthUser) {
+    await this.authService.logout(user);
     return { message: 'ok' };
   }
 
   @Post('reset-password')
+  @DenyImpersonation()
   @HttpCode(HttpStatus.OK)
+  @AllowPendingPasswordReset()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Redefinir senha do usuário autenticado (primeiro acesso)' })
-  @ApiResponse({ status: 200, description: 'Senha redefinida com sucesso' })
+  @ApiResponse({ status: 200, description: 'Senha redefinida — novo JWT retornado' })
   @ApiResponse({ status: 400, description: 'As senhas não coincidem' })
   @ApiResponse({ status: 401, description: 'Token ausente ou inválido' })
-  async resetPassword(@CurrentUser() user: AuthUser, @Body() dto: ResetPasswordDto) {
-    await this.authService.resetPassword(user.id, dto);
-    return { message: 'ok' };
+  resetPassword(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: ResetPasswordDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.authService.resetPassword(user.id, dto, { userAgent, ipAddress });
   }
 
   @Public()
@@ -69,8 +199,8 @@ export class AuthController {
     status: 200,
     description: 'Se o email existir, um link de redefinição será enviado',
   })
-  async forgotPassword(@Body() dto: ForgotPasswordDto) {
-    await this.authService.forgotPassword(dto.email);
+  async forgotPassword(@Body() dto: ForgotPasswordDto, @Ip() ipAddress?: string) {
+    await this.authService.forgotPassword(dto.email, ipAddress);
     return { message: 'ok' };
   }
 
@@ -85,6 +215,17 @@ export class AuthController {
     return { message: 'ok' };
   }
 
+  @Public()
+  @Post('confirm-email/:token')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirmar troca de email via token enviado ao novo endereço' })
+  @ApiResponse({ status: 200, description: 'Email alterado — retorna o novo email' })
+  @ApiResponse({ status: 400, description: 'Token inválido ou expirado' })
+  @ApiResponse({ status: 409, description: 'Email já usado por outra conta' })
+  confirmEmailChange(@Param('token') token: string) {
+    return this.authService.confirmEmailChange(token);
+  }
+
   @Public()
   @Get('first-access')
   @ApiOperation({ summary: 'Validar token de primeiro acesso (sem consumir)' })
@@ -98,9 +239,17 @@ export class AuthController {
   @Post('first-access')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Consumir token de primeiro acesso — define nome e senha, retorna JWT' })
-  @ApiResponse({ status: 200, description: 'Primeiro acesso concluído — JWT retornado' })
+  @ApiResponse({
+    status: 200,
+    description: 'Primeiro acesso concluído — JWT retornado, ou challengeToken quando há 2FA',
+  })
   @ApiResponse({ status: 400, description: 'Token inválido ou expirado / senhas não coincidem' })
-  async consumeFirstAccessToken(@Query('token') token: string, @Body() dto: ConsumeFirstAccessDto) {
-    return this.authService.consumeFirstAccessToken(token, dto);
+  async consumeFirstAccessToken(
+    @Query('token') token: string,
+    @Body() dto: ConsumeFirstAccessDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.twoFactorService.loginWithFirstAccess(token, dto, { userAgent, ipAddress });
   }
 }
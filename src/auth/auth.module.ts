@@ -2,11 +2,16 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
+import { AuthThrottleService } from './auth-throttle.service';
 import { AuthController } from './auth.controller';
 import { AuthRepository } from './auth.repository';
 import { AuthService } from './auth.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PersonalAccessTokenService } from './personal-access-token.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
+import { TwoFactorService } from './two-factor.service';
 
 @Module({
   imports: [
@@ -25,7 +30,23 @@ import { LocalStrategy } from './strategies/local.strategy';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthRepository, AuthService, LocalStrategy, JwtStrategy],
-  exports: [AuthService],
+  providers: [
+    AuthRepository,
+    AuthService,
+    AuthThrottleService,
+    PasswordPolicyService,
+    PersonalAccessTokenService,
+    TwoFactorService,
+    LocalStrategy,
+    JwtStrategy,
+    PersonalAccessTokenStrategy,
+  ],
+  exports: [
+    AuthService,
+    AuthThrottleService,
+    PasswordPolicyService,
+    PersonalAccessTokenService,
+    TwoFactorService,
+  ],
 })
 export class AuthModule {}
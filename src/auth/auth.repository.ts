@@ -1,7 +1,26 @@
 import { Injectable } from '@nestjs/common';
-import { TokenType } from '../generated/prisma/client';
+import * as crypto from 'crypto';
+import { AuthThrottleAction, Prisma, ResourceType, TokenType } from '../generated/prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 
+const SESSION_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastSeenAt: true,
+} satisfies Prisma.SessionSelect;
+
+const PERSONAL_ACCESS_TOKEN_SELECT = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} satisfies Prisma.PersonalAccessTokenSelect;
+
 @Injectable()
 export class AuthRepository {
   constructor(private readonly prisma: PrismaService) {}
@@ -22,6 +41,15 @@ export class AuthRepository {
     return this.prisma.user.update({ where: { id }, data });
   }
 
+  /** Incrementa a versão de token do usuário, invalidando todos os access tokens emitidos */
+  incrementTokenVersion(id: string) {
+    return this.prisma.user.update({
+      where: { id },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true },
+    });
+  }
+
   invalidateTokensByType(userId: string, type: TokenType) {
     return this.prisma.passwordResetToken.updateMany({
       where: { userId, usedAt: null, type },
@@ -34,6 +62,7 @@ export class AuthRepository {
     tokenHash: string;
     type: TokenType;
     expiresAt: Date;
+    newEmail?: string;
   }) {
     return this.prisma.passwordResetToken.create({ data });
   }
@@ -65,7 +94,13 @@ export class AuthRepository {
     return this.prisma.$transaction([
       this.prisma.user.update({
         where: { id: userId },
-        data: { passwordHash, mustResetPassword: false, ...extraUserData },
+        data: {
+          passwordHash,
+          mustResetPassword: false,
+          tokenVersion: { increment: 1 },
+          passwordHistory: { create: { passwordHash } },
+          ...extraUserData,
+        },
       }),
       this.prisma.passwordResetToken.update({
         where: { id: tokenId },
@@ -74,12 +109,59 @@ export class AuthRepository {
     ]);
   }
 
+  findUserByEmailExcluding(email: string, excludeUserId: string) {
+    return this.prisma.user.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        id: { not: excludeUserId },
+        deletedAt: null,
+      },
+    });
+  }
+
+  /**
+   * Consome o token e aplica o novo email na mesma transação. Retorna null se o token já
+   * tiver sido usado por outra requisição. A versão de token é incrementada para que os
+   * access tokens com o email antigo sejam renovados.
+   */
+  applyEmailChange(userId: string, tokenId: string, newEmail: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      return tx.user.update({
+        where: { id: userId },
+        data: { email: newEmail, tokenVersion: { increment: 1 } },
+        select: { id: true, email: true },
+      });
+    });
+  }
+
   consumeFirstAccessToken(userId: string, tokenId: string, passwordHash: string, name: string) {
     return this.prisma.$transaction(async (tx) => {
       const user = await tx.user.update({
         where: { id: userId },
-        data: { passwordHash, mustResetPassword: false, name },
-        select: { id: true, email: true, isSuperuser: true, mustResetPassword: true },
+        data: {
+          passwordHash,
+          mustResetPassword: false,
+          name,
+          tokenVersion: { increment: 1 },
+          passwordHistory: { create: { passwordHash } },
+        },
+        select: {
+          id: true,
+          email: true,
+          isSuperuser: true,
+          mustResetPassword: true,
+          tokenVersion: true,
+          totpEnabledAt: true,
+        },
       });
 
       await tx.passwordResetToken.update({
@@ -90,4 +172,355 @@ export class AuthRepository {
       return user;
     });
   }
+
+  // ── Sessões ───────────────────────────────────────────────────────────────────
+
+  /** Abre a sessão e emite o primeiro refresh token dela na mesma transação */
+  createSessionWithRefreshToken(
+    session: { userId: string; userAgent?: string; ipAddress?: string },
+    refreshToken: { tokenHash: string; expiresAt: Date },
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.session.create({ data: session });
+      await tx.refreshToken.create({
+        data: { ...refreshToken, userId: session.userId, sessionId: created.id },
+      });
+      return created;
+    });
+  }
+
+  /** Sessão sem refresh token, aberta por um superadmin para agir como o usuário */
+  createImpersonationSession(data: {
+    userId: string;
+    impersonatorId: string;
+    userAgent?: string;
+    ipAddress?: string;
+  }) {
+    return this.prisma.session.create({ data });
+  }
+
+  findImpersonationSessions(userId: string) {
+    return this.prisma.session.findMany({
+      where: { userId, impersonatorId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        ...SESSION_SELECT,
+        revokedAt: true,
+        impersonator: { select: { id: true, name: true, email: true } },
+      },
+    });
+  }
+
+  /** Sessão com o estado do usuário necessário para validar um access token */
+  findSessionWithUser(id: string) {
+    return this.prisma.session.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        userId: true,
+        lastSeenAt: true,
+        revokedAt: true,
+        impersonatorId: true,
+        user: { select: { tokenVersion: true, isActive: true, deletedAt: true } },
+        impersonator: { select: { isSuperuser: true, isActive: true, deletedAt: true } },
+      },
+    });
+  }
+
+  /** Sessões não revogadas que ainda têm um refresh token utilizável */
+  findActiveSessions(userId: string) {
+    return this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        refreshTokens: { some: { usedAt: null, revokedAt: null, expiresAt: { gt: new Date() } } },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+      select: SESSION_SELECT,
+    });
+  }
+
+  touchSession(id: string) {
+    return this.prisma.session.update({ where: { id }, data: { lastSeenAt: new Date() } });
+  }
+
+  /**
+   * Revoga as sessões ativas do usuário (uma específica, todas menos uma, ou todas)
+   * junto com seus refresh tokens. Retorna quantas sessões foram revogadas.
+   */
+  revokeSessions(userId: string, filter: { id?: string; exceptId?: string } = {}) {
+    const where: Prisma.SessionWhereInput = { userId, revokedAt: null };
+    if (filter.id) {
+      where.id = filter.id;
+    } else if (filter.exceptId) {
+      where.id = { not: filter.exceptId };
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const sessions = await tx.session.findMany({ where, select: { id: true } });
+      const ids = sessions.map((session) => session.id);
+      if (ids.length === 0) return 0;
+
+      const now = new Date();
+      await tx.session.updateMany({ where: { id: { in: ids } }, data: { revokedAt: now } });
+      await tx.refreshToken.updateMany({
+        where: { sessionId: { in: ids }, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      return ids.length;
+    });
+  }
+
+  // ── Refresh tokens ────────────────────────────────────────────────────────────
+
+  findRefreshToken(tokenHash: string) {
+    return this.prisma.refreshToken.findUnique({ where: { tokenHash } });
+  }
+
+  /**
+   * Marca o refresh token como usado, emite o sucessor na mesma sessão e atualiza o
+   * lastSeenAt da sessão. Retorna null se o token já tiver sido consumido por outra requisição.
+   */
+  rotateRefreshToken(
+    id: string,
+    next: { userId: string; sessionId: string; tokenHash: string; expiresAt: Date },
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id, usedAt: null, revokedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (count === 0) return null;
+
+      await tx.session.update({ where: { id: next.sessionId }, data: { lastSeenAt: new Date() } });
+      return tx.refreshToken.create({ data: next });
+    });
+  }
+
+  // ── Autenticação em dois fatores ──────────────────────────────────────────────
+
+  /** Quantas empresas ativas do usuário (por qualquer vínculo) exigem 2FA */
+  async countTwoFactorEnforcingCompanies(userId: string) {
+    return this.prisma.company.count({
+      where: { ...(await this.userCompaniesWhere(userId)), requireTwoFactor: true },
+    });
+  }
+
+  /** Empresas ativas às quais o usuário pertence por membership de empresa, workspace ou projeto */
+  private async userCompaniesWhere(userId: string): Promise<Prisma.CompanyWhereInput> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId, deletedAt: null },
+      select: { resourceType: true, resourceId: true },
+    });
+
+    const idsOf = (type: ResourceType) =>
+      memberships.filter((m) => m.resourceType === type).map((m) => m.resourceId);
+
+    return {
+      isActive: true,
+      deletedAt: null,
+      OR: [
+        { id: { in: idsOf(ResourceType.company) } },
+        { workspaces: { some: { id: { in: idsOf(ResourceType.workspace) }, deletedAt: null } } },
+        {
+          workspaces: {
+            some: {
+              deletedAt: null,
+              projects: { some: { id: { in: idsOf(ResourceType.project) }, deletedAt: null } },
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  setPendingTotpSecret(userId: string, totpSecret: string) {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret, totpEnabledAt: null, totpLastUsedStep: null },
+    });
+  }
+
+  /** Ativa o 2FA e substitui os códigos de recuperação na mesma transação */
+  enableTotp(userId: string, usedStep: number, recoveryCodeHashes: string[]) {
+    return this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: new Date(), totpLastUsedStep: usedStep },
+      }),
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  disableTotp(userId: string) {
+    return this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      }),
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Registra o passo TOTP usado. Retorna false se ele (ou um posterior) já foi
+   * consumido — impede reutilizar o mesmo código dentro da janela de validade.
+   */
+  async markTotpStepUsed(userId: string, step: number) {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return count > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string) {
+    const { count } = await this.prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]) {
+    return this.prisma.$transaction([
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  // ── Tokens de acesso pessoal ──────────────────────────────────────────────────
+
+  createPersonalAccessToken(data: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: string[];
+    expiresAt: Date | null;
+  }) {
+    return this.prisma.personalAccessToken.create({
+      data,
+      select: PERSONAL_ACCESS_TOKEN_SELECT,
+    });
+  }
+
+  /** Tokens não revogados do usuário, incluindo os expirados (para o usuário poder limpá-los) */
+  findPersonalAccessTokens(userId: string) {
+    return this.prisma.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: PERSONAL_ACCESS_TOKEN_SELECT,
+    });
+  }
+
+  findPersonalAccessTokenByHash(tokenHash: string) {
+    return this.prisma.personalAccessToken.findUnique({
+      where: { tokenHash },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            isSuperuser: true,
+            mustResetPassword: true,
+            isActive: true,
+            deletedAt: true,
+          },
+        },
+      },
+    });
+  }
+
+  /** Revoga um token do usuário (id) ou todos eles; retorna quantos foram revogados */
+  async revokePersonalAccessTokens(userId: string, id?: string) {
+    const { count } = await this.prisma.personalAccessToken.updateMany({
+      where: { userId, revokedAt: null, ...(id && { id }) },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  /** Atualiza lastUsedAt somente se o último uso registrado for anterior a `before` */
+  touchPersonalAccessToken(id: string, before: Date) {
+    return this.prisma.personalAccessToken.updateMany({
+      where: { id, OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: before } }] },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  // ── Política de senha ─────────────────────────────────────────────────────────
+
+  /** Política configurada de cada empresa do usuário (null quando a empresa usa o padrão) */
+  async findUserPasswordPolicies(userId: string) {
+    const companies = await this.prisma.company.findMany({
+      where: await this.userCompaniesWhere(userId),
+      select: { passwordPolicy: true },
+    });
+    return companies.map((c) => c.passwordPolicy);
+  }
+
+  findPasswordHistory(userId: string, take: number) {
+    return this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take,
+      select: { passwordHash: true },
+    });
+  }
+
+  // ── Limite de tentativas ──────────────────────────────────────────────────────
+
+  findThrottles(action: AuthThrottleAction, keys: string[]) {
+    return this.prisma.authThrottle.findMany({ where: { action, key: { in: keys } } });
+  }
+
+  /**
+   * Registra uma tentativa para a chave. Se a última tentativa é anterior a windowStart
+   * (e não há bloqueio vigente), o contador recomeça do zero. Retorna o registro atualizado.
+   * O upsert é um único INSERT ... ON CONFLICT, para que falhas simultâneas na mesma chave
+   * nova não colidam na restrição única (action, key).
+   */
+  async registerThrottleAttempt(action: AuthThrottleAction, key: string, windowStart: Date) {
+    const now = new Date();
+    const [record] = await this.prisma.$queryRaw<
+      Array<{ id: string; attempts: number; lockedUntil: Date | null }>
+    >`
+      INSERT INTO "auth_throttles" ("id", "action", "key", "attempts", "last_attempt_at", "updated_at")
+      VALUES (${crypto.randomUUID()}, ${action}::"auth_throttle_action", ${key}, 1, ${now}, ${now})
+      ON CONFLICT ("action", "key") DO UPDATE SET
+        "attempts" = CASE
+          WHEN ("auth_throttles"."locked_until" IS NULL OR "auth_throttles"."locked_until" <= ${now})
+            AND "auth_throttles"."last_attempt_at" < ${windowStart}
+          THEN 1
+          ELSE "auth_throttles"."attempts" + 1
+        END,
+        "locked_until" = CASE
+          WHEN ("auth_throttles"."locked_until" IS NULL OR "auth_throttles"."locked_until" <= ${now})
+            AND "auth_throttles"."last_attempt_at" < ${windowStart}
+          THEN NULL
+          ELSE "auth_throttles"."locked_until"
+        END,
+        "last_attempt_at" = EXCLUDED."last_attempt_at",
+        "updated_at" = EXCLUDED."updated_at"
+      RETURNING "id", "attempts", "locked_until" AS "lockedUntil"
+    `;
+    return record;
+  }
+
+  lockThrottle(id: string, lockedUntil: Date) {
+    return this.prisma.authThrottle.update({ where: { id }, data: { lockedUntil } });
+  }
+
+  deleteThrottle(action: AuthThrottleAction, key: string) {
+    return this.prisma.authThrottle.deleteMany({ where: { action, key } });
+  }
 }
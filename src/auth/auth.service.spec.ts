@@ -1,8 +1,15 @@
-import { BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcryptjs';
-import { TokenType } from '../generated/prisma/client';
+import { Prisma, TokenType } from '../generated/prisma/client';
 import { AuthRepository } from './auth.repository';
 import { AuthService } from './auth.service';
 
@@ -39,6 +46,20 @@ function makeToken(overrides: Record<string, unknown> = {}) {
   };
 }
 
+function makeRefreshToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'refresh-1',
+    userId: 'user-1',
+    sessionId: 'session-1',
+    tokenHash: 'hashed-refresh',
+    expiresAt: new Date(Date.now() + 24 * 3600 * 1000),
+    usedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
 function makeRepo(
   overrides: Partial<Record<keyof AuthRepository, jest.Mock>> = {},
 ): jest.Mocked<AuthRepository> {
@@ -53,6 +74,19 @@ function makeRepo(
     markTokenUsed: jest.fn(),
     resetPasswordWithToken: jest.fn(),
     consumeFirstAccessToken: jest.fn(),
+    findUserByEmailExcluding: jest.fn().mockResolvedValue(null),
+    applyEmailChange: jest.fn(),
+    createSessionWithRefreshToken: jest.fn().mockResolvedValue({ id: 'session-1' }),
+    findSessionWithUser: jest.fn(),
+    incrementTokenVersion: jest.fn().mockResolvedValue({ tokenVersion: 1 }),
+    findActiveSessions: jest.fn().mockResolvedValue([]),
+    touchSession: jest.fn(),
+    revokeSessions: jest.fn().mockResolvedValue(1),
+    revokePersonalAccessTokens: jest.fn().mockResolvedValue(0),
+    findRefreshToken: jest.fn(),
+    rotateRefreshToken: jest.fn().mockResolvedValue({ id: 'refresh-2' }),
+    createImpersonationSession: jest.fn().mockResolvedValue({ id: 'session-imp' }),
+    findImpersonationSessions: jest.fn().mockResolvedValue([]),
     ...overrides,
   } as unknown as jest.Mocked<AuthRepository>;
 }
@@ -61,9 +95,20 @@ function makeLogger() {
   return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
 }
 
+function makeThrottle() {
+  return {
+    assertLoginAllowed: jest.fn().mockResolvedValue(undefined),
+    recordLoginFailure: jest.fn().mockResolvedValue(undefined),
+    resetLoginFailures: jest.fn().mockResolvedValue(undefined),
+    assertForgotPasswordAllowed: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
 function makeService(
   repo: jest.Mocked<AuthRepository>,
   configOverrides: Record<string, unknown> = {},
+  throttle = makeThrottle(),
+  passwordPolicy = { assertPasswordAllowed: jest.fn().mockResolvedValue(undefined) },
 ) {
   const jwtService = { sign: jest.fn().mockReturnValue('jwt-token') } as unknown as JwtService;
   const configService = {
@@ -88,7 +133,15 @@ function makeService(
   const mailerService = { sendPasswordResetEmail: jest.fn(), sendFirstAccessEmail: jest.fn() };
   const logger = makeLogger();
 
-  return new AuthService(repo, jwtService, configService, mailerService as any, logger as any);
+  return new AuthService(
+    repo,
+    jwtService,
+    configService,
+    mailerService as any,
+    throttle as any,
+    passwordPolicy as any,
+    logger as any,
+  );
 }
 
 // ── validateUser ───────────────────────────────────────────────────────────────
@@ -101,6 +154,17 @@ describe('AuthService.validateUser', () => {
     expect(result).toBeNull();
   });
 
+  it('propaga o bloqueio sem consultar o usuário', async () => {
+    const repo = makeRepo();
+    const throttle = makeThrottle();
+    throttle.assertLoginAllowed.mockRejectedValue(new HttpException('bloqueada', 423));
+    const service = makeService(repo, {}, throttle);
+    await expect(service.validateUser('test@example.com', 'pass', '10.0.0.1')).rejects.toThrow(
+      HttpException,
+    );
+    expect(repo.findActiveUserByEmail).not.toHaveBeenCalled();
+  });
+
   it('lança UnauthorizedException para usuário inativo', async () => {
     const repo = makeRepo({
       findActiveUserByEmail: jest.fn().mockResolvedValue(makeUser({ isActive: false })),
@@ -119,6 +183,25 @@ describe('AuthService.validateUser', () => {
     expect(result).toBeNull();
   });
 
+  it('registra falha de login por conta e IP quando senha incorreta', async () => {
+    const user = makeUser({ passwordHash: await bcrypt.hash('correctpass', 10) });
+    const repo = makeRepo({ findActiveUserByEmail: jest.fn().mockResolvedValue(user) });
+    const throttle = makeThrottle();
+    const service = makeService(repo, {}, throttle);
+    await service.validateUser('test@example.com', 'wrongpass', '10.0.0.1');
+    expect(throttle.recordLoginFailure).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+    expect(throttle.resetLoginFailures).not.toHaveBeenCalled();
+  });
+
+  it('mantém as falhas da conta (inclusive de TOTP) após senha correta', async () => {
+    const user = makeUser({ passwordHash: await bcrypt.hash('correctpass', 10) });
+    const repo = makeRepo({ findActiveUserByEmail: jest.fn().mockResolvedValue(user) });
+    const throttle = makeThrottle();
+    const service = makeService(repo, {}, throttle);
+    await service.validateUser('test@example.com', 'correctpass', '10.0.0.1');
+    expect(throttle.resetLoginFailures).not.toHaveBeenCalled();
+  });
+
   it('retorna usuário sem passwordHash quando credenciais válidas', async () => {
     const plainPassword = 'correctpass';
     const user = makeUser({ passwordHash: await bcrypt.hash(plainPassword, 10) });
@@ -134,19 +217,359 @@ describe('AuthService.validateUser', () => {
 // ── login ──────────────────────────────────────────────────────────────────────
 
 describe('AuthService.login', () => {
-  it('retorna access_token e dados do usuário', () => {
+  it('retorna access_token, refresh_token e dados do usuário', async () => {
     const repo = makeRepo();
     const service = makeService(repo);
-    const result = service.login({
+    const result = await service.login({
       id: 'user-1',
       email: 'test@example.com',
       isSuperuser: false,
       mustResetPassword: false,
+      tokenVersion: 0,
     });
     expect(result.access_token).toBe('jwt-token');
+    expect(result.refresh_token).toHaveLength(64);
     expect(result.user.id).toBe('user-1');
     expect(result.user.email).toBe('test@example.com');
   });
+
+  it('zera as falhas da conta somente ao concluir a autenticação', async () => {
+    const repo = makeRepo();
+    const throttle = makeThrottle();
+    const service = makeService(repo, {}, throttle);
+    await service.login({
+      id: 'user-1',
+      email: 'test@example.com',
+      isSuperuser: false,
+      mustResetPassword: false,
+      tokenVersion: 0,
+    });
+    expect(throttle.resetLoginFailures).toHaveBeenCalledWith('test@example.com');
+  });
+
+  it('abre sessão com user agent e IP e persiste o refresh token apenas como hash', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    const result = await service.login(
+      {
+        id: 'user-1',
+        email: 'test@example.com',
+        isSuperuser: false,
+        mustResetPassword: false,
+        tokenVersion: 0,
+      },
+      { userAgent: 'Mozilla/5.0', ipAddress: '10.0.0.1' },
+    );
+
+    const [session, refreshToken] = repo.createSessionWithRefreshToken.mock.calls[0];
+    expect(session).toEqual({ userId: 'user-1', userAgent: 'Mozilla/5.0', ipAddress: '10.0.0.1' });
+    expect(refreshToken.tokenHash).not.toBe(result.refresh_token);
+    expect(refreshToken.tokenHash).toHaveLength(64);
+  });
+});
+
+// ── refresh ────────────────────────────────────────────────────────────────────
+
+describe('AuthService.refresh', () => {
+  it('lança UnauthorizedException quando token não encontrado', async () => {
+    const repo = makeRepo({ findRefreshToken: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.refresh('raw')).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('lança UnauthorizedException quando token expirado', async () => {
+    const repo = makeRepo({
+      findRefreshToken: jest
+        .fn()
+        .mockResolvedValue(makeRefreshToken({ expiresAt: new Date(Date.now() - 1000) })),
+    });
+    const service = makeService(repo);
+    await expect(service.refresh('raw')).rejects.toThrow(UnauthorizedException);
+    expect(repo.rotateRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('revoga a sessão inteira quando token já rotacionado é reapresentado', async () => {
+    const repo = makeRepo({
+      findRefreshToken: jest.fn().mockResolvedValue(makeRefreshToken({ usedAt: new Date() })),
+    });
+    const service = makeService(repo);
+    await expect(service.refresh('raw')).rejects.toThrow(UnauthorizedException);
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', { id: 'session-1' });
+    expect(repo.rotateRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('revoga a sessão quando outra requisição rotacionou o token primeiro', async () => {
+    const repo = makeRepo({
+      findRefreshToken: jest.fn().mockResolvedValue(makeRefreshToken()),
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
+      rotateRefreshToken: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(service.refresh('raw')).rejects.toThrow(UnauthorizedException);
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', { id: 'session-1' });
+  });
+
+  it('revoga a sessão e lança UnauthorizedException para usuário inativo', async () => {
+    const repo = makeRepo({
+      findRefreshToken: jest.fn().mockResolvedValue(makeRefreshToken()),
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ isActive: false })),
+    });
+    const service = makeService(repo);
+    await expect(service.refresh('raw')).rejects.toThrow(UnauthorizedException);
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', { id: 'session-1' });
+  });
+
+  it('rotaciona o token mantendo a sessão e retorna novo par', async () => {
+    const repo = makeRepo({
+      findRefreshToken: jest.fn().mockResolvedValue(makeRefreshToken()),
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
+    });
+    const service = makeService(repo);
+
+    const result = await service.refresh('raw');
+
+    expect(repo.rotateRefreshToken).toHaveBeenCalledWith(
+      'refresh-1',
+      expect.objectContaining({ userId: 'user-1', sessionId: 'session-1' }),
+    );
+    expect(result.access_token).toBe('jwt-token');
+    expect(result.refresh_token).toEqual(expect.any(String));
+    expect(repo.revokeSessions).not.toHaveBeenCalled();
+  });
+});
+
+// ── logout ─────────────────────────────────────────────────────────────────────
+
+describe('AuthService.logout', () => {
+  it('revoga a sessão atual', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await service.logout({
+      id: 'user-1',
+      email: 'test@example.com',
+      isSuperuser: false,
+      mustResetPassword: false,
+      sessionId: 'session-1',
+    });
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', { id: 'session-1' });
+  });
+});
+
+// ── sessões ────────────────────────────────────────────────────────────────────
+
+function makePayload(overrides: Record<string, unknown> = {}) {
+  return {
+    sub: 'user-1',
+    email: 'test@example.com',
+    isSuperuser: false,
+    mustResetPassword: false,
+    sid: 'session-1',
+    ver: 0,
+    ...overrides,
+  };
+}
+
+function makeSessionWithUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    lastSeenAt: new Date(),
+    revokedAt: null,
+    impersonatorId: null,
+    user: { tokenVersion: 0, isActive: true, deletedAt: null },
+    impersonator: null,
+    ...overrides,
+  };
+}
+
+describe('AuthService.validateAccessToken', () => {
+  it('lança UnauthorizedException quando token não tem sessão', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload({ sid: undefined }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('lança UnauthorizedException quando sessão revogada', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest
+        .fn()
+        .mockResolvedValue(makeSessionWithUser({ revokedAt: new Date() })),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload())).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('lança UnauthorizedException quando sessão é de outro usuário', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest.fn().mockResolvedValue(makeSessionWithUser({ userId: 'user-2' })),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload())).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('lança UnauthorizedException quando a versão de token mudou', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest
+        .fn()
+        .mockResolvedValue(
+          makeSessionWithUser({ user: { tokenVersion: 1, isActive: true, deletedAt: null } }),
+        ),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload({ ver: 0 }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('lança UnauthorizedException quando usuário foi inativado', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest
+        .fn()
+        .mockResolvedValue(
+          makeSessionWithUser({ user: { tokenVersion: 0, isActive: false, deletedAt: null } }),
+        ),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload())).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('usa o cache em validações seguidas da mesma sessão', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest.fn().mockResolvedValue(makeSessionWithUser()),
+    });
+    const service = makeService(repo);
+
+    await service.validateAccessToken(makePayload());
+    await service.validateAccessToken(makePayload());
+
+    expect(repo.findSessionWithUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejeita na hora após revokeUserTokens, mesmo com cache', async () => {
+    const findSessionWithUser = jest
+      .fn()
+      .mockResolvedValueOnce(makeSessionWithUser())
+      .mockResolvedValueOnce(
+        makeSessionWithUser({
+          revokedAt: new Date(),
+          user: { tokenVersion: 1, isActive: true, deletedAt: null },
+        }),
+      );
+    const repo = makeRepo({ findSessionWithUser });
+    const service = makeService(repo);
+
+    await service.validateAccessToken(makePayload());
+    await service.revokeUserTokens('user-1', 'super-1');
+
+    await expect(service.validateAccessToken(makePayload())).rejects.toThrow(UnauthorizedException);
+    expect(repo.incrementTokenVersion).toHaveBeenCalledWith('user-1');
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', {});
+    expect(repo.revokePersonalAccessTokens).toHaveBeenCalledWith('user-1');
+  });
+
+  it('atualiza lastSeenAt apenas quando o último acesso é antigo', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest
+        .fn()
+        .mockResolvedValue(
+          makeSessionWithUser({ lastSeenAt: new Date(Date.now() - 10 * 60 * 1000) }),
+        ),
+    });
+    const service = makeService(repo);
+
+    await service.validateAccessToken(makePayload());
+    expect(repo.touchSession).toHaveBeenCalledWith('session-1');
+  });
+});
+
+describe('AuthService.validateAccessToken — personificação', () => {
+  const impersonationSession = (impersonator: Record<string, unknown>) =>
+    makeSessionWithUser({
+      id: 'session-imp',
+      impersonatorId: 'admin-1',
+      impersonator: { isSuperuser: true, isActive: true, deletedAt: null, ...impersonator },
+    });
+  const impersonationPayload = makePayload({ sid: 'session-imp', impersonatorId: 'admin-1' });
+
+  it('aceita enquanto o superadmin segue ativo e confere no banco a cada requisição', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest.fn().mockResolvedValue(impersonationSession({})),
+    });
+    const service = makeService(repo);
+
+    await service.validateAccessToken(impersonationPayload);
+    await service.validateAccessToken(impersonationPayload);
+
+    expect(repo.findSessionWithUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejeita quando o superadmin perdeu o papel de superusuário', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest
+        .fn()
+        .mockResolvedValue(impersonationSession({ isSuperuser: false })),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(impersonationPayload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejeita quando o superadmin foi inativado', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest.fn().mockResolvedValue(impersonationSession({ isActive: false })),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(impersonationPayload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejeita token sem o claim para uma sessão de personificação', async () => {
+    const repo = makeRepo({
+      findSessionWithUser: jest.fn().mockResolvedValue(impersonationSession({})),
+    });
+    const service = makeService(repo);
+    await expect(service.validateAccessToken(makePayload({ sid: 'session-imp' }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
+
+describe('AuthService.listSessions', () => {
+  it('marca a sessão atual', async () => {
+    const repo = makeRepo({
+      findActiveSessions: jest.fn().mockResolvedValue([{ id: 'session-1' }, { id: 'session-2' }]),
+    });
+    const service = makeService(repo);
+    const result = await service.listSessions('user-1', 'session-2');
+    expect(result).toEqual([
+      { id: 'session-1', current: false },
+      { id: 'session-2', current: true },
+    ]);
+  });
+});
+
+describe('AuthService.revokeSession', () => {
+  it('lança NotFoundException quando sessão não pertence ao usuário ou já revogada', async () => {
+    const repo = makeRepo({ revokeSessions: jest.fn().mockResolvedValue(0) });
+    const service = makeService(repo);
+    await expect(service.revokeSession('user-1', 'session-x', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
+
+describe('AuthService.revokeOtherSessions', () => {
+  it('revoga todas as sessões exceto a atual', async () => {
+    const repo = makeRepo({ revokeSessions: jest.fn().mockResolvedValue(3) });
+    const service = makeService(repo);
+    const result = await service.revokeOtherSessions('user-1', 'session-1', 'user-1');
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', { exceptId: 'session-1' });
+    expect(result).toEqual({ revoked: 3 });
+  });
 });
 
 // ── resetPassword ──────────────────────────────────────────────────────────────
@@ -163,6 +586,36 @@ describe('AuthService.resetPassword', () => {
     ).rejects.toThrow(BadRequestException);
   });
 
+  it('não altera a senha quando a política rejeita', async () => {
+    const repo = makeRepo({ updateUser: jest.fn().mockResolvedValue({}) });
+    const passwordPolicy = {
+      assertPasswordAllowed: jest.fn().mockRejectedValue(new BadRequestException('política')),
+    };
+    const service = makeService(repo, {}, makeThrottle(), passwordPolicy);
+    await expect(
+      service.resetPassword('user-1', {
+        newPassword: 'fraca',
+        confirmPassword: 'fraca',
+        name: 'Maria',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(passwordPolicy.assertPasswordAllowed).toHaveBeenCalledWith('user-1', 'fraca', 'Maria');
+    expect(repo.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('registra o novo hash no histórico de senhas', async () => {
+    const repo = makeRepo({ updateUser: jest.fn().mockResolvedValue({}) });
+    const service = makeService(repo);
+    await service.resetPassword('user-1', {
+      newPassword: 'SamePass1!',
+      confirmPassword: 'SamePass1!',
+    });
+    const callData = (repo.updateUser.mock.calls[0] as unknown[])[1] as Record<string, any>;
+    expect(callData.passwordHistory).toEqual({
+      create: { passwordHash: callData.passwordHash },
+    });
+  });
+
   it('chama updateUser com hash e mustResetPassword=false', async () => {
     const repo = makeRepo({ updateUser: jest.fn().mockResolvedValue({}) });
     const service = makeService(repo);
@@ -179,6 +632,19 @@ describe('AuthService.resetPassword', () => {
     expect(typeof callData.passwordHash).toBe('string');
   });
 
+  it('incrementa a versão de token, revoga sessões e retorna novo JWT', async () => {
+    const repo = makeRepo({ updateUser: jest.fn().mockResolvedValue(makeUser()) });
+    const service = makeService(repo);
+    const result = await service.resetPassword('user-1', {
+      newPassword: 'SamePass1!',
+      confirmPassword: 'SamePass1!',
+    });
+    const callData = (repo.updateUser.mock.calls[0] as unknown[])[1] as Record<string, unknown>;
+    expect(callData.tokenVersion).toEqual({ increment: 1 });
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', {});
+    expect(result.access_token).toBe('jwt-token');
+  });
+
   it('inclui name no updateData quando name fornecido', async () => {
     const repo = makeRepo({ updateUser: jest.fn().mockResolvedValue({}) });
     const service = makeService(repo);
@@ -207,6 +673,21 @@ describe('AuthService.resetPassword', () => {
 // ── forgotPassword ─────────────────────────────────────────────────────────────
 
 describe('AuthService.forgotPassword', () => {
+  it('propaga o limite de pedidos sem gerar token', async () => {
+    const repo = makeRepo({ findActiveUserByEmail: jest.fn().mockResolvedValue(makeUser()) });
+    const throttle = makeThrottle();
+    throttle.assertForgotPasswordAllowed.mockRejectedValue(new HttpException('limite', 429));
+    const service = makeService(repo, {}, throttle);
+    await expect(service.forgotPassword('test@example.com', '10.0.0.1')).rejects.toThrow(
+      HttpException,
+    );
+    expect(throttle.assertForgotPasswordAllowed).toHaveBeenCalledWith(
+      'test@example.com',
+      '10.0.0.1',
+    );
+    expect(repo.createPasswordResetToken).not.toHaveBeenCalled();
+  });
+
   it('não faz nada quando usuário não encontrado (sem revelar existência)', async () => {
     const repo = makeRepo({ findActiveUserByEmail: jest.fn().mockResolvedValue(null) });
     const service = makeService(repo);
@@ -303,6 +784,22 @@ describe('AuthService.confirmResetPassword', () => {
     ).rejects.toThrow(BadRequestException);
   });
 
+  it('não aceita token de troca de email', async () => {
+    const repo = makeRepo({
+      findPasswordResetToken: jest
+        .fn()
+        .mockResolvedValue(makeToken({ type: TokenType.email_change, newEmail: 'new@x.com' })),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.confirmResetPassword('rawtoken', {
+        newPassword: 'SamePass1!',
+        confirmPassword: 'SamePass1!',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.resetPasswordWithToken).not.toHaveBeenCalled();
+  });
+
   it('chama resetPasswordWithToken com hash correto', async () => {
     const token = makeToken();
     const repo = makeRepo({
@@ -319,6 +816,179 @@ describe('AuthService.confirmResetPassword', () => {
       token.id,
       expect.any(String),
     );
+    expect(repo.revokeSessions).toHaveBeenCalledWith(token.userId, {});
+  });
+});
+
+// ── requestEmailChange ─────────────────────────────────────────────────────────
+
+describe('AuthService.requestEmailChange', () => {
+  function makeMailer() {
+    return {
+      sendEmailChangeConfirmation: jest.fn().mockResolvedValue(undefined),
+      sendEmailChangeNotice: jest.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  it('lança NotFoundException quando usuário não encontrado', async () => {
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.requestEmailChange('user-x', 'new@example.com')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança BadRequestException quando a senha atual está incorreta', async () => {
+    const user = makeUser({ passwordHash: bcrypt.hashSync('Atual#2025', 4) });
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(user) });
+    const service = makeService(repo);
+    await expect(
+      service.requestEmailChange('user-1', 'new@example.com', { currentPassword: 'errada' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.createPasswordResetToken).not.toHaveBeenCalled();
+  });
+
+  it('lança BadRequestException quando o novo email é igual ao atual', async () => {
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(makeUser()) });
+    const service = makeService(repo);
+    await expect(service.requestEmailChange('user-1', 'TEST@example.com')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('lança ConflictException quando o email pertence a outro usuário', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
+      findUserByEmailExcluding: jest.fn().mockResolvedValue(makeUser({ id: 'other' })),
+    });
+    const service = makeService(repo);
+    await expect(service.requestEmailChange('user-1', 'new@example.com')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('cria token email_change, confirma no novo endereço e avisa o atual', async () => {
+    const user = makeUser({ passwordHash: bcrypt.hashSync('Atual#2025', 4) });
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(user) });
+    const mailerService = makeMailer();
+    const service = makeService(repo);
+    (service as any).mailerService = mailerService;
+
+    const result = await service.requestEmailChange('user-1', ' new@example.com ', {
+      currentPassword: 'Atual#2025',
+    });
+
+    expect(result.pendingEmail).toBe('new@example.com');
+    expect(repo.invalidateTokensByType).toHaveBeenCalledWith('user-1', TokenType.email_change);
+    expect(repo.createPasswordResetToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        type: TokenType.email_change,
+        newEmail: 'new@example.com',
+      }),
+    );
+    expect(mailerService.sendEmailChangeConfirmation).toHaveBeenCalledWith(
+      'new@example.com',
+      'Test User',
+      expect.stringContaining('/confirm-email?token='),
+    );
+    expect(mailerService.sendEmailChangeNotice).toHaveBeenCalledWith(
+      'test@example.com',
+      'Test User',
+      'new@example.com',
+    );
+    expect(repo.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('invalida o token quando a confirmação não pode ser enviada', async () => {
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(makeUser()) });
+    const mailerService = makeMailer();
+    mailerService.sendEmailChangeConfirmation.mockRejectedValue(new Error('smtp'));
+    const service = makeService(repo);
+    (service as any).mailerService = mailerService;
+
+    await expect(service.requestEmailChange('user-1', 'new@example.com')).rejects.toThrow('smtp');
+    expect(repo.invalidateTokensByType).toHaveBeenCalledTimes(2);
+    expect(mailerService.sendEmailChangeNotice).not.toHaveBeenCalled();
+  });
+});
+
+// ── confirmEmailChange ─────────────────────────────────────────────────────────
+
+describe('AuthService.confirmEmailChange', () => {
+  const emailChangeToken = (overrides: Record<string, unknown> = {}) =>
+    makeToken({
+      type: TokenType.email_change,
+      newEmail: 'new@example.com',
+      user: { email: 'test@example.com' },
+      ...overrides,
+    });
+
+  it('lança BadRequestException para token de outro tipo', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest
+        .fn()
+        .mockResolvedValue(emailChangeToken({ type: TokenType.password_reset })),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança BadRequestException quando token expirado', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest
+        .fn()
+        .mockResolvedValue(emailChangeToken({ expiresAt: new Date(Date.now() - 1000) })),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança ConflictException quando o email foi ocupado depois do pedido', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest.fn().mockResolvedValue(emailChangeToken()),
+      findUserByEmailExcluding: jest.fn().mockResolvedValue(makeUser({ id: 'other' })),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).rejects.toThrow(ConflictException);
+    expect(repo.applyEmailChange).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando o email é ocupado durante a gravação (P2002)', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest.fn().mockResolvedValue(emailChangeToken()),
+      applyEmailChange: jest.fn().mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      ),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).rejects.toThrow(
+      new ConflictException('Já existe um usuário com este email'),
+    );
+  });
+
+  it('lança BadRequestException quando o token já foi consumido por outra requisição', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest.fn().mockResolvedValue(emailChangeToken()),
+      applyEmailChange: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).rejects.toThrow(BadRequestException);
+  });
+
+  it('aplica o novo email e consome o token', async () => {
+    const repo = makeRepo({
+      findPasswordResetTokenWithUser: jest.fn().mockResolvedValue(emailChangeToken()),
+      applyEmailChange: jest.fn().mockResolvedValue({ id: 'user-1', email: 'new@example.com' }),
+    });
+    const service = makeService(repo);
+    await expect(service.confirmEmailChange('rawtoken')).resolves.toEqual({
+      email: 'new@example.com',
+    });
+    expect(repo.applyEmailChange).toHaveBeenCalledWith('user-1', 'token-1', 'new@example.com');
   });
 });
 
@@ -443,7 +1113,7 @@ describe('AuthService.invalidateUserCredentials', () => {
     );
   });
 
-  it('seta mustResetPassword=true e gera token', async () => {
+  it('seta mustResetPassword=true, invalida tokens emitidos, revoga PATs e gera token', async () => {
     const repo = makeRepo({
       findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
       updateUser: jest.fn().mockResolvedValue({}),
@@ -452,7 +1122,12 @@ describe('AuthService.invalidateUserCredentials', () => {
     });
     const service = makeService(repo);
     const rawToken = await service.invalidateUserCredentials('user-1', 'admin-1');
-    expect(repo.updateUser).toHaveBeenCalledWith('user-1', { mustResetPassword: true });
+    expect(repo.updateUser).toHaveBeenCalledWith('user-1', {
+      mustResetPassword: true,
+      tokenVersion: { increment: 1 },
+    });
+    expect(repo.revokeSessions).toHaveBeenCalledWith('user-1', {});
+    expect(repo.revokePersonalAccessTokens).toHaveBeenCalledWith('user-1');
     expect(typeof rawToken).toBe('string');
     expect(rawToken.length).toBeGreaterThan(10);
   });
@@ -498,13 +1173,14 @@ describe('AuthService.consumeFirstAccessToken', () => {
     ).rejects.toThrow(BadRequestException);
   });
 
-  it('consome token e retorna JWT quando tudo válido', async () => {
+  it('consome token e retorna o usuário, sem emitir tokens, quando tudo válido', async () => {
     const token = makeToken({ type: TokenType.first_access });
     const userResult = {
       id: 'user-1',
       email: 'test@example.com',
       isSuperuser: false,
       mustResetPassword: false,
+      totpEnabledAt: null,
     };
     const repo = makeRepo({
       findPasswordResetToken: jest.fn().mockResolvedValue(token),
@@ -523,7 +1199,72 @@ describe('AuthService.consumeFirstAccessToken', () => {
       expect.any(String), // bcrypt hash
       'João', // trimmed name
     );
+    expect(result).toEqual(userResult);
+    expect(repo.createSessionWithRefreshToken).not.toHaveBeenCalled();
+  });
+});
+
+// ── startImpersonation ─────────────────────────────────────────────────────────
+
+describe('AuthService.startImpersonation', () => {
+  it('lança BadRequestException ao personificar o próprio usuário', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(service.startImpersonation('admin-1', 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(repo.findActiveUserById).not.toHaveBeenCalled();
+  });
+
+  it('lança ForbiddenException ao personificar outro superadmin', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ isSuperuser: true })),
+    });
+    const service = makeService(repo);
+    await expect(service.startImpersonation('user-1', 'admin-1')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(repo.createImpersonationSession).not.toHaveBeenCalled();
+  });
+
+  it('lança BadRequestException para usuário inativo', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ isActive: false })),
+    });
+    const service = makeService(repo);
+    await expect(service.startImpersonation('user-1', 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('cria sessão de auditoria e assina token curto com o claim impersonatorId', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ tokenVersion: 2 })),
+    });
+    const service = makeService(repo);
+    const result = await service.startImpersonation('user-1', 'admin-1', {
+      userAgent: 'jest',
+      ipAddress: '10.0.0.1',
+    });
+
+    expect(repo.createImpersonationSession).toHaveBeenCalledWith({
+      userId: 'user-1',
+      impersonatorId: 'admin-1',
+      userAgent: 'jest',
+      ipAddress: '10.0.0.1',
+    });
+    const jwtService = (service as any).jwtService as { sign: jest.Mock };
+    expect(jwtService.sign).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: 'user-1',
+        sid: 'session-imp',
+        ver: 2,
+        impersonatorId: 'admin-1',
+      }),
+      { expiresIn: 900 },
+    );
+    expect(repo.createSessionWithRefreshToken).not.toHaveBeenCalled();
     expect(result.access_token).toBe('jwt-token');
-    expect(result.user.id).toBe('user-1');
+    expect(result.impersonatorId).toBe('admin-1');
   });
 });
@@ -1,5 +1,7 @@
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Injectable,
   NotFoundException,
   UnauthorizedException,
@@ -9,30 +11,68 @@ import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcryptjs';
 import * as crypto from 'crypto';
 import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
-import { TokenType } from '../generated/prisma/client';
+import { Prisma, TokenType } from '../generated/prisma/client';
 import { MailerService } from '../mailer/mailer.service';
 import { ConsumeFirstAccessDto } from './dto/consume-first-access.dto';
 import { ConfirmResetPasswordDto } from './dto/confirm-reset-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
-import { JwtPayload } from './strategies/jwt.strategy';
+import { AuthUser, JwtPayload } from './strategies/jwt.strategy';
+import { AuthThrottleService } from './auth-throttle.service';
 import { AuthRepository } from './auth.repository';
+import { PasswordPolicyService } from './password-policy.service';
+
+/** Intervalo mínimo entre atualizações de lastSeenAt da sessão */
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Por quanto tempo uma sessão validada fica em memória antes de ser consultada de novo.
+ * Revogações feitas nesta instância limpam o cache na hora; em outras instâncias,
+ * valem em no máximo este intervalo.
+ */
+const ACCESS_CACHE_TTL_MS = 30 * 1000;
+const ACCESS_CACHE_MAX_ENTRIES = 10_000;
+
+/** Dados do usuário necessários para emitir um par de tokens */
+export interface LoginUser {
+  id: string;
+  email: string;
+  isSuperuser: boolean;
+  mustResetPassword: boolean;
+  tokenVersion: number;
+}
+
+/** Dados do cliente registrados na sessão aberta pelo login */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
 
 @Injectable()
 export class AuthService {
+  private readonly accessCache = new Map<
+    string,
+    { userId: string; tokenVersion: number; expiresAt: number }
+  >();
+
   constructor(
     private readonly repo: AuthRepository,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly mailerService: MailerService,
+    private readonly throttle: AuthThrottleService,
+    private readonly passwordPolicy: PasswordPolicyService,
     @InjectPinoLogger(AuthService.name)
     private readonly logger: PinoLogger,
   ) {}
 
-  async validateUser(email: string, password: string) {
+  async validateUser(email: string, password: string, ipAddress?: string) {
+    await this.throttle.assertLoginAllowed(email, ipAddress);
+
     const user = await this.repo.findActiveUserByEmail(email);
 
     if (!user) {
       this.logger.warn({ email }, 'Login attempt for unknown email');
+      await this.throttle.recordLoginFailure(email, ipAddress);
       return null;
     }
 
@@ -44,21 +84,26 @@ export class AuthService {
     const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
     if (!isPasswordValid) {
       this.logger.warn({ userId: user.id, email }, 'Login attempt with invalid password');
+      await this.throttle.recordLoginFailure(email, ipAddress);
       return null;
     }
 
+    // As falhas da conta só são zeradas em login(), após o segundo fator (se houver):
+    // zerá-las aqui permitiria tentar códigos TOTP indefinidamente reenviando a senha
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash: _, ...result } = user;
+    const { passwordHash: _, totpSecret: __, ...result } = user;
     return result;
   }
 
-  login(user: { id: string; email: string; isSuperuser: boolean; mustResetPassword: boolean }) {
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      isSuperuser: user.isSuperuser,
-      mustResetPassword: user.mustResetPassword,
-    };
+  /** Emite a sessão após a autenticação completa e zera as falhas de login da conta */
+  async login(user: LoginUser, context: SessionContext = {}) {
+    await this.throttle.resetLoginFailures(user.email);
+
+    const { rawToken, tokenHash } = this.generateRawToken();
+    const session = await this.repo.createSessionWithRefreshToken(
+      { userId: user.id, userAgent: context.userAgent, ipAddress: context.ipAddress },
+      { tokenHash, expiresAt: this.refreshTokenExpiresAt() },
+    );
 
     this.logger.info(
       {
@@ -66,12 +111,223 @@ export class AuthService {
         email: user.email,
         isSuperuser: user.isSuperuser,
         mustResetPassword: user.mustResetPassword,
+        sessionId: session.id,
+        ipAddress: context.ipAddress,
       },
       'User logged in',
     );
 
+    return this.buildTokenResponse(user, session.id, rawToken);
+  }
+
+  /**
+   * Troca um refresh token válido por um novo par de tokens (rotação).
+   * Reapresentar um token já rotacionado indica vazamento: a sessão inteira é revogada.
+   */
+  async refresh(rawRefreshToken: string) {
+    const tokenHash = crypto.createHash('sha256').update(rawRefreshToken).digest('hex');
+    const record = await this.repo.findRefreshToken(tokenHash);
+
+    if (!record || record.revokedAt !== null || record.expiresAt < new Date()) {
+      this.logger.warn(
+        { tokenHashPrefix: tokenHash.slice(0, 8) },
+        'Invalid or expired refresh token used',
+      );
+      throw new UnauthorizedException('Refresh token inválido ou expirado');
+    }
+
+    if (record.usedAt !== null) {
+      return this.revokeReusedSession(record.userId, record.sessionId);
+    }
+
+    const user = await this.repo.findActiveUserById(record.userId);
+    if (!user || !user.isActive) {
+      await this.revokeSessions(record.userId, { id: record.sessionId });
+      this.logger.warn(
+        { userId: record.userId, sessionId: record.sessionId },
+        'Refresh attempted for inactive user',
+      );
+      throw new UnauthorizedException('Usuário inativo');
+    }
+
+    const { rawToken, tokenHash: nextHash } = this.generateRawToken();
+    const rotated = await this.repo.rotateRefreshToken(record.id, {
+      userId: user.id,
+      sessionId: record.sessionId,
+      tokenHash: nextHash,
+      expiresAt: this.refreshTokenExpiresAt(),
+    });
+
+    if (!rotated) {
+      return this.revokeReusedSession(record.userId, record.sessionId);
+    }
+
+    this.logger.debug({ userId: user.id, sessionId: record.sessionId }, 'Refresh token rotated');
+    return this.buildTokenResponse(user, record.sessionId, rawToken);
+  }
+
+  /** Revoga a sessão do access token atual */
+  async logout(user: AuthUser): Promise<void> {
+    if (!user.sessionId) {
+      return;
+    }
+
+    await this.revokeSessions(user.id, { id: user.sessionId });
+    this.logger.info({ userId: user.id, sessionId: user.sessionId }, 'User logged out');
+  }
+
+  // ── Sessões ───────────────────────────────────────────────────────────────────
+
+  /**
+   * Valida um access token contra o estado atual: a sessão precisa estar ativa e a
+   * versão de token do usuário precisa ser a mesma embutida no JWT. Tokens de
+   * personificação exigem ainda que o superadmin continue ativo e superusuário.
+   * O resultado fica em cache por ACCESS_CACHE_TTL_MS (exceto na personificação, sempre
+   * conferida no banco); lastSeenAt é atualizado no máximo uma vez por
+   * SESSION_TOUCH_INTERVAL_MS.
+   */
+  async validateAccessToken(payload: JwtPayload): Promise<void> {
+    const cached =
+      payload.sid && !payload.impersonatorId ? this.accessCache.get(payload.sid) : undefined;
+    if (
+      cached &&
+      cached.expiresAt > Date.now() &&
+      cached.userId === payload.sub &&
+      // Versão maior que a do cache: o cache está defasado, consulta de novo
+      payload.ver <= cached.tokenVersion
+    ) {
+      if (payload.ver < cached.tokenVersion) {
+        throw new UnauthorizedException('Credenciais revogadas. Faça login novamente.');
+      }
+      return;
+    }
+
+    const session = payload.sid ? await this.repo.findSessionWithUser(payload.sid) : null;
+
+    if (!session || session.userId !== payload.sub || session.revokedAt !== null) {
+      throw new UnauthorizedException('Sessão expirada ou revogada');
+    }
+
+    const { user } = session;
+    if (!user.isActive || user.deletedAt !== null || user.tokenVersion !== payload.ver) {
+      throw new UnauthorizedException('Credenciais revogadas. Faça login novamente.');
+    }
+
+    if (session.impersonatorId !== (payload.impersonatorId ?? null)) {
+      throw new UnauthorizedException('Sessão expirada ou revogada');
+    }
+
+    const { impersonator } = session;
+    if (
+      impersonator &&
+      (!impersonator.isSuperuser || !impersonator.isActive || impersonator.deletedAt !== null)
+    ) {
+      this.logger.warn(
+        { userId: session.userId, impersonatorId: session.impersonatorId, sessionId: session.id },
+        'Impersonation token rejected: impersonator is no longer an active superuser',
+      );
+      throw new UnauthorizedException('Personificação encerrada. O superadmin perdeu o acesso.');
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await this.repo.touchSession(session.id);
+    }
+
+    if (impersonator) {
+      return;
+    }
+
+    if (this.accessCache.size >= ACCESS_CACHE_MAX_ENTRIES) {
+      this.accessCache.clear();
+    }
+    this.accessCache.set(session.id, {
+      userId: session.userId,
+      tokenVersion: user.tokenVersion,
+      expiresAt: Date.now() + ACCESS_CACHE_TTL_MS,
+    });
+  }
+
+  /**
+   * Invalida imediatamente todos os tokens do usuário: incrementa a versão de token
+   * (derrubando os access tokens emitidos) e revoga todas as sessões.
+   */
+  async revokeUserTokens(userId: string, performedById: string): Promise<void> {
+    await this.repo.incrementTokenVersion(userId);
+    await this.revokeSessions(userId);
+    await this.repo.revokePersonalAccessTokens(userId);
+
+    this.logger.info({ userId, performedById }, 'User tokens revoked');
+  }
+
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.repo.findActiveSessions(userId);
+    return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  async revokeSession(userId: string, sessionId: string, performedById: string): Promise<void> {
+    const revoked = await this.revokeSessions(userId, { id: sessionId });
+    if (revoked === 0) {
+      throw new NotFoundException('Sessão não encontrada');
+    }
+
+    this.logger.info({ userId, sessionId, performedById }, 'Session revoked');
+  }
+
+  /** Revoga todas as sessões do usuário, exceto exceptSessionId (quando informado) */
+  async revokeOtherSessions(
+    userId: string,
+    exceptSessionId: string | undefined,
+    performedById: string,
+  ) {
+    const revoked = await this.revokeSessions(userId, { exceptId: exceptSessionId });
+
+    this.logger.info({ userId, exceptSessionId, revoked, performedById }, 'Sessions revoked');
+    return { revoked };
+  }
+
+  /** Revoga sessões no banco e descarta as validações em cache do usuário */
+  private async revokeSessions(userId: string, filter: { id?: string; exceptId?: string } = {}) {
+    const revoked = await this.repo.revokeSessions(userId, filter);
+
+    for (const [sessionId, entry] of this.accessCache) {
+      if (entry.userId === userId) {
+        this.accessCache.delete(sessionId);
+      }
+    }
+
+    return revoked;
+  }
+
+  private async revokeReusedSession(userId: string, sessionId: string): Promise<never> {
+    await this.revokeSessions(userId, { id: sessionId });
+    this.logger.warn({ userId, sessionId }, 'Refresh token reuse detected — session revoked');
+    throw new UnauthorizedException('Refresh token inválido ou expirado');
+  }
+
+  private generateRawToken() {
+    const rawToken = crypto.randomBytes(32).toString('hex');
+    const tokenHash = crypto.createHash('sha256').update(rawToken).digest('hex');
+    return { rawToken, tokenHash };
+  }
+
+  private refreshTokenExpiresAt() {
+    const expiresInDays = this.configService.get<number>('REFRESH_TOKEN_EXPIRES_DAYS', 30);
+    return new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  private buildTokenResponse(user: LoginUser, sessionId: string, refreshToken: string) {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      isSuperuser: user.isSuperuser,
+      mustResetPassword: user.mustResetPassword,
+      sid: sessionId,
+      ver: user.tokenVersion,
+    };
+
     return {
       access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
       user: {
         id: user.id,
         email: user.email,
@@ -81,28 +337,46 @@ export class AuthService {
     };
   }
 
-  async resetPassword(userId: string, dto: ResetPasswordDto) {
+  /**
+   * Troca a senha do usuário autenticado (primeiro acesso). Os tokens anteriores deixam
+   * de valer; retorna um novo par de tokens para a sessão atual do cliente.
+   */
+  async resetPassword(userId: string, dto: ResetPasswordDto, context: SessionContext = {}) {
     if (dto.newPassword !== dto.confirmPassword) {
       throw new BadRequestException('As senhas não coincidem');
     }
 
+    await this.passwordPolicy.assertPasswordAllowed(userId, dto.newPassword, dto.name);
+
     const hash = await bcrypt.hash(dto.newPassword, 10);
 
-    const updateData: { passwordHash: string; mustResetPassword: boolean; name?: string } = {
+    const updateData: {
+      passwordHash: string;
+      mustResetPassword: boolean;
+      tokenVersion: { increment: number };
+      passwordHistory: { create: { passwordHash: string } };
+      name?: string;
+    } = {
       passwordHash: hash,
       mustResetPassword: false,
+      tokenVersion: { increment: 1 },
+      passwordHistory: { create: { passwordHash: hash } },
     };
 
     if (dto.name?.trim()) {
       updateData.name = dto.name.trim();
     }
 
-    await this.repo.updateUser(userId, updateData);
+    const user = await this.repo.updateUser(userId, updateData);
+    await this.revokeSessions(userId);
 
     this.logger.info({ userId, nameProvided: !!dto.name }, 'Password changed via first access');
+    return this.login(user, context);
   }
 
-  async forgotPassword(email: string): Promise<void> {
+  async forgotPassword(email: string, ipAddress?: string): Promise<void> {
+    await this.throttle.assertForgotPasswordAllowed(email, ipAddress);
+
     const user = await this.repo.findActiveUserByEmail(email);
 
     if (!user || !user.isActive) {
@@ -141,7 +415,12 @@ export class AuthService {
     const tokenHash = crypto.createHash('sha256').update(rawToken).digest('hex');
     const record = await this.repo.findPasswordResetToken(tokenHash);
 
-    if (!record || record.usedAt !== null || record.expiresAt < new Date()) {
+    if (
+      !record ||
+      record.type === TokenType.email_change ||
+      record.usedAt !== null ||
+      record.expiresAt < new Date()
+    ) {
       this.logger.warn(
         { tokenHashPrefix: tokenHash.slice(0, 8) },
         'Invalid or expired reset token used',
@@ -149,13 +428,197 @@ export class AuthService {
       throw new BadRequestException('Token inválido ou expirado');
     }
 
+    await this.passwordPolicy.assertPasswordAllowed(record.userId, dto.newPassword);
+
     const newHash = await bcrypt.hash(dto.newPassword, 10);
 
     await this.repo.resetPasswordWithToken(record.userId, record.id, newHash);
+    await this.revokeSessions(record.userId);
 
     this.logger.info({ userId: record.userId }, 'Password reset confirmed');
   }
 
+  // ── Personificação ────────────────────────────────────────────────────────────
+
+  /**
+   * Emite um access token de curta duração para o superadmin agir como o usuário, sem
+   * refresh token. A sessão criada registra quem personificou e serve de trilha de auditoria.
+   */
+  async startImpersonation(
+    targetUserId: string,
+    impersonatorId: string,
+    context: SessionContext = {},
+  ) {
+    if (targetUserId === impersonatorId) {
+      throw new BadRequestException('Não é possível personificar o próprio usuário');
+    }
+
+    const user = await this.repo.findActiveUserById(targetUserId);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('Não é possível personificar um usuário inativo');
+    }
+    if (user.isSuperuser) {
+      throw new ForbiddenException('Não é possível personificar outro superadmin');
+    }
+
+    const session = await this.repo.createImpersonationSession({
+      userId: user.id,
+      impersonatorId,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+    });
+
+    const expiresIn = Number(this.configService.get('IMPERSONATION_EXPIRES_IN', 900));
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      isSuperuser: user.isSuperuser,
+      mustResetPassword: user.mustResetPassword,
+      sid: session.id,
+      ver: user.tokenVersion,
+      impersonatorId,
+    };
+
+    this.logger.warn(
+      { userId: user.id, impersonatorId, sessionId: session.id, ipAddress: context.ipAddress },
+      'Impersonation started',
+    );
+
+    return {
+      access_token: this.jwtService.sign(payload, { expiresIn }),
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+      impersonatorId,
+      user: {
+        id: user.id,
+        email: user.email,
+        isSuperuser: user.isSuperuser,
+        mustResetPassword: user.mustResetPassword,
+      },
+    };
+  }
+
+  listImpersonations(userId: string) {
+    return this.repo.findImpersonationSessions(userId);
+  }
+
+  // ── Troca de email ────────────────────────────────────────────────────────────
+
+  /**
+   * Envia um token de confirmação para o novo endereço e um aviso para o atual.
+   * O email só muda quando o token é confirmado. `currentPassword` é exigida quando o
+   * próprio usuário faz o pedido; o superadmin pode iniciar a troca sem ela.
+   */
+  async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    options: { currentPassword?: string; performedById?: string } = {},
+  ) {
+    const user = await this.repo.findActiveUserById(userId);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+
+    if (
+      options.currentPassword !== undefined &&
+      !(await bcrypt.compare(options.currentPassword, user.passwordHash))
+    ) {
+      this.logger.warn({ userId }, 'Email change requested with invalid password');
+      throw new BadRequestException('Senha atual incorreta');
+    }
+
+    const email = newEmail.trim();
+    if (email.toLowerCase() === user.email.toLowerCase()) {
+      throw new BadRequestException('O novo email é igual ao atual');
+    }
+    if (await this.repo.findUserByEmailExcluding(email, userId)) {
+      throw new ConflictException('Já existe um usuário com este email');
+    }
+
+    await this.repo.invalidateTokensByType(userId, TokenType.email_change);
+
+    const rawToken = crypto.randomBytes(32).toString('hex');
+    const tokenHash = crypto.createHash('sha256').update(rawToken).digest('hex');
+
+    const expiresInSeconds = this.configService.get<number>('EMAIL_CHANGE_EXPIRES_IN', 86400);
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+    await this.repo.createPasswordResetToken({
+      userId,
+      tokenHash,
+      type: TokenType.email_change,
+      newEmail: email,
+      expiresAt,
+    });
+
+    const frontendUrl = this.configService.getOrThrow<string>('FRONTEND_URL');
+    const confirmUrl = `${frontendUrl}/confirm-email?token=${rawToken}`;
+
+    try {
+      await this.mailerService.sendEmailChangeConfirmation(email, user.name, confirmUrl);
+    } catch (err) {
+      // Sem o email de confirmação o token não tem como ser usado
+      await this.repo.invalidateTokensByType(userId, TokenType.email_change);
+      throw err;
+    }
+
+    this.mailerService.sendEmailChangeNotice(user.email, user.name, email).catch((err: unknown) => {
+      this.logger.error({ userId, err }, 'Failed to send email change notice to current address');
+    });
+
+    this.logger.info(
+      { userId, expiresAt, performedById: options.performedById ?? userId },
+      'Email change requested',
+    );
+    return { pendingEmail: email, expiresAt };
+  }
+
+  async confirmEmailChange(rawToken: string) {
+    const tokenHash = crypto.createHash('sha256').update(rawToken).digest('hex');
+    const record = await this.repo.findPasswordResetTokenWithUser(tokenHash);
+
+    if (
+      !record ||
+      record.type !== TokenType.email_change ||
+      !record.newEmail ||
+      record.usedAt !== null ||
+      record.expiresAt < new Date()
+    ) {
+      this.logger.warn(
+        { tokenHashPrefix: tokenHash.slice(0, 8) },
+        'Invalid or expired email change token used',
+      );
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+
+    // O endereço pode ter sido ocupado por outra conta depois do pedido
+    if (await this.repo.findUserByEmailExcluding(record.newEmail, record.userId)) {
+      throw new ConflictException('Já existe um usuário com este email');
+    }
+
+    const user = await this.repo
+      .applyEmailChange(record.userId, record.id, record.newEmail)
+      .catch((err: unknown) => {
+        // Outra conta pode ter ocupado o endereço entre a verificação acima e a gravação
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+          throw new ConflictException('Já existe um usuário com este email');
+        }
+        throw err;
+      });
+
+    if (!user) {
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+
+    this.logger.info(
+      { userId: user.id, previousEmail: record.user.email, email: user.email },
+      'Email change confirmed',
+    );
+    return { email: user.email };
+  }
+
   /** Valida um token de primeiro acesso sem consumi-lo. Retorna email do usuário. */
   async validateFirstAccessToken(rawToken: string): Promise<{ email: string }> {
     const tokenHash = crypto.createHash('sha256').update(rawToken).digest('hex');
@@ -213,7 +676,10 @@ export class AuthService {
     return this.generateFirstAccessToken(userId);
   }
 
-  /** Invalida as credenciais do usuário: seta mustResetPassword=true e gera novo token de primeiro acesso. */
+  /**
+   * Invalida as credenciais do usuário: seta mustResetPassword=true, revoga sessões e tokens de
+   * acesso pessoal e gera novo token de primeiro acesso.
+   */
   async invalidateUserCredentials(userId: string, performedById: string): Promise<string> {
     const user = await this.repo.findActiveUserById(userId);
 
@@ -221,7 +687,9 @@ export class AuthService {
       throw new NotFoundException('Usuário não encontrado');
     }
 
-    await this.repo.updateUser(userId, { mustResetPassword: true });
+    await this.repo.updateUser(userId, { mustResetPassword: true, tokenVersion: { increment: 1 } });
+    await this.revokeSessions(userId);
+    await this.repo.revokePersonalAccessTokens(userId);
 
     const rawToken = await this.generateFirstAccessToken(userId);
 
@@ -229,7 +697,10 @@ export class AuthService {
     return rawToken;
   }
 
-  /** Consome um token de primeiro acesso: define nome + senha e retorna JWT de login. */
+  /**
+   * Consome um token de primeiro acesso: define nome + senha e retorna o usuário. Os tokens
+   * são emitidos por TwoFactorService.loginWithFirstAccess, que aplica o desafio 2FA.
+   */
   async consumeFirstAccessToken(rawToken: string, dto: ConsumeFirstAccessDto) {
     if (dto.newPassword !== dto.confirmPassword) {
       throw new BadRequestException('As senhas não coincidem');
@@ -251,6 +722,8 @@ export class AuthService {
       throw new BadRequestException('Token inválido ou expirado');
     }
 
+    await this.passwordPolicy.assertPasswordAllowed(record.userId, dto.newPassword, dto.name);
+
     const passwordHash = await bcrypt.hash(dto.newPassword, 10);
     const user = await this.repo.consumeFirstAccessToken(
       record.userId,
@@ -259,8 +732,9 @@ export class AuthService {
       dto.name.trim(),
     );
 
-    this.logger.info({ userId: user.id }, 'First access token consumed — user set password');
+    await this.revokeSessions(user.id);
 
-    return this.login(user);
+    this.logger.info({ userId: user.id }, 'First access token consumed — user set password');
+    return user;
   }
 }
@@ -0,0 +1,107 @@
+/**
+ * Senhas mais comuns em vazamentos públicos, incluindo variações populares no Brasil.
+ * Comparação feita em minúsculas.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '000000',
+  '00000000',
+  '111111',
+  '11111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123456a',
+  '123456abc',
+  '123mudar',
+  '123qwe',
+  '123abc',
+  '147258',
+  '147258369',
+  '159753',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '222222',
+  '555555',
+  '654321',
+  '666666',
+  '696969',
+  '7777777',
+  '888888',
+  '987654321',
+  'a123456',
+  'aa123456',
+  'abc123',
+  'abc12345',
+  'abcd1234',
+  'abcdef',
+  'access',
+  'admin',
+  'admin123',
+  'administrador',
+  'administrator',
+  'amor',
+  'amorzinho',
+  'asdfgh',
+  'asdfghjkl',
+  'azerty',
+  'bailey',
+  'baseball',
+  'batman',
+  'brasil',
+  'brasil123',
+  'charlie',
+  'corinthians',
+  'dragon',
+  'flamengo',
+  'football',
+  'freedom',
+  'gabriel',
+  'gremio',
+  'iloveyou',
+  'internet',
+  'jesus',
+  'jesus123',
+  'letmein',
+  'login',
+  'master',
+  'michael',
+  'monkey',
+  'mudar123',
+  'mudarsenha',
+  'mustang',
+  'palmeiras',
+  'passw0rd',
+  'password',
+  'password1',
+  'password123',
+  'qazwsx',
+  'qwe123',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'santos',
+  'saopaulo',
+  'senha',
+  'senha123',
+  'senha1234',
+  'senha@123',
+  'shadow',
+  'sunshine',
+  'superman',
+  'taskstation',
+  'teste',
+  'teste123',
+  'trustno1',
+  'welcome',
+  'whatever',
+  'zaq12wsx',
+]);
@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_PENDING_PASSWORD_RESET_KEY = 'allowPendingPasswordReset';
+export const AllowPendingPasswordReset = () => SetMetadata(ALLOW_PENDING_PASSWORD_RESET_KEY, true);
@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DENY_IMPERSONATION_KEY = 'denyImpersonation';
+export const DenyImpersonation = () => SetMetadata(DENY_IMPERSONATION_KEY, true);
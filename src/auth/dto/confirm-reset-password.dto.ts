@@ -1,10 +1,10 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, MinLength } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ConfirmResetPasswordDto {
-  @ApiProperty({ example: 'NovaS3nh@', minLength: 6 })
+  @ApiProperty({ example: 'NovaS3nh@', description: 'Validada pela política de senhas da empresa' })
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   newPassword: string;
 
   @ApiProperty({ example: 'NovaS3nh@' })
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ConsumeFirstAccessDto {
   @ApiProperty({ example: 'João Silva' })
@@ -7,12 +7,15 @@ export class ConsumeFirstAccessDto {
   @IsNotEmpty()
   name: string;
 
-  @ApiProperty({ example: 'minhaSenha123' })
+  @ApiProperty({
+    example: 'MinhaS3nha!',
+    description: 'Validada pela política de senhas da empresa',
+  })
   @IsString()
-  @MinLength(8)
+  @IsNotEmpty()
   newPassword: string;
 
-  @ApiProperty({ example: 'minhaSenha123' })
+  @ApiProperty({ example: 'MinhaS3nha!' })
   @IsString()
   @IsNotEmpty()
   confirmPassword: string;
@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Permission, PERMISSIONS } from '../../policy/permissions';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({ example: 'Pipeline de deploy' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: PERMISSIONS,
+    isArray: true,
+    example: ['project.read', 'task.read', 'task.write'],
+    description: 'Permissões que o token pode exercer, limitadas às do próprio usuário',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(PERMISSIONS, { each: true })
+  scopes: Permission[];
+
+  @ApiPropertyOptional({
+    example: 90,
+    minimum: 1,
+    maximum: 365,
+    description: 'Validade em dias — sem o campo, o token não expira',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({ example: '3f9a1c...' })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class RequestEmailChangeDto {
+  @ApiProperty({ example: 'maria.costa@novaempresa.com' })
+  @IsEmail()
+  newEmail: string;
+
+  @ApiProperty({ example: 'S3nh@Atual', description: 'Senha atual, para confirmar a identidade' })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, MinLength } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
 
 export class ResetPasswordDto {
   @ApiPropertyOptional({ example: 'Maria Costa' })
@@ -7,9 +7,9 @@ export class ResetPasswordDto {
   @IsString()
   name?: string;
 
-  @ApiProperty({ example: 'NovaS3nh@', minLength: 6 })
+  @ApiProperty({ example: 'NovaS3nh@', description: 'Validada pela política de senhas da empresa' })
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   newPassword: string;
 
   @ApiProperty({ example: 'NovaS3nh@' })
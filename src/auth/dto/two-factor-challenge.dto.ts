@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'challengeToken retornado pelo login' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Código do app autenticador ou código de recuperação',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({ description: 'challengeToken retornado pelo login' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: 'Código do app autenticador ou código de recuperação',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { DENY_IMPERSONATION_KEY } from '../decorators/deny-impersonation.decorator';
+import { AuthUser } from '../strategies/jwt.strategy';
+
+/** Código retornado no corpo do 403 quando a operação exige o próprio usuário */
+export const IMPERSONATION_FORBIDDEN = 'IMPERSONATION_FORBIDDEN';
+
+/**
+ * Guard global: marca os logs de requisições personificadas com impersonatorId e bloqueia
+ * as rotas marcadas com @DenyImpersonation (senha, 2FA, email, tokens e sessões).
+ */
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @InjectPinoLogger(ImpersonationGuard.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest<{ user?: AuthUser }>();
+
+    if (!user?.impersonatorId) {
+      return true;
+    }
+
+    // Todas as linhas de log desta requisição, inclusive a de resposta, levam a marca
+    this.logger.assign({ impersonatorId: user.impersonatorId, impersonatedUserId: user.id });
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(DENY_IMPERSONATION_KEY, targets)) {
+      this.logger.warn('Sensitive operation blocked during impersonation');
+      throw new ForbiddenException({
+        message: 'Operação não permitida durante a personificação',
+        code: IMPERSONATION_FORBIDDEN,
+      });
+    }
+
+    return true;
+  }
+}
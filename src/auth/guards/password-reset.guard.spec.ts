@@ -0,0 +1,112 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { MeController } from '../../me/me.controller';
+import { AuthController } from '../auth.controller';
+import { ALLOW_PENDING_PASSWORD_RESET_KEY } from '../decorators/allow-pending-password-reset.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthUser } from '../strategies/jwt.strategy';
+import { PASSWORD_RESET_REQUIRED, PasswordResetGuard } from './password-reset.guard';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+type Handler = (...args: never[]) => unknown;
+
+function makeUser(overrides: Partial<AuthUser> = {}): AuthUser {
+  return {
+    id: 'user-1',
+    email: 'user@acme.com',
+    isSuperuser: false,
+    mustResetPassword: true,
+    ...overrides,
+  };
+}
+
+function makeContext(
+  user: AuthUser | undefined,
+  handler: Handler = () => undefined,
+  controller: new (...args: never[]) => unknown = class {},
+) {
+  return {
+    getHandler: () => handler,
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  } as unknown as ExecutionContext;
+}
+
+/** Reflector cujo getAllAndOverride responde conforme os metadados informados */
+function makeReflector(metadata: Record<string, boolean> = {}) {
+  return {
+    getAllAndOverride: jest.fn((key: string) => metadata[key]),
+  } as unknown as jest.Mocked<Reflector>;
+}
+
+function makeGuard(reflector: Reflector) {
+  return new PasswordResetGuard(reflector);
+}
+
+// ── canActivate ────────────────────────────────────────────────────────────────
+
+describe('PasswordResetGuard.canActivate', () => {
+  it('libera rotas públicas sem consultar o usuário', () => {
+    const reflector = makeReflector({ [IS_PUBLIC_KEY]: true });
+    expect(makeGuard(reflector).canActivate(makeContext(undefined))).toBe(true);
+    expect(reflector.getAllAndOverride).not.toHaveBeenCalledWith(
+      ALLOW_PENDING_PASSWORD_RESET_KEY,
+      expect.anything(),
+    );
+  });
+
+  it('libera usuários sem redefinição de senha pendente', () => {
+    const guard = makeGuard(makeReflector());
+    expect(guard.canActivate(makeContext(makeUser({ mustResetPassword: false })))).toBe(true);
+  });
+
+  it('bloqueia com 403 e código PASSWORD_RESET_REQUIRED quando há redefinição pendente', () => {
+    const guard = makeGuard(makeReflector());
+    let error: unknown;
+    try {
+      guard.canActivate(makeContext(makeUser()));
+    } catch (err: unknown) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getStatus()).toBe(403);
+    expect((error as ForbiddenException).getResponse()).toEqual(
+      expect.objectContaining({ code: PASSWORD_RESET_REQUIRED }),
+    );
+  });
+
+  it('libera rotas marcadas com @AllowPendingPasswordReset', () => {
+    const guard = makeGuard(makeReflector({ [ALLOW_PENDING_PASSWORD_RESET_KEY]: true }));
+    expect(guard.canActivate(makeContext(makeUser()))).toBe(true);
+  });
+
+  it('bloqueia tokens de acesso pessoal de usuários com redefinição pendente', () => {
+    const guard = makeGuard(makeReflector());
+    const user = makeUser({ personalAccessTokenId: 'pat-1', tokenScopes: ['task.read'] });
+    expect(() => guard.canActivate(makeContext(user))).toThrow(ForbiddenException);
+  });
+});
+
+// ── allow-list ─────────────────────────────────────────────────────────────────
+
+describe('PasswordResetGuard — rotas liberadas durante a redefinição', () => {
+  const guard = makeGuard(new Reflector());
+
+  it.each<[string, Handler, new (...args: never[]) => unknown]>([
+    ['POST auth/logout', AuthController.prototype.logout, AuthController],
+    ['POST auth/reset-password', AuthController.prototype.resetPassword, AuthController],
+    ['GET me/empresas', MeController.prototype.getMyCompanies, MeController],
+    ['GET me/sessions', MeController.prototype.listSessions, MeController],
+    ['DELETE me/sessions', MeController.prototype.revokeOtherSessions, MeController],
+    ['DELETE me/sessions/:sessionId', MeController.prototype.revokeSession, MeController],
+  ])('%s', (_route, handler, controller) => {
+    expect(guard.canActivate(makeContext(makeUser(), handler, controller))).toBe(true);
+  });
+
+  it('bloqueia rotas fora da lista', () => {
+    expect(() =>
+      guard.canActivate(makeContext(makeUser(), MeController.prototype.createToken, MeController)),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,40 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ALLOW_PENDING_PASSWORD_RESET_KEY } from '../decorators/allow-pending-password-reset.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthUser } from '../strategies/jwt.strategy';
+
+/** Código retornado no corpo do 403 para o frontend redirecionar à troca de senha */
+export const PASSWORD_RESET_REQUIRED = 'PASSWORD_RESET_REQUIRED';
+
+/**
+ * Guard global: enquanto o token indicar mustResetPassword, só passam rotas públicas e
+ * as marcadas com @AllowPendingPasswordReset (redefinição de senha, logout e /me).
+ */
+@Injectable()
+export class PasswordResetGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<{ user?: AuthUser }>();
+
+    if (!user?.mustResetPassword) {
+      return true;
+    }
+
+    if (this.reflector.getAllAndOverride<boolean>(ALLOW_PENDING_PASSWORD_RESET_KEY, targets)) {
+      return true;
+    }
+
+    throw new ForbiddenException({
+      message: 'É necessário redefinir a senha antes de continuar',
+      code: PASSWORD_RESET_REQUIRED,
+    });
+  }
+}
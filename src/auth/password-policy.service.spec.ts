@@ -0,0 +1,201 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { AuthRepository } from './auth.repository';
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  mergePasswordPolicies,
+  PasswordPolicyRules,
+} from './password-policy';
+import { PasswordPolicyService } from './password-policy.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+function makeUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    email: 'maria.costa@acme.com',
+    name: 'Maria Costa',
+    passwordHash: bcrypt.hashSync('Atual#2025', 4),
+    ...overrides,
+  };
+}
+
+function makeRepo(overrides: Partial<Record<keyof AuthRepository, jest.Mock>> = {}) {
+  return {
+    findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
+    findUserPasswordPolicies: jest.fn().mockResolvedValue([]),
+    findPasswordHistory: jest.fn().mockResolvedValue([]),
+    ...overrides,
+  } as unknown as jest.Mocked<AuthRepository>;
+}
+
+function makeService(repo: jest.Mocked<AuthRepository>) {
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  return new PasswordPolicyService(repo, logger as any);
+}
+
+function rulesOf(password: string, policy: Partial<PasswordPolicyRules> = {}, personal = {}) {
+  return checkPasswordRules(password, { ...DEFAULT_PASSWORD_POLICY, ...policy }, personal).map(
+    (v) => v.rule,
+  );
+}
+
+async function violationsOf(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (err) {
+    const response = (err as BadRequestException).getResponse() as {
+      violations: { rule: string }[];
+    };
+    return response.violations.map((v) => v.rule);
+  }
+  throw new Error('esperava exceção');
+}
+
+// ── regras ─────────────────────────────────────────────────────────────────────
+
+describe('checkPasswordRules', () => {
+  it('aceita senha que atende ao padrão do sistema', () => {
+    expect(rulesOf('Tr3vo-Azul')).toEqual([]);
+  });
+
+  it('aponta cada regra violada separadamente', () => {
+    expect(rulesOf('abc', { requireSymbol: true })).toEqual([
+      'minLength',
+      'uppercase',
+      'digit',
+      'symbol',
+    ]);
+  });
+
+  it('considera letras acentuadas nas classes de caracteres', () => {
+    expect(rulesOf('ÁRVORE-sólida1')).toEqual([]);
+  });
+
+  it('rejeita senhas comuns ignorando caixa', () => {
+    expect(rulesOf('Password123')).toContain('common');
+    expect(rulesOf('Password123', { blockCommonPasswords: false })).not.toContain('common');
+  });
+
+  it('rejeita senha que contém parte do email ou do nome, ignorando acentos', () => {
+    const personal = { email: 'joao.silva@acme.com', name: 'João Silva' };
+    expect(rulesOf('Xyz-Silva99', {}, personal)).toContain('personalInfo');
+    expect(rulesOf('Joao#2026x', {}, personal)).toContain('personalInfo');
+    expect(rulesOf('Tr3vo-Azul', {}, personal)).not.toContain('personalInfo');
+  });
+
+  it('ignora partes muito curtas do nome', () => {
+    expect(rulesOf('Tr3vo-Azul', {}, { name: 'Ze Tr' })).not.toContain('personalInfo');
+  });
+});
+
+describe('mergePasswordPolicies', () => {
+  it('retorna o padrão quando não há políticas', () => {
+    expect(mergePasswordPolicies([])).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('combina mantendo a regra mais restritiva de cada política', () => {
+    const lax = { ...DEFAULT_PASSWORD_POLICY, minLength: 6, requireUppercase: false };
+    const strict = {
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireSymbol: true,
+      historySize: 5,
+    };
+    expect(mergePasswordPolicies([lax, strict])).toEqual({
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireSymbol: true,
+      historySize: 5,
+    });
+  });
+});
+
+// ── PasswordPolicyService ──────────────────────────────────────────────────────
+
+describe('PasswordPolicyService.getEffectivePolicy', () => {
+  it('usa o padrão do sistema para empresas sem política própria', async () => {
+    const repo = makeRepo({
+      findUserPasswordPolicies: jest
+        .fn()
+        .mockResolvedValue([null, { ...DEFAULT_PASSWORD_POLICY, minLength: 6 }]),
+    });
+    const policy = await makeService(repo).getEffectivePolicy('user-1');
+    expect(policy.minLength).toBe(DEFAULT_PASSWORD_POLICY.minLength);
+  });
+
+  it('aplica a política da empresa quando é a única', async () => {
+    const repo = makeRepo({
+      findUserPasswordPolicies: jest
+        .fn()
+        .mockResolvedValue([{ ...DEFAULT_PASSWORD_POLICY, minLength: 6, requireUppercase: false }]),
+    });
+    const policy = await makeService(repo).getEffectivePolicy('user-1');
+    expect(policy.minLength).toBe(6);
+    expect(policy.requireUppercase).toBe(false);
+  });
+});
+
+describe('PasswordPolicyService.assertPasswordAllowed', () => {
+  it('lança NotFoundException quando usuário não encontrado', async () => {
+    const repo = makeRepo({ findActiveUserById: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).assertPasswordAllowed('user-x', 'Tr3vo-Azul')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('aceita senha válida e inédita', async () => {
+    const repo = makeRepo();
+    await expect(
+      makeService(repo).assertPasswordAllowed('user-1', 'Tr3vo-Azul'),
+    ).resolves.toBeUndefined();
+    expect(repo.findPasswordHistory).toHaveBeenCalledWith('user-1', 3);
+  });
+
+  it('lança BadRequestException com a lista de regras violadas', async () => {
+    const repo = makeRepo();
+    await expect(
+      violationsOf(makeService(repo).assertPasswordAllowed('user-1', 'abc')),
+    ).resolves.toEqual(['minLength', 'uppercase', 'digit']);
+  });
+
+  it('valida contra o nome informado no mesmo formulário', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ name: 'x' })),
+    });
+    await expect(
+      violationsOf(makeService(repo).assertPasswordAllowed('user-1', 'Renata#2026', 'Renata Lima')),
+    ).resolves.toEqual(['personalInfo']);
+  });
+
+  it('rejeita a senha atual', async () => {
+    const repo = makeRepo();
+    await expect(
+      violationsOf(makeService(repo).assertPasswordAllowed('user-1', 'Atual#2025')),
+    ).resolves.toEqual(['history']);
+  });
+
+  it('rejeita senha presente no histórico', async () => {
+    const repo = makeRepo({
+      findPasswordHistory: jest
+        .fn()
+        .mockResolvedValue([{ passwordHash: bcrypt.hashSync('Antiga#2024', 4) }]),
+    });
+    await expect(
+      violationsOf(makeService(repo).assertPasswordAllowed('user-1', 'Antiga#2024')),
+    ).resolves.toEqual(['history']);
+  });
+
+  it('não consulta o histórico quando historySize é 0', async () => {
+    const repo = makeRepo({
+      findUserPasswordPolicies: jest
+        .fn()
+        .mockResolvedValue([{ ...DEFAULT_PASSWORD_POLICY, historySize: 0 }]),
+    });
+    await expect(
+      makeService(repo).assertPasswordAllowed('user-1', 'Atual#2025'),
+    ).resolves.toBeUndefined();
+    expect(repo.findPasswordHistory).not.toHaveBeenCalled();
+  });
+});
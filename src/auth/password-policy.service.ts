@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { AuthRepository } from './auth.repository';
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  mergePasswordPolicies,
+  PasswordPolicyRules,
+  PasswordViolation,
+} from './password-policy';
+
+/**
+ * Aplica a política de senha efetiva do usuário: a mais restritiva entre as empresas às quais
+ * ele pertence, usando o padrão do sistema para empresas sem configuração própria.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    private readonly repo: AuthRepository,
+    @InjectPinoLogger(PasswordPolicyService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  async getEffectivePolicy(userId: string): Promise<PasswordPolicyRules> {
+    const policies = await this.repo.findUserPasswordPolicies(userId);
+    return mergePasswordPolicies(policies.map((policy) => policy ?? DEFAULT_PASSWORD_POLICY));
+  }
+
+  /**
+   * Lança BadRequestException com a lista de regras violadas.
+   * `name` permite validar contra o nome informado no mesmo formulário (primeiro acesso).
+   */
+  async assertPasswordAllowed(userId: string, password: string, name?: string): Promise<void> {
+    const user = await this.repo.findActiveUserById(userId);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+
+    const policy = await this.getEffectivePolicy(userId);
+    const violations: PasswordViolation[] = checkPasswordRules(password, policy, {
+      email: user.email,
+      name: [user.name, name].filter(Boolean).join(' '),
+    });
+
+    if (policy.historySize > 0 && (await this.isReused(user, password, policy.historySize))) {
+      violations.push({
+        rule: 'history',
+        message: `A senha não pode ser igual a nenhuma das últimas ${policy.historySize} senhas`,
+      });
+    }
+
+    if (violations.length > 0) {
+      this.logger.warn(
+        { userId, rules: violations.map((v) => v.rule) },
+        'Password rejected by policy',
+      );
+      throw new BadRequestException({
+        message: 'A senha não atende à política de senhas',
+        violations,
+      });
+    }
+  }
+
+  private async isReused(
+    user: { id: string; passwordHash: string },
+    password: string,
+    historySize: number,
+  ) {
+    const history = await this.repo.findPasswordHistory(user.id, historySize);
+    const hashes = [...new Set([user.passwordHash, ...history.map((h) => h.passwordHash)])].slice(
+      0,
+      historySize,
+    );
+
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
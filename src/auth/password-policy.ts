@@ -0,0 +1,114 @@
+import { COMMON_PASSWORDS } from './common-passwords';
+
+export interface PasswordPolicyRules {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  blockCommonPasswords: boolean;
+  blockPersonalInfo: boolean;
+  /** Quantidade de senhas anteriores (incluindo a atual) que não podem ser reutilizadas */
+  historySize: number;
+}
+
+export type PasswordRule =
+  | 'minLength'
+  | 'uppercase'
+  | 'lowercase'
+  | 'digit'
+  | 'symbol'
+  | 'common'
+  | 'personalInfo'
+  | 'history';
+
+export interface PasswordViolation {
+  rule: PasswordRule;
+  message: string;
+}
+
+/** Política aplicada a empresas sem configuração própria e a usuários sem empresa */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicyRules = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  blockCommonPasswords: true,
+  blockPersonalInfo: true,
+  historySize: 3,
+};
+
+/** Partes do email/nome menores que isso não são consideradas informação pessoal */
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+/** Combina políticas de várias empresas mantendo a regra mais restritiva de cada uma */
+export function mergePasswordPolicies(policies: PasswordPolicyRules[]): PasswordPolicyRules {
+  if (policies.length === 0) {
+    return { ...DEFAULT_PASSWORD_POLICY };
+  }
+
+  return policies.reduce((acc, policy) => ({
+    minLength: Math.max(acc.minLength, policy.minLength),
+    requireUppercase: acc.requireUppercase || policy.requireUppercase,
+    requireLowercase: acc.requireLowercase || policy.requireLowercase,
+    requireDigit: acc.requireDigit || policy.requireDigit,
+    requireSymbol: acc.requireSymbol || policy.requireSymbol,
+    blockCommonPasswords: acc.blockCommonPasswords || policy.blockCommonPasswords,
+    blockPersonalInfo: acc.blockPersonalInfo || policy.blockPersonalInfo,
+    historySize: Math.max(acc.historySize, policy.historySize),
+  }));
+}
+
+/** Verifica as regras que dependem só da senha e dos dados do usuário (o histórico fica de fora) */
+export function checkPasswordRules(
+  password: string,
+  policy: PasswordPolicyRules,
+  personal: { email?: string; name?: string } = {},
+): PasswordViolation[] {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      rule: 'minLength',
+      message: `A senha deve ter pelo menos ${policy.minLength} caracteres`,
+    });
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    violations.push({ rule: 'uppercase', message: 'A senha deve conter uma letra maiúscula' });
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    violations.push({ rule: 'lowercase', message: 'A senha deve conter uma letra minúscula' });
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push({ rule: 'digit', message: 'A senha deve conter um número' });
+  }
+  if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+    violations.push({ rule: 'symbol', message: 'A senha deve conter um símbolo' });
+  }
+  if (policy.blockCommonPasswords && COMMON_PASSWORDS.has(password.toLowerCase())) {
+    violations.push({ rule: 'common', message: 'A senha é muito comum' });
+  }
+  if (policy.blockPersonalInfo && containsPersonalInfo(password, personal)) {
+    violations.push({
+      rule: 'personalInfo',
+      message: 'A senha não pode conter seu email ou nome',
+    });
+  }
+
+  return violations;
+}
+
+function containsPersonalInfo(password: string, personal: { email?: string; name?: string }) {
+  const normalized = normalize(password);
+  const localPart = personal.email?.split('@')[0] ?? '';
+  const tokens = [localPart, ...localPart.split(/[._+-]/), ...(personal.name?.split(/\s+/) ?? [])]
+    .map(normalize)
+    .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+
+  return tokens.some((token) => normalized.includes(token));
+}
+
+function normalize(value: string) {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
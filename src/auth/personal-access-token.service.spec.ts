@@ -0,0 +1,155 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { AuthRepository } from './auth.repository';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function sha256(value: string) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function makeRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'pat-1',
+    userId: 'user-1',
+    name: 'CI',
+    tokenHash: sha256('tsp_valid'),
+    tokenPrefix: 'tsp_valid',
+    scopes: ['task.read', 'task.write'],
+    expiresAt: null as Date | null,
+    lastUsedAt: null as Date | null,
+    revokedAt: null as Date | null,
+    createdAt: NOW,
+    user: {
+      id: 'user-1',
+      email: 'user@example.com',
+      isSuperuser: false,
+      mustResetPassword: false,
+      isActive: true,
+      deletedAt: null as Date | null,
+    },
+    ...overrides,
+  };
+}
+
+function makeRepo(overrides: Partial<Record<keyof AuthRepository, jest.Mock>> = {}) {
+  return {
+    createPersonalAccessToken: jest.fn((data: Record<string, unknown>) =>
+      Promise.resolve({ id: 'pat-1', ...data }),
+    ),
+    findPersonalAccessTokens: jest.fn().mockResolvedValue([]),
+    findPersonalAccessTokenByHash: jest.fn().mockResolvedValue(makeRecord()),
+    revokePersonalAccessTokens: jest.fn().mockResolvedValue(1),
+    touchPersonalAccessToken: jest.fn().mockResolvedValue({ count: 1 }),
+    ...overrides,
+  } as unknown as jest.Mocked<AuthRepository>;
+}
+
+function makeService(repo: jest.Mocked<AuthRepository>) {
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  return new PersonalAccessTokenService(repo, logger as any);
+}
+
+beforeEach(() => jest.useFakeTimers({ now: NOW }));
+afterEach(() => jest.useRealTimers());
+
+// ── create ─────────────────────────────────────────────────────────────────────
+
+describe('PersonalAccessTokenService.create', () => {
+  it('retorna o token em claro uma única vez e persiste apenas o hash', async () => {
+    const repo = makeRepo();
+    const result = await makeService(repo).create('user-1', {
+      name: ' CI ',
+      scopes: ['task.read'],
+    });
+
+    expect(result.token).toMatch(/^tsp_[\w-]{43}$/);
+    const data = repo.createPersonalAccessToken.mock.calls[0][0];
+    expect(data.tokenHash).toBe(sha256(result.token));
+    expect(data.tokenPrefix).toBe(result.token.slice(0, 12));
+    expect(data.name).toBe('CI');
+    expect(data.expiresAt).toBeNull();
+  });
+
+  it('calcula a expiração a partir de expiresInDays', async () => {
+    const repo = makeRepo();
+    await makeService(repo).create('user-1', {
+      name: 'CI',
+      scopes: ['task.read'],
+      expiresInDays: 30,
+    });
+    const data = repo.createPersonalAccessToken.mock.calls[0][0];
+    expect(data.expiresAt).toEqual(new Date('2026-01-31T12:00:00Z'));
+  });
+});
+
+// ── revoke ─────────────────────────────────────────────────────────────────────
+
+describe('PersonalAccessTokenService.revoke', () => {
+  it('lança NotFoundException quando token não pertence ao usuário ou já foi revogado', async () => {
+    const repo = makeRepo({ revokePersonalAccessTokens: jest.fn().mockResolvedValue(0) });
+    await expect(makeService(repo).revoke('user-1', 'pat-x')).rejects.toThrow(NotFoundException);
+  });
+
+  it('revoga somente o token informado', async () => {
+    const repo = makeRepo();
+    await makeService(repo).revoke('user-1', 'pat-1');
+    expect(repo.revokePersonalAccessTokens).toHaveBeenCalledWith('user-1', 'pat-1');
+  });
+});
+
+// ── validate ───────────────────────────────────────────────────────────────────
+
+describe('PersonalAccessTokenService.validate', () => {
+  it('retorna o usuário com os escopos do token e registra o uso', async () => {
+    const repo = makeRepo();
+    const user = await makeService(repo).validate('tsp_valid');
+    expect(repo.findPersonalAccessTokenByHash).toHaveBeenCalledWith(sha256('tsp_valid'));
+    expect(user).toEqual({
+      id: 'user-1',
+      email: 'user@example.com',
+      isSuperuser: false,
+      mustResetPassword: false,
+      personalAccessTokenId: 'pat-1',
+      tokenScopes: ['task.read', 'task.write'],
+    });
+    expect(repo.touchPersonalAccessToken).toHaveBeenCalledWith(
+      'pat-1',
+      new Date(NOW.getTime() - 60_000),
+    );
+  });
+
+  it('rejeita token desconhecido', async () => {
+    const repo = makeRepo({ findPersonalAccessTokenByHash: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).validate('tsp_other')).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita token revogado', async () => {
+    const repo = makeRepo({
+      findPersonalAccessTokenByHash: jest.fn().mockResolvedValue(makeRecord({ revokedAt: NOW })),
+    });
+    await expect(makeService(repo).validate('tsp_valid')).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita token expirado', async () => {
+    const repo = makeRepo({
+      findPersonalAccessTokenByHash: jest
+        .fn()
+        .mockResolvedValue(makeRecord({ expiresAt: new Date(NOW.getTime() - 1) })),
+    });
+    await expect(makeService(repo).validate('tsp_valid')).rejects.toThrow(UnauthorizedException);
+    expect(repo.touchPersonalAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('rejeita token de usuário inativo', async () => {
+    const record = makeRecord();
+    record.user.isActive = false;
+    const repo = makeRepo({
+      findPersonalAccessTokenByHash: jest.fn().mockResolvedValue(record),
+    });
+    await expect(makeService(repo).validate('tsp_valid')).rejects.toThrow(UnauthorizedException);
+  });
+});
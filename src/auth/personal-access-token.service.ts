@@ -0,0 +1,95 @@
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { Permission } from '../policy/permissions';
+import { AuthRepository } from './auth.repository';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import { AuthUser } from './strategies/jwt.strategy';
+
+/** Prefixo que identifica tokens de acesso pessoal no header Authorization */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'tsp_';
+
+/** Caracteres do token guardados em claro para o usuário reconhecê-lo na listagem */
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 8;
+
+/** Intervalo mínimo entre atualizações de lastUsedAt */
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class PersonalAccessTokenService {
+  constructor(
+    private readonly repo: AuthRepository,
+    @InjectPinoLogger(PersonalAccessTokenService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Cria o token e retorna o valor em claro — a única vez em que ele fica disponível */
+  async create(userId: string, dto: CreatePersonalAccessTokenDto) {
+    const rawToken = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const expiresAt = dto.expiresInDays
+      ? new Date(Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const token = await this.repo.createPersonalAccessToken({
+      userId,
+      name: dto.name.trim(),
+      tokenHash: this.hash(rawToken),
+      tokenPrefix: rawToken.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: dto.scopes,
+      expiresAt,
+    });
+
+    this.logger.info(
+      { userId, tokenId: token.id, scopes: dto.scopes, expiresAt },
+      'Personal access token created',
+    );
+    return { ...token, token: rawToken };
+  }
+
+  list(userId: string) {
+    return this.repo.findPersonalAccessTokens(userId);
+  }
+
+  async revoke(userId: string, tokenId: string): Promise<void> {
+    const revoked = await this.repo.revokePersonalAccessTokens(userId, tokenId);
+    if (revoked === 0) {
+      throw new NotFoundException('Token não encontrado');
+    }
+    this.logger.info({ userId, tokenId }, 'Personal access token revoked');
+  }
+
+  /** Resolve o usuário do token, rejeitando tokens revogados, expirados ou de usuários inativos */
+  async validate(rawToken: string): Promise<AuthUser> {
+    const record = await this.repo.findPersonalAccessTokenByHash(this.hash(rawToken));
+    const now = new Date();
+
+    if (
+      !record ||
+      record.revokedAt !== null ||
+      (record.expiresAt !== null && record.expiresAt <= now) ||
+      !record.user.isActive ||
+      record.user.deletedAt !== null
+    ) {
+      this.logger.warn({ tokenId: record?.id }, 'Rejected personal access token');
+      throw new UnauthorizedException('Token de acesso inválido ou expirado');
+    }
+
+    await this.repo.touchPersonalAccessToken(
+      record.id,
+      new Date(now.getTime() - TOKEN_TOUCH_INTERVAL_MS),
+    );
+
+    return {
+      id: record.user.id,
+      email: record.user.email,
+      isSuperuser: record.user.isSuperuser,
+      mustResetPassword: record.user.mustResetPassword,
+      personalAccessTokenId: record.id,
+      tokenScopes: record.scopes as Permission[],
+    };
+  }
+
+  private hash(rawToken: string) {
+    return crypto.createHash('sha256').update(rawToken).digest('hex');
+  }
+}
@@ -2,12 +2,20 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { Permission } from '../../policy/permissions';
+import { AuthService } from '../auth.service';
 
 export interface JwtPayload {
   sub: string;
   email: string;
   isSuperuser: boolean;
   mustResetPassword: boolean;
+  /** Sessão que originou este access token */
+  sid: string;
+  /** Versão de token do usuário no momento da emissão */
+  ver: number;
+  /** Superadmin que está agindo como o usuário (personificação) */
+  impersonatorId?: string;
 }
 
 export interface AuthUser {
@@ -15,11 +23,21 @@ export interface AuthUser {
   email: string;
   isSuperuser: boolean;
   mustResetPassword: boolean;
+  sessionId?: string;
+  /** Presente quando a requisição foi autenticada por token de acesso pessoal */
+  personalAccessTokenId?: string;
+  /** Escopos do token de acesso pessoal — limitam as permissões do usuário na requisição */
+  tokenScopes?: Permission[];
+  /** Presente quando um superadmin está agindo como o usuário */
+  impersonatorId?: string;
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly authService: AuthService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -27,12 +45,16 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     });
   }
 
-  validate(payload: JwtPayload): AuthUser {
+  async validate(payload: JwtPayload): Promise<AuthUser> {
+    await this.authService.validateAccessToken(payload);
+
     return {
       id: payload.sub,
       email: payload.email,
       isSuperuser: payload.isSuperuser,
       mustResetPassword: payload.mustResetPassword,
+      sessionId: payload.sid,
+      ...(payload.impersonatorId && { impersonatorId: payload.impersonatorId }),
     };
   }
 }
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from '../personal-access-token.service';
+import { AuthUser } from './jwt.strategy';
+
+type VerifyCallback = (err: unknown, user?: AuthUser | false) => void;
+
+/**
+ * Lê `Authorization: Bearer tsp_...`. Headers sem o prefixo de token pessoal falham
+ * sem erro, para o guard seguir para a próxima estratégia.
+ */
+class BearerPersonalAccessTokenStrategy {
+  // Atribuídos pelo passport à instância criada para cada requisição
+  declare success: (user: AuthUser) => void;
+  declare fail: (status: number) => void;
+  declare error: (err: unknown) => void;
+
+  constructor(private readonly verify: (token: string, done: VerifyCallback) => void) {}
+
+  authenticate(req: Request) {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+    if (scheme?.toLowerCase() !== 'bearer' || !token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return this.fail(401);
+    }
+
+    this.verify(token, (err, user) => {
+      if (err) {
+        return this.error(err);
+      }
+      return user ? this.success(user) : this.fail(401);
+    });
+  }
+}
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(
+  BearerPersonalAccessTokenStrategy,
+  'personal-access-token',
+) {
+  constructor(private readonly tokenService: PersonalAccessTokenService) {
+    super();
+  }
+
+  validate(token: string): Promise<AuthUser> {
+    return this.tokenService.validate(token);
+  }
+}
@@ -0,0 +1,331 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { decryptSecret, encryptSecret } from '../common/crypto/secret-cipher';
+import { AuthThrottleService } from './auth-throttle.service';
+import { AuthRepository } from './auth.repository';
+import { AuthService } from './auth.service';
+import { currentTotpStep, generateTotpCode, generateTotpSecret } from './totp';
+import { TwoFactorService } from './two-factor.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const ENCRYPTION_KEY = 'test-encryption-key';
+const SECRET = generateTotpSecret();
+
+function makeUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    email: 'test@example.com',
+    isActive: true,
+    isSuperuser: false,
+    mustResetPassword: false,
+    tokenVersion: 0,
+    totpSecret: encryptSecret(SECRET, ENCRYPTION_KEY),
+    totpEnabledAt: new Date(),
+    totpLastUsedStep: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof AuthRepository, jest.Mock>> = {},
+): jest.Mocked<AuthRepository> {
+  return {
+    findActiveUserById: jest.fn().mockResolvedValue(makeUser()),
+    countTwoFactorEnforcingCompanies: jest.fn().mockResolvedValue(0),
+    setPendingTotpSecret: jest.fn(),
+    enableTotp: jest.fn(),
+    disableTotp: jest.fn(),
+    markTotpStepUsed: jest.fn().mockResolvedValue(true),
+    consumeRecoveryCode: jest.fn().mockResolvedValue(false),
+    replaceRecoveryCodes: jest.fn(),
+    ...overrides,
+  } as unknown as jest.Mocked<AuthRepository>;
+}
+
+function makeService(repo: jest.Mocked<AuthRepository>, challenge: Record<string, unknown> = {}) {
+  const authService = {
+    login: jest.fn().mockResolvedValue({ access_token: 'jwt-token', refresh_token: 'refresh' }),
+    consumeFirstAccessToken: jest.fn().mockResolvedValue(makeUser({ totpEnabledAt: null })),
+  };
+  const throttle = {
+    assertLoginAllowed: jest.fn().mockResolvedValue(undefined),
+    recordLoginFailure: jest.fn().mockResolvedValue(undefined),
+  };
+  const jwtService = {
+    sign: jest.fn().mockReturnValue('challenge-token'),
+    verify: jest
+      .fn()
+      .mockReturnValue({ sub: 'user-1', typ: 'two_factor_login', ver: 0, ...challenge }),
+  };
+  const configService = {
+    get: jest.fn((_key: string, fallback?: unknown) => fallback),
+    getOrThrow: jest.fn(() => ENCRYPTION_KEY),
+  } as unknown as ConfigService;
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+  return {
+    service: new TwoFactorService(
+      repo,
+      authService as unknown as AuthService,
+      throttle as unknown as AuthThrottleService,
+      jwtService as unknown as JwtService,
+      configService,
+      logger as any,
+    ),
+    authService,
+    throttle,
+    jwtService,
+  };
+}
+
+// Relógio fixo no meio de um passo TOTP, para os códigos não virarem durante o teste
+beforeEach(() => jest.useFakeTimers({ now: new Date('2026-01-01T00:00:10Z') }));
+afterEach(() => jest.useRealTimers());
+
+function currentCode() {
+  return generateTotpCode(SECRET, currentTotpStep());
+}
+
+// ── totp ───────────────────────────────────────────────────────────────────────
+
+describe('totp', () => {
+  it('gera os códigos do vetor de teste do RFC 6238 (SHA1)', () => {
+    // Segredo ASCII "12345678901234567890" em base32
+    const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    expect(generateTotpCode(rfcSecret, Math.floor(59 / 30))).toBe('287082');
+    expect(generateTotpCode(rfcSecret, Math.floor(1111111109 / 30))).toBe('081804');
+  });
+
+  it('cifra e decifra o segredo', () => {
+    const encrypted = encryptSecret(SECRET, ENCRYPTION_KEY);
+    expect(encrypted).not.toContain(SECRET);
+    expect(decryptSecret(encrypted, ENCRYPTION_KEY)).toBe(SECRET);
+  });
+});
+
+// ── loginWithPassword ──────────────────────────────────────────────────────────
+
+describe('TwoFactorService.loginWithPassword', () => {
+  it('emite tokens direto quando usuário não tem 2FA nem obrigação', async () => {
+    const { service, authService } = makeService(makeRepo());
+    const user = makeUser({ totpEnabledAt: null });
+    const result = await service.loginWithPassword(user);
+    expect(authService.login).toHaveBeenCalledWith(user, {});
+    expect(result).toEqual({ access_token: 'jwt-token', refresh_token: 'refresh' });
+  });
+
+  it('retorna challengeToken quando 2FA está ativa', async () => {
+    const { service, authService, jwtService } = makeService(makeRepo());
+    const result = await service.loginWithPassword(makeUser());
+    expect(result).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token' });
+    expect(jwtService.sign).toHaveBeenCalledWith(
+      { sub: 'user-1', typ: 'two_factor_login', ver: 0 },
+      { expiresIn: 300 },
+    );
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+
+  it('exige cadastro quando alguma empresa do usuário obriga 2FA', async () => {
+    const repo = makeRepo({ countTwoFactorEnforcingCompanies: jest.fn().mockResolvedValue(1) });
+    const { service, authService } = makeService(repo);
+    const result = await service.loginWithPassword(makeUser({ totpEnabledAt: null }));
+    expect(result).toEqual({ twoFactorSetupRequired: true, challengeToken: 'challenge-token' });
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+});
+
+// ── loginWithFirstAccess ───────────────────────────────────────────────────────
+
+describe('TwoFactorService.loginWithFirstAccess', () => {
+  const dto = { name: 'João', newPassword: 'SamePass1!', confirmPassword: 'SamePass1!' };
+
+  it('emite tokens após definir a senha quando não há 2FA', async () => {
+    const { service, authService } = makeService(makeRepo());
+    const result = await service.loginWithFirstAccess('rawtoken', dto, { ipAddress: '10.0.0.1' });
+    expect(authService.consumeFirstAccessToken).toHaveBeenCalledWith('rawtoken', dto);
+    expect(authService.login).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), {
+      ipAddress: '10.0.0.1',
+    });
+    expect(result).toEqual({ access_token: 'jwt-token', refresh_token: 'refresh' });
+  });
+
+  it('exige o segundo fator de usuário com 2FA ativa', async () => {
+    const { service, authService } = makeService(makeRepo());
+    authService.consumeFirstAccessToken.mockResolvedValue(makeUser());
+    const result = await service.loginWithFirstAccess('rawtoken', dto);
+    expect(result).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token' });
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+
+  it('exige cadastro do 2FA quando alguma empresa do usuário obriga', async () => {
+    const repo = makeRepo({ countTwoFactorEnforcingCompanies: jest.fn().mockResolvedValue(1) });
+    const { service, authService } = makeService(repo);
+    const result = await service.loginWithFirstAccess('rawtoken', dto);
+    expect(result).toEqual({ twoFactorSetupRequired: true, challengeToken: 'challenge-token' });
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+});
+
+// ── verifyLogin ────────────────────────────────────────────────────────────────
+
+describe('TwoFactorService.verifyLogin', () => {
+  it('lança UnauthorizedException quando challengeToken é inválido', async () => {
+    const { service, jwtService } = makeService(makeRepo());
+    jwtService.verify.mockImplementation(() => {
+      throw new Error('jwt expired');
+    });
+    await expect(service.verifyLogin('bad', '123456')).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('lança UnauthorizedException quando o token é de outro propósito', async () => {
+    const { service } = makeService(makeRepo(), { typ: 'two_factor_setup' });
+    await expect(service.verifyLogin('challenge', currentCode())).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('lança UnauthorizedException quando versão de token mudou desde o challenge', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ tokenVersion: 1 })),
+    });
+    const { service } = makeService(repo);
+    await expect(service.verifyLogin('challenge', currentCode())).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('emite tokens com código TOTP válido', async () => {
+    const repo = makeRepo();
+    const { service, authService } = makeService(repo);
+    const result = await service.verifyLogin('challenge', currentCode(), { ipAddress: '10.0.0.1' });
+    expect(repo.markTotpStepUsed).toHaveBeenCalledWith('user-1', currentTotpStep());
+    expect(authService.login).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), {
+      ipAddress: '10.0.0.1',
+    });
+    expect(result.access_token).toBe('jwt-token');
+  });
+
+  it('registra falha de login com código inválido', async () => {
+    const { service, throttle, authService } = makeService(makeRepo());
+    await expect(
+      service.verifyLogin('challenge', '000000', { ipAddress: '10.0.0.1' }),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(throttle.recordLoginFailure).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+
+  it('não verifica o código quando a conta está bloqueada', async () => {
+    const repo = makeRepo();
+    const { service, throttle } = makeService(repo);
+    throttle.assertLoginAllowed.mockRejectedValue(new HttpException('bloqueada', 423));
+    await expect(service.verifyLogin('challenge', currentCode())).rejects.toThrow(HttpException);
+    expect(repo.markTotpStepUsed).not.toHaveBeenCalled();
+  });
+
+  it('rejeita código TOTP já utilizado', async () => {
+    const repo = makeRepo({ markTotpStepUsed: jest.fn().mockResolvedValue(false) });
+    const { service, authService } = makeService(repo);
+    await expect(service.verifyLogin('challenge', currentCode())).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(authService.login).not.toHaveBeenCalled();
+  });
+
+  it('aceita código de recuperação normalizando caixa e hífen', async () => {
+    const repo = makeRepo({ consumeRecoveryCode: jest.fn().mockResolvedValue(true) });
+    const { service, authService } = makeService(repo);
+    await service.verifyLogin('challenge', 'ABCDE-12345');
+    const expectedHash = crypto.createHash('sha256').update('abcde12345').digest('hex');
+    expect(repo.consumeRecoveryCode).toHaveBeenCalledWith('user-1', expectedHash);
+    expect(authService.login).toHaveBeenCalled();
+  });
+});
+
+// ── enrollment ─────────────────────────────────────────────────────────────────
+
+describe('TwoFactorService.beginEnrollment', () => {
+  it('lança ConflictException quando 2FA já está ativa', async () => {
+    const { service } = makeService(makeRepo());
+    await expect(service.beginEnrollment('user-1')).rejects.toThrow(ConflictException);
+  });
+
+  it('retorna URI otpauth e guarda o segredo cifrado', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest
+        .fn()
+        .mockResolvedValue(makeUser({ totpEnabledAt: null, totpSecret: null })),
+    });
+    const { service } = makeService(repo);
+    const result = await service.beginEnrollment('user-1');
+
+    expect(result.otpauthUri).toMatch(/^otpauth:\/\/totp\/Task%20Station%3Atest%40example\.com\?/);
+    expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+    const stored = repo.setPendingTotpSecret.mock.calls[0][1];
+    expect(decryptSecret(stored, ENCRYPTION_KEY)).toBe(result.secret);
+  });
+});
+
+describe('TwoFactorService.confirmEnrollment', () => {
+  it('lança BadRequestException quando não há cadastro em andamento', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest
+        .fn()
+        .mockResolvedValue(makeUser({ totpEnabledAt: null, totpSecret: null })),
+    });
+    const { service } = makeService(repo);
+    await expect(service.confirmEnrollment('user-1', '123456')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('lança BadRequestException com código inválido', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ totpEnabledAt: null })),
+    });
+    const { service } = makeService(repo);
+    const wrong = currentCode() === '000000' ? '111111' : '000000';
+    await expect(service.confirmEnrollment('user-1', wrong)).rejects.toThrow(BadRequestException);
+    expect(repo.enableTotp).not.toHaveBeenCalled();
+  });
+
+  it('ativa 2FA e devolve códigos de recuperação guardando apenas hashes', async () => {
+    const repo = makeRepo({
+      findActiveUserById: jest.fn().mockResolvedValue(makeUser({ totpEnabledAt: null })),
+    });
+    const { service } = makeService(repo);
+    const { recoveryCodes } = await service.confirmEnrollment('user-1', currentCode());
+
+    expect(recoveryCodes).toHaveLength(10);
+    const [, step, hashes] = repo.enableTotp.mock.calls[0];
+    expect(step).toBe(currentTotpStep());
+    expect(hashes).toHaveLength(10);
+    expect(hashes).not.toContain(recoveryCodes[0]);
+  });
+});
+
+// ── disable ────────────────────────────────────────────────────────────────────
+
+describe('TwoFactorService.disable', () => {
+  it('lança ForbiddenException quando a empresa exige 2FA', async () => {
+    const repo = makeRepo({ countTwoFactorEnforcingCompanies: jest.fn().mockResolvedValue(1) });
+    const { service } = makeService(repo);
+    await expect(service.disable('user-1', currentCode())).rejects.toThrow(ForbiddenException);
+    expect(repo.disableTotp).not.toHaveBeenCalled();
+  });
+
+  it('desativa 2FA com código válido', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    await service.disable('user-1', currentCode());
+    expect(repo.disableTotp).toHaveBeenCalledWith('user-1');
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { decryptSecret, encryptSecret } from '../common/crypto/secret-cipher';
+import { AuthThrottleService } from './auth-throttle.service';
+import { AuthRepository } from './auth.repository';
+import { AuthService, LoginUser, SessionContext } from './auth.service';
+import { ConsumeFirstAccessDto } from './dto/consume-first-access.dto';
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/** Propósito do token intermediário emitido entre a senha e o segundo fator */
+type ChallengePurpose = 'two_factor_login' | 'two_factor_setup';
+
+interface ChallengePayload {
+  sub: string;
+  typ: ChallengePurpose;
+  ver: number;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly repo: AuthRepository,
+    private readonly authService: AuthService,
+    private readonly throttle: AuthThrottleService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @InjectPinoLogger(TwoFactorService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  // ── Login em dois passos ──────────────────────────────────────────────────────
+
+  /**
+   * Primeiro passo do login, após a senha ser validada. Emite os tokens direto quando
+   * o usuário não tem 2FA; caso contrário devolve um challengeToken para o segundo passo
+   * (ou para o cadastro obrigatório, se alguma empresa do usuário exige 2FA).
+   */
+  async loginWithPassword(
+    user: LoginUser & { totpEnabledAt: Date | null },
+    context: SessionContext = {},
+  ) {
+    if (user.totpEnabledAt) {
+      this.logger.info({ userId: user.id }, 'Two-factor challenge issued');
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.signChallenge(user, 'two_factor_login'),
+      };
+    }
+
+    if (await this.isTwoFactorRequired(user.id)) {
+      this.logger.info({ userId: user.id }, 'Two-factor setup required before login');
+      return {
+        twoFactorSetupRequired: true,
+        challengeToken: this.signChallenge(user, 'two_factor_setup'),
+      };
+    }
+
+    return this.authService.login(user, context);
+  }
+
+  /**
+   * Conclui o primeiro acesso (nome + senha) e segue o mesmo fluxo do login por senha:
+   * o token enviado por email não dispensa o segundo fator nem o cadastro obrigatório.
+   */
+  async loginWithFirstAccess(
+    rawToken: string,
+    dto: ConsumeFirstAccessDto,
+    context: SessionContext = {},
+  ) {
+    const user = await this.authService.consumeFirstAccessToken(rawToken, dto);
+    return this.loginWithPassword(user, context);
+  }
+
+  /** Segundo passo do login: aceita um código TOTP ou um código de recuperação */
+  async verifyLogin(challengeToken: string, code: string, context: SessionContext = {}) {
+    const user = await this.resolveChallenge(challengeToken, 'two_factor_login');
+    await this.throttle.assertLoginAllowed(user.email, context.ipAddress);
+
+    if (!(await this.checkSecondFactor(user, code, true))) {
+      this.logger.warn({ userId: user.id }, 'Invalid two-factor code on login');
+      await this.throttle.recordLoginFailure(user.email, context.ipAddress);
+      throw new UnauthorizedException('Código de verificação inválido');
+    }
+
+    return this.authService.login(user, context);
+  }
+
+  /** Cadastro obrigatório durante o login — inicia com o challengeToken de setup */
+  async beginSetup(challengeToken: string) {
+    const user = await this.resolveChallenge(challengeToken, 'two_factor_setup');
+    return this.beginEnrollment(user.id);
+  }
+
+  /** Conclui o cadastro obrigatório e já emite os tokens de acesso */
+  async confirmSetup(challengeToken: string, code: string, context: SessionContext = {}) {
+    const user = await this.resolveChallenge(challengeToken, 'two_factor_setup');
+    const { recoveryCodes } = await this.confirmEnrollment(user.id, code);
+    const tokens = await this.authService.login(user, context);
+    return { ...tokens, recoveryCodes };
+  }
+
+  // ── Cadastro e gestão ─────────────────────────────────────────────────────────
+
+  async beginEnrollment(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Autenticação em dois fatores já está ativa');
+    }
+
+    const secret = generateTotpSecret();
+    await this.repo.setPendingTotpSecret(userId, encryptSecret(secret, this.encryptionKey()));
+
+    const issuer = this.configService.get<string>('TOTP_ISSUER', 'Task Station');
+    this.logger.info({ userId }, 'Two-factor enrollment started');
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, issuer) };
+  }
+
+  /** Confirma o cadastro com o primeiro código e devolve os códigos de recuperação (uma única vez) */
+  async confirmEnrollment(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Autenticação em dois fatores já está ativa');
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Nenhum cadastro de 2FA em andamento');
+    }
+
+    const step = verifyTotpCode(decryptSecret(user.totpSecret, this.encryptionKey()), code);
+    if (step === null) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.repo.enableTotp(
+      userId,
+      step,
+      recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    );
+
+    this.logger.info({ userId }, 'Two-factor authentication enabled');
+    return { recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException('Autenticação em dois fatores não está ativa');
+    }
+    if (!(await this.checkSecondFactor(user, code, false))) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.repo.replaceRecoveryCodes(
+      userId,
+      recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    );
+
+    this.logger.info({ userId }, 'Two-factor recovery codes regenerated');
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException('Autenticação em dois fatores não está ativa');
+    }
+    if (await this.isTwoFactorRequired(userId)) {
+      throw new ForbiddenException('Sua empresa exige autenticação em dois fatores');
+    }
+    if (!(await this.checkSecondFactor(user, code, true))) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    await this.repo.disableTotp(userId);
+    this.logger.info({ userId }, 'Two-factor authentication disabled');
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────────
+
+  private async isTwoFactorRequired(userId: string) {
+    return (await this.repo.countTwoFactorEnforcingCompanies(userId)) > 0;
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.repo.findActiveUserById(userId);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+    return user;
+  }
+
+  private signChallenge(user: LoginUser, purpose: ChallengePurpose) {
+    const payload: ChallengePayload = { sub: user.id, typ: purpose, ver: user.tokenVersion };
+    const expiresIn = this.configService.get<number>('TWO_FACTOR_CHALLENGE_EXPIRES_IN', 300);
+    return this.jwtService.sign(payload, { expiresIn });
+  }
+
+  private async resolveChallenge(challengeToken: string, purpose: ChallengePurpose) {
+    let payload: ChallengePayload;
+    try {
+      payload = this.jwtService.verify<ChallengePayload>(challengeToken);
+    } catch {
+      throw new UnauthorizedException('Desafio de autenticação inválido ou expirado');
+    }
+
+    if (payload.typ !== purpose) {
+      throw new UnauthorizedException('Desafio de autenticação inválido ou expirado');
+    }
+
+    const user = await this.repo.findActiveUserById(payload.sub);
+    if (!user || !user.isActive || user.tokenVersion !== payload.ver) {
+      throw new UnauthorizedException('Desafio de autenticação inválido ou expirado');
+    }
+
+    return user;
+  }
+
+  /** Valida um código TOTP (sem reuso do mesmo passo) ou, se permitido, um código de recuperação */
+  private async checkSecondFactor(
+    user: { id: string; totpSecret: string | null },
+    code: string,
+    allowRecoveryCode: boolean,
+  ): Promise<boolean> {
+    if (user.totpSecret) {
+      const step = verifyTotpCode(decryptSecret(user.totpSecret, this.encryptionKey()), code);
+      if (step !== null) {
+        return this.repo.markTotpStepUsed(user.id, step);
+      }
+    }
+
+    if (
+      allowRecoveryCode &&
+      (await this.repo.consumeRecoveryCode(user.id, this.hashRecoveryCode(code)))
+    ) {
+      this.logger.warn({ userId: user.id }, 'Two-factor recovery code used');
+      return true;
+    }
+
+    return false;
+  }
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /** Normaliza (caixa, hífen, espaços) antes do hash para aceitar o código como o usuário digitar */
+  private hashRecoveryCode(code: string) {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private encryptionKey() {
+    return this.configService.getOrThrow<string>('TOTP_ENCRYPTION_KEY');
+  }
+}
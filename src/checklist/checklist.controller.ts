@@ -0,0 +1,82 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ChecklistService } from './checklist.service';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistItemsDto } from './dto/reorder-checklist-items.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+
+@ApiTags('checklist')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller(
+  'empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/tarefas/:taskId/checklist',
+)
+export class ChecklistController {
+  constructor(private readonly checklistService: ChecklistService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Listar itens do checklist da tarefa, na ordem definida' })
+  @ApiResponse({ status: 200, description: 'Itens do checklist' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  listItems(@Param() scope: TaskScope) {
+    return this.checklistService.listItems(scope);
+  }
+
+  @Post()
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Adicionar item ao final do checklist' })
+  @ApiResponse({ status: 201, description: 'Item criado' })
+  @ApiResponse({ status: 400, description: 'Responsável fora do time' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  createItem(@Param() scope: TaskScope, @Body() dto: CreateChecklistItemDto) {
+    return this.checklistService.createItem(scope, dto);
+  }
+
+  @Put('ordem')
+  @RequirePermission('task.write')
+  @ApiOperation({ summary: 'Reordenar todos os itens do checklist' })
+  @ApiResponse({ status: 200, description: 'Itens na nova ordem' })
+  @ApiResponse({ status: 400, description: 'Lista não corresponde aos itens do checklist' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  reorderItems(@Param() scope: TaskScope, @Body() dto: ReorderChecklistItemsDto) {
+    return this.checklistService.reorderItems(scope, dto);
+  }
+
+  @Patch(':itemId')
+  @RequirePermission('task.write')
+  @ApiOperation({ summary: 'Editar, concluir ou reabrir item do checklist' })
+  @ApiResponse({ status: 200, description: 'Item atualizado' })
+  @ApiResponse({ status: 400, description: 'Responsável fora do time' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou item não encontrado' })
+  updateItem(
+    @Param() scope: TaskScope,
+    @Param('itemId') itemId: string,
+    @Body() dto: UpdateChecklistItemDto,
+  ) {
+    return this.checklistService.updateItem(scope, itemId, dto);
+  }
+
+  @Delete(':itemId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Excluir item do checklist' })
+  @ApiResponse({ status: 204, description: 'Item excluído' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou item não encontrado' })
+  async deleteItem(@Param() scope: TaskScope, @Param('itemId') itemId: string) {
+    await this.checklistService.deleteItem(scope, itemId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ChecklistController } from './checklist.controller';
+import { ChecklistRepository } from './checklist.repository';
+import { ChecklistService } from './checklist.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ChecklistController],
+  providers: [ChecklistRepository, ChecklistService],
+})
+export class ChecklistModule {}
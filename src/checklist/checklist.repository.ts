@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } satisfies Prisma.UserSelect;
+
+const CHECKLIST_ITEM_SELECT = {
+  id: true,
+  taskId: true,
+  title: true,
+  order: true,
+  isCompleted: true,
+  completedAt: true,
+  dueDate: true,
+  createdAt: true,
+  updatedAt: true,
+  assignee: { select: USER_SUMMARY_SELECT },
+} satisfies Prisma.TaskChecklistItemSelect;
+
+@Injectable()
+export class ChecklistRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────────
+
+  /** Tarefa ativa do projeto, validando também workspace e empresa da rota */
+  findTask(taskId: string, projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        projectId,
+        deletedAt: null,
+        project: { workspaceId, deletedAt: null, workspace: { companyId, deletedAt: null } },
+      },
+      select: { id: true },
+    });
+  }
+
+  // ── Members ───────────────────────────────────────────────────────────────────
+
+  /** Indica se o usuário está ativo e tem vínculo no workspace ou na empresa */
+  async isMember(userId: string, companyId: string, workspaceId: string) {
+    const membership = await this.prisma.membership.findFirst({
+      where: {
+        userId,
+        deletedAt: null,
+        user: { deletedAt: null, isActive: true },
+        OR: [
+          { resourceType: ResourceType.company, resourceId: companyId },
+          { resourceType: ResourceType.workspace, resourceId: workspaceId },
+        ],
+      },
+      select: { id: true },
+    });
+    return membership !== null;
+  }
+
+  // ── Checklist items ───────────────────────────────────────────────────────────
+
+  findItems(taskId: string) {
+    return this.prisma.taskChecklistItem.findMany({
+      where: { taskId },
+      orderBy: { order: 'asc' },
+      select: CHECKLIST_ITEM_SELECT,
+    });
+  }
+
+  findItem(itemId: string, taskId: string) {
+    return this.prisma.taskChecklistItem.findFirst({ where: { id: itemId, taskId } });
+  }
+
+  findLastItem(taskId: string) {
+    return this.prisma.taskChecklistItem.findFirst({
+      where: { taskId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+  }
+
+  createItem(data: Prisma.TaskChecklistItemUncheckedCreateInput) {
+    return this.prisma.taskChecklistItem.create({ data, select: CHECKLIST_ITEM_SELECT });
+  }
+
+  updateItem(id: string, data: Prisma.TaskChecklistItemUncheckedUpdateInput) {
+    return this.prisma.taskChecklistItem.update({
+      where: { id },
+      data,
+      select: CHECKLIST_ITEM_SELECT,
+    });
+  }
+
+  deleteItem(id: string) {
+    return this.prisma.taskChecklistItem.delete({ where: { id } });
+  }
+
+  // ── Transactions ──────────────────────────────────────────────────────────────
+
+  reorderItems(taskId: string, itemIds: string[]) {
+    return this.prisma.$transaction(async (tx) => {
+      for (const [index, id] of itemIds.entries()) {
+        await tx.taskChecklistItem.update({ where: { id }, data: { order: index } });
+      }
+
+      return tx.taskChecklistItem.findMany({
+        where: { taskId },
+        orderBy: { order: 'asc' },
+        select: CHECKLIST_ITEM_SELECT,
+      });
+    });
+  }
+}
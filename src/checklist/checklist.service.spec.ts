@@ -0,0 +1,164 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ChecklistRepository } from './checklist.repository';
+import { ChecklistService } from './checklist.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const SCOPE: TaskScope = {
+  companyId: 'company-1',
+  workspaceId: 'ws-1',
+  projectId: 'project-1',
+  taskId: 'task-1',
+};
+
+function makeItem(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'item-1',
+    taskId: 'task-1',
+    title: 'Revisar textos',
+    order: 0,
+    isCompleted: false,
+    completedAt: null,
+    assigneeId: null,
+    dueDate: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof ChecklistRepository, jest.Mock>> = {},
+): jest.Mocked<ChecklistRepository> {
+  return {
+    findTask: jest.fn().mockResolvedValue({ id: 'task-1' }),
+    isMember: jest.fn().mockResolvedValue(true),
+    findItems: jest.fn().mockResolvedValue([]),
+    findItem: jest.fn().mockResolvedValue(makeItem()),
+    findLastItem: jest.fn().mockResolvedValue(null),
+    createItem: jest
+      .fn()
+      .mockImplementation((data: Record<string, unknown>) => Promise.resolve(makeItem(data))),
+    updateItem: jest
+      .fn()
+      .mockImplementation((_id: string, data: Record<string, unknown>) =>
+        Promise.resolve(makeItem(data)),
+      ),
+    deleteItem: jest.fn().mockResolvedValue(makeItem()),
+    reorderItems: jest.fn().mockResolvedValue([]),
+    ...overrides,
+  } as unknown as jest.Mocked<ChecklistRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<ChecklistRepository>) {
+  return new ChecklistService(repo, makeLogger() as any);
+}
+
+// ── createItem ─────────────────────────────────────────────────────────────────
+
+describe('ChecklistService.createItem', () => {
+  it('lança NotFoundException quando a tarefa não existe', async () => {
+    const repo = makeRepo({ findTask: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).createItem(SCOPE, { title: 'Item' })).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.createItem).not.toHaveBeenCalled();
+  });
+
+  it('lança BadRequestException quando o responsável não é membro', async () => {
+    const repo = makeRepo({ isMember: jest.fn().mockResolvedValue(false) });
+    await expect(
+      makeService(repo).createItem(SCOPE, { title: 'Item', assigneeId: 'outsider' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.isMember).toHaveBeenCalledWith('outsider', 'company-1', 'ws-1');
+  });
+
+  it('adiciona o item ao final do checklist', async () => {
+    const repo = makeRepo({ findLastItem: jest.fn().mockResolvedValue({ order: 4 }) });
+    await makeService(repo).createItem(SCOPE, { title: 'Item', dueDate: '2026-03-10' });
+    expect(repo.createItem).toHaveBeenCalledWith({
+      taskId: 'task-1',
+      title: 'Item',
+      order: 5,
+      assigneeId: undefined,
+      dueDate: new Date('2026-03-10'),
+    });
+  });
+});
+
+// ── updateItem ─────────────────────────────────────────────────────────────────
+
+describe('ChecklistService.updateItem', () => {
+  it('lança NotFoundException quando o item não é da tarefa', async () => {
+    const repo = makeRepo({ findItem: jest.fn().mockResolvedValue(null) });
+    await expect(
+      makeService(repo).updateItem(SCOPE, 'item-x', { isCompleted: true }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('registra a data de conclusão ao concluir o item', async () => {
+    const repo = makeRepo();
+    await makeService(repo).updateItem(SCOPE, 'item-1', { isCompleted: true });
+    const data = repo.updateItem.mock.calls[0][1] as Record<string, unknown>;
+    expect(data.isCompleted).toBe(true);
+    expect(data.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('limpa a data de conclusão ao reabrir o item', async () => {
+    const repo = makeRepo({
+      findItem: jest.fn().mockResolvedValue(makeItem({ isCompleted: true, completedAt: NOW })),
+    });
+    await makeService(repo).updateItem(SCOPE, 'item-1', { isCompleted: false });
+    expect(repo.updateItem).toHaveBeenCalledWith('item-1', {
+      isCompleted: false,
+      completedAt: null,
+    });
+  });
+
+  it('permite remover responsável e prazo com null', async () => {
+    const repo = makeRepo();
+    await makeService(repo).updateItem(SCOPE, 'item-1', { assigneeId: null, dueDate: null });
+    expect(repo.updateItem).toHaveBeenCalledWith('item-1', { assigneeId: null, dueDate: null });
+    expect(repo.isMember).not.toHaveBeenCalled();
+  });
+});
+
+// ── reorderItems ───────────────────────────────────────────────────────────────
+
+describe('ChecklistService.reorderItems', () => {
+  it('lança BadRequestException quando a lista não corresponde aos itens', async () => {
+    const repo = makeRepo({
+      findItems: jest.fn().mockResolvedValue([makeItem(), makeItem({ id: 'item-2' })]),
+    });
+    await expect(
+      makeService(repo).reorderItems(SCOPE, { itemIds: ['item-2', 'item-3'] }),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.reorderItems).not.toHaveBeenCalled();
+  });
+
+  it('reordena os itens na ordem informada', async () => {
+    const repo = makeRepo({
+      findItems: jest.fn().mockResolvedValue([makeItem(), makeItem({ id: 'item-2' })]),
+    });
+    await makeService(repo).reorderItems(SCOPE, { itemIds: ['item-2', 'item-1'] });
+    expect(repo.reorderItems).toHaveBeenCalledWith('task-1', ['item-2', 'item-1']);
+  });
+});
+
+// ── deleteItem ─────────────────────────────────────────────────────────────────
+
+describe('ChecklistService.deleteItem', () => {
+  it('exclui o item da tarefa', async () => {
+    const repo = makeRepo();
+    await makeService(repo).deleteItem(SCOPE, 'item-1');
+    expect(repo.findItem).toHaveBeenCalledWith('item-1', 'task-1');
+    expect(repo.deleteItem).toHaveBeenCalledWith('item-1');
+  });
+});
@@ -0,0 +1,123 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { Prisma } from '../generated/prisma/client';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ChecklistRepository } from './checklist.repository';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistItemsDto } from './dto/reorder-checklist-items.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+
+@Injectable()
+export class ChecklistService {
+  constructor(
+    private readonly repo: ChecklistRepository,
+    @InjectPinoLogger(ChecklistService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se a tarefa não existir no projeto/workspace/empresa da rota */
+  private async assertTask(scope: TaskScope) {
+    const task = await this.repo.findTask(
+      scope.taskId,
+      scope.projectId,
+      scope.workspaceId,
+      scope.companyId,
+    );
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+    return task;
+  }
+
+  private async assertItem(scope: TaskScope, itemId: string) {
+    const item = await this.repo.findItem(itemId, scope.taskId);
+    if (!item) {
+      throw new NotFoundException('Item do checklist não encontrado');
+    }
+    return item;
+  }
+
+  /** Lança BadRequestException se o responsável não for membro do workspace ou da empresa */
+  private async assertAssignee(scope: TaskScope, assigneeId?: string | null) {
+    if (!assigneeId) return;
+
+    const isMember = await this.repo.isMember(assigneeId, scope.companyId, scope.workspaceId);
+    if (!isMember) {
+      throw new BadRequestException(
+        'O responsável deve ser membro ativo do workspace ou da empresa',
+      );
+    }
+  }
+
+  // ── Checklist ─────────────────────────────────────────────────────────────────
+
+  async listItems(scope: TaskScope) {
+    await this.assertTask(scope);
+    return this.repo.findItems(scope.taskId);
+  }
+
+  async createItem(scope: TaskScope, dto: CreateChecklistItemDto) {
+    await this.assertTask(scope);
+    await this.assertAssignee(scope, dto.assigneeId);
+
+    const last = await this.repo.findLastItem(scope.taskId);
+    const item = await this.repo.createItem({
+      taskId: scope.taskId,
+      title: dto.title,
+      order: last ? last.order + 1 : 0,
+      assigneeId: dto.assigneeId,
+      dueDate: dto.dueDate ? new Date(dto.dueDate) : null,
+    });
+
+    this.logger.info({ taskId: scope.taskId, itemId: item.id }, 'Checklist item created');
+    return item;
+  }
+
+  async updateItem(scope: TaskScope, itemId: string, dto: UpdateChecklistItemDto) {
+    await this.assertTask(scope);
+    const item = await this.assertItem(scope, itemId);
+    await this.assertAssignee(scope, dto.assigneeId);
+
+    const { dueDate, isCompleted, ...rest } = dto;
+    const data: Prisma.TaskChecklistItemUncheckedUpdateInput = { ...rest };
+
+    if (dueDate !== undefined) {
+      data.dueDate = dueDate === null ? null : new Date(dueDate);
+    }
+
+    if (isCompleted !== undefined && isCompleted !== item.isCompleted) {
+      data.isCompleted = isCompleted;
+      data.completedAt = isCompleted ? new Date() : null;
+    }
+
+    const updated = await this.repo.updateItem(itemId, data);
+    this.logger.info(
+      { taskId: scope.taskId, itemId, changes: Object.keys(dto) },
+      'Checklist item updated',
+    );
+    return updated;
+  }
+
+  async reorderItems(scope: TaskScope, dto: ReorderChecklistItemsDto) {
+    await this.assertTask(scope);
+
+    const items = await this.repo.findItems(scope.taskId);
+    const currentIds = new Set(items.map((i) => i.id));
+
+    if (dto.itemIds.length !== currentIds.size || dto.itemIds.some((id) => !currentIds.has(id))) {
+      throw new BadRequestException('A nova ordem deve conter exatamente os itens do checklist');
+    }
+
+    const reordered = await this.repo.reorderItems(scope.taskId, dto.itemIds);
+    this.logger.info({ taskId: scope.taskId, itemIds: dto.itemIds }, 'Checklist items reordered');
+    return reordered;
+  }
+
+  async deleteItem(scope: TaskScope, itemId: string) {
+    await this.assertTask(scope);
+    await this.assertItem(scope, itemId);
+
+    await this.repo.deleteItem(itemId);
+    this.logger.info({ taskId: scope.taskId, itemId }, 'Checklist item deleted');
+  }
+}
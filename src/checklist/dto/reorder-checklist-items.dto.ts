@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderChecklistItemsDto {
+  @ApiProperty({
+    type: [String],
+    format: 'uuid',
+    description: 'Ids de todos os itens do checklist, na nova ordem',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  itemIds: string[];
+}
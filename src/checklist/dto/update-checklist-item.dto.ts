@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateChecklistItemDto {
+  @ApiPropertyOptional({ example: 'Revisar textos da tela' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Marca ou desmarca o item como concluído' })
+  @IsOptional()
+  @IsBoolean()
+  isCompleted?: boolean;
+
+  @ApiPropertyOptional({ format: 'uuid', nullable: true, description: 'null remove o responsável' })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string | null;
+
+  @ApiPropertyOptional({ example: '2026-03-10', format: 'date', nullable: true })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string | null;
+}
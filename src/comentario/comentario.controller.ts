@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ComentarioService } from './comentario.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { ListCommentsQueryDto } from './dto/list-comments-query.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+@ApiTags('comentarios')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller(
+  'empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/tarefas/:taskId/comentarios',
+)
+export class ComentarioController {
+  constructor(private readonly comentarioService: ComentarioService) {}
+
+  @Post()
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Comentar na tarefa' })
+  @ApiResponse({ status: 201, description: 'Comentário criado com as menções resolvidas' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  createComment(
+    @Param() scope: TaskScope,
+    @Body() dto: CreateCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.comentarioService.createComment(scope, dto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar comentários da tarefa (mais antigos primeiro)' })
+  @ApiResponse({ status: 200, description: 'Lista paginada de comentários' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  listComments(@Param() scope: TaskScope, @Query() query: ListCommentsQueryDto) {
+    return this.comentarioService.listComments(scope, query);
+  }
+
+  @Patch(':commentId')
+  @RequirePermission('task.write')
+  @ApiOperation({ summary: 'Editar comentário (marcado como editado)' })
+  @ApiResponse({ status: 200, description: 'Comentário atualizado' })
+  @ApiResponse({ status: 403, description: 'Comentário de outro usuário' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou comentário não encontrado' })
+  updateComment(
+    @Param() scope: TaskScope,
+    @Param('commentId') commentId: string,
+    @Body() dto: UpdateCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.comentarioService.updateComment(scope, commentId, dto, user.id);
+  }
+
+  @Delete(':commentId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Soft delete de comentário' })
+  @ApiResponse({ status: 204, description: 'Comentário removido' })
+  @ApiResponse({ status: 403, description: 'Comentário de outro usuário' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou comentário não encontrado' })
+  async deleteComment(
+    @Param() scope: TaskScope,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.comentarioService.deleteComment(scope, commentId, user.id);
+  }
+}
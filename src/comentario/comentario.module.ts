@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ComentarioController } from './comentario.controller';
+import { ComentarioRepository } from './comentario.repository';
+import { ComentarioService } from './comentario.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ComentarioController],
+  providers: [ComentarioRepository, ComentarioService],
+})
+export class ComentarioModule {}
@@ -0,0 +1,93 @@
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ComentarioRepository } from './comentario.repository';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+interface FakeMembership {
+  resourceType: ResourceType;
+  resourceId: string;
+  role: MembershipRole;
+  deletedAt: Date | null;
+}
+
+function membership(
+  resourceType: ResourceType,
+  resourceId: string,
+  role: MembershipRole,
+): FakeMembership {
+  return { resourceType, resourceId, role, deletedAt: null };
+}
+
+const USERS = [
+  {
+    id: 'ws-member',
+    memberships: [
+      membership(ResourceType.company, 'company-1', MembershipRole.member),
+      membership(ResourceType.workspace, 'ws-1', MembershipRole.member),
+    ],
+  },
+  {
+    id: 'company-admin',
+    memberships: [membership(ResourceType.company, 'company-1', MembershipRole.admin)],
+  },
+  {
+    id: 'company-only',
+    memberships: [membership(ResourceType.company, 'company-1', MembershipRole.member)],
+  },
+  {
+    id: 'other-ws',
+    memberships: [
+      membership(ResourceType.company, 'company-1', MembershipRole.member),
+      membership(ResourceType.workspace, 'ws-2', MembershipRole.workspace_admin),
+    ],
+  },
+];
+
+/** Aplica os filtros de id e `memberships.some` recebidos pelo Prisma aos usuários em memória */
+function makePrisma() {
+  const findMany = jest.fn(({ where }: { where: Prisma.UserWhereInput }) => {
+    const [{ id: ids }] = where.OR as [{ id: { in: string[] } }];
+    const filter = where.memberships?.some as {
+      deletedAt: null;
+      OR: Array<Partial<FakeMembership>>;
+    };
+    return Promise.resolve(
+      USERS.filter(
+        (user) =>
+          ids.in.includes(user.id) &&
+          user.memberships.some(
+            (m) =>
+              m.deletedAt === filter.deletedAt &&
+              filter.OR.some((condition) =>
+                Object.entries(condition).every(
+                  ([key, value]) => m[key as keyof FakeMembership] === value,
+                ),
+              ),
+          ),
+      ).map(({ id }) => ({ id })),
+    );
+  });
+  return { user: { findMany } } as unknown as PrismaService;
+}
+
+// ── findMentionableUsers ───────────────────────────────────────────────────────
+
+describe('ComentarioRepository.findMentionableUsers', () => {
+  const repo = new ComentarioRepository(makePrisma());
+  const target = { userIds: USERS.map((u) => u.id), emails: [] };
+
+  it('resolve membros do workspace e admins da empresa', async () => {
+    const users = await repo.findMentionableUsers(target, 'company-1', 'ws-1');
+    expect(users.map((u) => u.id)).toEqual(['ws-member', 'company-admin']);
+  });
+
+  it('não resolve membro apenas da empresa, sem acesso ao workspace', async () => {
+    const users = await repo.findMentionableUsers(
+      { userIds: ['company-only', 'other-ws'], emails: [] },
+      'company-1',
+      'ws-1',
+    );
+    expect(users).toEqual([]);
+  });
+});
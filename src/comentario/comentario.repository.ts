@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } satisfies Prisma.UserSelect;
+
+const COMMENT_SELECT = {
+  id: true,
+  taskId: true,
+  body: true,
+  editedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: USER_SUMMARY_SELECT },
+  mentions: { select: { user: { select: USER_SUMMARY_SELECT } } },
+} satisfies Prisma.TaskCommentSelect;
+
+@Injectable()
+export class ComentarioRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────────
+
+  /** Tarefa ativa do projeto, validando também workspace e empresa da rota */
+  findTask(taskId: string, projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        projectId,
+        deletedAt: null,
+        project: { workspaceId, deletedAt: null, workspace: { companyId, deletedAt: null } },
+      },
+      select: { id: true },
+    });
+  }
+
+  // ── Members ───────────────────────────────────────────────────────────────────
+
+  /**
+   * Usuários ativos que correspondem aos ids ou emails informados e têm vínculo no workspace
+   * ou são admins da empresa. Membros comuns da empresa sem acesso ao workspace não são
+   * retornados, para não serem notificados sobre tarefas que não podem ver.
+   */
+  findMentionableUsers(
+    target: { userIds: string[]; emails: string[] },
+    companyId: string,
+    workspaceId: string,
+  ) {
+    return this.prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        isActive: true,
+        OR: [
+          { id: { in: target.userIds } },
+          ...target.emails.map((email) => ({
+            email: { equals: email, mode: 'insensitive' as const },
+          })),
+        ],
+        memberships: {
+          some: {
+            deletedAt: null,
+            OR: [
+              { resourceType: ResourceType.workspace, resourceId: workspaceId },
+              {
+                resourceType: ResourceType.company,
+                resourceId: companyId,
+                role: MembershipRole.admin,
+              },
+            ],
+          },
+        },
+      },
+      select: { id: true },
+    });
+  }
+
+  // ── Comments ──────────────────────────────────────────────────────────────────
+
+  findComment(commentId: string, taskId: string) {
+    return this.prisma.taskComment.findFirst({
+      where: { id: commentId, taskId, deletedAt: null },
+      include: { mentions: { select: { userId: true } } },
+    });
+  }
+
+  findComments(taskId: string, page: number, limit: number) {
+    const where: Prisma.TaskCommentWhereInput = { taskId, deletedAt: null };
+    return Promise.all([
+      this.prisma.taskComment.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: COMMENT_SELECT,
+      }),
+      this.prisma.taskComment.count({ where }),
+    ]);
+  }
+
+  createComment(data: { taskId: string; authorId: string; body: string }, mentionIds: string[]) {
+    return this.prisma.taskComment.create({
+      data: { ...data, mentions: { create: mentionIds.map((userId) => ({ userId })) } },
+      select: COMMENT_SELECT,
+    });
+  }
+
+  /**
+   * Atualiza o corpo e sincroniza as menções: remove as que saíram do texto e inclui as novas,
+   * preservando a data de registro das que permaneceram.
+   */
+  updateComment(id: string, body: string, mentionIds: string[]) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.taskCommentMention.deleteMany({
+        where: { commentId: id, userId: { notIn: mentionIds } },
+      });
+      await tx.taskCommentMention.createMany({
+        data: mentionIds.map((userId) => ({ commentId: id, userId })),
+        skipDuplicates: true,
+      });
+
+      return tx.taskComment.update({
+        where: { id },
+        data: { body, editedAt: new Date() },
+        select: COMMENT_SELECT,
+      });
+    });
+  }
+
+  softDeleteComment(id: string) {
+    return this.prisma.taskComment.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+}
@@ -0,0 +1,182 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ComentarioRepository } from './comentario.repository';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ComentarioService } from './comentario.service';
+import { parseMentions } from './mentions';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const SCOPE: TaskScope = {
+  companyId: 'company-1',
+  workspaceId: 'ws-1',
+  projectId: 'project-1',
+  taskId: 'task-1',
+};
+
+const MEMBER_ID = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+function makeComment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'comment-1',
+    taskId: 'task-1',
+    authorId: 'user-1',
+    body: 'Comentário',
+    editedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    mentions: [] as Array<{ userId: string }>,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof ComentarioRepository, jest.Mock>> = {},
+): jest.Mocked<ComentarioRepository> {
+  return {
+    findTask: jest.fn().mockResolvedValue({ id: 'task-1' }),
+    findMentionableUsers: jest.fn().mockResolvedValue([]),
+    findComment: jest.fn().mockResolvedValue(makeComment()),
+    findComments: jest.fn().mockResolvedValue([[], 0]),
+    createComment: jest
+      .fn()
+      .mockImplementation((data: Record<string, unknown>) => Promise.resolve(makeComment(data))),
+    updateComment: jest.fn().mockResolvedValue(makeComment({ editedAt: NOW })),
+    softDeleteComment: jest.fn(),
+    ...overrides,
+  } as unknown as jest.Mocked<ComentarioRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<ComentarioRepository>) {
+  return new ComentarioService(repo, makeLogger() as any);
+}
+
+// ── parseMentions ──────────────────────────────────────────────────────────────
+
+describe('parseMentions', () => {
+  it('extrai menções por email e por id, normalizando e sem duplicatas', () => {
+    const result = parseMentions(
+      `Oi @Maria@Acme.com. Veja com @${MEMBER_ID.toUpperCase()} e @maria@acme.com`,
+    );
+    expect(result).toEqual({ userIds: [MEMBER_ID], emails: ['maria@acme.com'] });
+  });
+
+  it('ignora emails sem @ inicial, handles e trechos de código', () => {
+    const result = parseMentions(
+      'Escreva para joao@acme.com, @joao, `@ana@acme.com`\n```\n@bia@acme.com\n```',
+    );
+    expect(result).toEqual({ userIds: [], emails: [] });
+  });
+
+  it('aceita menções entre parênteses ou no início de linha', () => {
+    const result = parseMentions('(@ana@acme.com.br)\n@bia@acme.com');
+    expect(result.emails).toEqual(['ana@acme.com.br', 'bia@acme.com']);
+  });
+});
+
+// ── createComment ──────────────────────────────────────────────────────────────
+
+describe('ComentarioService.createComment', () => {
+  it('lança NotFoundException quando a tarefa não existe no escopo', async () => {
+    const repo = makeRepo({ findTask: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).createComment(SCOPE, { body: 'Oi' }, 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.createComment).not.toHaveBeenCalled();
+  });
+
+  it('não consulta usuários quando o corpo não tem menções', async () => {
+    const repo = makeRepo();
+    await makeService(repo).createComment(SCOPE, { body: 'Sem menções' }, 'user-1');
+    expect(repo.findMentionableUsers).not.toHaveBeenCalled();
+    expect(repo.createComment).toHaveBeenCalledWith(
+      { taskId: 'task-1', authorId: 'user-1', body: 'Sem menções' },
+      [],
+    );
+  });
+
+  it('registra apenas as menções resolvidas para membros do time', async () => {
+    const repo = makeRepo({
+      findMentionableUsers: jest.fn().mockResolvedValue([{ id: MEMBER_ID }]),
+    });
+    const body = `@${MEMBER_ID} e @fora@outra.com, podem revisar?`;
+    await makeService(repo).createComment(SCOPE, { body }, 'user-1');
+
+    expect(repo.findMentionableUsers).toHaveBeenCalledWith(
+      { userIds: [MEMBER_ID], emails: ['fora@outra.com'] },
+      'company-1',
+      'ws-1',
+    );
+    expect(repo.createComment).toHaveBeenCalledWith(expect.anything(), [MEMBER_ID]);
+  });
+});
+
+// ── listComments ───────────────────────────────────────────────────────────────
+
+describe('ComentarioService.listComments', () => {
+  it('retorna a página com total e os padrões de paginação', async () => {
+    const repo = makeRepo({ findComments: jest.fn().mockResolvedValue([[makeComment()], 1]) });
+    const result = await makeService(repo).listComments(SCOPE, {});
+    expect(repo.findComments).toHaveBeenCalledWith('task-1', 1, 20);
+    expect(result).toEqual({ data: [makeComment()], total: 1, page: 1, limit: 20 });
+  });
+});
+
+// ── updateComment ──────────────────────────────────────────────────────────────
+
+describe('ComentarioService.updateComment', () => {
+  it('lança NotFoundException quando o comentário não existe ou foi removido', async () => {
+    const repo = makeRepo({ findComment: jest.fn().mockResolvedValue(null) });
+    await expect(
+      makeService(repo).updateComment(SCOPE, 'comment-x', { body: 'Novo' }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('lança ForbiddenException quando o usuário não é o autor', async () => {
+    const repo = makeRepo();
+    await expect(
+      makeService(repo).updateComment(SCOPE, 'comment-1', { body: 'Novo' }, 'user-2'),
+    ).rejects.toThrow(ForbiddenException);
+    expect(repo.updateComment).not.toHaveBeenCalled();
+  });
+
+  it('atualiza o corpo e sincroniza as menções resolvidas', async () => {
+    const repo = makeRepo({
+      findMentionableUsers: jest.fn().mockResolvedValue([{ id: MEMBER_ID }]),
+    });
+    const result = await makeService(repo).updateComment(
+      SCOPE,
+      'comment-1',
+      { body: `Atualizado @${MEMBER_ID}` },
+      'user-1',
+    );
+    expect(repo.updateComment).toHaveBeenCalledWith('comment-1', `Atualizado @${MEMBER_ID}`, [
+      MEMBER_ID,
+    ]);
+    expect(result.editedAt).toEqual(NOW);
+  });
+});
+
+// ── deleteComment ──────────────────────────────────────────────────────────────
+
+describe('ComentarioService.deleteComment', () => {
+  it('lança ForbiddenException quando o usuário não é o autor', async () => {
+    const repo = makeRepo();
+    await expect(makeService(repo).deleteComment(SCOPE, 'comment-1', 'user-2')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(repo.softDeleteComment).not.toHaveBeenCalled();
+  });
+
+  it('faz soft delete do comentário do autor', async () => {
+    const repo = makeRepo();
+    await makeService(repo).deleteComment(SCOPE, 'comment-1', 'user-1');
+    expect(repo.softDeleteComment).toHaveBeenCalledWith('comment-1');
+  });
+});
@@ -0,0 +1,117 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { ComentarioRepository } from './comentario.repository';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { ListCommentsQueryDto } from './dto/list-comments-query.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { parseMentions } from './mentions';
+
+@Injectable()
+export class ComentarioService {
+  constructor(
+    private readonly repo: ComentarioRepository,
+    @InjectPinoLogger(ComentarioService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se a tarefa não existir no projeto/workspace/empresa da rota */
+  private async assertTask(scope: TaskScope) {
+    const task = await this.repo.findTask(
+      scope.taskId,
+      scope.projectId,
+      scope.workspaceId,
+      scope.companyId,
+    );
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+    return task;
+  }
+
+  /** Comentário ativo da tarefa, editável apenas pelo autor */
+  private async assertOwnComment(scope: TaskScope, commentId: string, userId: string) {
+    const comment = await this.repo.findComment(commentId, scope.taskId);
+    if (!comment) {
+      throw new NotFoundException('Comentário não encontrado');
+    }
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException('Apenas o autor pode alterar o comentário');
+    }
+    return comment;
+  }
+
+  /** Ids dos usuários mencionados no corpo que são membros do workspace ou admins da empresa */
+  private async resolveMentions(scope: TaskScope, body: string) {
+    const parsed = parseMentions(body);
+    if (parsed.userIds.length === 0 && parsed.emails.length === 0) {
+      return [];
+    }
+
+    const users = await this.repo.findMentionableUsers(parsed, scope.companyId, scope.workspaceId);
+    return users.map((u) => u.id);
+  }
+
+  // ── Comentários ───────────────────────────────────────────────────────────────
+
+  async createComment(scope: TaskScope, dto: CreateCommentDto, authorId: string) {
+    await this.assertTask(scope);
+
+    const mentionIds = await this.resolveMentions(scope, dto.body);
+    const comment = await this.repo.createComment(
+      { taskId: scope.taskId, authorId, body: dto.body },
+      mentionIds,
+    );
+
+    this.logger.info(
+      { taskId: scope.taskId, commentId: comment.id, authorId, mentionedUserIds: mentionIds },
+      'Task comment created',
+    );
+    return comment;
+  }
+
+  async listComments(scope: TaskScope, query: ListCommentsQueryDto) {
+    const { page = 1, limit = 20 } = query;
+
+    await this.assertTask(scope);
+
+    const [data, total] = await this.repo.findComments(scope.taskId, page, limit);
+    return { data, total, page, limit };
+  }
+
+  async updateComment(
+    scope: TaskScope,
+    commentId: string,
+    dto: UpdateCommentDto,
+    performedById: string,
+  ) {
+    await this.assertTask(scope);
+    const comment = await this.assertOwnComment(scope, commentId, performedById);
+
+    const mentionIds = await this.resolveMentions(scope, dto.body);
+    const previous = new Set(comment.mentions.map((m) => m.userId));
+
+    const updated = await this.repo.updateComment(commentId, dto.body, mentionIds);
+    this.logger.info(
+      {
+        taskId: scope.taskId,
+        commentId,
+        performedById,
+        newlyMentionedUserIds: mentionIds.filter((id) => !previous.has(id)),
+      },
+      'Task comment edited',
+    );
+    return updated;
+  }
+
+  async deleteComment(scope: TaskScope, commentId: string, performedById: string) {
+    await this.assertTask(scope);
+    await this.assertOwnComment(scope, commentId, performedById);
+
+    await this.repo.softDeleteComment(commentId);
+    this.logger.info(
+      { taskId: scope.taskId, commentId, performedById },
+      'Task comment soft-deleted',
+    );
+  }
+}
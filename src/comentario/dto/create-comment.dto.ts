@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateCommentDto {
+  @ApiProperty({
+    example: 'Revisado. @maria@acme.com pode validar o layout?',
+    description: 'Markdown — menções no formato @email ou @userId',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+}
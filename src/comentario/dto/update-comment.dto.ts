@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class UpdateCommentDto {
+  @ApiProperty({ description: 'Markdown — menções no formato @email ou @userId' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+}
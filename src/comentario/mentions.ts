@@ -0,0 +1,38 @@
+/** Menções extraídas do corpo de um comentário, ainda não resolvidas para usuários */
+export interface ParsedMentions {
+  userIds: string[];
+  emails: string[];
+}
+
+const FENCED_CODE = /(```|~~~)[\s\S]*?(?:\1|$)/g;
+const INLINE_CODE = /`[^`\n]*`/g;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * `@` precedido de início de texto ou de um caractere que não faz parte de palavra/email,
+ * para que endereços escritos sem menção (ex.: joao@acme.com) não sejam capturados.
+ */
+const MENTION =
+  /(?<![\w.@+-])@([\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+|[0-9a-fA-F-]{36}(?![\w-]))/g;
+
+/**
+ * Extrai menções `@email` e `@userId` de um corpo em markdown.
+ * Trechos de código (blocos e inline) são ignorados.
+ */
+export function parseMentions(body: string): ParsedMentions {
+  const text = body.replace(FENCED_CODE, ' ').replace(INLINE_CODE, ' ');
+
+  const userIds = new Set<string>();
+  const emails = new Set<string>();
+
+  for (const [, target] of text.matchAll(MENTION)) {
+    if (UUID_PATTERN.test(target)) {
+      userIds.add(target.toLowerCase());
+    } else if (target.includes('@')) {
+      emails.add(target.toLowerCase());
+    }
+  }
+
+  return { userIds: [...userIds], emails: [...emails] };
+}
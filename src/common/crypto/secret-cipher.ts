@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+/** Cifra o segredo com AES-256-GCM; o formato é iv.tag.ciphertext em base64 */
+export function encryptSecret(secret: string, key: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(payload: string, key: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function deriveKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
@@ -25,6 +25,16 @@ export class AllExceptionsFilter implements ExceptionFilter {
         : ((rawResponse as { message?: string | string[] })?.message ?? exception.message)
       : 'Internal server error';
 
+    // Campos extras do corpo da exceção (ex.: retryAfter) são repassados ao cliente
+    const extra: Record<string, unknown> =
+      rawResponse && typeof rawResponse === 'object'
+        ? Object.fromEntries(
+            Object.entries(rawResponse).filter(
+              ([key]) => !['statusCode', 'message', 'error'].includes(key),
+            ),
+          )
+        : {};
+
     const logContext = {
       statusCode,
       method: request.method,
@@ -43,11 +53,16 @@ export class AllExceptionsFilter implements ExceptionFilter {
       this.logger.warn(logContext, logMessage, AllExceptionsFilter.name);
     }
 
+    if (typeof extra.retryAfter === 'number') {
+      httpAdapter.setHeader(ctx.getResponse(), 'Retry-After', String(extra.retryAfter));
+    }
+
     httpAdapter.reply(
       ctx.getResponse(),
       {
         statusCode,
         message,
+        ...extra,
         timestamp: new Date().toISOString(),
         path: request.url,
       },
@@ -0,0 +1,30 @@
+import { Controller, Get, HttpCode, HttpStatus, Post, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorator';
+import { ConviteService } from './convite.service';
+
+@ApiTags('convites')
+@Public()
+@Controller('convites')
+export class ConviteAceiteController {
+  constructor(private readonly conviteService: ConviteService) {}
+
+  @Get('aceite')
+  @ApiOperation({ summary: 'Validar token de convite (sem consumir)' })
+  @ApiResponse({ status: 200, description: 'Convite válido — retorna empresa, escopo e papel' })
+  @ApiResponse({ status: 400, description: 'Convite inválido ou expirado' })
+  getInvitation(@Query('token') token: string) {
+    return this.conviteService.getInvitationByToken(token);
+  }
+
+  @Post('aceite')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Aceitar convite — usuários novos recebem um token de primeiro acesso',
+  })
+  @ApiResponse({ status: 200, description: 'Convite aceito' })
+  @ApiResponse({ status: 400, description: 'Convite inválido ou expirado / usuário inativo' })
+  acceptInvitation(@Query('token') token: string) {
+    return this.conviteService.acceptInvitation(token);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { ConviteService } from './convite.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { ListInvitationsQueryDto } from './dto/list-invitations-query.dto';
+
+@ApiTags('convites')
+@ApiBearerAuth()
+@RequirePermission('company.members.manage')
+@Controller('empresa/:companyId/convites')
+export class ConviteController {
+  constructor(private readonly conviteService: ConviteService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Convidar por email para a empresa ou um workspace' })
+  @ApiResponse({ status: 201, description: 'Convite criado e enviado por email' })
+  @ApiResponse({ status: 400, description: 'Papel incompatível com o escopo' })
+  @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
+  @ApiResponse({ status: 409, description: 'Usuário já é membro ou há convite pendente' })
+  createInvitation(
+    @Param('companyId') companyId: string,
+    @Body() dto: CreateInvitationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.conviteService.createInvitation(companyId, dto, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar convites da empresa por status' })
+  @ApiResponse({ status: 200, description: 'Lista paginada de convites' })
+  listInvitations(@Param('companyId') companyId: string, @Query() query: ListInvitationsQueryDto) {
+    return this.conviteService.listInvitations(companyId, query);
+  }
+
+  @Delete(':invitationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revogar convite pendente' })
+  @ApiResponse({ status: 204, description: 'Convite revogado' })
+  @ApiResponse({ status: 404, description: 'Convite não encontrado' })
+  @ApiResponse({ status: 409, description: 'Convite já aceito ou revogado' })
+  async revokeInvitation(
+    @Param('companyId') companyId: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.conviteService.revokeInvitation(companyId, invitationId, user.id);
+  }
+}
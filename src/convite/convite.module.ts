@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { PolicyModule } from '../policy/policy.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ConviteAceiteController } from './convite-aceite.controller';
+import { ConviteController } from './convite.controller';
+import { ConviteRepository } from './convite.repository';
+import { ConviteService } from './convite.service';
+
+@Module({
+  imports: [PrismaModule, MailerModule, AuthModule, ConfigModule, PolicyModule],
+  controllers: [ConviteController, ConviteAceiteController],
+  providers: [ConviteRepository, ConviteService],
+})
+export class ConviteModule {}
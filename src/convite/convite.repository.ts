@@ -0,0 +1,183 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const INVITATION_SELECT = {
+  id: true,
+  companyId: true,
+  resourceType: true,
+  resourceId: true,
+  role: true,
+  email: true,
+  expiresAt: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.InvitationSelect;
+
+@Injectable()
+export class ConviteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Escopo ────────────────────────────────────────────────────────────────────
+
+  findCompanyById(companyId: string) {
+    return this.prisma.company.findFirst({ where: { id: companyId, deletedAt: null } });
+  }
+
+  findWorkspaceById(workspaceId: string, companyId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, companyId, deletedAt: null },
+    });
+  }
+
+  findUserByEmail(email: string) {
+    return this.prisma.user.findFirst({ where: { email, deletedAt: null } });
+  }
+
+  findMembership(userId: string, resourceType: ResourceType, resourceId: string) {
+    return this.prisma.membership.findFirst({
+      where: {
+        userId,
+        resourceType,
+        resourceId,
+        role: { not: MembershipRole.custom },
+        deletedAt: null,
+      },
+    });
+  }
+
+  // ── Convites ──────────────────────────────────────────────────────────────────
+
+  findPendingInvitation(email: string, resourceType: ResourceType, resourceId: string) {
+    return this.prisma.invitation.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        resourceType,
+        resourceId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+  }
+
+  createInvitation(data: {
+    companyId: string;
+    resourceType: ResourceType;
+    resourceId: string;
+    role: MembershipRole;
+    email: string;
+    tokenHash: string;
+    invitedById: string;
+    expiresAt: Date;
+  }) {
+    return this.prisma.invitation.create({ data, select: INVITATION_SELECT });
+  }
+
+  findInvitations(where: Prisma.InvitationWhereInput, page: number, limit: number) {
+    return Promise.all([
+      this.prisma.invitation.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: INVITATION_SELECT,
+      }),
+      this.prisma.invitation.count({ where }),
+    ]);
+  }
+
+  findInvitationById(invitationId: string, companyId: string) {
+    return this.prisma.invitation.findFirst({ where: { id: invitationId, companyId } });
+  }
+
+  findInvitationByTokenHash(tokenHash: string) {
+    return this.prisma.invitation.findUnique({
+      where: { tokenHash },
+      include: { company: { select: { legalName: true, isActive: true, deletedAt: true } } },
+    });
+  }
+
+  revokeInvitation(id: string) {
+    return this.prisma.invitation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: INVITATION_SELECT,
+    });
+  }
+
+  // ── Transactions ──────────────────────────────────────────────────────────────
+
+  /**
+   * Marca o convite como aceito e cria os memberships do usuário (criando o usuário se preciso).
+   * Retorna null se o convite já tiver sido aceito, revogado ou expirado nesse meio tempo.
+   */
+  acceptInvitation(params: {
+    invitationId: string;
+    companyId: string;
+    resourceType: ResourceType;
+    resourceId: string;
+    role: MembershipRole;
+    user: { id: string } | { email: string; name: string; passwordHash: string };
+  }) {
+    return this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.invitation.updateMany({
+        where: {
+          id: params.invitationId,
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const isNewUser = !('id' in params.user);
+      const userId =
+        'id' in params.user
+          ? params.user.id
+          : (
+              await tx.user.create({
+                data: { ...params.user, mustResetPassword: true },
+                select: { id: true },
+              })
+            ).id;
+
+      const upsertMembership = async (
+        resourceType: ResourceType,
+        resourceId: string,
+        role: MembershipRole,
+      ) => {
+        const existing = await tx.membership.findFirst({
+          where: {
+            userId,
+            resourceType,
+            resourceId,
+            role: { not: MembershipRole.custom },
+            deletedAt: null,
+          },
+        });
+
+        if (!existing) {
+          await tx.membership.create({ data: { userId, resourceType, resourceId, role } });
+        } else if (existing.role === MembershipRole.member && role !== MembershipRole.member) {
+          await tx.membership.update({ where: { id: existing.id }, data: { role } });
+        }
+      };
+
+      if (params.resourceType === ResourceType.company) {
+        await upsertMembership(ResourceType.company, params.companyId, params.role);
+      } else {
+        await upsertMembership(ResourceType.company, params.companyId, MembershipRole.member);
+        await upsertMembership(params.resourceType, params.resourceId, params.role);
+      }
+
+      return { userId, isNewUser };
+    });
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { MembershipRole, ResourceType } from '../generated/prisma/client';
+import { ConviteRepository } from './convite.repository';
+import { ConviteService } from './convite.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+const FUTURE = new Date(Date.now() + 24 * 60 * 60 * 1000);
+const ADMIN = {
+  id: 'user-1',
+  email: 'admin@acme.com',
+  isSuperuser: false,
+  mustResetPassword: false,
+};
+
+function makeInvitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv-1',
+    companyId: 'company-1',
+    resourceType: ResourceType.company,
+    resourceId: 'company-1',
+    role: MembershipRole.member,
+    email: 'joao@acme.com',
+    tokenHash: 'hash',
+    invitedById: 'user-1',
+    expiresAt: FUTURE,
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    company: { legalName: 'Acme', isActive: true, deletedAt: null },
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof ConviteRepository, jest.Mock>> = {},
+): jest.Mocked<ConviteRepository> {
+  return {
+    findCompanyById: jest.fn().mockResolvedValue({ id: 'company-1', legalName: 'Acme' }),
+    findWorkspaceById: jest.fn().mockResolvedValue({ id: 'ws-1' }),
+    findUserByEmail: jest.fn().mockResolvedValue(null),
+    findMembership: jest.fn().mockResolvedValue(null),
+    findPendingInvitation: jest.fn().mockResolvedValue(null),
+    createInvitation: jest.fn((data: Record<string, unknown>) =>
+      Promise.resolve(makeInvitation(data)),
+    ),
+    findInvitations: jest.fn().mockResolvedValue([[], 0]),
+    findInvitationById: jest.fn(),
+    findInvitationByTokenHash: jest.fn(),
+    revokeInvitation: jest.fn().mockResolvedValue({}),
+    acceptInvitation: jest.fn(),
+    ...overrides,
+  } as unknown as jest.Mocked<ConviteRepository>;
+}
+
+function makeService(repo: jest.Mocked<ConviteRepository>) {
+  const mailerService = { sendInvitationEmail: jest.fn().mockResolvedValue(undefined) };
+  const authService = {
+    generateFirstAccessToken: jest.fn().mockResolvedValue('first-access-token'),
+    getOrRegenerateFirstAccessToken: jest.fn().mockResolvedValue(null),
+  };
+  const policy = { assertCan: jest.fn().mockResolvedValue(undefined) };
+  const configService = {
+    get: jest.fn((_key: string, fallback?: unknown) => fallback),
+    getOrThrow: jest.fn(() => 'http://localhost:3000'),
+  } as unknown as ConfigService;
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+  return {
+    service: new ConviteService(
+      repo,
+      mailerService as any,
+      authService as any,
+      policy as any,
+      configService,
+      logger as any,
+    ),
+    mailerService,
+    authService,
+    policy,
+  };
+}
+
+// ── createInvitation ───────────────────────────────────────────────────────────
+
+describe('ConviteService.createInvitation', () => {
+  it('lança BadRequestException para workspace_admin sem workspace', async () => {
+    const { service } = makeService(makeRepo());
+    await expect(
+      service.createInvitation(
+        'company-1',
+        { email: 'joao@acme.com', role: MembershipRole.workspace_admin },
+        ADMIN,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('exige company.admins.manage para convidar admin', async () => {
+    const repo = makeRepo();
+    const { service, policy } = makeService(repo);
+    policy.assertCan.mockRejectedValue(new ForbiddenException());
+
+    await expect(
+      service.createInvitation(
+        'company-1',
+        { email: 'joao@acme.com', role: MembershipRole.admin },
+        ADMIN,
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(policy.assertCan).toHaveBeenCalledWith(ADMIN, 'company.admins.manage', {
+      companyId: 'company-1',
+    });
+    expect(repo.createInvitation).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando usuário já é membro do escopo', async () => {
+    const repo = makeRepo({
+      findUserByEmail: jest.fn().mockResolvedValue({ id: 'user-2' }),
+      findMembership: jest.fn().mockResolvedValue({ id: 'm-1', role: MembershipRole.member }),
+    });
+    const { service } = makeService(repo);
+    await expect(
+      service.createInvitation(
+        'company-1',
+        { email: 'joao@acme.com', role: MembershipRole.member },
+        ADMIN,
+      ),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('lança ConflictException quando já há convite pendente', async () => {
+    const repo = makeRepo({
+      findPendingInvitation: jest.fn().mockResolvedValue(makeInvitation()),
+    });
+    const { service } = makeService(repo);
+    await expect(
+      service.createInvitation(
+        'company-1',
+        { email: 'joao@acme.com', role: MembershipRole.member },
+        ADMIN,
+      ),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('cria convite de workspace com token hasheado e envia email', async () => {
+    const repo = makeRepo();
+    const { service, mailerService } = makeService(repo);
+
+    const result = await service.createInvitation(
+      'company-1',
+      { email: 'joao@acme.com', role: MembershipRole.member, workspaceId: 'ws-1' },
+      ADMIN,
+    );
+
+    const data = repo.createInvitation.mock.calls[0][0];
+    expect(data).toMatchObject({
+      resourceType: ResourceType.workspace,
+      resourceId: 'ws-1',
+      invitedById: 'user-1',
+    });
+
+    const acceptUrl = mailerService.sendInvitationEmail.mock.calls[0][2] as string;
+    const rawToken = acceptUrl.split('token=')[1];
+    expect(data.tokenHash).toBe(crypto.createHash('sha256').update(rawToken).digest('hex'));
+    expect(result.status).toBe('pending');
+  });
+
+  it('revoga o convite se o email falhar', async () => {
+    const repo = makeRepo();
+    const { service, mailerService } = makeService(repo);
+    mailerService.sendInvitationEmail.mockRejectedValue(new Error('smtp down'));
+
+    await expect(
+      service.createInvitation(
+        'company-1',
+        { email: 'joao@acme.com', role: MembershipRole.member },
+        ADMIN,
+      ),
+    ).rejects.toThrow('smtp down');
+    expect(repo.revokeInvitation).toHaveBeenCalledWith('inv-1');
+  });
+});
+
+// ── revokeInvitation ───────────────────────────────────────────────────────────
+
+describe('ConviteService.revokeInvitation', () => {
+  it('lança NotFoundException quando convite não existe', async () => {
+    const repo = makeRepo({ findInvitationById: jest.fn().mockResolvedValue(null) });
+    const { service } = makeService(repo);
+    await expect(service.revokeInvitation('company-1', 'inv-x', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança ConflictException quando convite já foi aceito', async () => {
+    const repo = makeRepo({
+      findInvitationById: jest.fn().mockResolvedValue(makeInvitation({ acceptedAt: NOW })),
+    });
+    const { service } = makeService(repo);
+    await expect(service.revokeInvitation('company-1', 'inv-1', 'user-1')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('revoga convite pendente', async () => {
+    const repo = makeRepo({
+      findInvitationById: jest.fn().mockResolvedValue(makeInvitation()),
+    });
+    const { service } = makeService(repo);
+    await service.revokeInvitation('company-1', 'inv-1', 'user-1');
+    expect(repo.revokeInvitation).toHaveBeenCalledWith('inv-1');
+  });
+});
+
+// ── acceptInvitation ───────────────────────────────────────────────────────────
+
+describe('ConviteService.acceptInvitation', () => {
+  it('lança BadRequestException para convite expirado', async () => {
+    const repo = makeRepo({
+      findInvitationByTokenHash: jest
+        .fn()
+        .mockResolvedValue(makeInvitation({ expiresAt: new Date(Date.now() - 1000) })),
+    });
+    const { service } = makeService(repo);
+    await expect(service.acceptInvitation('raw')).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança BadRequestException para convite revogado', async () => {
+    const repo = makeRepo({
+      findInvitationByTokenHash: jest.fn().mockResolvedValue(makeInvitation({ revokedAt: NOW })),
+    });
+    const { service } = makeService(repo);
+    await expect(service.acceptInvitation('raw')).rejects.toThrow(BadRequestException);
+  });
+
+  it('cria usuário novo e devolve token de primeiro acesso', async () => {
+    const repo = makeRepo({
+      findInvitationByTokenHash: jest.fn().mockResolvedValue(makeInvitation()),
+      acceptInvitation: jest.fn().mockResolvedValue({ userId: 'user-new', isNewUser: true }),
+    });
+    const { service, authService } = makeService(repo);
+
+    const result = await service.acceptInvitation('raw');
+
+    const params = repo.acceptInvitation.mock.calls[0][0];
+    expect(params.user).toMatchObject({ email: 'joao@acme.com', name: 'joao' });
+    expect(authService.generateFirstAccessToken).toHaveBeenCalledWith('user-new');
+    expect(result.firstAccessToken).toBe('first-access-token');
+  });
+
+  it('vincula usuário existente sem gerar novo token', async () => {
+    const repo = makeRepo({
+      findInvitationByTokenHash: jest.fn().mockResolvedValue(makeInvitation()),
+      findUserByEmail: jest.fn().mockResolvedValue({ id: 'user-2', isActive: true }),
+      acceptInvitation: jest.fn().mockResolvedValue({ userId: 'user-2', isNewUser: false }),
+    });
+    const { service, authService } = makeService(repo);
+
+    const result = await service.acceptInvitation('raw');
+
+    expect(repo.acceptInvitation.mock.calls[0][0].user).toEqual({ id: 'user-2' });
+    expect(authService.generateFirstAccessToken).not.toHaveBeenCalled();
+    expect(result.firstAccessToken).toBeNull();
+  });
+
+  it('lança BadRequestException quando o convite é consumido concorrentemente', async () => {
+    const repo = makeRepo({
+      findInvitationByTokenHash: jest.fn().mockResolvedValue(makeInvitation()),
+      acceptInvitation: jest.fn().mockResolvedValue(null),
+    });
+    const { service } = makeService(repo);
+    await expect(service.acceptInvitation('raw')).rejects.toThrow(BadRequestException);
+  });
+});
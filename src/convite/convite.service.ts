@@ -0,0 +1,262 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { AuthService } from '../auth/auth.service';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { MailerService } from '../mailer/mailer.service';
+import { PolicyService } from '../policy/policy.service';
+import { ConviteRepository } from './convite.repository';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationStatus, ListInvitationsQueryDto } from './dto/list-invitations-query.dto';
+
+@Injectable()
+export class ConviteService {
+  constructor(
+    private readonly repo: ConviteRepository,
+    private readonly mailerService: MailerService,
+    private readonly authService: AuthService,
+    private readonly policy: PolicyService,
+    private readonly configService: ConfigService,
+    @InjectPinoLogger(ConviteService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  private hashToken(rawToken: string) {
+    return crypto.createHash('sha256').update(rawToken).digest('hex');
+  }
+
+  private statusOf(invitation: {
+    acceptedAt: Date | null;
+    revokedAt: Date | null;
+    expiresAt: Date;
+  }): InvitationStatus {
+    if (invitation.acceptedAt) return 'accepted';
+    if (invitation.revokedAt) return 'revoked';
+    if (invitation.expiresAt <= new Date()) return 'expired';
+    return 'pending';
+  }
+
+  /** Busca o convite pelo token e lança BadRequestException se não estiver pendente */
+  private async findPendingByToken(rawToken: string) {
+    const tokenHash = this.hashToken(rawToken);
+    const invitation = await this.repo.findInvitationByTokenHash(tokenHash);
+
+    if (
+      !invitation ||
+      this.statusOf(invitation) !== 'pending' ||
+      !invitation.company.isActive ||
+      invitation.company.deletedAt !== null
+    ) {
+      this.logger.warn(
+        { tokenHashPrefix: tokenHash.slice(0, 8) },
+        'Invalid or expired invitation token used',
+      );
+      throw new BadRequestException('Convite inválido ou expirado');
+    }
+
+    return invitation;
+  }
+
+  // ── Administração ─────────────────────────────────────────────────────────────
+
+  async createInvitation(companyId: string, dto: CreateInvitationDto, user: AuthUser) {
+    if (dto.role === MembershipRole.admin && dto.workspaceId) {
+      throw new BadRequestException('O papel admin só pode ser concedido na empresa');
+    }
+    if (dto.role === MembershipRole.workspace_admin && !dto.workspaceId) {
+      throw new BadRequestException('O papel workspace_admin exige um workspace');
+    }
+
+    if (dto.role === MembershipRole.admin) {
+      await this.policy.assertCan(user, 'company.admins.manage', { companyId });
+    }
+    if (dto.role === MembershipRole.workspace_admin) {
+      await this.policy.assertCan(user, 'workspace.admins.manage', {
+        companyId,
+        workspaceId: dto.workspaceId,
+      });
+    }
+
+    const company = await this.repo.findCompanyById(companyId);
+    if (!company) {
+      throw new NotFoundException('Empresa não encontrada');
+    }
+
+    let resourceType: ResourceType = ResourceType.company;
+    let resourceId = companyId;
+
+    if (dto.workspaceId) {
+      const workspace = await this.repo.findWorkspaceById(dto.workspaceId, companyId);
+      if (!workspace) {
+        throw new NotFoundException('Workspace não encontrado');
+      }
+      resourceType = ResourceType.workspace;
+      resourceId = workspace.id;
+    }
+
+    const existingUser = await this.repo.findUserByEmail(dto.email);
+    if (existingUser) {
+      const membership = await this.repo.findMembership(existingUser.id, resourceType, resourceId);
+      if (membership && (membership.role === dto.role || dto.role === MembershipRole.member)) {
+        throw new ConflictException('Usuário já é membro com este papel');
+      }
+    }
+
+    const pending = await this.repo.findPendingInvitation(dto.email, resourceType, resourceId);
+    if (pending) {
+      throw new ConflictException('Já existe um convite pendente para este email');
+    }
+
+    const rawToken = crypto.randomBytes(32).toString('hex');
+    const expiresInDays = this.configService.get<number>('INVITATION_EXPIRES_DAYS', 7);
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+    const invitation = await this.repo.createInvitation({
+      companyId,
+      resourceType,
+      resourceId,
+      role: dto.role,
+      email: dto.email,
+      tokenHash: this.hashToken(rawToken),
+      invitedById: user.id,
+      expiresAt,
+    });
+
+    const frontendUrl = this.configService.getOrThrow<string>('FRONTEND_URL');
+    const acceptUrl = `${frontendUrl}/convite?token=${rawToken}`;
+
+    try {
+      await this.mailerService.sendInvitationEmail(
+        dto.email,
+        company.legalName,
+        acceptUrl,
+        expiresAt,
+      );
+    } catch (err) {
+      // Sem o email o convite não tem como ser aceito — revoga para permitir um novo envio
+      await this.repo.revokeInvitation(invitation.id);
+      throw err;
+    }
+
+    this.logger.info(
+      { companyId, invitationId: invitation.id, resourceType, resourceId, invitedById: user.id },
+      'Invitation created',
+    );
+    return { ...invitation, status: this.statusOf(invitation) };
+  }
+
+  async listInvitations(companyId: string, query: ListInvitationsQueryDto) {
+    const { status, page = 1, limit = 20 } = query;
+    const now = new Date();
+
+    const where: Prisma.InvitationWhereInput = { companyId };
+
+    if (status === 'pending') {
+      Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } });
+    } else if (status === 'accepted') {
+      where.acceptedAt = { not: null };
+    } else if (status === 'revoked') {
+      Object.assign(where, { acceptedAt: null, revokedAt: { not: null } });
+    } else if (status === 'expired') {
+      Object.assign(where, { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } });
+    }
+
+    const [invitations, total] = await this.repo.findInvitations(where, page, limit);
+    const data = invitations.map((i) => ({ ...i, status: this.statusOf(i) }));
+    return { data, total, page, limit };
+  }
+
+  async revokeInvitation(companyId: string, invitationId: string, performedById: string) {
+    const invitation = await this.repo.findInvitationById(invitationId, companyId);
+    if (!invitation) {
+      throw new NotFoundException('Convite não encontrado');
+    }
+
+    const status = this.statusOf(invitation);
+    if (status === 'accepted' || status === 'revoked') {
+      throw new ConflictException(
+        status === 'accepted' ? 'Convite já foi aceito' : 'Convite já foi revogado',
+      );
+    }
+
+    await this.repo.revokeInvitation(invitationId);
+    this.logger.info({ companyId, invitationId, performedById }, 'Invitation revoked');
+  }
+
+  // ── Aceite ────────────────────────────────────────────────────────────────────
+
+  /** Dados do convite para a tela de aceite, sem consumi-lo */
+  async getInvitationByToken(rawToken: string) {
+    const invitation = await this.findPendingByToken(rawToken);
+    const user = await this.repo.findUserByEmail(invitation.email);
+
+    return {
+      email: invitation.email,
+      companyName: invitation.company.legalName,
+      resourceType: invitation.resourceType,
+      resourceId: invitation.resourceId,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      userExists: !!user,
+    };
+  }
+
+  /**
+   * Aceita o convite. Usuários novos são criados com mustResetPassword=true e recebem um token
+   * de primeiro acesso (o mesmo de /auth/first-access) para definir nome e senha.
+   */
+  async acceptInvitation(rawToken: string) {
+    const invitation = await this.findPendingByToken(rawToken);
+    const existingUser = await this.repo.findUserByEmail(invitation.email);
+
+    if (existingUser && !existingUser.isActive) {
+      throw new BadRequestException('Usuário inativo');
+    }
+
+    const user = existingUser
+      ? { id: existingUser.id }
+      : {
+          email: invitation.email,
+          name: invitation.email.split('@')[0],
+          passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+        };
+
+    const result = await this.repo.acceptInvitation({
+      invitationId: invitation.id,
+      companyId: invitation.companyId,
+      resourceType: invitation.resourceType,
+      resourceId: invitation.resourceId,
+      role: invitation.role,
+      user,
+    });
+
+    if (!result) {
+      throw new BadRequestException('Convite inválido ou expirado');
+    }
+
+    const firstAccessToken = result.isNewUser
+      ? await this.authService.generateFirstAccessToken(result.userId)
+      : await this.authService.getOrRegenerateFirstAccessToken(result.userId);
+
+    this.logger.info(
+      { invitationId: invitation.id, userId: result.userId, isNewUser: result.isNewUser },
+      'Invitation accepted',
+    );
+
+    return {
+      companyId: invitation.companyId,
+      resourceType: invitation.resourceType,
+      resourceId: invitation.resourceId,
+      role: invitation.role,
+      firstAccessToken,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsIn, IsOptional, IsUUID } from 'class-validator';
+import { MembershipRole } from '../../generated/prisma/client';
+
+export const INVITABLE_ROLES = [
+  MembershipRole.member,
+  MembershipRole.admin,
+  MembershipRole.workspace_admin,
+] as const;
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+export class CreateInvitationDto {
+  @ApiProperty({ example: 'joao@acme.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    enum: INVITABLE_ROLES,
+    example: MembershipRole.member,
+    description: 'admin vale só para a empresa; workspace_admin exige workspaceId',
+  })
+  @IsIn(INVITABLE_ROLES)
+  role: InvitableRole;
+
+  @ApiPropertyOptional({ description: 'Convida para um workspace da empresa', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string;
+}
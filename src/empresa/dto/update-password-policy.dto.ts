@@ -0,0 +1,56 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UpdatePasswordPolicyDto {
+  @ApiPropertyOptional({ example: 10, minimum: 6, maximum: 128 })
+  @IsOptional()
+  @IsInt()
+  @Min(6)
+  @Max(128)
+  minLength?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  requireUppercase?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  requireLowercase?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  requireDigit?: boolean;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  requireSymbol?: boolean;
+
+  @ApiPropertyOptional({ example: true, description: 'Rejeitar senhas da lista de senhas comuns' })
+  @IsOptional()
+  @IsBoolean()
+  blockCommonPasswords?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Rejeitar senhas que contenham email ou nome',
+  })
+  @IsOptional()
+  @IsBoolean()
+  blockPersonalInfo?: boolean;
+
+  @ApiPropertyOptional({
+    example: 5,
+    minimum: 0,
+    maximum: 24,
+    description: 'Quantidade de senhas anteriores que não podem ser reutilizadas (0 desativa)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  historySize?: number;
+}
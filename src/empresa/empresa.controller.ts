@@ -8,23 +8,23 @@ import {
   Param,
   Patch,
   Post,
+  Put,
   Query,
-  UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { AuthUser } from '../auth/strategies/jwt.strategy';
-import { CompanyAdminGuard } from './guards/company-admin.guard';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
 import { EmpresaService } from './empresa.service';
 import { CreateWorkspaceDto } from './dto/create-workspace.dto';
 import { ListMembersQueryDto } from './dto/list-members-query.dto';
 import { ListWorkspacesQueryDto } from './dto/list-workspaces-query.dto';
 import { PromoteMemberDto } from './dto/promote-member.dto';
+import { UpdatePasswordPolicyDto } from './dto/update-password-policy.dto';
 import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
 
 @ApiTags('empresa')
 @ApiBearerAuth()
-@UseGuards(CompanyAdminGuard)
 @Controller('empresa/:companyId')
 export class EmpresaController {
   constructor(private readonly empresaService: EmpresaService) {}
@@ -32,6 +32,7 @@ export class EmpresaController {
   // ── Workspaces ────────────────────────────────────────────────────────────────
 
   @Post('workspaces')
+  @RequirePermission('workspace.create')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Criar workspace e admin inicial' })
   @ApiResponse({ status: 201, description: 'Workspace criado com sucesso' })
@@ -45,6 +46,7 @@ export class EmpresaController {
   }
 
   @Get('workspaces')
+  @RequirePermission('company.workspaces.read')
   @ApiOperation({ summary: 'Listar workspaces da empresa com filtros e paginação' })
   @ApiResponse({ status: 200, description: 'Lista paginada de workspaces' })
   listWorkspaces(@Param('companyId') companyId: string, @Query() query: ListWorkspacesQueryDto) {
@@ -52,6 +54,7 @@ export class EmpresaController {
   }
 
   @Get('workspaces/:workspaceId')
+  @RequirePermission('workspace.read')
   @ApiOperation({ summary: 'Detalhes de um workspace' })
   @ApiResponse({ status: 200, description: 'Workspace encontrado' })
   @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
@@ -60,6 +63,7 @@ export class EmpresaController {
   }
 
   @Patch('workspaces/:workspaceId')
+  @RequirePermission('workspace.update')
   @ApiOperation({ summary: 'Editar nome ou descrição do workspace' })
   @ApiResponse({ status: 200, description: 'Workspace atualizado' })
   @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
@@ -72,6 +76,7 @@ export class EmpresaController {
   }
 
   @Patch('workspaces/:workspaceId/inativar')
+  @RequirePermission('workspace.status.update')
   @ApiOperation({ summary: 'Inativar workspace' })
   @ApiResponse({ status: 200, description: 'Workspace inativado' })
   @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
@@ -83,6 +88,7 @@ export class EmpresaController {
   }
 
   @Patch('workspaces/:workspaceId/ativar')
+  @RequirePermission('workspace.status.update')
   @ApiOperation({ summary: 'Reativar workspace' })
   @ApiResponse({ status: 200, description: 'Workspace reativado' })
   @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
@@ -94,6 +100,7 @@ export class EmpresaController {
   }
 
   @Delete('workspaces/:workspaceId')
+  @RequirePermission('workspace.delete')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Soft delete de workspace' })
   @ApiResponse({ status: 204, description: 'Workspace removido' })
@@ -109,6 +116,7 @@ export class EmpresaController {
   // ── Membros ───────────────────────────────────────────────────────────────────
 
   @Get('membros')
+  @RequirePermission('company.members.read')
   @ApiOperation({ summary: 'Listar membros da empresa com filtros e paginação' })
   @ApiResponse({ status: 200, description: 'Lista paginada de membros' })
   listMembers(@Param('companyId') companyId: string, @Query() query: ListMembersQueryDto) {
@@ -116,6 +124,7 @@ export class EmpresaController {
   }
 
   @Patch('membros/:userId')
+  @RequirePermission('company.members.manage')
   @ApiOperation({ summary: 'Inativar ou reativar membro da empresa' })
   @ApiResponse({ status: 200, description: 'Membro atualizado' })
   @ApiResponse({ status: 400, description: 'Não é possível alterar o próprio usuário' })
@@ -130,6 +139,7 @@ export class EmpresaController {
   }
 
   @Delete('membros/:userId')
+  @RequirePermission('company.members.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Remover membro da empresa e de todos os seus workspaces' })
   @ApiResponse({ status: 204, description: 'Membro removido' })
@@ -146,6 +156,7 @@ export class EmpresaController {
   // ── Admins ────────────────────────────────────────────────────────────────────
 
   @Post('admins')
+  @RequirePermission('company.admins.manage')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Promover membro a administrador da empresa' })
   @ApiResponse({ status: 201, description: 'Membro promovido a admin' })
@@ -160,6 +171,7 @@ export class EmpresaController {
   }
 
   @Delete('admins/:userId')
+  @RequirePermission('company.admins.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Revogar papel de administrador da empresa' })
   @ApiResponse({ status: 204, description: 'Papel de admin revogado' })
@@ -176,6 +188,7 @@ export class EmpresaController {
   // ── Papéis por membro ─────────────────────────────────────────────────────────
 
   @Get('membros/:userId/papeis')
+  @RequirePermission('company.members.read')
   @ApiOperation({ summary: 'Listar todos os papéis de um membro (empresa + workspaces)' })
   @ApiResponse({ status: 200, description: 'Papéis do membro' })
   @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
@@ -184,6 +197,7 @@ export class EmpresaController {
   }
 
   @Post('workspaces/:workspaceId/admins')
+  @RequirePermission('workspace.admins.manage')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Promover usuário a workspace_admin' })
   @ApiResponse({ status: 201, description: 'Usuário promovido a workspace_admin' })
@@ -199,6 +213,7 @@ export class EmpresaController {
   }
 
   @Delete('workspaces/:workspaceId/admins/:userId')
+  @RequirePermission('workspace.admins.manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Revogar papel de workspace_admin' })
   @ApiResponse({ status: 204, description: 'Papel de workspace_admin revogado' })
@@ -211,4 +226,37 @@ export class EmpresaController {
   ) {
     await this.empresaService.revokeWorkspaceAdmin(companyId, workspaceId, userId, user.id);
   }
+
+  // ── Política de senha ─────────────────────────────────────────────────────────
+
+  @Get('politica-senha')
+  @RequirePermission('company.security.manage')
+  @ApiOperation({ summary: 'Obter a política de senha da empresa' })
+  @ApiResponse({
+    status: 200,
+    description: 'Política vigente — isDefault indica o padrão do sistema',
+  })
+  getPasswordPolicy(@Param('companyId') companyId: string) {
+    return this.empresaService.getPasswordPolicy(companyId);
+  }
+
+  @Put('politica-senha')
+  @RequirePermission('company.security.manage')
+  @ApiOperation({ summary: 'Configurar a política de senha da empresa' })
+  @ApiResponse({ status: 200, description: 'Política atualizada' })
+  updatePasswordPolicy(
+    @Param('companyId') companyId: string,
+    @Body() dto: UpdatePasswordPolicyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.empresaService.updatePasswordPolicy(companyId, dto, user.id);
+  }
+
+  @Delete('politica-senha')
+  @RequirePermission('company.security.manage')
+  @ApiOperation({ summary: 'Voltar a empresa para a política de senha padrão do sistema' })
+  @ApiResponse({ status: 200, description: 'Política padrão restaurada' })
+  resetPasswordPolicy(@Param('companyId') companyId: string, @CurrentUser() user: AuthUser) {
+    return this.empresaService.resetPasswordPolicy(companyId, user.id);
+  }
 }
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AuthModule } from '../auth/auth.module';
 import { MailerModule } from '../mailer/mailer.module';
+import { PolicyModule } from '../policy/policy.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { EmpresaController } from './empresa.controller';
 import { EmpresaRepository } from './empresa.repository';
 import { EmpresaService } from './empresa.service';
 
 @Module({
-  imports: [PrismaModule, MailerModule, AuthModule, ConfigModule],
+  imports: [PrismaModule, MailerModule, AuthModule, ConfigModule, PolicyModule],
   controllers: [EmpresaController],
   providers: [EmpresaRepository, EmpresaService],
 })
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { PasswordPolicyRules } from '../auth/password-policy';
 import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 
@@ -144,6 +145,15 @@ export class EmpresaRepository {
     });
   }
 
+  // ── Projects ──────────────────────────────────────────────────────────────────
+
+  findCompanyProjectIds(companyId: string) {
+    return this.prisma.project.findMany({
+      where: { workspace: { companyId }, deletedAt: null },
+      select: { id: true },
+    });
+  }
+
   // ── Memberships ───────────────────────────────────────────────────────────────
 
   findMembership(where: Prisma.MembershipWhereInput) {
@@ -180,7 +190,13 @@ export class EmpresaRepository {
             : []),
         ],
       },
-      select: { id: true, resourceType: true, resourceId: true, role: true },
+      select: {
+        id: true,
+        resourceType: true,
+        resourceId: true,
+        role: true,
+        customRole: { select: { id: true, name: true } },
+      },
     });
   }
 
@@ -232,6 +248,24 @@ export class EmpresaRepository {
     return this.prisma.membership.updateMany({ where, data });
   }
 
+  // ── Política de senha ─────────────────────────────────────────────────────────
+
+  findPasswordPolicy(companyId: string) {
+    return this.prisma.passwordPolicy.findUnique({ where: { companyId } });
+  }
+
+  upsertPasswordPolicy(companyId: string, data: PasswordPolicyRules) {
+    return this.prisma.passwordPolicy.upsert({
+      where: { companyId },
+      create: { companyId, ...data },
+      update: data,
+    });
+  }
+
+  deletePasswordPolicy(companyId: string) {
+    return this.prisma.passwordPolicy.deleteMany({ where: { companyId } });
+  }
+
   // ── Transactions ──────────────────────────────────────────────────────────────
 
   createWorkspaceWithNewAdmin(params: {
@@ -5,6 +5,7 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { DEFAULT_PASSWORD_POLICY } from '../auth/password-policy';
 import { MembershipRole, ResourceType } from '../generated/prisma/client';
 import { EmpresaRepository } from './empresa.repository';
 import { EmpresaService } from './empresa.service';
@@ -73,6 +74,7 @@ function makeRepo(
     findCompanyWorkspaceIds: jest.fn(),
     findCompanyWorkspaces: jest.fn(),
     findCompanyWorkspacesWithActive: jest.fn(),
+    findCompanyProjectIds: jest.fn(),
     findMembership: jest.fn(),
     findMemberships: jest.fn(),
     findMembershipsSelect: jest.fn(),
@@ -85,6 +87,9 @@ function makeRepo(
     updateManyMemberships: jest.fn(),
     createWorkspaceWithNewAdmin: jest.fn(),
     createWorkspaceWithExistingAdmin: jest.fn(),
+    findPasswordPolicy: jest.fn().mockResolvedValue(null),
+    upsertPasswordPolicy: jest.fn((_companyId: string, data: object) => Promise.resolve(data)),
+    deletePasswordPolicy: jest.fn().mockResolvedValue({ count: 1 }),
     ...overrides,
   } as unknown as jest.Mocked<EmpresaRepository>;
 }
@@ -93,13 +98,24 @@ function makeLogger() {
   return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
 }
 
-function makeService(repo: jest.Mocked<EmpresaRepository>) {
+function makePolicy({ targetIsCompanyAdmin = false } = {}) {
+  return {
+    assertNotCompanyAdmin: jest.fn(() =>
+      targetIsCompanyAdmin
+        ? Promise.reject(new ForbiddenException('admin'))
+        : Promise.resolve(undefined),
+    ),
+  };
+}
+
+function makeService(repo: jest.Mocked<EmpresaRepository>, policy = makePolicy()) {
   const mailerService = {
     sendFirstAccessEmail: jest.fn().mockResolvedValue(undefined),
     sendPasswordResetEmail: jest.fn().mockResolvedValue(undefined),
   };
   const authService = {
     generateFirstAccessToken: jest.fn().mockResolvedValue('raw-token-abc'),
+    revokeUserTokens: jest.fn().mockResolvedValue(undefined),
   };
   const configService = {
     get: jest.fn((key: string, fallback?: unknown) => {
@@ -120,6 +136,7 @@ function makeService(repo: jest.Mocked<EmpresaRepository>) {
       mailerService as any,
       authService as any,
       configService,
+      policy as any,
       logger as any,
     ),
     mailerService,
@@ -354,10 +371,8 @@ describe('EmpresaService.updateMember', () => {
   });
 
   it('lança ForbiddenException ao tentar alterar um admin da empresa', async () => {
-    const repo = makeRepo({
-      findMembership: jest.fn().mockResolvedValue(makeMembership({ role: MembershipRole.admin })),
-    });
-    const { service } = makeService(repo);
+    const repo = makeRepo();
+    const { service } = makeService(repo, makePolicy({ targetIsCompanyAdmin: true }));
     await expect(
       service.updateMember('company-1', 'user-2', { isActive: false }, 'user-1'),
     ).rejects.toThrow(ForbiddenException);
@@ -365,11 +380,7 @@ describe('EmpresaService.updateMember', () => {
 
   it('lança NotFoundException quando membro não encontrado na empresa', async () => {
     const repo = makeRepo({
-      // assertNotCompanyAdmin: findMembership com role=admin retorna null (não é admin)
-      findMembership: jest
-        .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin → não é admin
-        .mockResolvedValueOnce(null), // busca de membership na empresa → não encontrado
+      findMembership: jest.fn().mockResolvedValueOnce(null), // busca de membership na empresa → não encontrado
       findCompanyWorkspaceIds: jest.fn().mockResolvedValue([]),
     });
     const { service } = makeService(repo);
@@ -383,17 +394,15 @@ describe('EmpresaService.updateMember', () => {
     const membership = makeMembership({ userId: 'user-2' });
     const updatedUser = { ...user, isActive: false };
     const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin → não é admin
-        .mockResolvedValueOnce(membership), // encontrou membership na empresa
+      findMembership: jest.fn().mockResolvedValueOnce(membership), // encontrou membership na empresa
       findCompanyWorkspaceIds: jest.fn().mockResolvedValue([{ id: 'ws-1' }]),
       updateUser: jest.fn().mockResolvedValue(updatedUser),
     });
-    const { service } = makeService(repo);
+    const { service, authService } = makeService(repo);
     const result = await service.updateMember('company-1', 'user-2', { isActive: false }, 'user-1');
     expect(result.isActive).toBe(false);
     expect(repo.updateUser).toHaveBeenCalledWith('user-2', { isActive: false });
+    expect(authService.revokeUserTokens).toHaveBeenCalledWith('user-2', 'user-1');
   });
 });
 
@@ -409,12 +418,8 @@ describe('EmpresaService.removeMember', () => {
   });
 
   it('lança ForbiddenException ao tentar remover um admin da empresa', async () => {
-    const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValue(makeMembership({ userId: 'user-2', role: MembershipRole.admin })),
-    });
-    const { service } = makeService(repo);
+    const repo = makeRepo();
+    const { service } = makeService(repo, makePolicy({ targetIsCompanyAdmin: true }));
     await expect(service.removeMember('company-1', 'user-2', 'user-1')).rejects.toThrow(
       ForbiddenException,
     );
@@ -422,8 +427,8 @@ describe('EmpresaService.removeMember', () => {
 
   it('lança NotFoundException quando membro não encontrado', async () => {
     const repo = makeRepo({
-      findMembership: jest.fn().mockResolvedValue(null), // assertNotCompanyAdmin → não é admin
       findCompanyWorkspaceIds: jest.fn().mockResolvedValue([]),
+      findCompanyProjectIds: jest.fn().mockResolvedValue([]),
       updateManyMemberships: jest.fn().mockResolvedValue({ count: 0 }),
     });
     const { service } = makeService(repo);
@@ -434,8 +439,8 @@ describe('EmpresaService.removeMember', () => {
 
   it('soft-deleta todos os memberships do membro', async () => {
     const repo = makeRepo({
-      findMembership: jest.fn().mockResolvedValue(null), // assertNotCompanyAdmin → não é admin
       findCompanyWorkspaceIds: jest.fn().mockResolvedValue([{ id: 'ws-1' }, { id: 'ws-2' }]),
+      findCompanyProjectIds: jest.fn().mockResolvedValue([]),
       updateManyMemberships: jest.fn().mockResolvedValue({ count: 3 }),
     });
     const { service } = makeService(repo);
@@ -443,6 +448,22 @@ describe('EmpresaService.removeMember', () => {
     const dataArg = repo.updateManyMemberships.mock.calls[0][1] as Record<string, unknown>;
     expect(dataArg.deletedAt as Date).toBeInstanceOf(Date);
   });
+
+  it('inclui os memberships dos projetos da empresa', async () => {
+    const repo = makeRepo({
+      findMembership: jest.fn().mockResolvedValue(null),
+      findCompanyWorkspaceIds: jest.fn().mockResolvedValue([{ id: 'ws-1' }]),
+      findCompanyProjectIds: jest.fn().mockResolvedValue([{ id: 'proj-1' }]),
+      updateManyMemberships: jest.fn().mockResolvedValue({ count: 3 }),
+    });
+    const { service } = makeService(repo);
+    await service.removeMember('company-1', 'user-2', 'user-1');
+    const whereArg = repo.updateManyMemberships.mock.calls[0][0] as { OR: unknown[] };
+    expect(whereArg.OR).toContainEqual({
+      resourceType: ResourceType.project,
+      resourceId: { in: ['proj-1'] },
+    });
+  });
 });
 
 // ── promoteToAdmin ─────────────────────────────────────────────────────────────
@@ -608,12 +629,8 @@ describe('EmpresaService.getMemberRoles', () => {
 
 describe('EmpresaService.promoteToWorkspaceAdmin', () => {
   it('lança ForbiddenException quando usuário é admin da empresa', async () => {
-    const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValue(makeMembership({ userId: 'user-2', role: MembershipRole.admin })),
-    });
-    const { service } = makeService(repo);
+    const repo = makeRepo();
+    const { service } = makeService(repo, makePolicy({ targetIsCompanyAdmin: true }));
     await expect(
       service.promoteToWorkspaceAdmin('company-1', 'ws-1', 'user-2', 'user-1'),
     ).rejects.toThrow(ForbiddenException);
@@ -633,10 +650,7 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
   it('lança NotFoundException quando usuário não é membro da empresa', async () => {
     const ws = makeWorkspace();
     const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin → não é admin
-        .mockResolvedValueOnce(null), // anyMembership → não é membro
+      findMembership: jest.fn().mockResolvedValueOnce(null), // anyMembership → não é membro
       findWorkspaceById: jest.fn().mockResolvedValue(ws),
       findCompanyWorkspaceIds: jest.fn().mockResolvedValue([{ id: 'ws-1' }]),
     });
@@ -657,7 +671,6 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
     const repo = makeRepo({
       findMembership: jest
         .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
         .mockResolvedValueOnce(makeMembership()) // anyMembership → é membro
         .mockResolvedValueOnce(existingMembership), // já tem membership no workspace
       findWorkspaceById: jest.fn().mockResolvedValue(ws),
@@ -682,7 +695,6 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
     const repo = makeRepo({
       findMembership: jest
         .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
         .mockResolvedValueOnce(makeMembership()) // anyMembership
         .mockResolvedValueOnce(existingMembership), // tem membership no workspace como member
       findWorkspaceById: jest.fn().mockResolvedValue(ws),
@@ -708,7 +720,6 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
     const repo = makeRepo({
       findMembership: jest
         .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
         .mockResolvedValueOnce(companyMembership) // anyMembership
         .mockResolvedValueOnce(null) // sem membership no workspace
         .mockResolvedValueOnce(companyMembership), // tem membership na empresa
@@ -739,7 +750,6 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
     const repo = makeRepo({
       findMembership: jest
         .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
         .mockResolvedValueOnce(workspaceMembership) // anyMembership → é membro via workspace
         .mockResolvedValueOnce(null) // sem membership no ws-1
         .mockResolvedValueOnce(null), // sem membership direta na empresa
@@ -764,12 +774,8 @@ describe('EmpresaService.promoteToWorkspaceAdmin', () => {
 
 describe('EmpresaService.revokeWorkspaceAdmin', () => {
   it('lança ForbiddenException quando usuário é admin da empresa', async () => {
-    const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValue(makeMembership({ userId: 'user-2', role: MembershipRole.admin })),
-    });
-    const { service } = makeService(repo);
+    const repo = makeRepo();
+    const { service } = makeService(repo, makePolicy({ targetIsCompanyAdmin: true }));
     await expect(
       service.revokeWorkspaceAdmin('company-1', 'ws-1', 'user-2', 'user-1'),
     ).rejects.toThrow(ForbiddenException);
@@ -789,10 +795,7 @@ describe('EmpresaService.revokeWorkspaceAdmin', () => {
   it('lança NotFoundException quando usuário não tem papel workspace_admin no workspace', async () => {
     const ws = makeWorkspace();
     const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
-        .mockResolvedValueOnce(null), // sem workspace_admin membership
+      findMembership: jest.fn().mockResolvedValueOnce(null), // sem workspace_admin membership
       findWorkspaceById: jest.fn().mockResolvedValue(ws),
     });
     const { service } = makeService(repo);
@@ -811,10 +814,7 @@ describe('EmpresaService.revokeWorkspaceAdmin', () => {
       role: MembershipRole.workspace_admin,
     });
     const repo = makeRepo({
-      findMembership: jest
-        .fn()
-        .mockResolvedValueOnce(null) // assertNotCompanyAdmin
-        .mockResolvedValueOnce(wsMembership), // tem workspace_admin
+      findMembership: jest.fn().mockResolvedValueOnce(wsMembership), // tem workspace_admin
       findWorkspaceById: jest.fn().mockResolvedValue(ws),
       updateMembership: jest.fn().mockResolvedValue({}),
     });
@@ -826,3 +826,70 @@ describe('EmpresaService.revokeWorkspaceAdmin', () => {
     );
   });
 });
+
+// ── política de senha ──────────────────────────────────────────────────────────
+
+describe('EmpresaService.getPasswordPolicy', () => {
+  it('retorna o padrão do sistema quando a empresa não tem política', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    const result = await service.getPasswordPolicy('company-1');
+    expect(result).toEqual({ ...DEFAULT_PASSWORD_POLICY, isDefault: true });
+  });
+
+  it('retorna a política configurada sem campos internos', async () => {
+    const repo = makeRepo({
+      findPasswordPolicy: jest.fn().mockResolvedValue({
+        ...DEFAULT_PASSWORD_POLICY,
+        id: 'policy-1',
+        companyId: 'company-1',
+        minLength: 12,
+      }),
+    });
+    const { service } = makeService(repo);
+    const result = await service.getPasswordPolicy('company-1');
+    expect(result).toEqual({ ...DEFAULT_PASSWORD_POLICY, minLength: 12, isDefault: false });
+  });
+});
+
+describe('EmpresaService.updatePasswordPolicy', () => {
+  it('completa campos omitidos com o padrão do sistema', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    const result = await service.updatePasswordPolicy(
+      'company-1',
+      { minLength: 12, requireSymbol: true },
+      'admin-1',
+    );
+    expect(repo.upsertPasswordPolicy).toHaveBeenCalledWith('company-1', {
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireSymbol: true,
+    });
+    expect(result.isDefault).toBe(false);
+  });
+
+  it('mantém os valores já configurados para campos omitidos', async () => {
+    const repo = makeRepo({
+      findPasswordPolicy: jest
+        .fn()
+        .mockResolvedValue({ ...DEFAULT_PASSWORD_POLICY, id: 'policy-1', historySize: 10 }),
+    });
+    const { service } = makeService(repo);
+    await service.updatePasswordPolicy('company-1', { minLength: 14 }, 'admin-1');
+    expect(repo.upsertPasswordPolicy).toHaveBeenCalledWith(
+      'company-1',
+      expect.objectContaining({ minLength: 14, historySize: 10 }),
+    );
+  });
+});
+
+describe('EmpresaService.resetPasswordPolicy', () => {
+  it('remove a política da empresa e retorna o padrão', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    const result = await service.resetPasswordPolicy('company-1', 'admin-1');
+    expect(repo.deletePasswordPolicy).toHaveBeenCalledWith('company-1');
+    expect(result.isDefault).toBe(true);
+  });
+});
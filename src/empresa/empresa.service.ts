@@ -1,7 +1,6 @@
 import {
   BadRequestException,
   ConflictException,
-  ForbiddenException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
@@ -11,12 +10,15 @@ import * as bcrypt from 'bcryptjs';
 import * as crypto from 'crypto';
 import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
 import { AuthService } from '../auth/auth.service';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicyRules } from '../auth/password-policy';
 import { MailerService } from '../mailer/mailer.service';
+import { PolicyService } from '../policy/policy.service';
 import { EmpresaRepository } from './empresa.repository';
 import { CreateWorkspaceDto } from './dto/create-workspace.dto';
 import { ListMembersQueryDto } from './dto/list-members-query.dto';
 import { ListWorkspacesQueryDto } from './dto/list-workspaces-query.dto';
 import { PromoteMemberDto } from './dto/promote-member.dto';
+import { UpdatePasswordPolicyDto } from './dto/update-password-policy.dto';
 import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
 
 @Injectable()
@@ -26,6 +28,7 @@ export class EmpresaService {
     private readonly mailerService: MailerService,
     private readonly authService: AuthService,
     private readonly configService: ConfigService,
+    private readonly policy: PolicyService,
     @InjectPinoLogger(EmpresaService.name)
     private readonly logger: PinoLogger,
   ) {}
@@ -69,7 +72,7 @@ export class EmpresaService {
       );
 
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { passwordHash: _ph, ...adminWithoutPassword } = result.admin;
+      const { passwordHash: _ph, totpSecret: _ts, ...adminWithoutPassword } = result.admin;
       return { workspace: result.workspace, admin: adminWithoutPassword };
     }
 
@@ -88,7 +91,7 @@ export class EmpresaService {
     );
 
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash: _ph, ...adminWithoutPassword } = existingUser;
+    const { passwordHash: _ph, totpSecret: _ts, ...adminWithoutPassword } = existingUser;
     return { workspace, admin: adminWithoutPassword };
   }
 
@@ -265,22 +268,6 @@ export class EmpresaService {
     return { data, total, page, limit };
   }
 
-  /** Lança ForbiddenException se targetUserId for admin ativo desta empresa */
-  private async assertNotCompanyAdmin(companyId: string, targetUserId: string) {
-    const isAdmin = await this.repo.findMembership({
-      userId: targetUserId,
-      resourceType: ResourceType.company,
-      resourceId: companyId,
-      role: 'admin',
-      deletedAt: null,
-    });
-    if (isAdmin) {
-      throw new ForbiddenException(
-        'Não é possível alterar os papéis de um administrador da empresa',
-      );
-    }
-  }
-
   async updateMember(
     companyId: string,
     targetUserId: string,
@@ -291,7 +278,7 @@ export class EmpresaService {
       throw new BadRequestException('Não é possível alterar o próprio usuário');
     }
 
-    await this.assertNotCompanyAdmin(companyId, targetUserId);
+    await this.policy.assertNotCompanyAdmin(companyId, targetUserId);
 
     const workspaceRows = await this.repo.findCompanyWorkspaceIds(companyId);
     const workspaceIds = workspaceRows.map((w) => w.id);
@@ -313,6 +300,10 @@ export class EmpresaService {
 
     const updated = await this.repo.updateUser(targetUserId, dto);
 
+    if (dto.isActive === false) {
+      await this.authService.revokeUserTokens(targetUserId, performedById);
+    }
+
     this.logger.info(
       { companyId, targetUserId, changes: Object.keys(dto), performedById },
       'Company member updated',
@@ -325,10 +316,14 @@ export class EmpresaService {
       throw new BadRequestException('Não é possível remover a si mesmo da empresa');
     }
 
-    await this.assertNotCompanyAdmin(companyId, targetUserId);
+    await this.policy.assertNotCompanyAdmin(companyId, targetUserId);
 
-    const workspaceRows = await this.repo.findCompanyWorkspaceIds(companyId);
+    const [workspaceRows, projectRows] = await Promise.all([
+      this.repo.findCompanyWorkspaceIds(companyId),
+      this.repo.findCompanyProjectIds(companyId),
+    ]);
     const workspaceIds = workspaceRows.map((w) => w.id);
+    const projectIds = projectRows.map((p) => p.id);
 
     const result = await this.repo.updateManyMemberships(
       {
@@ -339,6 +334,9 @@ export class EmpresaService {
           ...(workspaceIds.length > 0
             ? [{ resourceType: ResourceType.workspace, resourceId: { in: workspaceIds } }]
             : []),
+          ...(projectIds.length > 0
+            ? [{ resourceType: ResourceType.project, resourceId: { in: projectIds } }]
+            : []),
         ],
       },
       { deletedAt: new Date() },
@@ -350,7 +348,7 @@ export class EmpresaService {
 
     this.logger.info(
       { companyId, targetUserId, performedById, membershipsRevoked: result.count },
-      'Member removed from company and all its workspaces',
+      'Member removed from company and all its workspaces and projects',
     );
   }
 
@@ -449,12 +447,21 @@ export class EmpresaService {
       workspaceIds,
     );
 
-    const companyMembership = memberships.find((m) => m.resourceType === ResourceType.company);
+    const builtIn = memberships.filter((m) => m.role !== MembershipRole.custom);
+    const companyMembership = builtIn.find((m) => m.resourceType === ResourceType.company);
     const workspaceMembershipsMap = new Map(
-      memberships
+      builtIn
         .filter((m) => m.resourceType === ResourceType.workspace)
         .map((m) => [m.resourceId, m]),
     );
+    const customRoles = memberships
+      .filter((m) => m.role === MembershipRole.custom && m.customRole)
+      .map((m) => ({
+        membershipId: m.id,
+        resourceType: m.resourceType,
+        resourceId: m.resourceId,
+        customRole: m.customRole,
+      }));
 
     const workspaceRoles = workspaces.map((ws) => {
       const m = workspaceMembershipsMap.get(ws.id);
@@ -472,6 +479,7 @@ export class EmpresaService {
       companyRole: companyMembership?.role ?? null,
       companyMembershipId: companyMembership?.id ?? null,
       workspaceRoles,
+      customRoles,
     };
   }
 
@@ -481,7 +489,7 @@ export class EmpresaService {
     userId: string,
     performedById: string,
   ) {
-    await this.assertNotCompanyAdmin(companyId, userId);
+    await this.policy.assertNotCompanyAdmin(companyId, userId);
 
     const workspace = await this.repo.findWorkspaceById(workspaceId, companyId);
     if (!workspace) throw new NotFoundException('Workspace não encontrado');
@@ -505,6 +513,7 @@ export class EmpresaService {
       userId,
       resourceType: ResourceType.workspace,
       resourceId: workspaceId,
+      role: { not: MembershipRole.custom },
       deletedAt: null,
     });
 
@@ -526,6 +535,7 @@ export class EmpresaService {
       userId,
       resourceType: ResourceType.company,
       resourceId: companyId,
+      role: { not: MembershipRole.custom },
       deletedAt: null,
     });
     if (!companyMembership) {
@@ -557,7 +567,7 @@ export class EmpresaService {
     targetUserId: string,
     performedById: string,
   ) {
-    await this.assertNotCompanyAdmin(companyId, targetUserId);
+    await this.policy.assertNotCompanyAdmin(companyId, targetUserId);
 
     const workspace = await this.repo.findWorkspaceById(workspaceId, companyId);
     if (!workspace) throw new NotFoundException('Workspace não encontrado');
@@ -579,4 +589,44 @@ export class EmpresaService {
       'Workspace admin role revoked',
     );
   }
+
+  // ── Política de senha ─────────────────────────────────────────────────────────
+
+  async getPasswordPolicy(companyId: string) {
+    const policy = await this.repo.findPasswordPolicy(companyId);
+    return { ...pickPasswordRules(policy ?? DEFAULT_PASSWORD_POLICY), isDefault: !policy };
+  }
+
+  /** Campos omitidos mantêm o valor atual (ou o padrão do sistema, se a empresa não tem política) */
+  async updatePasswordPolicy(
+    companyId: string,
+    dto: UpdatePasswordPolicyDto,
+    performedById: string,
+  ) {
+    const current = await this.repo.findPasswordPolicy(companyId);
+    const rules = pickPasswordRules({ ...(current ?? DEFAULT_PASSWORD_POLICY), ...dto });
+
+    const updated = await this.repo.upsertPasswordPolicy(companyId, rules);
+    this.logger.info({ companyId, rules, performedById }, 'Company password policy updated');
+    return { ...pickPasswordRules(updated), isDefault: false };
+  }
+
+  async resetPasswordPolicy(companyId: string, performedById: string) {
+    await this.repo.deletePasswordPolicy(companyId);
+    this.logger.info({ companyId, performedById }, 'Company password policy reset to default');
+    return { ...DEFAULT_PASSWORD_POLICY, isDefault: true };
+  }
+}
+
+function pickPasswordRules(source: PasswordPolicyRules): PasswordPolicyRules {
+  return {
+    minLength: source.minLength,
+    requireUppercase: source.requireUppercase,
+    requireLowercase: source.requireLowercase,
+    requireDigit: source.requireDigit,
+    requireSymbol: source.requireSymbol,
+    blockCommonPasswords: source.blockCommonPasswords,
+    blockPersonalInfo: source.blockPersonalInfo,
+    historySize: source.historySize,
+  };
 }
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsHexColor, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateLabelDto {
+  @ApiProperty({ example: 'Bug' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#D0021B', description: 'Cor em hexadecimal' })
+  @IsHexColor()
+  color: string;
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsHexColor, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateLabelDto {
+  @ApiPropertyOptional({ example: 'Bug' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({ example: '#D0021B', description: 'Cor em hexadecimal' })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+}
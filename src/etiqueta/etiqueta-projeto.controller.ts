@@ -0,0 +1,24 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { EtiquetaService } from './etiqueta.service';
+
+@ApiTags('etiquetas')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller('empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/etiquetas')
+export class EtiquetaProjetoController {
+  constructor(private readonly etiquetaService: EtiquetaService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Listar etiquetas disponíveis para as tarefas do projeto' })
+  @ApiResponse({ status: 200, description: 'Etiquetas do workspace do projeto' })
+  @ApiResponse({ status: 404, description: 'Projeto não encontrado' })
+  listProjectLabels(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.etiquetaService.listProjectLabels(companyId, workspaceId, projectId);
+  }
+}
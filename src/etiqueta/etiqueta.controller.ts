@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { EtiquetaService } from './etiqueta.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+@ApiTags('etiquetas')
+@ApiBearerAuth()
+@Controller('empresa/:companyId/workspaces/:workspaceId/etiquetas')
+export class EtiquetaController {
+  constructor(private readonly etiquetaService: EtiquetaService) {}
+
+  @Get()
+  @RequirePermission('task.read')
+  @ApiOperation({ summary: 'Listar etiquetas do workspace' })
+  @ApiResponse({ status: 200, description: 'Etiquetas com a quantidade de tarefas' })
+  @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
+  listLabels(@Param('companyId') companyId: string, @Param('workspaceId') workspaceId: string) {
+    return this.etiquetaService.listLabels(companyId, workspaceId);
+  }
+
+  @Post()
+  @RequirePermission('workspace.labels.manage')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar etiqueta no workspace' })
+  @ApiResponse({ status: 201, description: 'Etiqueta criada' })
+  @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
+  @ApiResponse({ status: 409, description: 'Já existe uma etiqueta com este nome' })
+  createLabel(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreateLabelDto,
+  ) {
+    return this.etiquetaService.createLabel(companyId, workspaceId, dto);
+  }
+
+  @Patch(':labelId')
+  @RequirePermission('workspace.labels.manage')
+  @ApiOperation({ summary: 'Editar nome ou cor da etiqueta' })
+  @ApiResponse({ status: 200, description: 'Etiqueta atualizada' })
+  @ApiResponse({ status: 404, description: 'Workspace ou etiqueta não encontrada' })
+  @ApiResponse({ status: 409, description: 'Já existe uma etiqueta com este nome' })
+  updateLabel(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('labelId') labelId: string,
+    @Body() dto: UpdateLabelDto,
+  ) {
+    return this.etiquetaService.updateLabel(companyId, workspaceId, labelId, dto);
+  }
+
+  @Delete(':labelId')
+  @RequirePermission('workspace.labels.manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Excluir etiqueta — é removida de todas as tarefas' })
+  @ApiResponse({ status: 204, description: 'Etiqueta excluída' })
+  @ApiResponse({ status: 404, description: 'Workspace ou etiqueta não encontrada' })
+  async deleteLabel(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('labelId') labelId: string,
+  ) {
+    await this.etiquetaService.deleteLabel(companyId, workspaceId, labelId);
+  }
+}
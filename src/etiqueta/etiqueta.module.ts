@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EtiquetaProjetoController } from './etiqueta-projeto.controller';
+import { EtiquetaController } from './etiqueta.controller';
+import { EtiquetaRepository } from './etiqueta.repository';
+import { EtiquetaService } from './etiqueta.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [EtiquetaController, EtiquetaProjetoController],
+  providers: [EtiquetaRepository, EtiquetaService],
+})
+export class EtiquetaModule {}
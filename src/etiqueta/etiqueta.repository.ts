@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const LABEL_SELECT = {
+  id: true,
+  workspaceId: true,
+  name: true,
+  color: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { tasks: { where: { task: { deletedAt: null } } } } },
+} satisfies Prisma.LabelSelect;
+
+@Injectable()
+export class EtiquetaRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Workspaces / Projects ─────────────────────────────────────────────────────
+
+  findWorkspace(workspaceId: string, companyId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, companyId, deletedAt: null },
+    });
+  }
+
+  findProject(projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.project.findFirst({
+      where: {
+        id: projectId,
+        workspaceId,
+        deletedAt: null,
+        workspace: { companyId, deletedAt: null },
+      },
+    });
+  }
+
+  // ── Labels ────────────────────────────────────────────────────────────────────
+
+  findLabels(workspaceId: string) {
+    return this.prisma.label.findMany({
+      where: { workspaceId },
+      orderBy: { name: 'asc' },
+      select: LABEL_SELECT,
+    });
+  }
+
+  findLabel(labelId: string, workspaceId: string) {
+    return this.prisma.label.findFirst({ where: { id: labelId, workspaceId } });
+  }
+
+  findLabelByName(name: string, workspaceId: string) {
+    return this.prisma.label.findFirst({
+      where: { workspaceId, name: { equals: name, mode: 'insensitive' } },
+    });
+  }
+
+  createLabel(data: Prisma.LabelUncheckedCreateInput) {
+    return this.prisma.label.create({ data, select: LABEL_SELECT });
+  }
+
+  updateLabel(id: string, data: Prisma.LabelUncheckedUpdateInput) {
+    return this.prisma.label.update({ where: { id }, data, select: LABEL_SELECT });
+  }
+
+  /** Desvincula a etiqueta de todas as tarefas e a remove na mesma transação */
+  async deleteLabel(id: string) {
+    const [detached] = await this.prisma.$transaction([
+      this.prisma.taskLabel.deleteMany({ where: { labelId: id } }),
+      this.prisma.label.delete({ where: { id } }),
+    ]);
+    return detached.count;
+  }
+}
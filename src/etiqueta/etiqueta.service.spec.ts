@@ -0,0 +1,163 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '../generated/prisma/client';
+import { EtiquetaRepository } from './etiqueta.repository';
+import { EtiquetaService } from './etiqueta.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function prismaError(code: string) {
+  return new Prisma.PrismaClientKnownRequestError('Constraint failed', {
+    code,
+    clientVersion: 'test',
+  });
+}
+
+function makeLabel(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'label-1',
+    workspaceId: 'ws-1',
+    name: 'Bug',
+    color: '#D0021B',
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof EtiquetaRepository, jest.Mock>> = {},
+): jest.Mocked<EtiquetaRepository> {
+  return {
+    findWorkspace: jest.fn().mockResolvedValue({ id: 'ws-1', companyId: 'company-1' }),
+    findProject: jest.fn().mockResolvedValue({ id: 'project-1', workspaceId: 'ws-1' }),
+    findLabels: jest.fn().mockResolvedValue([]),
+    findLabel: jest.fn().mockResolvedValue(makeLabel()),
+    findLabelByName: jest.fn().mockResolvedValue(null),
+    createLabel: jest
+      .fn()
+      .mockImplementation((data: Record<string, unknown>) => Promise.resolve(makeLabel(data))),
+    updateLabel: jest
+      .fn()
+      .mockImplementation((_id: string, data: Record<string, unknown>) =>
+        Promise.resolve(makeLabel(data)),
+      ),
+    deleteLabel: jest.fn().mockResolvedValue(3),
+    ...overrides,
+  } as unknown as jest.Mocked<EtiquetaRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<EtiquetaRepository>) {
+  return new EtiquetaService(repo, makeLogger() as any);
+}
+
+// ── listLabels ─────────────────────────────────────────────────────────────────
+
+describe('EtiquetaService.listLabels', () => {
+  it('lança NotFoundException quando o workspace não pertence à empresa', async () => {
+    const repo = makeRepo({ findWorkspace: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).listLabels('company-1', 'ws-x')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
+
+describe('EtiquetaService.listProjectLabels', () => {
+  it('lista as etiquetas do workspace do projeto', async () => {
+    const repo = makeRepo({ findLabels: jest.fn().mockResolvedValue([makeLabel()]) });
+    const result = await makeService(repo).listProjectLabels('company-1', 'ws-1', 'project-1');
+    expect(repo.findProject).toHaveBeenCalledWith('project-1', 'ws-1', 'company-1');
+    expect(repo.findLabels).toHaveBeenCalledWith('ws-1');
+    expect(result).toEqual([makeLabel()]);
+  });
+
+  it('lança NotFoundException quando o projeto não existe no workspace', async () => {
+    const repo = makeRepo({ findProject: jest.fn().mockResolvedValue(null) });
+    await expect(
+      makeService(repo).listProjectLabels('company-1', 'ws-1', 'project-x'),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
+
+// ── createLabel ────────────────────────────────────────────────────────────────
+
+describe('EtiquetaService.createLabel', () => {
+  it('lança ConflictException quando o nome já existe no workspace', async () => {
+    const repo = makeRepo({ findLabelByName: jest.fn().mockResolvedValue(makeLabel()) });
+    await expect(
+      makeService(repo).createLabel('company-1', 'ws-1', { name: 'bug', color: '#000000' }),
+    ).rejects.toThrow(ConflictException);
+    expect(repo.createLabel).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando outra criação simultânea ocupa o nome (P2002)', async () => {
+    const repo = makeRepo({ createLabel: jest.fn().mockRejectedValue(prismaError('P2002')) });
+    await expect(
+      makeService(repo).createLabel('company-1', 'ws-1', { name: 'Bug', color: '#000000' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('cria a etiqueta com o nome sem espaços nas pontas', async () => {
+    const repo = makeRepo();
+    await makeService(repo).createLabel('company-1', 'ws-1', {
+      name: '  Melhoria ',
+      color: '#7ED321',
+    });
+    expect(repo.findLabelByName).toHaveBeenCalledWith('Melhoria', 'ws-1');
+    expect(repo.createLabel).toHaveBeenCalledWith({
+      workspaceId: 'ws-1',
+      name: 'Melhoria',
+      color: '#7ED321',
+    });
+  });
+});
+
+// ── updateLabel ────────────────────────────────────────────────────────────────
+
+describe('EtiquetaService.updateLabel', () => {
+  it('permite manter o próprio nome', async () => {
+    const repo = makeRepo({ findLabelByName: jest.fn().mockResolvedValue(makeLabel()) });
+    await makeService(repo).updateLabel('company-1', 'ws-1', 'label-1', { name: 'BUG' });
+    expect(repo.updateLabel).toHaveBeenCalledWith('label-1', { name: 'BUG', color: undefined });
+  });
+
+  it('lança ConflictException quando outra etiqueta usa o nome', async () => {
+    const repo = makeRepo({
+      findLabelByName: jest.fn().mockResolvedValue(makeLabel({ id: 'label-2' })),
+    });
+    await expect(
+      makeService(repo).updateLabel('company-1', 'ws-1', 'label-1', { name: 'Bug' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('lança ConflictException quando o nome é ocupado durante a gravação (P2002)', async () => {
+    const repo = makeRepo({ updateLabel: jest.fn().mockRejectedValue(prismaError('P2002')) });
+    await expect(
+      makeService(repo).updateLabel('company-1', 'ws-1', 'label-1', { name: 'BUG' }),
+    ).rejects.toThrow(ConflictException);
+  });
+});
+
+// ── deleteLabel ────────────────────────────────────────────────────────────────
+
+describe('EtiquetaService.deleteLabel', () => {
+  it('lança NotFoundException quando a etiqueta é de outro workspace', async () => {
+    const repo = makeRepo({ findLabel: jest.fn().mockResolvedValue(null) });
+    await expect(makeService(repo).deleteLabel('company-1', 'ws-1', 'label-x')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.deleteLabel).not.toHaveBeenCalled();
+  });
+
+  it('remove a etiqueta desvinculando-a das tarefas', async () => {
+    const repo = makeRepo();
+    await makeService(repo).deleteLabel('company-1', 'ws-1', 'label-1');
+    expect(repo.findLabel).toHaveBeenCalledWith('label-1', 'ws-1');
+    expect(repo.deleteLabel).toHaveBeenCalledWith('label-1');
+  });
+});
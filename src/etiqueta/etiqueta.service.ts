@@ -0,0 +1,104 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { Prisma } from '../generated/prisma/client';
+import { EtiquetaRepository } from './etiqueta.repository';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+@Injectable()
+export class EtiquetaService {
+  constructor(
+    private readonly repo: EtiquetaRepository,
+    @InjectPinoLogger(EtiquetaService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se o workspace não existir na empresa da rota */
+  private async assertWorkspace(companyId: string, workspaceId: string) {
+    const workspace = await this.repo.findWorkspace(workspaceId, companyId);
+    if (!workspace) {
+      throw new NotFoundException('Workspace não encontrado');
+    }
+    return workspace;
+  }
+
+  private async assertLabel(workspaceId: string, labelId: string) {
+    const label = await this.repo.findLabel(labelId, workspaceId);
+    if (!label) {
+      throw new NotFoundException('Etiqueta não encontrada');
+    }
+    return label;
+  }
+
+  /** Lança ConflictException se já houver outra etiqueta com o mesmo nome no workspace */
+  private async assertNameAvailable(workspaceId: string, name: string, ignoreId?: string) {
+    const existing = await this.repo.findLabelByName(name, workspaceId);
+    if (existing && existing.id !== ignoreId) {
+      throw new ConflictException('Já existe uma etiqueta com este nome neste workspace');
+    }
+  }
+
+  /** Converte a violação do índice único de nome (gravação concorrente) em ConflictException */
+  private rethrowNameConflict(err: unknown): never {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new ConflictException('Já existe uma etiqueta com este nome neste workspace');
+    }
+    throw err;
+  }
+
+  // ── Etiquetas ─────────────────────────────────────────────────────────────────
+
+  async listLabels(companyId: string, workspaceId: string) {
+    await this.assertWorkspace(companyId, workspaceId);
+    return this.repo.findLabels(workspaceId);
+  }
+
+  /** Etiquetas do workspace do projeto, para membros que só têm acesso ao projeto */
+  async listProjectLabels(companyId: string, workspaceId: string, projectId: string) {
+    const project = await this.repo.findProject(projectId, workspaceId, companyId);
+    if (!project) {
+      throw new NotFoundException('Projeto não encontrado');
+    }
+    return this.repo.findLabels(workspaceId);
+  }
+
+  async createLabel(companyId: string, workspaceId: string, dto: CreateLabelDto) {
+    await this.assertWorkspace(companyId, workspaceId);
+
+    const name = dto.name.trim();
+    await this.assertNameAvailable(workspaceId, name);
+
+    const label = await this.repo
+      .createLabel({ workspaceId, name, color: dto.color })
+      .catch((err: unknown) => this.rethrowNameConflict(err));
+    this.logger.info({ companyId, workspaceId, labelId: label.id }, 'Label created');
+    return label;
+  }
+
+  async updateLabel(companyId: string, workspaceId: string, labelId: string, dto: UpdateLabelDto) {
+    await this.assertWorkspace(companyId, workspaceId);
+    await this.assertLabel(workspaceId, labelId);
+
+    const name = dto.name?.trim();
+    if (name) {
+      await this.assertNameAvailable(workspaceId, name, labelId);
+    }
+
+    const updated = await this.repo
+      .updateLabel(labelId, { name, color: dto.color })
+      .catch((err: unknown) => this.rethrowNameConflict(err));
+    this.logger.info(
+      { companyId, workspaceId, labelId, changes: Object.keys(dto) },
+      'Label updated',
+    );
+    return updated;
+  }
+
+  async deleteLabel(companyId: string, workspaceId: string, labelId: string) {
+    await this.assertWorkspace(companyId, workspaceId);
+    await this.assertLabel(workspaceId, labelId);
+
+    const detachedTasks = await this.repo.deleteLabel(labelId);
+    this.logger.info({ companyId, workspaceId, labelId, detachedTasks }, 'Label deleted');
+  }
+}
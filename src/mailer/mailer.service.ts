@@ -99,4 +99,86 @@ export class MailerService {
 
     this.logger.info({ to }, 'First access email sent via Resend');
   }
+
+  async sendInvitationEmail(
+    to: string,
+    companyName: string,
+    acceptUrl: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const expiresAtLabel = expiresAt.toLocaleDateString('pt-BR');
+
+    const { error } = await this.resend.emails.send({
+      from: this.from,
+      to,
+      subject: `Convite para ${companyName} — Task Station`,
+      html: `
+        <p>Olá!</p>
+        <p>Você foi convidado para participar de <strong>${companyName}</strong> no <strong>Task Station</strong>.</p>
+        <p><a href="${acceptUrl}">Aceitar convite</a></p>
+        <p>O convite expira em <strong>${expiresAtLabel}</strong>. Se você não esperava este email, ignore-o.</p>
+      `,
+      text: `Olá!\n\nVocê foi convidado para participar de ${companyName} no Task Station.\n\nAceite o convite pelo link abaixo (expira em ${expiresAtLabel}):\n${acceptUrl}\n\nSe você não esperava este email, ignore-o.`,
+    });
+
+    if (error) {
+      this.logger.error(
+        { to, errorCode: error.name, errorMessage: error.message },
+        'Failed to send invitation email',
+      );
+      throw new InternalServerErrorException('Erro ao enviar email de convite');
+    }
+
+    this.logger.info({ to }, 'Invitation email sent via Resend');
+  }
+
+  async sendEmailChangeConfirmation(to: string, name: string, confirmUrl: string): Promise<void> {
+    const { error } = await this.resend.emails.send({
+      from: this.from,
+      to,
+      subject: 'Confirme seu novo email — Task Station',
+      html: `
+        <p>Olá, <strong>${name}</strong>!</p>
+        <p>Recebemos um pedido para alterar o email da sua conta no <strong>Task Station</strong> para este endereço.</p>
+        <p><a href="${confirmUrl}">Confirmar novo email</a></p>
+        <p>O link expira em <strong>24 horas</strong>. Se você não fez esse pedido, ignore este email.</p>
+      `,
+      text: `Olá, ${name}!\n\nRecebemos um pedido para alterar o email da sua conta no Task Station para este endereço.\n\nConfirme pelo link abaixo (expira em 24 horas):\n${confirmUrl}\n\nSe você não fez esse pedido, ignore este email.`,
+    });
+
+    if (error) {
+      this.logger.error(
+        { to, errorCode: error.name, errorMessage: error.message },
+        'Failed to send email change confirmation',
+      );
+      throw new InternalServerErrorException('Erro ao enviar email de confirmação');
+    }
+
+    this.logger.info({ to }, 'Email change confirmation sent via Resend');
+  }
+
+  async sendEmailChangeNotice(to: string, name: string, newEmail: string): Promise<void> {
+    const { error } = await this.resend.emails.send({
+      from: this.from,
+      to,
+      subject: 'Alteração de email solicitada — Task Station',
+      html: `
+        <p>Olá, <strong>${name}</strong>!</p>
+        <p>Foi solicitada a alteração do email da sua conta no <strong>Task Station</strong> para <strong>${newEmail}</strong>.</p>
+        <p>A alteração só será aplicada depois da confirmação pelo novo endereço.</p>
+        <p>Se você não reconhece esse pedido, redefina sua senha e entre em contato com o administrador.</p>
+      `,
+      text: `Olá, ${name}!\n\nFoi solicitada a alteração do email da sua conta no Task Station para ${newEmail}.\n\nA alteração só será aplicada depois da confirmação pelo novo endereço.\n\nSe você não reconhece esse pedido, redefina sua senha e entre em contato com o administrador.`,
+    });
+
+    if (error) {
+      this.logger.error(
+        { to, errorCode: error.name, errorMessage: error.message },
+        'Failed to send email change notice',
+      );
+      throw new InternalServerErrorException('Erro ao enviar aviso de alteração de email');
+    }
+
+    this.logger.info({ to }, 'Email change notice sent via Resend');
+  }
 }
@@ -1,6 +1,10 @@
-import { Controller, Get } from '@nestjs/common';
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AllowPendingPasswordReset } from '../auth/decorators/allow-pending-password-reset.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+import { CreatePersonalAccessTokenDto } from '../auth/dto/create-personal-access-token.dto';
+import { RequestEmailChangeDto } from '../auth/dto/request-email-change.dto';
 import { AuthUser } from '../auth/strategies/jwt.strategy';
 import { MeService } from './me.service';
 
@@ -11,9 +15,83 @@ export class MeController {
   constructor(private readonly meService: MeService) {}
 
   @Get('empresas')
+  @AllowPendingPasswordReset()
   @ApiOperation({ summary: 'Listar empresas que o usuário administra' })
   @ApiResponse({ status: 200, description: 'Lista de empresas do usuário autenticado' })
   getMyCompanies(@CurrentUser() user: AuthUser) {
     return this.meService.getMyCompanies(user.id);
   }
+
+  @Post('email')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Solicitar troca de email — confirmação enviada ao novo endereço' })
+  @ApiResponse({ status: 202, description: 'Confirmação enviada — o email atual segue válido' })
+  @ApiResponse({ status: 400, description: 'Senha incorreta ou email igual ao atual' })
+  @ApiResponse({ status: 409, description: 'Email já usado por outra conta' })
+  requestEmailChange(@CurrentUser() user: AuthUser, @Body() dto: RequestEmailChangeDto) {
+    return this.meService.requestEmailChange(user, dto);
+  }
+
+  // ── Sessões ──────────────────────────────────────────────────────────────────
+
+  @Get('sessions')
+  @AllowPendingPasswordReset()
+  @ApiOperation({ summary: 'Listar sessões ativas do usuário autenticado' })
+  @ApiResponse({ status: 200, description: 'Sessões ativas — a atual vem com current=true' })
+  listSessions(@CurrentUser() user: AuthUser) {
+    return this.meService.listSessions(user);
+  }
+
+  @Delete('sessions')
+  @DenyImpersonation()
+  @AllowPendingPasswordReset()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revogar todas as sessões, exceto a atual' })
+  @ApiResponse({ status: 200, description: 'Sessões revogadas — retorna a quantidade' })
+  revokeOtherSessions(@CurrentUser() user: AuthUser) {
+    return this.meService.revokeOtherSessions(user);
+  }
+
+  @Delete('sessions/:sessionId')
+  @DenyImpersonation()
+  @AllowPendingPasswordReset()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revogar uma sessão do usuário autenticado' })
+  @ApiResponse({ status: 204, description: 'Sessão revogada' })
+  @ApiResponse({ status: 404, description: 'Sessão não encontrada' })
+  async revokeSession(@Param('sessionId') sessionId: string, @CurrentUser() user: AuthUser) {
+    await this.meService.revokeSession(user, sessionId);
+  }
+
+  // ── Tokens de acesso pessoal ─────────────────────────────────────────────────
+
+  @Get('tokens')
+  @ApiOperation({ summary: 'Listar tokens de acesso pessoal do usuário autenticado' })
+  @ApiResponse({ status: 200, description: 'Tokens ativos e expirados — sem o valor do token' })
+  listTokens(@CurrentUser() user: AuthUser) {
+    return this.meService.listTokens(user);
+  }
+
+  @Post('tokens')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar token de acesso pessoal para scripts e integrações' })
+  @ApiResponse({
+    status: 201,
+    description: 'Token criado — o campo token só é exibido nesta resposta',
+  })
+  createToken(@CurrentUser() user: AuthUser, @Body() dto: CreatePersonalAccessTokenDto) {
+    return this.meService.createToken(user, dto);
+  }
+
+  @Delete('tokens/:tokenId')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revogar um token de acesso pessoal' })
+  @ApiResponse({ status: 204, description: 'Token revogado' })
+  @ApiResponse({ status: 404, description: 'Token não encontrado' })
+  async revokeToken(@Param('tokenId') tokenId: string, @CurrentUser() user: AuthUser) {
+    await this.meService.revokeToken(user, tokenId);
+  }
 }
@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { MeController } from './me.controller';
 import { MeRepository } from './me.repository';
 import { MeService } from './me.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule],
   controllers: [MeController],
   providers: [MeRepository, MeService],
 })
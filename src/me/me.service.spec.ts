@@ -28,9 +28,30 @@ function makeLogger() {
   return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
 }
 
-function makeService(repo: jest.Mocked<MeRepository>) {
+function makeAuthService() {
+  return {
+    listSessions: jest.fn().mockResolvedValue([]),
+    revokeSession: jest.fn().mockResolvedValue(undefined),
+    revokeOtherSessions: jest.fn().mockResolvedValue({ revoked: 0 }),
+    requestEmailChange: jest.fn().mockResolvedValue({ pendingEmail: 'new@example.com' }),
+  };
+}
+
+function makeTokenService() {
+  return {
+    list: jest.fn().mockResolvedValue([]),
+    create: jest.fn().mockResolvedValue({ id: 'pat-1', token: 'tsp_abc' }),
+    revoke: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+function makeService(
+  repo: jest.Mocked<MeRepository>,
+  authService: ReturnType<typeof makeAuthService> = makeAuthService(),
+  tokenService: ReturnType<typeof makeTokenService> = makeTokenService(),
+) {
   const logger = makeLogger();
-  return new MeService(repo, logger as any);
+  return new MeService(repo, authService as any, tokenService as any, logger as any);
 }
 
 // ── getMyCompanies ─────────────────────────────────────────────────────────────
@@ -171,3 +192,76 @@ describe('MeService.getMyCompanies', () => {
     expect(result).toEqual([]);
   });
 });
+
+// ── troca de email ─────────────────────────────────────────────────────────────
+
+describe('MeService.requestEmailChange', () => {
+  it('exige a senha atual do próprio usuário', async () => {
+    const authService = makeAuthService();
+    const service = makeService(makeRepo(), authService);
+    const user = {
+      id: 'user-1',
+      email: 'user@example.com',
+      isSuperuser: false,
+      mustResetPassword: false,
+    };
+    await service.requestEmailChange(user, { newEmail: 'new@example.com', currentPassword: 'x' });
+    expect(authService.requestEmailChange).toHaveBeenCalledWith('user-1', 'new@example.com', {
+      currentPassword: 'x',
+    });
+  });
+});
+
+// ── sessões ────────────────────────────────────────────────────────────────────
+
+describe('MeService sessions', () => {
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    isSuperuser: false,
+    mustResetPassword: false,
+    sessionId: 'session-1',
+  };
+
+  it('lista sessões informando a sessão atual', async () => {
+    const authService = makeAuthService();
+    const service = makeService(makeRepo(), authService);
+    await service.listSessions(user);
+    expect(authService.listSessions).toHaveBeenCalledWith('user-1', 'session-1');
+  });
+
+  it('revoga as demais sessões preservando a atual', async () => {
+    const authService = makeAuthService();
+    const service = makeService(makeRepo(), authService);
+    await service.revokeOtherSessions(user);
+    expect(authService.revokeOtherSessions).toHaveBeenCalledWith('user-1', 'session-1', 'user-1');
+  });
+});
+
+// ── tokens de acesso pessoal ───────────────────────────────────────────────────
+
+describe('MeService tokens de acesso pessoal', () => {
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    isSuperuser: false,
+    mustResetPassword: false,
+    sessionId: 'session-1',
+  };
+
+  it('cria token para o próprio usuário', async () => {
+    const tokenService = makeTokenService();
+    const service = makeService(makeRepo(), makeAuthService(), tokenService);
+    const dto = { name: 'CI', scopes: ['task.read' as const] };
+    const result = await service.createToken(user, dto);
+    expect(tokenService.create).toHaveBeenCalledWith('user-1', dto);
+    expect(result.token).toBe('tsp_abc');
+  });
+
+  it('revoga token do próprio usuário', async () => {
+    const tokenService = makeTokenService();
+    const service = makeService(makeRepo(), makeAuthService(), tokenService);
+    await service.revokeToken(user, 'pat-1');
+    expect(tokenService.revoke).toHaveBeenCalledWith('user-1', 'pat-1');
+  });
+});
@@ -1,11 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { AuthService } from '../auth/auth.service';
+import { CreatePersonalAccessTokenDto } from '../auth/dto/create-personal-access-token.dto';
+import { RequestEmailChangeDto } from '../auth/dto/request-email-change.dto';
+import { PersonalAccessTokenService } from '../auth/personal-access-token.service';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
 import { MeRepository } from './me.repository';
 
 @Injectable()
 export class MeService {
   constructor(
     private readonly repo: MeRepository,
+    private readonly authService: AuthService,
+    private readonly tokenService: PersonalAccessTokenService,
     @InjectPinoLogger(MeService.name)
     private readonly logger: PinoLogger,
   ) {}
@@ -46,4 +53,38 @@ export class MeService {
           a.legalName.localeCompare(b.legalName),
       );
   }
+
+  requestEmailChange(user: AuthUser, dto: RequestEmailChangeDto) {
+    return this.authService.requestEmailChange(user.id, dto.newEmail, {
+      currentPassword: dto.currentPassword,
+    });
+  }
+
+  // ── Sessões ──────────────────────────────────────────────────────────────────
+
+  listSessions(user: AuthUser) {
+    return this.authService.listSessions(user.id, user.sessionId);
+  }
+
+  revokeSession(user: AuthUser, sessionId: string) {
+    return this.authService.revokeSession(user.id, sessionId, user.id);
+  }
+
+  revokeOtherSessions(user: AuthUser) {
+    return this.authService.revokeOtherSessions(user.id, user.sessionId, user.id);
+  }
+
+  // ── Tokens de acesso pessoal ─────────────────────────────────────────────────
+
+  listTokens(user: AuthUser) {
+    return this.tokenService.list(user.id);
+  }
+
+  createToken(user: AuthUser, dto: CreatePersonalAccessTokenDto) {
+    return this.tokenService.create(user.id, dto);
+  }
+
+  revokeToken(user: AuthUser, tokenId: string) {
+    return this.tokenService.revoke(user.id, tokenId);
+  }
 }
@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+/** Sem workspaceId/projectId o papel vale para a empresa inteira */
+export class AssignCompanyRoleDto {
+  @ApiProperty({ example: 'uuid-do-usuario', format: 'uuid' })
+  @IsUUID()
+  userId: string;
+
+  @ApiPropertyOptional({ description: 'Restringe o papel a um workspace', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string;
+
+  @ApiPropertyOptional({ description: 'Restringe o papel a um projeto', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ASSIGNABLE_PERMISSIONS, Permission } from '../../policy/permissions';
+
+export class CreateCompanyRoleDto {
+  @ApiProperty({ example: 'QA lead' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Revisa e move tarefas para concluído' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    enum: ASSIGNABLE_PERMISSIONS,
+    isArray: true,
+    example: ['project.read', 'task.read', 'task.write'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ASSIGNABLE_PERMISSIONS, { each: true })
+  permissions: Permission[];
+}
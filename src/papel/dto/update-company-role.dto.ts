@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ASSIGNABLE_PERMISSIONS, Permission } from '../../policy/permissions';
+
+export class UpdateCompanyRoleDto {
+  @ApiPropertyOptional({ example: 'Revisor externo' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Acesso somente leitura aos projetos atribuídos' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: ASSIGNABLE_PERMISSIONS, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ASSIGNABLE_PERMISSIONS, { each: true })
+  permissions?: Permission[];
+}
@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { PapelService } from './papel.service';
+import { AssignCompanyRoleDto } from './dto/assign-company-role.dto';
+import { CreateCompanyRoleDto } from './dto/create-company-role.dto';
+import { UpdateCompanyRoleDto } from './dto/update-company-role.dto';
+
+@ApiTags('papeis')
+@ApiBearerAuth()
+@RequirePermission('company.roles.manage')
+@Controller('empresa/:companyId/papeis')
+export class PapelController {
+  constructor(private readonly papelService: PapelService) {}
+
+  // ── Papéis ────────────────────────────────────────────────────────────────────
+
+  @Get()
+  @ApiOperation({ summary: 'Listar papéis built-in e papéis customizados da empresa' })
+  @ApiResponse({ status: 200, description: 'Papéis e suas permissões' })
+  listRoles(@Param('companyId') companyId: string) {
+    return this.papelService.listRoles(companyId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar papel customizado com um conjunto de permissões' })
+  @ApiResponse({ status: 201, description: 'Papel criado' })
+  @ApiResponse({ status: 409, description: 'Já existe um papel com este nome' })
+  createRole(
+    @Param('companyId') companyId: string,
+    @Body() dto: CreateCompanyRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.papelService.createRole(companyId, dto, user.id);
+  }
+
+  @Patch(':roleId')
+  @ApiOperation({ summary: 'Editar nome, descrição ou permissões do papel' })
+  @ApiResponse({ status: 200, description: 'Papel atualizado' })
+  @ApiResponse({ status: 404, description: 'Papel não encontrado' })
+  @ApiResponse({ status: 409, description: 'Já existe um papel com este nome' })
+  updateRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Body() dto: UpdateCompanyRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.papelService.updateRole(companyId, roleId, dto, user.id);
+  }
+
+  @Delete(':roleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover papel customizado sem atribuições' })
+  @ApiResponse({ status: 204, description: 'Papel removido' })
+  @ApiResponse({ status: 404, description: 'Papel não encontrado' })
+  @ApiResponse({ status: 409, description: 'Papel ainda atribuído a membros' })
+  async deleteRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.papelService.deleteRole(companyId, roleId, user.id);
+  }
+
+  // ── Atribuições ───────────────────────────────────────────────────────────────
+
+  @Get(':roleId/membros')
+  @ApiOperation({ summary: 'Listar atribuições do papel' })
+  @ApiResponse({ status: 200, description: 'Membros e escopos com o papel' })
+  @ApiResponse({ status: 404, description: 'Papel não encontrado' })
+  listAssignments(@Param('companyId') companyId: string, @Param('roleId') roleId: string) {
+    return this.papelService.listAssignments(companyId, roleId);
+  }
+
+  @Post(':roleId/membros')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Atribuir papel a um membro na empresa, workspace ou projeto' })
+  @ApiResponse({ status: 201, description: 'Papel atribuído' })
+  @ApiResponse({ status: 400, description: 'Workspace ou projeto fora desta empresa' })
+  @ApiResponse({ status: 404, description: 'Papel não encontrado ou usuário fora da empresa' })
+  @ApiResponse({ status: 409, description: 'Usuário já possui este papel neste escopo' })
+  assignRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Body() dto: AssignCompanyRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.papelService.assignRole(companyId, roleId, dto, user.id);
+  }
+
+  @Delete(':roleId/membros/:membershipId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover atribuição do papel' })
+  @ApiResponse({ status: 204, description: 'Atribuição removida' })
+  @ApiResponse({ status: 404, description: 'Papel ou atribuição não encontrada' })
+  async unassignRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Param('membershipId') membershipId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.papelService.unassignRole(companyId, roleId, membershipId, user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PapelController } from './papel.controller';
+import { PapelRepository } from './papel.repository';
+import { PapelService } from './papel.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PapelController],
+  providers: [PapelRepository, PapelService],
+})
+export class PapelModule {}
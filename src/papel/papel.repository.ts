@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const COMPANY_ROLE_SELECT = {
+  id: true,
+  companyId: true,
+  name: true,
+  description: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CompanyRoleSelect;
+
+const ASSIGNMENT_SELECT = {
+  id: true,
+  userId: true,
+  resourceType: true,
+  resourceId: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.MembershipSelect;
+
+@Injectable()
+export class PapelRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Papéis ────────────────────────────────────────────────────────────────────
+
+  findRoles(companyId: string) {
+    return this.prisma.companyRole.findMany({
+      where: { companyId, deletedAt: null },
+      orderBy: { name: 'asc' },
+      select: COMPANY_ROLE_SELECT,
+    });
+  }
+
+  findRoleById(roleId: string, companyId: string) {
+    return this.prisma.companyRole.findFirst({
+      where: { id: roleId, companyId, deletedAt: null },
+    });
+  }
+
+  findRoleByName(name: string, companyId: string) {
+    return this.prisma.companyRole.findFirst({
+      where: { companyId, deletedAt: null, name: { equals: name, mode: 'insensitive' } },
+    });
+  }
+
+  createRole(data: {
+    companyId: string;
+    name: string;
+    description?: string;
+    permissions: string[];
+  }) {
+    return this.prisma.companyRole.create({ data, select: COMPANY_ROLE_SELECT });
+  }
+
+  updateRole(id: string, data: Prisma.CompanyRoleUpdateInput) {
+    return this.prisma.companyRole.update({ where: { id }, data, select: COMPANY_ROLE_SELECT });
+  }
+
+  softDeleteRole(id: string) {
+    return this.prisma.companyRole.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+
+  // ── Escopo ────────────────────────────────────────────────────────────────────
+
+  findWorkspaceById(workspaceId: string, companyId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, companyId, deletedAt: null },
+    });
+  }
+
+  findProjectById(projectId: string, companyId: string) {
+    return this.prisma.project.findFirst({
+      where: { id: projectId, deletedAt: null, workspace: { companyId, deletedAt: null } },
+    });
+  }
+
+  findCompanyMembership(userId: string, companyId: string) {
+    return this.prisma.membership.findFirst({
+      where: {
+        userId,
+        resourceType: ResourceType.company,
+        resourceId: companyId,
+        role: { not: MembershipRole.custom },
+        deletedAt: null,
+        user: { deletedAt: null },
+      },
+    });
+  }
+
+  // ── Atribuições ───────────────────────────────────────────────────────────────
+
+  findAssignments(roleId: string) {
+    return this.prisma.membership.findMany({
+      where: { customRoleId: roleId, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: ASSIGNMENT_SELECT,
+    });
+  }
+
+  countAssignments(roleId: string) {
+    return this.prisma.membership.count({ where: { customRoleId: roleId, deletedAt: null } });
+  }
+
+  findAssignment(where: Prisma.MembershipWhereInput) {
+    return this.prisma.membership.findFirst({ where: { ...where, deletedAt: null } });
+  }
+
+  createAssignment(data: {
+    userId: string;
+    resourceType: ResourceType;
+    resourceId: string;
+    customRoleId: string;
+  }) {
+    return this.prisma.membership.create({
+      data: { ...data, role: MembershipRole.custom },
+      select: ASSIGNMENT_SELECT,
+    });
+  }
+
+  softDeleteMembership(id: string) {
+    return this.prisma.membership.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+}
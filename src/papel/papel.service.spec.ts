@@ -0,0 +1,211 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ResourceType } from '../generated/prisma/client';
+import { PapelRepository } from './papel.repository';
+import { PapelService } from './papel.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function makeRole(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'role-1',
+    companyId: 'company-1',
+    name: 'QA lead',
+    description: null,
+    permissions: ['task.read', 'task.write'],
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof PapelRepository, jest.Mock>> = {},
+): jest.Mocked<PapelRepository> {
+  return {
+    findRoles: jest.fn().mockResolvedValue([]),
+    findRoleById: jest.fn().mockResolvedValue(makeRole()),
+    findRoleByName: jest.fn().mockResolvedValue(null),
+    createRole: jest.fn(),
+    updateRole: jest.fn(),
+    softDeleteRole: jest.fn(),
+    findWorkspaceById: jest.fn(),
+    findProjectById: jest.fn(),
+    findCompanyMembership: jest.fn().mockResolvedValue({ id: 'm-company' }),
+    findAssignments: jest.fn(),
+    countAssignments: jest.fn().mockResolvedValue(0),
+    findAssignment: jest.fn().mockResolvedValue(null),
+    createAssignment: jest.fn().mockResolvedValue({}),
+    softDeleteMembership: jest.fn(),
+    ...overrides,
+  } as unknown as jest.Mocked<PapelRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<PapelRepository>) {
+  return new PapelService(repo, makeLogger() as any);
+}
+
+// ── listRoles ──────────────────────────────────────────────────────────────────
+
+describe('PapelService.listRoles', () => {
+  it('inclui os papéis built-in como presets', async () => {
+    const repo = makeRepo({ findRoles: jest.fn().mockResolvedValue([makeRole()]) });
+    const service = makeService(repo);
+    const result = await service.listRoles('company-1');
+
+    expect(result.custom).toHaveLength(1);
+    const admin = result.builtIn.find((r) => r.role === 'admin');
+    expect(admin?.permissions).toContain('company.roles.manage');
+  });
+});
+
+// ── createRole / updateRole ────────────────────────────────────────────────────
+
+describe('PapelService.createRole', () => {
+  it('lança ConflictException com nome já usado na empresa', async () => {
+    const repo = makeRepo({ findRoleByName: jest.fn().mockResolvedValue(makeRole()) });
+    const service = makeService(repo);
+    await expect(
+      service.createRole('company-1', { name: 'qa lead', permissions: [] }, 'user-1'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('cria papel com as permissões informadas', async () => {
+    const repo = makeRepo({ createRole: jest.fn().mockResolvedValue(makeRole()) });
+    const service = makeService(repo);
+    await service.createRole(
+      'company-1',
+      { name: 'QA lead', permissions: ['task.read', 'task.write'] },
+      'user-1',
+    );
+    expect(repo.createRole).toHaveBeenCalledWith({
+      companyId: 'company-1',
+      name: 'QA lead',
+      description: undefined,
+      permissions: ['task.read', 'task.write'],
+    });
+  });
+});
+
+describe('PapelService.updateRole', () => {
+  it('permite manter o próprio nome', async () => {
+    const repo = makeRepo({
+      findRoleByName: jest.fn().mockResolvedValue(makeRole()),
+      updateRole: jest.fn().mockResolvedValue(makeRole()),
+    });
+    const service = makeService(repo);
+    await service.updateRole('company-1', 'role-1', { name: 'QA Lead' }, 'user-1');
+    expect(repo.updateRole).toHaveBeenCalledWith('role-1', { name: 'QA Lead' });
+  });
+
+  it('lança NotFoundException quando papel não existe', async () => {
+    const repo = makeRepo({ findRoleById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.updateRole('company-1', 'role-x', { permissions: [] }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
+
+// ── deleteRole ─────────────────────────────────────────────────────────────────
+
+describe('PapelService.deleteRole', () => {
+  it('lança ConflictException quando papel ainda está atribuído', async () => {
+    const repo = makeRepo({ countAssignments: jest.fn().mockResolvedValue(2) });
+    const service = makeService(repo);
+    await expect(service.deleteRole('company-1', 'role-1', 'user-1')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(repo.softDeleteRole).not.toHaveBeenCalled();
+  });
+
+  it('soft-deleta papel sem atribuições', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await service.deleteRole('company-1', 'role-1', 'user-1');
+    expect(repo.softDeleteRole).toHaveBeenCalledWith('role-1');
+  });
+});
+
+// ── assignRole ─────────────────────────────────────────────────────────────────
+
+describe('PapelService.assignRole', () => {
+  it('lança NotFoundException quando usuário não é membro da empresa', async () => {
+    const repo = makeRepo({ findCompanyMembership: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.assignRole('company-1', 'role-1', { userId: 'user-2' }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('atribui na empresa inteira quando não há workspace nem projeto', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await service.assignRole('company-1', 'role-1', { userId: 'user-2' }, 'user-1');
+    expect(repo.createAssignment).toHaveBeenCalledWith({
+      userId: 'user-2',
+      resourceType: ResourceType.company,
+      resourceId: 'company-1',
+      customRoleId: 'role-1',
+    });
+  });
+
+  it('atribui no projeto informado', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue({ id: 'project-1', workspaceId: 'ws-1' }),
+    });
+    const service = makeService(repo);
+    await service.assignRole(
+      'company-1',
+      'role-1',
+      { userId: 'user-2', workspaceId: 'ws-1', projectId: 'project-1' },
+      'user-1',
+    );
+    expect(repo.createAssignment).toHaveBeenCalledWith(
+      expect.objectContaining({ resourceType: ResourceType.project, resourceId: 'project-1' }),
+    );
+  });
+
+  it('lança BadRequestException com workspace de outra empresa', async () => {
+    const repo = makeRepo({ findWorkspaceById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.assignRole('company-1', 'role-1', { userId: 'user-2', workspaceId: 'ws-x' }, 'u'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança ConflictException quando atribuição já existe', async () => {
+    const repo = makeRepo({ findAssignment: jest.fn().mockResolvedValue({ id: 'm-1' }) });
+    const service = makeService(repo);
+    await expect(
+      service.assignRole('company-1', 'role-1', { userId: 'user-2' }, 'user-1'),
+    ).rejects.toThrow(ConflictException);
+  });
+});
+
+// ── unassignRole ───────────────────────────────────────────────────────────────
+
+describe('PapelService.unassignRole', () => {
+  it('lança NotFoundException quando atribuição não pertence ao papel', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(service.unassignRole('company-1', 'role-1', 'm-1', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('soft-deleta a atribuição', async () => {
+    const repo = makeRepo({
+      findAssignment: jest.fn().mockResolvedValue({ id: 'm-1', userId: 'user-2' }),
+    });
+    const service = makeService(repo);
+    await service.unassignRole('company-1', 'role-1', 'm-1', 'user-1');
+    expect(repo.softDeleteMembership).toHaveBeenCalledWith('m-1');
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { ResourceType } from '../generated/prisma/client';
+import { permissionsForRole, ROLE_HIERARCHY } from '../policy/permissions';
+import { PapelRepository } from './papel.repository';
+import { AssignCompanyRoleDto } from './dto/assign-company-role.dto';
+import { CreateCompanyRoleDto } from './dto/create-company-role.dto';
+import { UpdateCompanyRoleDto } from './dto/update-company-role.dto';
+
+@Injectable()
+export class PapelService {
+  constructor(
+    private readonly repo: PapelRepository,
+    @InjectPinoLogger(PapelService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se o papel não existir nesta empresa */
+  private async assertRole(companyId: string, roleId: string) {
+    const role = await this.repo.findRoleById(roleId, companyId);
+    if (!role) {
+      throw new NotFoundException('Papel não encontrado');
+    }
+    return role;
+  }
+
+  /** Lança ConflictException se já houver outro papel com o mesmo nome na empresa */
+  private async assertNameAvailable(companyId: string, name: string, ignoreId?: string) {
+    const existing = await this.repo.findRoleByName(name, companyId);
+    if (existing && existing.id !== ignoreId) {
+      throw new ConflictException('Já existe um papel com este nome nesta empresa');
+    }
+  }
+
+  // ── Papéis ────────────────────────────────────────────────────────────────────
+
+  /** Papéis built-in (presets) e papéis customizados da empresa */
+  async listRoles(companyId: string) {
+    const custom = await this.repo.findRoles(companyId);
+    const builtIn = ROLE_HIERARCHY.map((role) => ({
+      role,
+      permissions: [...permissionsForRole(role)],
+    }));
+    return { builtIn, custom };
+  }
+
+  async createRole(companyId: string, dto: CreateCompanyRoleDto, performedById: string) {
+    await this.assertNameAvailable(companyId, dto.name);
+
+    const role = await this.repo.createRole({
+      companyId,
+      name: dto.name,
+      description: dto.description,
+      permissions: dto.permissions,
+    });
+
+    this.logger.info({ companyId, roleId: role.id, performedById }, 'Custom role created');
+    return role;
+  }
+
+  async updateRole(
+    companyId: string,
+    roleId: string,
+    dto: UpdateCompanyRoleDto,
+    performedById: string,
+  ) {
+    await this.assertRole(companyId, roleId);
+
+    if (dto.name !== undefined) {
+      await this.assertNameAvailable(companyId, dto.name, roleId);
+    }
+
+    const updated = await this.repo.updateRole(roleId, dto);
+    this.logger.info(
+      { companyId, roleId, changes: Object.keys(dto), performedById },
+      'Custom role updated',
+    );
+    return updated;
+  }
+
+  async deleteRole(companyId: string, roleId: string, performedById: string) {
+    await this.assertRole(companyId, roleId);
+
+    const assignments = await this.repo.countAssignments(roleId);
+    if (assignments > 0) {
+      throw new ConflictException('Papel atribuído a membros; remova as atribuições antes');
+    }
+
+    await this.repo.softDeleteRole(roleId);
+    this.logger.info({ companyId, roleId, performedById }, 'Custom role soft-deleted');
+  }
+
+  // ── Atribuições ───────────────────────────────────────────────────────────────
+
+  async listAssignments(companyId: string, roleId: string) {
+    await this.assertRole(companyId, roleId);
+    return this.repo.findAssignments(roleId);
+  }
+
+  /** Atribui o papel a um membro da empresa, na empresa inteira, em um workspace ou projeto */
+  async assignRole(
+    companyId: string,
+    roleId: string,
+    dto: AssignCompanyRoleDto,
+    performedById: string,
+  ) {
+    await this.assertRole(companyId, roleId);
+
+    const companyMembership = await this.repo.findCompanyMembership(dto.userId, companyId);
+    if (!companyMembership) {
+      throw new NotFoundException('Usuário não é membro desta empresa');
+    }
+
+    let resourceType: ResourceType = ResourceType.company;
+    let resourceId = companyId;
+
+    if (dto.projectId) {
+      const project = await this.repo.findProjectById(dto.projectId, companyId);
+      if (!project || (dto.workspaceId && project.workspaceId !== dto.workspaceId)) {
+        throw new BadRequestException('Projeto não pertence a esta empresa ou workspace');
+      }
+      resourceType = ResourceType.project;
+      resourceId = project.id;
+    } else if (dto.workspaceId) {
+      const workspace = await this.repo.findWorkspaceById(dto.workspaceId, companyId);
+      if (!workspace) {
+        throw new BadRequestException('Workspace não pertence a esta empresa');
+      }
+      resourceType = ResourceType.workspace;
+      resourceId = workspace.id;
+    }
+
+    const existing = await this.repo.findAssignment({
+      userId: dto.userId,
+      customRoleId: roleId,
+      resourceType,
+      resourceId,
+    });
+    if (existing) {
+      throw new ConflictException('Usuário já possui este papel neste escopo');
+    }
+
+    const assignment = await this.repo.createAssignment({
+      userId: dto.userId,
+      resourceType,
+      resourceId,
+      customRoleId: roleId,
+    });
+
+    this.logger.info(
+      { companyId, roleId, targetUserId: dto.userId, resourceType, resourceId, performedById },
+      'Custom role assigned',
+    );
+    return assignment;
+  }
+
+  async unassignRole(
+    companyId: string,
+    roleId: string,
+    membershipId: string,
+    performedById: string,
+  ) {
+    await this.assertRole(companyId, roleId);
+
+    const assignment = await this.repo.findAssignment({ id: membershipId, customRoleId: roleId });
+    if (!assignment) {
+      throw new NotFoundException('Atribuição não encontrada');
+    }
+
+    await this.repo.softDeleteMembership(assignment.id);
+    this.logger.info(
+      { companyId, roleId, membershipId, targetUserId: assignment.userId, performedById },
+      'Custom role unassigned',
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthUser } from '../../auth/strategies/jwt.strategy';
+import { PERMISSION_KEY } from '../decorators/require-permission.decorator';
+import { Permission } from '../permissions';
+import { PolicyScopeParams, PolicyService } from '../policy.service';
+
+/**
+ * Guard global: rotas marcadas com @RequirePermission só passam se o usuário tiver a permissão
+ * no escopo identificado pelos parâmetros :companyId, :workspaceId e :projectId da rota.
+ * Rotas sem o decorator exigem apenas autenticação. Tokens de acesso pessoal só alcançam
+ * rotas com @RequirePermission, e apenas se a permissão estiver entre os escopos do token.
+ */
+@Injectable()
+export class PermissionGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly policy: PolicyService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const permission = this.reflector.getAllAndOverride<Permission | undefined>(PERMISSION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const request = context.switchToHttp().getRequest<{
+      user: AuthUser;
+      params: PolicyScopeParams;
+    }>();
+
+    // Rotas públicas chegam aqui sem usuário
+    const scopes = request.user?.tokenScopes;
+    if (scopes && (!permission || !scopes.includes(permission))) {
+      throw new ForbiddenException('O token de acesso não tem escopo para esta operação');
+    }
+
+    if (!permission) {
+      return true;
+    }
+
+    const { companyId, workspaceId, projectId } = request.params;
+    await this.policy.assertCan(request.user, permission, { companyId, workspaceId, projectId });
+    return true;
+  }
+}
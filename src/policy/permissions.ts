@@ -0,0 +1,111 @@
+import { MembershipRole } from '../generated/prisma/client';
+
+/** Catálogo de permissões verificadas pelo PolicyService, no formato <recurso>.<ação> */
+export const PERMISSIONS = [
+  // Plataforma
+  'platform.manage',
+  // Empresa
+  'company.workspaces.read',
+  'company.members.read',
+  'company.members.manage',
+  'company.admins.manage',
+  'company.roles.manage',
+  'company.security.manage',
+  'workspace.create',
+  'workspace.status.update',
+  'workspace.delete',
+  'workspace.admins.manage',
+  // Workspace
+  'workspace.read',
+  'workspace.update',
+  'workspace.members.read',
+  'workspace.members.manage',
+  'workspace.labels.manage',
+  'project.create',
+  'project.list',
+  'project.update',
+  'project.delete',
+  // Projeto
+  'project.read',
+  'project.members.read',
+  'project.members.manage',
+  'project.columns.manage',
+  'task.read',
+  'task.write',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Hierarquia dos papéis obtidos via memberships, do menor para o maior.
+ * Um papel herda todas as permissões dos papéis abaixo dele.
+ */
+export const ROLE_HIERARCHY = [
+  MembershipRole.member,
+  MembershipRole.project_viewer,
+  MembershipRole.project_editor,
+  MembershipRole.project_manager,
+  MembershipRole.workspace_admin,
+  MembershipRole.admin,
+] as const;
+
+export type HierarchyRole = (typeof ROLE_HIERARCHY)[number];
+
+/** Permissões acrescentadas por cada papel em relação ao papel imediatamente abaixo */
+const GRANTED_BY_ROLE: Record<HierarchyRole, Permission[]> = {
+  member: [],
+  project_viewer: ['project.read', 'project.members.read', 'task.read'],
+  project_editor: ['task.write'],
+  project_manager: ['project.columns.manage', 'project.members.manage'],
+  workspace_admin: [
+    'workspace.read',
+    'workspace.update',
+    'workspace.members.read',
+    'workspace.members.manage',
+    'workspace.labels.manage',
+    'project.create',
+    'project.list',
+    'project.update',
+    'project.delete',
+  ],
+  admin: [
+    'company.workspaces.read',
+    'company.members.read',
+    'company.members.manage',
+    'company.admins.manage',
+    'company.roles.manage',
+    'company.security.manage',
+    'workspace.create',
+    'workspace.status.update',
+    'workspace.delete',
+    'workspace.admins.manage',
+  ],
+};
+
+/** Permissões de plataforma concedidas pela flag User.isSuperuser, fora da hierarquia */
+export const SUPERUSER_PERMISSIONS: Permission[] = ['platform.manage'];
+
+/** Permissões que uma empresa pode incluir em seus papéis customizados */
+export const ASSIGNABLE_PERMISSIONS = PERMISSIONS.filter((p) => !SUPERUSER_PERMISSIONS.includes(p));
+
+export function isAssignablePermission(value: string): value is Permission {
+  return (ASSIGNABLE_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/** Permissões efetivas de um papel, incluindo as herdadas */
+export function permissionsForRole(role: HierarchyRole): Set<Permission> {
+  const rank = ROLE_HIERARCHY.indexOf(role);
+  return new Set(ROLE_HIERARCHY.slice(0, rank + 1).flatMap((r) => GRANTED_BY_ROLE[r]));
+}
+
+/** Papel de maior hierarquia entre os informados (null se nenhum fizer parte dela) */
+export function highestRole(roles: MembershipRole[]): HierarchyRole | null {
+  let best: HierarchyRole | null = null;
+  for (const role of roles) {
+    const rank = ROLE_HIERARCHY.indexOf(role as HierarchyRole);
+    if (rank !== -1 && (best === null || rank > ROLE_HIERARCHY.indexOf(best))) {
+      best = role as HierarchyRole;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PermissionGuard } from './guards/permission.guard';
+import { PolicyRepository } from './policy.repository';
+import { PolicyService } from './policy.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [PolicyRepository, PolicyService, PermissionGuard],
+  exports: [PolicyService, PermissionGuard],
+})
+export class PolicyModule {}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+@Injectable()
+export class PolicyRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  findActiveCompany(companyId: string) {
+    return this.prisma.company.findFirst({
+      where: { id: companyId, deletedAt: null, isActive: true },
+      select: { id: true },
+    });
+  }
+
+  findWorkspace(workspaceId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, deletedAt: null },
+      select: { id: true, companyId: true, isActive: true },
+    });
+  }
+
+  findProject(projectId: string) {
+    return this.prisma.project.findFirst({
+      where: { id: projectId, deletedAt: null },
+      select: { id: true, workspaceId: true },
+    });
+  }
+
+  findMemberships(userId: string, resources: Prisma.MembershipWhereInput[]) {
+    return this.prisma.membership.findMany({
+      where: { userId, deletedAt: null, OR: resources },
+      select: {
+        resourceType: true,
+        resourceId: true,
+        role: true,
+        customRole: { select: { permissions: true, deletedAt: true } },
+      },
+    });
+  }
+}
@@ -0,0 +1,243 @@
+import { ForbiddenException } from '@nestjs/common';
+import { MembershipRole, ResourceType } from '../generated/prisma/client';
+import { highestRole, permissionsForRole } from './permissions';
+import { PolicyRepository } from './policy.repository';
+import { PolicyService } from './policy.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const USER = { id: 'user-1', isSuperuser: false };
+
+function makeMembership(
+  resourceType: ResourceType,
+  resourceId: string,
+  role: MembershipRole,
+  customRole: { permissions: string[]; deletedAt: Date | null } | null = null,
+) {
+  return { resourceType, resourceId, role, customRole };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof PolicyRepository, jest.Mock>> = {},
+): jest.Mocked<PolicyRepository> {
+  return {
+    findActiveCompany: jest.fn().mockResolvedValue({ id: 'company-1' }),
+    findWorkspace: jest
+      .fn()
+      .mockResolvedValue({ id: 'ws-1', companyId: 'company-1', isActive: true }),
+    findProject: jest.fn().mockResolvedValue({ id: 'project-1', workspaceId: 'ws-1' }),
+    findMemberships: jest.fn().mockResolvedValue([]),
+    ...overrides,
+  } as unknown as jest.Mocked<PolicyRepository>;
+}
+
+const PROJECT_SCOPE = { companyId: 'company-1', workspaceId: 'ws-1', projectId: 'project-1' };
+
+// ── permissions ────────────────────────────────────────────────────────────────
+
+describe('permissions', () => {
+  it('papéis superiores herdam as permissões dos inferiores', () => {
+    const viewer = permissionsForRole(MembershipRole.project_viewer);
+    const admin = permissionsForRole(MembershipRole.admin);
+    viewer.forEach((p) => expect(admin.has(p)).toBe(true));
+    expect(viewer.has('task.write')).toBe(false);
+  });
+
+  it('member não recebe permissões', () => {
+    expect(permissionsForRole(MembershipRole.member).size).toBe(0);
+  });
+
+  it('highestRole escolhe o papel de maior hierarquia', () => {
+    expect(
+      highestRole([
+        MembershipRole.member,
+        MembershipRole.project_editor,
+        MembershipRole.project_viewer,
+      ]),
+    ).toBe(MembershipRole.project_editor);
+    expect(highestRole([MembershipRole.superuser])).toBeNull();
+  });
+});
+
+// ── resolveScope ───────────────────────────────────────────────────────────────
+
+describe('PolicyService.resolveScope', () => {
+  it('completa empresa e workspace a partir do projeto', async () => {
+    const service = new PolicyService(makeRepo());
+    await expect(service.resolveScope({ projectId: 'project-1' })).resolves.toEqual({
+      companyId: 'company-1',
+      workspaceId: 'ws-1',
+      workspaceActive: true,
+      projectId: 'project-1',
+    });
+  });
+
+  it('descarta workspace de outra empresa e o projeto abaixo dele', async () => {
+    const repo = makeRepo({
+      findWorkspace: jest
+        .fn()
+        .mockResolvedValue({ id: 'ws-1', companyId: 'company-2', isActive: true }),
+    });
+    const service = new PolicyService(repo);
+    await expect(service.resolveScope(PROJECT_SCOPE)).resolves.toEqual({
+      companyId: 'company-1',
+    });
+  });
+
+  it('descarta projeto de outro workspace', async () => {
+    const repo = makeRepo({
+      findProject: jest.fn().mockResolvedValue({ id: 'project-1', workspaceId: 'ws-2' }),
+    });
+    const service = new PolicyService(repo);
+    const scope = await service.resolveScope(PROJECT_SCOPE);
+    expect(scope.projectId).toBeUndefined();
+    expect(scope.workspaceId).toBe('ws-1');
+  });
+
+  it('retorna escopo vazio quando a empresa está inativa', async () => {
+    const repo = makeRepo({ findActiveCompany: jest.fn().mockResolvedValue(null) });
+    const service = new PolicyService(repo);
+    await expect(service.resolveScope(PROJECT_SCOPE)).resolves.toEqual({});
+  });
+});
+
+// ── getEffectiveAccess / can ───────────────────────────────────────────────────
+
+describe('PolicyService.can', () => {
+  it('admin da empresa herda permissões de workspace e de projeto', async () => {
+    const repo = makeRepo({
+      findMemberships: jest
+        .fn()
+        .mockResolvedValue([
+          makeMembership(ResourceType.company, 'company-1', MembershipRole.admin),
+        ]),
+    });
+    const service = new PolicyService(repo);
+    await expect(service.can(USER, 'task.write', PROJECT_SCOPE)).resolves.toBe(true);
+    await expect(service.can(USER, 'workspace.delete', PROJECT_SCOPE)).resolves.toBe(true);
+  });
+
+  it('workspace_admin gerencia o workspace mas não a empresa', async () => {
+    const repo = makeRepo({
+      findMemberships: jest
+        .fn()
+        .mockResolvedValue([
+          makeMembership(ResourceType.company, 'company-1', MembershipRole.member),
+          makeMembership(ResourceType.workspace, 'ws-1', MembershipRole.workspace_admin),
+        ]),
+    });
+    const service = new PolicyService(repo);
+    const access = await service.getEffectiveAccess(USER, PROJECT_SCOPE);
+    expect(access.role).toBe(MembershipRole.workspace_admin);
+    expect(access.permissions.has('project.members.manage')).toBe(true);
+    expect(access.permissions.has('company.members.manage')).toBe(false);
+  });
+
+  it('project_viewer lê tarefas mas não edita', async () => {
+    const repo = makeRepo({
+      findMemberships: jest
+        .fn()
+        .mockResolvedValue([
+          makeMembership(ResourceType.workspace, 'ws-1', MembershipRole.member),
+          makeMembership(ResourceType.project, 'project-1', MembershipRole.project_viewer),
+        ]),
+    });
+    const service = new PolicyService(repo);
+    await expect(service.can(USER, 'task.read', PROJECT_SCOPE)).resolves.toBe(true);
+    await expect(service.can(USER, 'task.write', PROJECT_SCOPE)).resolves.toBe(false);
+  });
+
+  it('soma as permissões de papéis customizados ao papel built-in', async () => {
+    const repo = makeRepo({
+      findMemberships: jest.fn().mockResolvedValue([
+        makeMembership(ResourceType.workspace, 'ws-1', MembershipRole.member),
+        makeMembership(ResourceType.project, 'project-1', MembershipRole.custom, {
+          permissions: ['task.read', 'platform.manage', 'inexistente'],
+          deletedAt: null,
+        }),
+      ]),
+    });
+    const service = new PolicyService(repo);
+    const access = await service.getEffectiveAccess(USER, PROJECT_SCOPE);
+    expect(access.role).toBe(MembershipRole.member);
+    expect([...access.permissions]).toEqual(['task.read']);
+  });
+
+  it('ignora papéis customizados removidos', async () => {
+    const repo = makeRepo({
+      findMemberships: jest.fn().mockResolvedValue([
+        makeMembership(ResourceType.company, 'company-1', MembershipRole.custom, {
+          permissions: ['task.read'],
+          deletedAt: new Date(),
+        }),
+      ]),
+    });
+    const service = new PolicyService(repo);
+    await expect(service.can(USER, 'task.read', PROJECT_SCOPE)).resolves.toBe(false);
+  });
+
+  it('ignora memberships de workspace e projeto quando o workspace está inativo', async () => {
+    const repo = makeRepo({
+      findWorkspace: jest
+        .fn()
+        .mockResolvedValue({ id: 'ws-1', companyId: 'company-1', isActive: false }),
+    });
+    const service = new PolicyService(repo);
+    await service.can(USER, 'task.read', PROJECT_SCOPE);
+
+    const resources = repo.findMemberships.mock.calls[0][1];
+    expect(resources).toEqual([{ resourceType: ResourceType.company, resourceId: 'company-1' }]);
+  });
+
+  it('superusuário possui permissões de plataforma sem memberships', async () => {
+    const repo = makeRepo();
+    const service = new PolicyService(repo);
+    await expect(service.can({ id: 'root', isSuperuser: true }, 'platform.manage')).resolves.toBe(
+      true,
+    );
+    await expect(service.can(USER, 'platform.manage')).resolves.toBe(false);
+    expect(repo.findMemberships).not.toHaveBeenCalled();
+  });
+
+  it('superusuário não recebe permissões de empresa sem membership', async () => {
+    const service = new PolicyService(makeRepo());
+    await expect(
+      service.can({ id: 'root', isSuperuser: true }, 'company.members.read', {
+        companyId: 'company-1',
+      }),
+    ).resolves.toBe(false);
+  });
+});
+
+// ── assertCan / assertNotCompanyAdmin ──────────────────────────────────────────
+
+describe('PolicyService.assertCan', () => {
+  it('lança ForbiddenException sem a permissão', async () => {
+    const service = new PolicyService(makeRepo());
+    await expect(service.assertCan(USER, 'workspace.update', PROJECT_SCOPE)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
+
+describe('PolicyService.assertNotCompanyAdmin', () => {
+  it('lança ForbiddenException quando alvo é admin da empresa', async () => {
+    const repo = makeRepo({
+      findMemberships: jest
+        .fn()
+        .mockResolvedValue([
+          makeMembership(ResourceType.company, 'company-1', MembershipRole.admin),
+        ]),
+    });
+    const service = new PolicyService(repo);
+    await expect(service.assertNotCompanyAdmin('company-1', 'user-2')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(repo.findMemberships).toHaveBeenCalledWith('user-2', expect.any(Array));
+  });
+
+  it('permite alvo que não é admin', async () => {
+    const service = new PolicyService(makeRepo());
+    await expect(service.assertNotCompanyAdmin('company-1', 'user-2')).resolves.toBeUndefined();
+  });
+});
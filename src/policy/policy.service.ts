@@ -0,0 +1,150 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import {
+  HierarchyRole,
+  highestRole,
+  isAssignablePermission,
+  Permission,
+  permissionsForRole,
+  SUPERUSER_PERMISSIONS,
+} from './permissions';
+import { PolicyRepository } from './policy.repository';
+
+/** Parâmetros de rota que identificam o recurso alvo */
+export interface PolicyScopeParams {
+  companyId?: string;
+  workspaceId?: string;
+  projectId?: string;
+}
+
+/** Escopo validado: cada nível só é preenchido se existir e pertencer ao nível acima */
+export interface ResolvedScope {
+  companyId?: string;
+  workspaceId?: string;
+  workspaceActive?: boolean;
+  projectId?: string;
+}
+
+export interface PolicySubject {
+  id: string;
+  isSuperuser: boolean;
+}
+
+export interface EffectiveAccess {
+  /** Papel built-in de maior hierarquia herdado de empresa → workspace → projeto */
+  role: HierarchyRole | null;
+  /** Permissões do papel built-in somadas às dos papéis customizados no escopo */
+  permissions: Set<Permission>;
+}
+
+@Injectable()
+export class PolicyService {
+  constructor(private readonly repo: PolicyRepository) {}
+
+  /**
+   * Completa e valida a cadeia empresa → workspace → projeto a partir dos parâmetros.
+   * Níveis inexistentes ou inconsistentes são descartados (assim como os abaixo deles);
+   * empresa inativa invalida o escopo inteiro.
+   */
+  async resolveScope(params: PolicyScopeParams): Promise<ResolvedScope> {
+    const scope: ResolvedScope = {};
+    let { companyId, workspaceId } = params;
+
+    if (params.projectId) {
+      const project = await this.repo.findProject(params.projectId);
+      if (project && (!workspaceId || project.workspaceId === workspaceId)) {
+        scope.projectId = project.id;
+        workspaceId = project.workspaceId;
+      }
+    }
+
+    if (workspaceId) {
+      const workspace = await this.repo.findWorkspace(workspaceId);
+      if (workspace && (!companyId || workspace.companyId === companyId)) {
+        scope.workspaceId = workspace.id;
+        scope.workspaceActive = workspace.isActive;
+        companyId = workspace.companyId;
+      } else {
+        scope.projectId = undefined;
+      }
+    }
+
+    if (!companyId || !(await this.repo.findActiveCompany(companyId))) {
+      return {};
+    }
+
+    scope.companyId = companyId;
+    return scope;
+  }
+
+  /**
+   * Papel e permissões efetivos do usuário no escopo. Memberships de workspace e de projeto
+   * só contam enquanto o workspace estiver ativo; admins da empresa mantêm o acesso.
+   */
+  async getEffectiveAccess(
+    subject: PolicySubject,
+    params: PolicyScopeParams,
+  ): Promise<EffectiveAccess> {
+    const scope = await this.resolveScope(params);
+    const resources: Prisma.MembershipWhereInput[] = [];
+
+    if (scope.companyId) {
+      resources.push({ resourceType: ResourceType.company, resourceId: scope.companyId });
+    }
+
+    if (scope.workspaceId && scope.workspaceActive) {
+      resources.push({ resourceType: ResourceType.workspace, resourceId: scope.workspaceId });
+
+      if (scope.projectId) {
+        resources.push({ resourceType: ResourceType.project, resourceId: scope.projectId });
+      }
+    }
+
+    const memberships =
+      resources.length > 0 ? await this.repo.findMemberships(subject.id, resources) : [];
+
+    const role = highestRole(memberships.map((m) => m.role));
+    const permissions = role ? permissionsForRole(role) : new Set<Permission>();
+
+    for (const m of memberships) {
+      if (m.role === MembershipRole.custom && m.customRole && !m.customRole.deletedAt) {
+        m.customRole.permissions.filter(isAssignablePermission).forEach((p) => permissions.add(p));
+      }
+    }
+
+    if (subject.isSuperuser) {
+      SUPERUSER_PERMISSIONS.forEach((p) => permissions.add(p));
+    }
+
+    return { role, permissions };
+  }
+
+  async can(
+    subject: PolicySubject,
+    permission: Permission,
+    params: PolicyScopeParams = {},
+  ): Promise<boolean> {
+    const { permissions } = await this.getEffectiveAccess(subject, params);
+    return permissions.has(permission);
+  }
+
+  /** Lança ForbiddenException se o usuário não tiver a permissão no escopo */
+  async assertCan(subject: PolicySubject, permission: Permission, params: PolicyScopeParams = {}) {
+    if (!(await this.can(subject, permission, params))) {
+      throw new ForbiddenException('Você não tem permissão para realizar esta operação');
+    }
+  }
+
+  /** Lança ForbiddenException se targetUserId for admin ativo desta empresa */
+  async assertNotCompanyAdmin(companyId: string, targetUserId: string) {
+    const { role } = await this.getEffectiveAccess(
+      { id: targetUserId, isSuperuser: false },
+      { companyId },
+    );
+    if (role === 'admin') {
+      throw new ForbiddenException(
+        'Não é possível alterar os papéis de um administrador da empresa',
+      );
+    }
+  }
+}
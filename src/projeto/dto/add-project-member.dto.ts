@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsUUID } from 'class-validator';
+import { PROJECT_ROLES, ProjectRole } from '../project-roles';
+
+export class AddProjectMemberDto {
+  @ApiProperty({ example: 'uuid-do-usuario', format: 'uuid' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ enum: PROJECT_ROLES, example: 'project_editor' })
+  @IsIn(PROJECT_ROLES)
+  role: ProjectRole;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsHexColor, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreateColumnDto {
+  @ApiProperty({ example: 'Em revisão' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: '#F5A623', description: 'Cor em hexadecimal' })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Tarefas nesta coluna são consideradas concluídas',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDone?: boolean;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Site institucional' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Redesign do site institucional da empresa' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      'Impede mover para uma coluna de conclusão tarefas que ainda têm subtarefas em aberto',
+  })
+  @IsOptional()
+  @IsBoolean()
+  blockDoneWithOpenSubtasks?: boolean;
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class DeleteColumnQueryDto {
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description:
+      'Coluna que receberá as tarefas existentes — obrigatória se a coluna tiver tarefas',
+  })
+  @IsOptional()
+  @IsUUID()
+  targetColumnId?: string;
+}
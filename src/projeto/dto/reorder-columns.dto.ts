@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderColumnsDto {
+  @ApiProperty({
+    type: [String],
+    format: 'uuid',
+    description: 'Ids de todas as colunas do projeto, na nova ordem',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  columnIds: string[];
+}
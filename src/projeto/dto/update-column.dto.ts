@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsHexColor,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateColumnDto {
+  @ApiPropertyOptional({ example: 'Em revisão' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: '#F5A623',
+    nullable: true,
+    description: 'Cor em hexadecimal — null remove a cor',
+  })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsHexColor()
+  color?: string | null;
+
+  @ApiPropertyOptional({ description: 'Tarefas nesta coluna são consideradas concluídas' })
+  @IsOptional()
+  @IsBoolean()
+  isDone?: boolean;
+}
@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class UpdateProjectDto {
+  @ApiPropertyOptional({ example: 'Site institucional v2' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Projeto atualizado' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Impede mover para uma coluna de conclusão tarefas que ainda têm subtarefas em aberto',
+  })
+  @IsOptional()
+  @IsBoolean()
+  blockDoneWithOpenSubtasks?: boolean;
+}
@@ -0,0 +1,10 @@
+import { MembershipRole } from '../generated/prisma/client';
+
+/** Papéis possíveis em um membership com resourceType=project, do menor para o maior */
+export const PROJECT_ROLES = [
+  MembershipRole.project_viewer,
+  MembershipRole.project_editor,
+  MembershipRole.project_manager,
+] as const;
+
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
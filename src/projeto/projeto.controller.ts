@@ -0,0 +1,266 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { ProjetoService } from './projeto.service';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { CreateColumnDto } from './dto/create-column.dto';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { DeleteColumnQueryDto } from './dto/delete-column-query.dto';
+import { ListProjectsQueryDto } from './dto/list-projects-query.dto';
+import { ReorderColumnsDto } from './dto/reorder-columns.dto';
+import { UpdateColumnDto } from './dto/update-column.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+
+@ApiTags('projetos')
+@ApiBearerAuth()
+@Controller('empresa/:companyId/workspaces/:workspaceId/projetos')
+export class ProjetoController {
+  constructor(private readonly projetoService: ProjetoService) {}
+
+  // ── Projetos ──────────────────────────────────────────────────────────────────
+
+  @Post()
+  @RequirePermission('project.create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar projeto no workspace com colunas padrão' })
+  @ApiResponse({ status: 201, description: 'Projeto criado com sucesso' })
+  @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
+  createProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreateProjectDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.projetoService.createProject(companyId, workspaceId, dto, user.id);
+  }
+
+  @Get()
+  @RequirePermission('project.list')
+  @ApiOperation({ summary: 'Listar projetos do workspace com filtros e paginação' })
+  @ApiResponse({ status: 200, description: 'Lista paginada de projetos' })
+  @ApiResponse({ status: 404, description: 'Workspace não encontrado' })
+  listProjects(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: ListProjectsQueryDto,
+  ) {
+    return this.projetoService.listProjects(companyId, workspaceId, query);
+  }
+
+  @Get(':projectId')
+  @RequirePermission('project.read')
+  @ApiOperation({ summary: 'Detalhes de um projeto' })
+  @ApiResponse({ status: 200, description: 'Projeto encontrado' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  getProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projetoService.getProject(companyId, workspaceId, projectId);
+  }
+
+  @Patch(':projectId')
+  @RequirePermission('project.update')
+  @ApiOperation({ summary: 'Editar nome ou descrição do projeto' })
+  @ApiResponse({ status: 200, description: 'Projeto atualizado' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  updateProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Body() dto: UpdateProjectDto,
+  ) {
+    return this.projetoService.updateProject(companyId, workspaceId, projectId, dto);
+  }
+
+  @Patch(':projectId/inativar')
+  @RequirePermission('project.update')
+  @ApiOperation({ summary: 'Inativar projeto' })
+  @ApiResponse({ status: 200, description: 'Projeto inativado' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  deactivateProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projetoService.deactivateProject(companyId, workspaceId, projectId);
+  }
+
+  @Patch(':projectId/ativar')
+  @RequirePermission('project.update')
+  @ApiOperation({ summary: 'Reativar projeto' })
+  @ApiResponse({ status: 200, description: 'Projeto reativado' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  activateProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projetoService.activateProject(companyId, workspaceId, projectId);
+  }
+
+  @Delete(':projectId')
+  @RequirePermission('project.delete')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Soft delete de projeto' })
+  @ApiResponse({ status: 204, description: 'Projeto removido' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  async deleteProject(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.projetoService.deleteProject(companyId, workspaceId, projectId, user.id);
+  }
+
+  // ── Colunas ───────────────────────────────────────────────────────────────────
+
+  @Get(':projectId/colunas')
+  @RequirePermission('project.read')
+  @ApiOperation({ summary: 'Listar colunas do projeto em ordem' })
+  @ApiResponse({ status: 200, description: 'Colunas do projeto' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  listColumns(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projetoService.listColumns(companyId, workspaceId, projectId);
+  }
+
+  @Post(':projectId/colunas')
+  @RequirePermission('project.columns.manage')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar coluna no final do quadro' })
+  @ApiResponse({ status: 201, description: 'Coluna criada' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  createColumn(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateColumnDto,
+  ) {
+    return this.projetoService.createColumn(companyId, workspaceId, projectId, dto);
+  }
+
+  @Put(':projectId/colunas/ordem')
+  @RequirePermission('project.columns.manage')
+  @ApiOperation({ summary: 'Reordenar todas as colunas do projeto' })
+  @ApiResponse({ status: 200, description: 'Colunas na nova ordem' })
+  @ApiResponse({ status: 400, description: 'Lista não corresponde às colunas do projeto' })
+  @ApiResponse({ status: 404, description: 'Workspace ou projeto não encontrado' })
+  reorderColumns(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Body() dto: ReorderColumnsDto,
+  ) {
+    return this.projetoService.reorderColumns(companyId, workspaceId, projectId, dto);
+  }
+
+  @Patch(':projectId/colunas/:columnId')
+  @RequirePermission('project.columns.manage')
+  @ApiOperation({ summary: 'Renomear, alterar a cor ou marcar uma coluna como de conclusão' })
+  @ApiResponse({ status: 200, description: 'Coluna atualizada' })
+  @ApiResponse({ status: 404, description: 'Projeto ou coluna não encontrada' })
+  updateColumn(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Param('columnId') columnId: string,
+    @Body() dto: UpdateColumnDto,
+  ) {
+    return this.projetoService.updateColumn(companyId, workspaceId, projectId, columnId, dto);
+  }
+
+  @Delete(':projectId/colunas/:columnId')
+  @RequirePermission('project.columns.manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover coluna movendo as tarefas para a coluna de destino' })
+  @ApiResponse({ status: 204, description: 'Coluna removida' })
+  @ApiResponse({
+    status: 400,
+    description: 'Coluna de destino ausente ou inválida / única coluna do projeto',
+  })
+  @ApiResponse({ status: 404, description: 'Projeto ou coluna não encontrada' })
+  async deleteColumn(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Param('columnId') columnId: string,
+    @Query() query: DeleteColumnQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.projetoService.deleteColumn(
+      companyId,
+      workspaceId,
+      projectId,
+      columnId,
+      query.targetColumnId,
+      user.id,
+    );
+  }
+
+  // ── Membros ───────────────────────────────────────────────────────────────────
+
+  @Get(':projectId/membros')
+  @RequirePermission('project.members.read')
+  @ApiOperation({ summary: 'Listar membros do projeto e seus papéis' })
+  @ApiResponse({ status: 200, description: 'Membros do projeto' })
+  @ApiResponse({ status: 404, description: 'Projeto não encontrado' })
+  listMembers(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projetoService.listMembers(companyId, workspaceId, projectId);
+  }
+
+  @Post(':projectId/membros')
+  @RequirePermission('project.members.manage')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Adicionar membro ao projeto ou alterar seu papel' })
+  @ApiResponse({ status: 201, description: 'Membro adicionado ou papel atualizado' })
+  @ApiResponse({ status: 400, description: 'Usuário não pertence à empresa ou ao workspace' })
+  @ApiResponse({ status: 404, description: 'Projeto ou usuário não encontrado' })
+  @ApiResponse({ status: 409, description: 'Usuário já possui este papel no projeto' })
+  addMember(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Body() dto: AddProjectMemberDto,
+  ) {
+    return this.projetoService.addMember(companyId, workspaceId, projectId, dto);
+  }
+
+  @Delete(':projectId/membros/:userId')
+  @RequirePermission('project.members.manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover membro do projeto' })
+  @ApiResponse({ status: 204, description: 'Membro removido' })
+  @ApiResponse({ status: 404, description: 'Projeto ou membro não encontrado' })
+  async removeMember(
+    @Param('companyId') companyId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('projectId') projectId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.projetoService.removeMember(companyId, workspaceId, projectId, userId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProjetoController } from './projeto.controller';
+import { ProjetoRepository } from './projeto.repository';
+import { ProjetoService } from './projeto.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ProjetoController],
+  providers: [ProjetoRepository, ProjetoService],
+})
+export class ProjetoModule {}
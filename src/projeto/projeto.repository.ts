@@ -0,0 +1,311 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PROJECT_ROLES } from './project-roles';
+
+const COLUMN_SELECT = {
+  id: true,
+  projectId: true,
+  name: true,
+  order: true,
+  color: true,
+  isDone: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ColumnSelect;
+
+const PROJECT_SELECT = {
+  id: true,
+  workspaceId: true,
+  name: true,
+  description: true,
+  isActive: true,
+  blockDoneWithOpenSubtasks: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ProjectSelect;
+
+const PROJECT_MEMBER_SELECT = {
+  id: true,
+  userId: true,
+  role: true,
+  createdAt: true,
+  customRole: { select: { id: true, name: true } },
+  user: { select: { id: true, name: true, email: true, isActive: true } },
+} satisfies Prisma.MembershipSelect;
+
+@Injectable()
+export class ProjetoRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Workspaces ────────────────────────────────────────────────────────────────
+
+  findWorkspaceById(workspaceId: string, companyId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, companyId, deletedAt: null },
+    });
+  }
+
+  // ── Projects ──────────────────────────────────────────────────────────────────
+
+  findProjectById(projectId: string, workspaceId: string) {
+    return this.prisma.project.findFirst({
+      where: { id: projectId, workspaceId, deletedAt: null },
+    });
+  }
+
+  findProjectByIdSelect(projectId: string, workspaceId: string) {
+    return this.prisma.project.findFirst({
+      where: { id: projectId, workspaceId, deletedAt: null },
+      select: {
+        ...PROJECT_SELECT,
+        createdBy: { select: { id: true, name: true, email: true } },
+        columns: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: COLUMN_SELECT,
+        },
+      },
+    });
+  }
+
+  findProjects(where: Prisma.ProjectWhereInput, page: number, limit: number) {
+    return Promise.all([
+      this.prisma.project.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: PROJECT_SELECT,
+      }),
+      this.prisma.project.count({ where }),
+    ]);
+  }
+
+  updateProject(id: string, data: Prisma.ProjectUpdateInput) {
+    return this.prisma.project.update({ where: { id }, data, select: PROJECT_SELECT });
+  }
+
+  softDeleteProject(id: string) {
+    return this.prisma.project.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+
+  // ── Columns ───────────────────────────────────────────────────────────────────
+
+  findColumns(projectId: string) {
+    return this.prisma.column.findMany({
+      where: { projectId, deletedAt: null },
+      orderBy: { order: 'asc' },
+      select: COLUMN_SELECT,
+    });
+  }
+
+  findColumnById(columnId: string, projectId: string) {
+    return this.prisma.column.findFirst({
+      where: { id: columnId, projectId, deletedAt: null },
+    });
+  }
+
+  findLastColumn(projectId: string) {
+    return this.prisma.column.findFirst({
+      where: { projectId, deletedAt: null },
+      orderBy: { order: 'desc' },
+    });
+  }
+
+  createColumn(data: {
+    projectId: string;
+    name: string;
+    color?: string;
+    isDone?: boolean;
+    order: number;
+  }) {
+    return this.prisma.column.create({ data, select: COLUMN_SELECT });
+  }
+
+  updateColumn(id: string, data: Prisma.ColumnUpdateInput) {
+    return this.prisma.column.update({ where: { id }, data, select: COLUMN_SELECT });
+  }
+
+  // ── Membros ───────────────────────────────────────────────────────────────────
+
+  findUserById(userId: string) {
+    return this.prisma.user.findFirst({ where: { id: userId, deletedAt: null } });
+  }
+
+  /** Memberships ativos do usuário na empresa ou no workspace informado */
+  findScopeMemberships(userId: string, companyId: string, workspaceId: string) {
+    return this.prisma.membership.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        OR: [
+          { resourceType: ResourceType.company, resourceId: companyId },
+          { resourceType: ResourceType.workspace, resourceId: workspaceId },
+        ],
+      },
+    });
+  }
+
+  findProjectMembers(projectId: string) {
+    return this.prisma.membership.findMany({
+      where: { resourceType: ResourceType.project, resourceId: projectId, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: PROJECT_MEMBER_SELECT,
+    });
+  }
+
+  findProjectMembership(projectId: string, userId: string) {
+    return this.prisma.membership.findFirst({
+      where: {
+        userId,
+        resourceType: ResourceType.project,
+        resourceId: projectId,
+        role: { in: [...PROJECT_ROLES] },
+        deletedAt: null,
+      },
+    });
+  }
+
+  createProjectMembership(projectId: string, userId: string, role: MembershipRole) {
+    return this.prisma.membership.create({
+      data: { userId, resourceType: ResourceType.project, resourceId: projectId, role },
+      select: PROJECT_MEMBER_SELECT,
+    });
+  }
+
+  updateMembershipRole(id: string, role: MembershipRole) {
+    return this.prisma.membership.update({
+      where: { id },
+      data: { role },
+      select: PROJECT_MEMBER_SELECT,
+    });
+  }
+
+  softDeleteMembership(id: string) {
+    return this.prisma.membership.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+
+  // ── Transactions ──────────────────────────────────────────────────────────────
+
+  createProjectWithColumns(
+    data: {
+      workspaceId: string;
+      name: string;
+      description?: string;
+      blockDoneWithOpenSubtasks?: boolean;
+      createdById: string;
+    },
+    columns: Array<{ name: string; color?: string; isDone?: boolean }>,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({ data, select: PROJECT_SELECT });
+
+      await tx.column.createMany({
+        data: columns.map((column, index) => ({
+          projectId: project.id,
+          name: column.name,
+          color: column.color,
+          isDone: column.isDone,
+          order: index,
+        })),
+      });
+
+      const createdColumns = await tx.column.findMany({
+        where: { projectId: project.id },
+        orderBy: { order: 'asc' },
+        select: COLUMN_SELECT,
+      });
+
+      return { ...project, columns: createdColumns };
+    });
+  }
+
+  /**
+   * Move as tarefas ativas da coluna para o final da coluna destino, faz o soft delete
+   * da coluna e renumera as colunas restantes — tudo na mesma transação. As linhas das
+   * colunas são travadas (FOR UPDATE, em ordem de id), o que serializa a remoção com
+   * movimentos e criações de tarefas nessas colunas; as verificações são feitas depois do
+   * lock e, se alguma falhar, o motivo é retornado em `rejection` sem alterar nada.
+   */
+  deleteColumnMovingTasks(projectId: string, columnId: string, targetColumnId: string | null) {
+    return this.prisma.$transaction(async (tx) => {
+      const lockedColumnIds = [columnId, ...(targetColumnId ? [targetColumnId] : [])].sort();
+      await tx.$queryRaw`
+        SELECT id FROM "columns" WHERE id IN (${Prisma.join(lockedColumnIds)}) ORDER BY id FOR UPDATE
+      `;
+
+      const column = await tx.column.findFirst({
+        where: { id: columnId, projectId, deletedAt: null },
+        select: { id: true },
+      });
+      if (!column) {
+        return { tasksMoved: 0, rejection: 'column_not_found' as const };
+      }
+
+      const columnsCount = await tx.column.count({ where: { projectId, deletedAt: null } });
+      if (columnsCount <= 1) {
+        return { tasksMoved: 0, rejection: 'last_column' as const };
+      }
+
+      const tasks = await tx.task.findMany({
+        where: { columnId, deletedAt: null },
+        orderBy: { order: 'asc' },
+        select: { id: true },
+      });
+
+      if (targetColumnId) {
+        const target = await tx.column.findFirst({
+          where: { id: targetColumnId, projectId, deletedAt: null },
+          select: { id: true },
+        });
+        if (!target) {
+          return { tasksMoved: 0, rejection: 'target_not_found' as const };
+        }
+
+        const last = await tx.task.findFirst({
+          where: { columnId: targetColumnId, deletedAt: null },
+          orderBy: { order: 'desc' },
+          select: { order: true },
+        });
+
+        let nextOrder = last ? last.order + 1 : 0;
+        for (const task of tasks) {
+          await tx.task.update({
+            where: { id: task.id },
+            data: { columnId: targetColumnId, order: nextOrder++ },
+          });
+        }
+      } else if (tasks.length > 0) {
+        return { tasksMoved: 0, rejection: 'target_required' as const };
+      }
+
+      await tx.column.update({ where: { id: columnId }, data: { deletedAt: new Date() } });
+
+      const remaining = await tx.column.findMany({
+        where: { projectId, deletedAt: null },
+        orderBy: { order: 'asc' },
+        select: { id: true },
+      });
+      for (const [index, remainingColumn] of remaining.entries()) {
+        await tx.column.update({ where: { id: remainingColumn.id }, data: { order: index } });
+      }
+
+      return { tasksMoved: tasks.length, rejection: null };
+    });
+  }
+
+  reorderColumns(projectId: string, columnIds: string[]) {
+    return this.prisma.$transaction(async (tx) => {
+      for (const [index, id] of columnIds.entries()) {
+        await tx.column.update({ where: { id }, data: { order: index } });
+      }
+
+      return tx.column.findMany({
+        where: { projectId, deletedAt: null },
+        orderBy: { order: 'asc' },
+        select: COLUMN_SELECT,
+      });
+    });
+  }
+}
@@ -0,0 +1,528 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { MembershipRole } from '../generated/prisma/client';
+import { ProjetoRepository } from './projeto.repository';
+import { ProjetoService } from './projeto.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function makeWorkspace(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'ws-1',
+    name: 'Workspace 1',
+    description: null,
+    companyId: 'company-1',
+    isActive: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeProject(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'project-1',
+    workspaceId: 'ws-1',
+    name: 'Projeto 1',
+    description: null,
+    isActive: true,
+    createdById: 'user-1',
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeColumn(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'col-1',
+    projectId: 'project-1',
+    name: 'A fazer',
+    order: 0,
+    color: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeProjectMembership(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mem-1',
+    userId: 'user-2',
+    resourceType: 'project',
+    resourceId: 'project-1',
+    role: MembershipRole.project_viewer,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof ProjetoRepository, jest.Mock>> = {},
+): jest.Mocked<ProjetoRepository> {
+  return {
+    findWorkspaceById: jest.fn().mockResolvedValue(makeWorkspace()),
+    findProjectById: jest.fn(),
+    findProjectByIdSelect: jest.fn(),
+    findProjects: jest.fn(),
+    updateProject: jest.fn(),
+    softDeleteProject: jest.fn(),
+    findColumns: jest.fn(),
+    findColumnById: jest.fn(),
+    findLastColumn: jest.fn(),
+    createColumn: jest.fn(),
+    updateColumn: jest.fn(),
+    createProjectWithColumns: jest.fn(),
+    deleteColumnMovingTasks: jest.fn(),
+    reorderColumns: jest.fn(),
+    findUserById: jest.fn(),
+    findScopeMemberships: jest.fn(),
+    findProjectMembers: jest.fn(),
+    findProjectMembership: jest.fn(),
+    createProjectMembership: jest.fn(),
+    updateMembershipRole: jest.fn(),
+    softDeleteMembership: jest.fn(),
+    ...overrides,
+  } as unknown as jest.Mocked<ProjetoRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<ProjetoRepository>) {
+  return new ProjetoService(repo, makeLogger() as any);
+}
+
+// ── createProject ──────────────────────────────────────────────────────────────
+
+describe('ProjetoService.createProject', () => {
+  it('lança NotFoundException quando workspace não pertence à empresa', async () => {
+    const repo = makeRepo({ findWorkspaceById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.createProject('company-1', 'ws-1', { name: 'P' }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+    expect(repo.createProjectWithColumns).not.toHaveBeenCalled();
+  });
+
+  it('cria projeto com createdById do usuário autenticado e colunas padrão', async () => {
+    const repo = makeRepo({
+      createProjectWithColumns: jest.fn().mockResolvedValue(makeProject()),
+    });
+    const service = makeService(repo);
+    const result = await service.createProject(
+      'company-1',
+      'ws-1',
+      { name: 'Projeto 1', description: 'Desc' },
+      'user-1',
+    );
+    expect(repo.createProjectWithColumns).toHaveBeenCalledWith(
+      { workspaceId: 'ws-1', name: 'Projeto 1', description: 'Desc', createdById: 'user-1' },
+      [{ name: 'A fazer' }, { name: 'Em andamento' }, { name: 'Concluído', isDone: true }],
+    );
+    expect(result.id).toBe('project-1');
+  });
+});
+
+// ── listProjects ───────────────────────────────────────────────────────────────
+
+describe('ProjetoService.listProjects', () => {
+  it('retorna paginação correta', async () => {
+    const repo = makeRepo({ findProjects: jest.fn().mockResolvedValue([[makeProject()], 1]) });
+    const service = makeService(repo);
+    const result = await service.listProjects('company-1', 'ws-1', { page: 2, limit: 5 });
+    expect(result).toEqual({ data: [expect.any(Object)], total: 1, page: 2, limit: 5 });
+    expect(repo.findProjects).toHaveBeenCalledWith(expect.any(Object), 2, 5);
+  });
+
+  it('aplica filtros de busca e isActive', async () => {
+    const repo = makeRepo({ findProjects: jest.fn().mockResolvedValue([[], 0]) });
+    const service = makeService(repo);
+    await service.listProjects('company-1', 'ws-1', { search: 'site', isActive: false });
+    const whereArg = repo.findProjects.mock.calls[0][0] as Record<string, unknown>;
+    expect(whereArg).toEqual({
+      workspaceId: 'ws-1',
+      deletedAt: null,
+      name: { contains: 'site', mode: 'insensitive' },
+      isActive: false,
+    });
+  });
+
+  it('não passa isActive quando não fornecido', async () => {
+    const repo = makeRepo({ findProjects: jest.fn().mockResolvedValue([[], 0]) });
+    const service = makeService(repo);
+    await service.listProjects('company-1', 'ws-1', {});
+    const whereArg = repo.findProjects.mock.calls[0][0] as Record<string, unknown>;
+    expect(whereArg.isActive).toBeUndefined();
+  });
+});
+
+// ── getProject ─────────────────────────────────────────────────────────────────
+
+describe('ProjetoService.getProject', () => {
+  it('lança NotFoundException quando projeto não existe', async () => {
+    const repo = makeRepo({ findProjectByIdSelect: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.getProject('company-1', 'ws-1', 'project-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('retorna projeto quando existe', async () => {
+    const repo = makeRepo({ findProjectByIdSelect: jest.fn().mockResolvedValue(makeProject()) });
+    const service = makeService(repo);
+    const result = await service.getProject('company-1', 'ws-1', 'project-1');
+    expect(result.id).toBe('project-1');
+  });
+});
+
+// ── updateProject ──────────────────────────────────────────────────────────────
+
+describe('ProjetoService.updateProject', () => {
+  it('lança NotFoundException quando projeto não existe', async () => {
+    const repo = makeRepo({ findProjectById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.updateProject('company-1', 'ws-1', 'project-1', { name: 'X' }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('atualiza projeto com sucesso', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      updateProject: jest.fn().mockResolvedValue(makeProject({ name: 'Novo' })),
+    });
+    const service = makeService(repo);
+    const result = await service.updateProject('company-1', 'ws-1', 'project-1', { name: 'Novo' });
+    expect(repo.updateProject).toHaveBeenCalledWith('project-1', { name: 'Novo' });
+    expect(result.name).toBe('Novo');
+  });
+});
+
+// ── deactivateProject / activateProject ────────────────────────────────────────
+
+describe('ProjetoService.deactivateProject', () => {
+  it('chama updateProject com isActive=false', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      updateProject: jest.fn().mockResolvedValue(makeProject({ isActive: false })),
+    });
+    const service = makeService(repo);
+    await service.deactivateProject('company-1', 'ws-1', 'project-1');
+    expect(repo.updateProject).toHaveBeenCalledWith('project-1', { isActive: false });
+  });
+});
+
+describe('ProjetoService.activateProject', () => {
+  it('lança NotFoundException quando projeto não existe', async () => {
+    const repo = makeRepo({ findProjectById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.activateProject('company-1', 'ws-1', 'project-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('chama updateProject com isActive=true', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject({ isActive: false })),
+      updateProject: jest.fn().mockResolvedValue(makeProject()),
+    });
+    const service = makeService(repo);
+    await service.activateProject('company-1', 'ws-1', 'project-1');
+    expect(repo.updateProject).toHaveBeenCalledWith('project-1', { isActive: true });
+  });
+});
+
+// ── deleteProject ──────────────────────────────────────────────────────────────
+
+describe('ProjetoService.deleteProject', () => {
+  it('lança NotFoundException quando projeto não existe', async () => {
+    const repo = makeRepo({ findProjectById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.deleteProject('company-1', 'ws-1', 'project-1', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('chama softDeleteProject com projectId', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      softDeleteProject: jest.fn().mockResolvedValue({}),
+    });
+    const service = makeService(repo);
+    await service.deleteProject('company-1', 'ws-1', 'project-1', 'user-1');
+    expect(repo.softDeleteProject).toHaveBeenCalledWith('project-1');
+  });
+});
+
+// ── createColumn ───────────────────────────────────────────────────────────────
+
+describe('ProjetoService.createColumn', () => {
+  it('cria coluna após a última existente', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findLastColumn: jest.fn().mockResolvedValue(makeColumn({ order: 2 })),
+      createColumn: jest.fn().mockResolvedValue(makeColumn({ order: 3 })),
+    });
+    const service = makeService(repo);
+    await service.createColumn('company-1', 'ws-1', 'project-1', { name: 'QA', color: '#FF0000' });
+    expect(repo.createColumn).toHaveBeenCalledWith({
+      projectId: 'project-1',
+      name: 'QA',
+      color: '#FF0000',
+      order: 3,
+    });
+  });
+
+  it('usa order 0 quando o projeto não tem colunas', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findLastColumn: jest.fn().mockResolvedValue(null),
+      createColumn: jest.fn().mockResolvedValue(makeColumn()),
+    });
+    const service = makeService(repo);
+    await service.createColumn('company-1', 'ws-1', 'project-1', { name: 'A fazer' });
+    const data = repo.createColumn.mock.calls[0][0] as Record<string, unknown>;
+    expect(data.order).toBe(0);
+  });
+});
+
+// ── updateColumn ───────────────────────────────────────────────────────────────
+
+describe('ProjetoService.updateColumn', () => {
+  it('lança NotFoundException quando coluna não pertence ao projeto', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findColumnById: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.updateColumn('company-1', 'ws-1', 'project-1', 'col-x', { name: 'X' }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('atualiza nome e cor', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findColumnById: jest.fn().mockResolvedValue(makeColumn()),
+      updateColumn: jest.fn().mockResolvedValue(makeColumn({ name: 'Backlog', color: null })),
+    });
+    const service = makeService(repo);
+    await service.updateColumn('company-1', 'ws-1', 'project-1', 'col-1', {
+      name: 'Backlog',
+      color: null,
+    });
+    expect(repo.updateColumn).toHaveBeenCalledWith('col-1', { name: 'Backlog', color: null });
+  });
+});
+
+// ── deleteColumn ───────────────────────────────────────────────────────────────
+
+describe('ProjetoService.deleteColumn', () => {
+  function makeDeleteRepo(rejection: string | null = null) {
+    return makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      deleteColumnMovingTasks: jest.fn().mockResolvedValue({ tasksMoved: 0, rejection }),
+    });
+  }
+
+  it('lança NotFoundException quando a coluna não existe no projeto', async () => {
+    const service = makeService(makeDeleteRepo('column_not_found'));
+    await expect(
+      service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-x', undefined, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('lança BadRequestException ao remover a única coluna', async () => {
+    const service = makeService(makeDeleteRepo('last_column'));
+    await expect(
+      service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', undefined, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('exige coluna de destino quando a coluna tem tarefas', async () => {
+    const service = makeService(makeDeleteRepo('target_required'));
+    await expect(
+      service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', undefined, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejeita a própria coluna como destino', async () => {
+    const repo = makeDeleteRepo();
+    const service = makeService(repo);
+    await expect(
+      service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', 'col-1', 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.deleteColumnMovingTasks).not.toHaveBeenCalled();
+  });
+
+  it('lança NotFoundException quando destino não pertence ao projeto', async () => {
+    const service = makeService(makeDeleteRepo('target_not_found'));
+    await expect(
+      service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', 'col-9', 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('move tarefas para a coluna de destino', async () => {
+    const repo = makeDeleteRepo();
+    const service = makeService(repo);
+    await service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', 'col-2', 'user-1');
+    expect(repo.deleteColumnMovingTasks).toHaveBeenCalledWith('project-1', 'col-1', 'col-2');
+  });
+
+  it('remove coluna vazia sem destino', async () => {
+    const repo = makeDeleteRepo();
+    const service = makeService(repo);
+    await service.deleteColumn('company-1', 'ws-1', 'project-1', 'col-1', undefined, 'user-1');
+    expect(repo.deleteColumnMovingTasks).toHaveBeenCalledWith('project-1', 'col-1', null);
+  });
+});
+
+// ── reorderColumns ─────────────────────────────────────────────────────────────
+
+describe('ProjetoService.reorderColumns', () => {
+  const columns = [makeColumn({ id: 'a' }), makeColumn({ id: 'b' }), makeColumn({ id: 'c' })];
+
+  it('lança BadRequestException quando faltam colunas', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findColumns: jest.fn().mockResolvedValue(columns),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.reorderColumns('company-1', 'ws-1', 'project-1', { columnIds: ['b', 'a'] }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança BadRequestException com coluna de outro projeto', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findColumns: jest.fn().mockResolvedValue(columns),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.reorderColumns('company-1', 'ws-1', 'project-1', { columnIds: ['c', 'b', 'x'] }),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.reorderColumns).not.toHaveBeenCalled();
+  });
+
+  it('reordena atomicamente via repositório', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findColumns: jest.fn().mockResolvedValue(columns),
+      reorderColumns: jest.fn().mockResolvedValue([]),
+    });
+    const service = makeService(repo);
+    await service.reorderColumns('company-1', 'ws-1', 'project-1', { columnIds: ['c', 'a', 'b'] });
+    expect(repo.reorderColumns).toHaveBeenCalledWith('project-1', ['c', 'a', 'b']);
+  });
+});
+
+// ── addMember ──────────────────────────────────────────────────────────────────
+
+describe('ProjetoService.addMember', () => {
+  const dto = { userId: 'user-2', role: MembershipRole.project_editor } as const;
+
+  it('lança NotFoundException quando usuário não existe', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findUserById: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(service.addMember('company-1', 'ws-1', 'project-1', dto)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança BadRequestException quando usuário não pertence à empresa nem ao workspace', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-2' }),
+      findScopeMemberships: jest.fn().mockResolvedValue([]),
+    });
+    const service = makeService(repo);
+    await expect(service.addMember('company-1', 'ws-1', 'project-1', dto)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(repo.createProjectMembership).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando usuário já possui o mesmo papel', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-2' }),
+      findScopeMemberships: jest.fn().mockResolvedValue([{ id: 'm-company' }]),
+      findProjectMembership: jest
+        .fn()
+        .mockResolvedValue(makeProjectMembership({ role: MembershipRole.project_editor })),
+    });
+    const service = makeService(repo);
+    await expect(service.addMember('company-1', 'ws-1', 'project-1', dto)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('altera o papel quando usuário já é membro com outro papel', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-2' }),
+      findScopeMemberships: jest.fn().mockResolvedValue([{ id: 'm-company' }]),
+      findProjectMembership: jest.fn().mockResolvedValue(makeProjectMembership()),
+      updateMembershipRole: jest.fn().mockResolvedValue({}),
+    });
+    const service = makeService(repo);
+    await service.addMember('company-1', 'ws-1', 'project-1', dto);
+    expect(repo.updateMembershipRole).toHaveBeenCalledWith('mem-1', MembershipRole.project_editor);
+    expect(repo.createProjectMembership).not.toHaveBeenCalled();
+  });
+
+  it('cria membership de projeto para membro da empresa', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-2' }),
+      findScopeMemberships: jest.fn().mockResolvedValue([{ id: 'm-company' }]),
+      findProjectMembership: jest.fn().mockResolvedValue(null),
+      createProjectMembership: jest.fn().mockResolvedValue({}),
+    });
+    const service = makeService(repo);
+    await service.addMember('company-1', 'ws-1', 'project-1', dto);
+    expect(repo.createProjectMembership).toHaveBeenCalledWith(
+      'project-1',
+      'user-2',
+      MembershipRole.project_editor,
+    );
+  });
+});
+
+// ── removeMember ───────────────────────────────────────────────────────────────
+
+describe('ProjetoService.removeMember', () => {
+  it('lança NotFoundException quando usuário não é membro do projeto', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findProjectMembership: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(service.removeMember('company-1', 'ws-1', 'project-1', 'user-2')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('soft-deleta o membership do projeto', async () => {
+    const repo = makeRepo({
+      findProjectById: jest.fn().mockResolvedValue(makeProject()),
+      findProjectMembership: jest.fn().mockResolvedValue(makeProjectMembership()),
+    });
+    const service = makeService(repo);
+    await service.removeMember('company-1', 'ws-1', 'project-1', 'user-2');
+    expect(repo.softDeleteMembership).toHaveBeenCalledWith('mem-1');
+  });
+});
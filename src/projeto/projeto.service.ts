@@ -0,0 +1,326 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { Prisma } from '../generated/prisma/client';
+import { ProjetoRepository } from './projeto.repository';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { CreateColumnDto } from './dto/create-column.dto';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { ListProjectsQueryDto } from './dto/list-projects-query.dto';
+import { ReorderColumnsDto } from './dto/reorder-columns.dto';
+import { UpdateColumnDto } from './dto/update-column.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+
+/** Colunas criadas automaticamente em todo projeto novo */
+const DEFAULT_COLUMNS = [
+  { name: 'A fazer' },
+  { name: 'Em andamento' },
+  { name: 'Concluído', isDone: true },
+];
+
+@Injectable()
+export class ProjetoService {
+  constructor(
+    private readonly repo: ProjetoRepository,
+    @InjectPinoLogger(ProjetoService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se o workspace não existir nesta empresa */
+  private async assertWorkspace(companyId: string, workspaceId: string) {
+    const workspace = await this.repo.findWorkspaceById(workspaceId, companyId);
+    if (!workspace) {
+      throw new NotFoundException('Workspace não encontrado');
+    }
+    return workspace;
+  }
+
+  /** Lança NotFoundException se o projeto não existir neste workspace */
+  private async assertProject(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertWorkspace(companyId, workspaceId);
+
+    const project = await this.repo.findProjectById(projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundException('Projeto não encontrado');
+    }
+    return project;
+  }
+
+  // ── Projetos ──────────────────────────────────────────────────────────────────
+
+  async createProject(
+    companyId: string,
+    workspaceId: string,
+    dto: CreateProjectDto,
+    createdById: string,
+  ) {
+    await this.assertWorkspace(companyId, workspaceId);
+
+    const project = await this.repo.createProjectWithColumns(
+      {
+        workspaceId,
+        name: dto.name,
+        description: dto.description,
+        blockDoneWithOpenSubtasks: dto.blockDoneWithOpenSubtasks,
+        createdById,
+      },
+      DEFAULT_COLUMNS,
+    );
+
+    this.logger.info(
+      { companyId, workspaceId, projectId: project.id, createdById },
+      'Project created',
+    );
+    return project;
+  }
+
+  async listProjects(companyId: string, workspaceId: string, query: ListProjectsQueryDto) {
+    const { search, isActive, page = 1, limit = 20 } = query;
+
+    await this.assertWorkspace(companyId, workspaceId);
+
+    const where: Prisma.ProjectWhereInput = { workspaceId, deletedAt: null };
+
+    if (search) {
+      where.name = { contains: search, mode: 'insensitive' };
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [data, total] = await this.repo.findProjects(where, page, limit);
+    return { data, total, page, limit };
+  }
+
+  async getProject(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertWorkspace(companyId, workspaceId);
+
+    const project = await this.repo.findProjectByIdSelect(projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundException('Projeto não encontrado');
+    }
+
+    return project;
+  }
+
+  async updateProject(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    dto: UpdateProjectDto,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const updated = await this.repo.updateProject(projectId, dto);
+    this.logger.info({ companyId, workspaceId, projectId, changes: dto }, 'Project updated');
+    return updated;
+  }
+
+  async deactivateProject(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const updated = await this.repo.updateProject(projectId, { isActive: false });
+    this.logger.info({ companyId, workspaceId, projectId }, 'Project deactivated');
+    return updated;
+  }
+
+  async activateProject(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const updated = await this.repo.updateProject(projectId, { isActive: true });
+    this.logger.info({ companyId, workspaceId, projectId }, 'Project activated');
+    return updated;
+  }
+
+  async deleteProject(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    performedById: string,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    await this.repo.softDeleteProject(projectId);
+    this.logger.info({ companyId, workspaceId, projectId, performedById }, 'Project soft-deleted');
+  }
+
+  // ── Colunas ───────────────────────────────────────────────────────────────────
+
+  async listColumns(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertProject(companyId, workspaceId, projectId);
+    return this.repo.findColumns(projectId);
+  }
+
+  async createColumn(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    dto: CreateColumnDto,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const last = await this.repo.findLastColumn(projectId);
+    const column = await this.repo.createColumn({
+      projectId,
+      name: dto.name,
+      color: dto.color,
+      isDone: dto.isDone,
+      order: last ? last.order + 1 : 0,
+    });
+
+    this.logger.info({ companyId, projectId, columnId: column.id }, 'Column created');
+    return column;
+  }
+
+  async updateColumn(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    columnId: string,
+    dto: UpdateColumnDto,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const column = await this.repo.findColumnById(columnId, projectId);
+    if (!column) {
+      throw new NotFoundException('Coluna não encontrada');
+    }
+
+    const updated = await this.repo.updateColumn(columnId, dto);
+    this.logger.info({ companyId, projectId, columnId, changes: dto }, 'Column updated');
+    return updated;
+  }
+
+  async deleteColumn(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    columnId: string,
+    targetColumnId: string | undefined,
+    performedById: string,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    if (targetColumnId === columnId) {
+      throw new BadRequestException('A coluna de destino deve ser diferente da coluna removida');
+    }
+
+    const { tasksMoved, rejection } = await this.repo.deleteColumnMovingTasks(
+      projectId,
+      columnId,
+      targetColumnId ?? null,
+    );
+
+    if (rejection === 'column_not_found') {
+      throw new NotFoundException('Coluna não encontrada');
+    }
+    if (rejection === 'last_column') {
+      throw new BadRequestException('Não é possível remover a única coluna do projeto');
+    }
+    if (rejection === 'target_required') {
+      throw new BadRequestException(
+        'A coluna possui tarefas. Informe a coluna de destino (targetColumnId).',
+      );
+    }
+    if (rejection === 'target_not_found') {
+      throw new NotFoundException('Coluna de destino não encontrada neste projeto');
+    }
+
+    this.logger.info(
+      { companyId, projectId, columnId, targetColumnId, tasksMoved, performedById },
+      'Column soft-deleted',
+    );
+  }
+
+  async reorderColumns(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    dto: ReorderColumnsDto,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const columns = await this.repo.findColumns(projectId);
+    const currentIds = new Set(columns.map((c) => c.id));
+
+    if (
+      dto.columnIds.length !== currentIds.size ||
+      dto.columnIds.some((id) => !currentIds.has(id))
+    ) {
+      throw new BadRequestException('A nova ordem deve conter exatamente as colunas do projeto');
+    }
+
+    const reordered = await this.repo.reorderColumns(projectId, dto.columnIds);
+    this.logger.info({ companyId, projectId, columnIds: dto.columnIds }, 'Columns reordered');
+    return reordered;
+  }
+
+  // ── Membros ───────────────────────────────────────────────────────────────────
+
+  async listMembers(companyId: string, workspaceId: string, projectId: string) {
+    await this.assertProject(companyId, workspaceId, projectId);
+    return this.repo.findProjectMembers(projectId);
+  }
+
+  /** Adiciona o usuário ao projeto; se já for membro com outro papel, apenas troca o papel */
+  async addMember(
+    companyId: string,
+    workspaceId: string,
+    projectId: string,
+    dto: AddProjectMemberDto,
+  ) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const user = await this.repo.findUserById(dto.userId);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+
+    const scopeMemberships = await this.repo.findScopeMemberships(
+      dto.userId,
+      companyId,
+      workspaceId,
+    );
+    if (scopeMemberships.length === 0) {
+      throw new BadRequestException('Usuário não é membro desta empresa ou deste workspace');
+    }
+
+    const existing = await this.repo.findProjectMembership(projectId, dto.userId);
+    if (existing) {
+      if (existing.role === dto.role) {
+        throw new ConflictException('Usuário já possui este papel no projeto');
+      }
+
+      const updated = await this.repo.updateMembershipRole(existing.id, dto.role);
+      this.logger.info(
+        { companyId, projectId, userId: dto.userId, from: existing.role, to: dto.role },
+        'Project member role changed',
+      );
+      return updated;
+    }
+
+    const membership = await this.repo.createProjectMembership(projectId, dto.userId, dto.role);
+    this.logger.info(
+      { companyId, projectId, userId: dto.userId, role: dto.role },
+      'Project member added',
+    );
+    return membership;
+  }
+
+  async removeMember(companyId: string, workspaceId: string, projectId: string, userId: string) {
+    await this.assertProject(companyId, workspaceId, projectId);
+
+    const membership = await this.repo.findProjectMembership(projectId, userId);
+    if (!membership) {
+      throw new NotFoundException('Membro não encontrado neste projeto');
+    }
+
+    await this.repo.softDeleteMembership(membership.id);
+    this.logger.info({ companyId, projectId, userId }, 'Project member removed');
+  }
+}
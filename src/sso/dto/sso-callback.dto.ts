@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class SsoCallbackDto {
+  @ApiProperty({ description: 'Código de autorização devolvido pelo provedor' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({ description: 'Parâmetro state devolvido pelo provedor' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+}
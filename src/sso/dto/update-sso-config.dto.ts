@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsFQDN,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateSsoConfigDto {
+  @ApiProperty({
+    example: 'https://login.acme.com/realms/acme',
+    description: 'Issuer do provedor OIDC — usado para a descoberta em /.well-known',
+  })
+  @IsUrl({ require_tld: false, protocols: ['https', 'http'], require_protocol: true })
+  issuer: string;
+
+  @ApiProperty({ example: 'task-station' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  clientId: string;
+
+  @ApiPropertyOptional({
+    example: 's3cr3t',
+    description: 'Obrigatório na primeira configuração; sem o campo, mantém o segredo atual',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientSecret?: string;
+
+  @ApiProperty({
+    example: ['acme.com', 'acme.com.br'],
+    description: 'Somente emails desses domínios podem entrar pelo SSO',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsFQDN({}, { each: true })
+  allowedDomains: string[];
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Criar usuário e vínculo de membro no primeiro login de emails ainda não cadastrados',
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoProvision?: boolean;
+}
@@ -0,0 +1,273 @@
+import { BadGatewayException, Injectable, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+
+/** Por quanto tempo o documento de descoberta e as chaves do provedor ficam em memória */
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+/** Tolerância de relógio entre o provedor e o servidor ao validar a expiração */
+const CLOCK_SKEW_SECONDS = 60;
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+};
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * Cliente OpenID Connect mínimo para o fluxo authorization code com PKCE:
+ * descoberta, troca do código e validação do id_token com as chaves publicadas pelo provedor.
+ */
+@Injectable()
+export class OidcClient {
+  private readonly metadataCache = new Map<
+    string,
+    { metadata: OidcProviderMetadata; expiresAt: number }
+  >();
+  private readonly jwksCache = new Map<string, { keys: Jwk[]; expiresAt: number }>();
+
+  constructor(
+    @InjectPinoLogger(OidcClient.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  async discover(issuer: string): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata;
+    }
+
+    const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    const metadata = await this.fetchJson<OidcProviderMetadata>(url);
+
+    // O documento precisa declarar o mesmo issuer configurado (OIDC Discovery §4.3)
+    if (
+      metadata.issuer !== issuer ||
+      !metadata.authorization_endpoint ||
+      !metadata.token_endpoint ||
+      !metadata.jwks_uri
+    ) {
+      this.logger.warn({ issuer, discoveredIssuer: metadata.issuer }, 'Invalid OIDC discovery');
+      throw new BadGatewayException('Configuração do provedor de identidade inválida');
+    }
+
+    this.metadataCache.set(issuer, { metadata, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+    return metadata;
+  }
+
+  buildAuthorizationUrl(
+    metadata: OidcProviderMetadata,
+    params: {
+      clientId: string;
+      redirectUri: string;
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+      loginHint?: string;
+    },
+  ): string {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', params.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', 'openid email profile');
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', codeChallengeOf(params.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (params.loginHint) {
+      url.searchParams.set('login_hint', params.loginHint);
+    }
+    return url.toString();
+  }
+
+  /** Troca o código de autorização pelo id_token (autenticação client_secret_basic) */
+  async exchangeCode(
+    metadata: OidcProviderMetadata,
+    params: {
+      clientId: string;
+      clientSecret: string;
+      code: string;
+      redirectUri: string;
+      codeVerifier: string;
+    },
+  ): Promise<string> {
+    const credentials = Buffer.from(
+      `${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`,
+    ).toString('base64');
+
+    const response = await this.request(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        code_verifier: params.codeVerifier,
+      }).toString(),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id_token?: string;
+      error?: string;
+    };
+
+    if (!response.ok || !body.id_token) {
+      this.logger.warn(
+        { issuer: metadata.issuer, status: response.status, error: body.error },
+        'OIDC code exchange failed',
+      );
+      throw new UnauthorizedException('Não foi possível concluir o login com o provedor');
+    }
+
+    return body.id_token;
+  }
+
+  /** Valida assinatura, issuer, audience, expiração e nonce do id_token */
+  async verifyIdToken(
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    expected: { clientId: string; nonce: string },
+  ): Promise<OidcIdTokenClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+      throw this.invalidToken(metadata, 'malformed');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+    const claims = decodeSegment<OidcIdTokenClaims>(encodedPayload);
+    const algorithm = header?.alg ? SIGNATURE_ALGORITHMS[header.alg] : undefined;
+
+    if (!header || !claims || !algorithm) {
+      throw this.invalidToken(metadata, 'unsupported');
+    }
+
+    const jwk = await this.findSigningKey(metadata, header.kid);
+    let isValid = false;
+    try {
+      isValid = crypto.verify(
+        algorithm.hash,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        {
+          key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+          dsaEncoding: algorithm.dsaEncoding,
+        },
+        Buffer.from(encodedSignature, 'base64url'),
+      );
+    } catch {
+      // Chave incompatível com o algoritmo do cabeçalho
+    }
+    if (!isValid) {
+      throw this.invalidToken(metadata, 'signature');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== metadata.issuer) {
+      throw this.invalidToken(metadata, 'issuer');
+    }
+    if (!audiences.includes(expected.clientId)) {
+      throw this.invalidToken(metadata, 'audience');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw this.invalidToken(metadata, 'expired');
+    }
+    if (claims.nonce !== expected.nonce) {
+      throw this.invalidToken(metadata, 'nonce');
+    }
+
+    return claims;
+  }
+
+  /** Chave pelo kid; se não encontrada, recarrega o JWKS uma vez (rotação de chaves) */
+  private async findSigningKey(metadata: OidcProviderMetadata, kid?: string): Promise<Jwk> {
+    const pick = (keys: Jwk[]) =>
+      keys.find((k) => (k.use === undefined || k.use === 'sig') && (!kid || k.kid === kid));
+
+    const cached = this.jwksCache.get(metadata.jwks_uri);
+    const fromCache = cached && cached.expiresAt > Date.now() ? pick(cached.keys) : undefined;
+    if (fromCache) {
+      return fromCache;
+    }
+
+    const { keys = [] } = await this.fetchJson<{ keys?: Jwk[] }>(metadata.jwks_uri);
+    this.jwksCache.set(metadata.jwks_uri, { keys, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+
+    const key = pick(keys);
+    if (!key) {
+      throw this.invalidToken(metadata, 'unknown_key');
+    }
+    return key;
+  }
+
+  private invalidToken(metadata: OidcProviderMetadata, reason: string) {
+    this.logger.warn({ issuer: metadata.issuer, reason }, 'Invalid OIDC id_token');
+    return new UnauthorizedException('Token do provedor de identidade inválido');
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await this.request(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      this.logger.warn({ url, status: response.status }, 'OIDC provider request failed');
+      throw new BadGatewayException('Provedor de identidade indisponível');
+    }
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new BadGatewayException('Provedor de identidade indisponível');
+    }
+  }
+
+  private async request(url: string, init: RequestInit) {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    } catch (err: unknown) {
+      this.logger.warn({ url, err }, 'OIDC provider unreachable');
+      throw new BadGatewayException('Provedor de identidade indisponível');
+    }
+  }
+}
+
+export function codeChallengeOf(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
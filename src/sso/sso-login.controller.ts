@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorator';
+import { SsoCallbackDto } from './dto/sso-callback.dto';
+import { SsoService } from './sso.service';
+
+@ApiTags('auth')
+@Public()
+@Controller('auth/sso')
+export class SsoLoginController {
+  constructor(private readonly ssoService: SsoService) {}
+
+  @Get(':companyId/authorize')
+  @ApiOperation({ summary: 'Iniciar login SSO — retorna a URL de autorização do provedor' })
+  @ApiQuery({ name: 'email', required: false, description: 'Enviado ao provedor como login_hint' })
+  @ApiResponse({ status: 200, description: 'URL de autorização retornada' })
+  @ApiResponse({ status: 404, description: 'SSO não disponível para esta empresa' })
+  authorize(@Param('companyId') companyId: string, @Query('email') email?: string) {
+    return this.ssoService.authorize(companyId, email);
+  }
+
+  @Post('callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Concluir login SSO com o código e o state devolvidos pelo provedor' })
+  @ApiResponse({
+    status: 200,
+    description: 'JWT retornado com dados do usuário, ou challengeToken quando há 2FA',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'State inválido/expirado ou token do provedor inválido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Domínio não permitido, usuário fora da empresa ou superusuário',
+  })
+  callback(
+    @Body() dto: SsoCallbackDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.ssoService.callback(dto, { userAgent, ipAddress });
+  }
+}
@@ -0,0 +1,46 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Put } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { UpdateSsoConfigDto } from './dto/update-sso-config.dto';
+import { SsoService } from './sso.service';
+
+@ApiTags('empresa')
+@ApiBearerAuth()
+@Controller('empresa/:companyId/sso')
+export class SsoController {
+  constructor(private readonly ssoService: SsoService) {}
+
+  @Get()
+  @RequirePermission('company.security.manage')
+  @ApiOperation({ summary: 'Obter a configuração de SSO (OIDC) da empresa' })
+  @ApiResponse({ status: 200, description: 'Configuração atual — o segredo nunca é retornado' })
+  @ApiResponse({ status: 404, description: 'SSO não configurado' })
+  getConfig(@Param('companyId') companyId: string) {
+    return this.ssoService.getConfig(companyId);
+  }
+
+  @Put()
+  @RequirePermission('company.security.manage')
+  @ApiOperation({ summary: 'Configurar o SSO (OIDC) da empresa' })
+  @ApiResponse({ status: 200, description: 'Configuração salva' })
+  @ApiResponse({ status: 400, description: 'Provedor inacessível ou segredo ausente' })
+  updateConfig(
+    @Param('companyId') companyId: string,
+    @Body() dto: UpdateSsoConfigDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.ssoService.updateConfig(companyId, dto, user.id);
+  }
+
+  @Delete()
+  @RequirePermission('company.security.manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover a configuração de SSO da empresa' })
+  @ApiResponse({ status: 204, description: 'Configuração removida' })
+  @ApiResponse({ status: 404, description: 'SSO não configurado' })
+  deleteConfig(@Param('companyId') companyId: string, @CurrentUser() user: AuthUser) {
+    return this.ssoService.deleteConfig(companyId, user.id);
+  }
+}
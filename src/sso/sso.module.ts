@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { PolicyModule } from '../policy/policy.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { OidcClient } from './oidc.client';
+import { SsoLoginController } from './sso-login.controller';
+import { SsoController } from './sso.controller';
+import { SsoRepository } from './sso.repository';
+import { SsoService } from './sso.service';
+
+@Module({
+  imports: [PrismaModule, AuthModule, ConfigModule, PolicyModule],
+  controllers: [SsoController, SsoLoginController],
+  providers: [SsoRepository, SsoService, OidcClient],
+})
+export class SsoModule {}
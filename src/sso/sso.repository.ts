@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+@Injectable()
+export class SsoRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Configuração ──────────────────────────────────────────────────────────────
+
+  findCompanyById(companyId: string) {
+    return this.prisma.company.findFirst({ where: { id: companyId, deletedAt: null } });
+  }
+
+  findConfig(companyId: string) {
+    return this.prisma.companySsoConfig.findUnique({ where: { companyId } });
+  }
+
+  upsertConfig(
+    companyId: string,
+    data: Omit<Prisma.CompanySsoConfigUncheckedCreateInput, 'id' | 'companyId'>,
+  ) {
+    return this.prisma.companySsoConfig.upsert({
+      where: { companyId },
+      create: { companyId, ...data },
+      update: data,
+    });
+  }
+
+  deleteConfig(companyId: string) {
+    return this.prisma.companySsoConfig.deleteMany({ where: { companyId } });
+  }
+
+  // ── Fluxo de login ────────────────────────────────────────────────────────────
+
+  createLoginRequest(data: {
+    companyId: string;
+    stateHash: string;
+    nonce: string;
+    codeVerifier: string;
+    expiresAt: Date;
+  }) {
+    return this.prisma.oidcLoginRequest.create({ data });
+  }
+
+  /**
+   * Marca a solicitação como consumida e a retorna.
+   * Retorna null se o state não existir, já tiver sido usado ou estiver expirado.
+   */
+  consumeLoginRequest(stateHash: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.oidcLoginRequest.updateMany({
+        where: { stateHash, consumedAt: null, expiresAt: { gt: new Date() } },
+        data: { consumedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      return tx.oidcLoginRequest.findUnique({ where: { stateHash } });
+    });
+  }
+
+  // ── Usuários ──────────────────────────────────────────────────────────────────
+
+  findUserByEmail(email: string) {
+    return this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, deletedAt: null },
+    });
+  }
+
+  findCompanyMembership(userId: string, companyId: string) {
+    return this.prisma.membership.findFirst({
+      where: {
+        userId,
+        resourceType: ResourceType.company,
+        resourceId: companyId,
+        role: { not: MembershipRole.custom },
+        deletedAt: null,
+      },
+    });
+  }
+
+  /** Cria o usuário e o vínculo de membro da empresa em uma transação */
+  createUserWithCompanyMembership(
+    companyId: string,
+    data: { email: string; name: string; passwordHash: string },
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({ data: { ...data, mustResetPassword: false } });
+
+      await tx.membership.create({
+        data: {
+          userId: user.id,
+          resourceType: ResourceType.company,
+          resourceId: companyId,
+          role: MembershipRole.member,
+        },
+      });
+
+      return user;
+    });
+  }
+}
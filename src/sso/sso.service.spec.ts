@@ -0,0 +1,474 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { decryptSecret, encryptSecret } from '../common/crypto/secret-cipher';
+import { OidcClient } from './oidc.client';
+import { SsoRepository } from './sso.repository';
+import { SsoService } from './sso.service';
+
+// ── provedor OIDC local ────────────────────────────────────────────────────────
+
+const CLIENT_ID = 'task-station';
+const CLIENT_SECRET = 'provider-secret';
+const ENCRYPTION_KEY = 'test-sso-key';
+const REDIRECT_URI = 'http://app.test/sso/callback';
+
+interface IssuedCode {
+  claims: Record<string, unknown>;
+  codeChallenge: string;
+  signingKey?: crypto.KeyObject;
+}
+
+/**
+ * Provedor mínimo: descoberta, JWKS e token endpoint com PKCE e client_secret_basic.
+ * Os códigos são emitidos pelo teste no lugar da tela de login do provedor.
+ */
+class MockOidcProvider {
+  readonly keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly codes = new Map<string, IssuedCode>();
+  private server!: http.Server;
+  issuer = '';
+
+  async start() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Simula o usuário autenticando no provedor a partir da URL de autorização */
+  issueCode(
+    authorizationUrl: string,
+    claims: Record<string, unknown> = {},
+    signingKey?: crypto.KeyObject,
+  ) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = crypto.randomBytes(8).toString('hex');
+    this.codes.set(code, {
+      claims: { nonce: params.get('nonce'), ...claims },
+      codeChallenge: params.get('code_challenge') ?? '',
+      signingKey,
+    });
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return reply(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.url === '/jwks') {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      return reply(200, { keys: [{ ...jwk, kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+      req.on('end', () => {
+        const body = new URLSearchParams(raw);
+        const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+        if (req.headers.authorization !== expectedAuth) {
+          return reply(401, { error: 'invalid_client' });
+        }
+
+        const issued = this.codes.get(body.get('code') ?? '');
+        this.codes.delete(body.get('code') ?? '');
+        const challenge = crypto
+          .createHash('sha256')
+          .update(body.get('code_verifier') ?? '')
+          .digest('base64url');
+
+        if (
+          !issued ||
+          issued.codeChallenge !== challenge ||
+          body.get('redirect_uri') !== REDIRECT_URI
+        ) {
+          return reply(400, { error: 'invalid_grant' });
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const idToken = this.sign(
+          {
+            iss: this.issuer,
+            aud: CLIENT_ID,
+            sub: 'subject-1',
+            iat: now,
+            exp: now + 300,
+            email: 'joao@acme.com',
+            email_verified: true,
+            name: 'João Silva',
+            ...issued.claims,
+          },
+          issued.signingKey ?? this.keys.privateKey,
+        );
+        return reply(200, { access_token: 'at', token_type: 'Bearer', id_token: idToken });
+      });
+      return;
+    }
+
+    reply(404, { error: 'not_found' });
+  }
+
+  private sign(claims: Record<string, unknown>, key: crypto.KeyObject) {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'key-1' })}.${encode(claims)}`;
+    return `${input}.${crypto.sign('sha256', Buffer.from(input), key).toString('base64url')}`;
+  }
+}
+
+const provider = new MockOidcProvider();
+
+beforeAll(() => provider.start());
+afterAll(() => provider.stop());
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function makeConfig(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sso-1',
+    companyId: 'company-1',
+    issuer: provider.issuer,
+    clientId: CLIENT_ID,
+    clientSecret: encryptSecret(CLIENT_SECRET, ENCRYPTION_KEY),
+    allowedDomains: ['acme.com'],
+    enabled: true,
+    autoProvision: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    email: 'joao@acme.com',
+    name: 'João',
+    isSuperuser: false,
+    mustResetPassword: false,
+    isActive: true,
+    tokenVersion: 0,
+    totpEnabledAt: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(overrides: Partial<Record<keyof SsoRepository, jest.Mock>> = {}) {
+  const requests = new Map<string, Record<string, unknown>>();
+  return {
+    findCompanyById: jest.fn().mockResolvedValue({ id: 'company-1', isActive: true }),
+    findConfig: jest.fn().mockImplementation(() => Promise.resolve(makeConfig())),
+    upsertConfig: jest.fn((companyId: string, data: Record<string, unknown>) =>
+      Promise.resolve(makeConfig({ companyId, ...data })),
+    ),
+    deleteConfig: jest.fn().mockResolvedValue({ count: 1 }),
+    createLoginRequest: jest.fn((data: Record<string, unknown>) => {
+      requests.set(data.stateHash as string, data);
+      return Promise.resolve(data);
+    }),
+    consumeLoginRequest: jest.fn((stateHash: string) => {
+      const request = requests.get(stateHash) ?? null;
+      requests.delete(stateHash);
+      return Promise.resolve(request);
+    }),
+    findUserByEmail: jest.fn().mockResolvedValue(makeUser()),
+    findCompanyMembership: jest.fn().mockResolvedValue({ id: 'membership-1' }),
+    createUserWithCompanyMembership: jest.fn((_companyId: string, data: Record<string, unknown>) =>
+      Promise.resolve(makeUser({ id: 'user-new', ...data })),
+    ),
+    ...overrides,
+  } as unknown as jest.Mocked<SsoRepository>;
+}
+
+function makeService(repo: jest.Mocked<SsoRepository>) {
+  const env: Record<string, string> = {
+    FRONTEND_URL: 'http://app.test',
+    SSO_ENCRYPTION_KEY: ENCRYPTION_KEY,
+  };
+  const configService = {
+    get: jest.fn((key: string) => env[key]),
+    getOrThrow: jest.fn((key: string) => env[key]),
+  } as unknown as ConfigService;
+  const twoFactorService = {
+    loginWithPassword: jest.fn().mockResolvedValue({ accessToken: 'jwt' }),
+  } as unknown as jest.Mocked<TwoFactorService>;
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+  const service = new SsoService(
+    repo,
+    new OidcClient(logger as any),
+    twoFactorService,
+    configService,
+    logger as any,
+  );
+  return { service, twoFactorService };
+}
+
+/** Executa o fluxo completo: authorize → login no provedor → callback */
+async function loginThroughProvider(
+  service: SsoService,
+  claims: Record<string, unknown> = {},
+  signingKey?: crypto.KeyObject,
+) {
+  const { authorizationUrl } = await service.authorize('company-1');
+  const { code, state } = provider.issueCode(authorizationUrl, claims, signingKey);
+  return service.callback({ code, state }, { ipAddress: '10.0.0.1' });
+}
+
+// ── authorize ──────────────────────────────────────────────────────────────────
+
+describe('SsoService.authorize', () => {
+  it('retorna a URL do provedor com state, nonce e PKCE S256', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    const { authorizationUrl } = await service.authorize('company-1', 'joao@acme.com');
+
+    const url = new URL(authorizationUrl);
+    expect(`${url.origin}${url.pathname}`).toBe(`${provider.issuer}/authorize`);
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+    expect(url.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('login_hint')).toBe('joao@acme.com');
+
+    const stored = repo.createLoginRequest.mock.calls[0][0];
+    const state = url.searchParams.get('state') ?? '';
+    expect(stored.stateHash).toBe(crypto.createHash('sha256').update(state).digest('hex'));
+    expect(stored.nonce).toBe(url.searchParams.get('nonce'));
+    expect(url.searchParams.get('code_challenge')).toBe(
+      crypto.createHash('sha256').update(stored.codeVerifier).digest('base64url'),
+    );
+  });
+
+  it('lança NotFoundException quando o SSO está desativado', async () => {
+    const repo = makeRepo({
+      findConfig: jest.fn().mockResolvedValue(makeConfig({ enabled: false })),
+    });
+    await expect(makeService(repo).service.authorize('company-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
+
+// ── callback ───────────────────────────────────────────────────────────────────
+
+describe('SsoService.callback', () => {
+  it('autentica usuário existente que já é membro da empresa', async () => {
+    const repo = makeRepo();
+    const { service, twoFactorService } = makeService(repo);
+
+    await expect(loginThroughProvider(service)).resolves.toEqual({ accessToken: 'jwt' });
+    expect(repo.findUserByEmail).toHaveBeenCalledWith('joao@acme.com');
+    expect(repo.findCompanyMembership).toHaveBeenCalledWith('user-1', 'company-1');
+    expect(twoFactorService.loginWithPassword).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1' }),
+      { ipAddress: '10.0.0.1' },
+    );
+  });
+
+  it('mesmo com autoProvision, rejeita usuário existente que não é membro da empresa', async () => {
+    const repo = makeRepo({ findCompanyMembership: jest.fn().mockResolvedValue(null) });
+    const { service, twoFactorService } = makeService(repo);
+
+    await expect(loginThroughProvider(service)).rejects.toThrow(ForbiddenException);
+    expect(repo.createUserWithCompanyMembership).not.toHaveBeenCalled();
+    expect(twoFactorService.loginWithPassword).not.toHaveBeenCalled();
+  });
+
+  it('rejeita superusuário, mesmo que seja membro da empresa', async () => {
+    const repo = makeRepo({
+      findUserByEmail: jest.fn().mockResolvedValue(makeUser({ isSuperuser: true })),
+    });
+    const { service, twoFactorService } = makeService(repo);
+
+    await expect(loginThroughProvider(service)).rejects.toThrow(ForbiddenException);
+    expect(twoFactorService.loginWithPassword).not.toHaveBeenCalled();
+  });
+
+  it('encaminha usuário com 2FA ativo para o desafio em vez de emitir tokens', async () => {
+    const challenge = { twoFactorRequired: true, challengeToken: 'challenge' };
+    const repo = makeRepo({
+      findUserByEmail: jest.fn().mockResolvedValue(makeUser({ totpEnabledAt: NOW })),
+    });
+    const { service, twoFactorService } = makeService(repo);
+    twoFactorService.loginWithPassword.mockResolvedValue(challenge);
+
+    await expect(loginThroughProvider(service)).resolves.toEqual(challenge);
+    expect(twoFactorService.loginWithPassword).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1', totpEnabledAt: NOW }),
+      expect.anything(),
+    );
+  });
+
+  it('cria usuário e vínculo de membro no primeiro login', async () => {
+    const repo = makeRepo({ findUserByEmail: jest.fn().mockResolvedValue(null) });
+    const { service, twoFactorService } = makeService(repo);
+
+    await loginThroughProvider(service, { email: 'Maria@ACME.com', name: 'Maria Costa' });
+    expect(repo.createUserWithCompanyMembership).toHaveBeenCalledWith(
+      'company-1',
+      expect.objectContaining({ email: 'maria@acme.com', name: 'Maria Costa' }),
+    );
+    expect(twoFactorService.loginWithPassword).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-new' }),
+      expect.anything(),
+    );
+  });
+
+  it('sem autoProvision, rejeita email ainda não cadastrado', async () => {
+    const repo = makeRepo({
+      findConfig: jest.fn().mockResolvedValue(makeConfig({ autoProvision: false })),
+      findUserByEmail: jest.fn().mockResolvedValue(null),
+    });
+    await expect(loginThroughProvider(makeService(repo).service)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(repo.createUserWithCompanyMembership).not.toHaveBeenCalled();
+  });
+
+  it('rejeita email de domínio não permitido', async () => {
+    const repo = makeRepo();
+    await expect(
+      loginThroughProvider(makeService(repo).service, { email: 'joao@other.com' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(repo.findUserByEmail).not.toHaveBeenCalled();
+  });
+
+  it('rejeita email não verificado pelo provedor', async () => {
+    const repo = makeRepo();
+    await expect(
+      loginThroughProvider(makeService(repo).service, { email_verified: false }),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita usuário inativo', async () => {
+    const repo = makeRepo({
+      findUserByEmail: jest.fn().mockResolvedValue(makeUser({ isActive: false })),
+    });
+    await expect(loginThroughProvider(makeService(repo).service)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejeita state desconhecido ou já utilizado', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    const { authorizationUrl } = await service.authorize('company-1');
+    const { code, state } = provider.issueCode(authorizationUrl);
+
+    await service.callback({ code, state });
+    await expect(service.callback({ code, state })).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita id_token assinado por outra chave', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const repo = makeRepo();
+    await expect(loginThroughProvider(makeService(repo).service, {}, privateKey)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejeita id_token com nonce diferente', async () => {
+    const repo = makeRepo();
+    await expect(
+      loginThroughProvider(makeService(repo).service, { nonce: 'other' }),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita id_token emitido para outro cliente', async () => {
+    const repo = makeRepo();
+    await expect(
+      loginThroughProvider(makeService(repo).service, { aud: 'other-client' }),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejeita quando o provedor recusa o segredo do cliente', async () => {
+    const repo = makeRepo({
+      findConfig: jest
+        .fn()
+        .mockResolvedValue(makeConfig({ clientSecret: encryptSecret('wrong', ENCRYPTION_KEY) })),
+    });
+    await expect(loginThroughProvider(makeService(repo).service)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
+
+// ── configuração ───────────────────────────────────────────────────────────────
+
+describe('SsoService.updateConfig', () => {
+  const dto = () => ({
+    issuer: provider.issuer,
+    clientId: CLIENT_ID,
+    clientSecret: 'new-secret',
+    allowedDomains: ['ACME.com', 'acme.com.br'],
+  });
+
+  it('salva o segredo cifrado e nunca o retorna', async () => {
+    const repo = makeRepo({ findConfig: jest.fn().mockResolvedValue(null) });
+    const result = await makeService(repo).service.updateConfig('company-1', dto(), 'admin-1');
+
+    const data = repo.upsertConfig.mock.calls[0][1];
+    expect(decryptSecret(data.clientSecret, ENCRYPTION_KEY)).toBe('new-secret');
+    expect(data.allowedDomains).toEqual(['acme.com', 'acme.com.br']);
+    expect(result).not.toHaveProperty('clientSecret');
+    expect(result.hasClientSecret).toBe(true);
+  });
+
+  it('mantém o segredo atual quando não informado', async () => {
+    const repo = makeRepo();
+    await makeService(repo).service.updateConfig(
+      'company-1',
+      { ...dto(), clientSecret: undefined },
+      'admin-1',
+    );
+    const data = repo.upsertConfig.mock.calls[0][1];
+    expect(decryptSecret(data.clientSecret, ENCRYPTION_KEY)).toBe(CLIENT_SECRET);
+  });
+
+  it('exige o segredo na primeira configuração', async () => {
+    const repo = makeRepo({ findConfig: jest.fn().mockResolvedValue(null) });
+    await expect(
+      makeService(repo).service.updateConfig(
+        'company-1',
+        { ...dto(), clientSecret: undefined },
+        'admin-1',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejeita issuer sem documento de descoberta', async () => {
+    const repo = makeRepo();
+    await expect(
+      makeService(repo).service.updateConfig(
+        'company-1',
+        { ...dto(), issuer: `${provider.issuer}/unknown` },
+        'admin-1',
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.upsertConfig).not.toHaveBeenCalled();
+  });
+});
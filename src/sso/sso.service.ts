@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { SessionContext } from '../auth/auth.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { decryptSecret, encryptSecret } from '../common/crypto/secret-cipher';
+import { CompanySsoConfig } from '../generated/prisma/client';
+import { SsoCallbackDto } from './dto/sso-callback.dto';
+import { UpdateSsoConfigDto } from './dto/update-sso-config.dto';
+import { OidcClient, OidcIdTokenClaims } from './oidc.client';
+import { SsoRepository } from './sso.repository';
+
+/** Validade do state/nonce entre o redirecionamento ao provedor e o callback */
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class SsoService {
+  constructor(
+    private readonly repo: SsoRepository,
+    private readonly oidcClient: OidcClient,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly configService: ConfigService,
+    @InjectPinoLogger(SsoService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  // ── Configuração ──────────────────────────────────────────────────────────────
+
+  async getConfig(companyId: string) {
+    const config = await this.repo.findConfig(companyId);
+    if (!config) {
+      throw new NotFoundException('SSO não configurado para esta empresa');
+    }
+    return toConfigView(config);
+  }
+
+  /** Valida o issuer pela descoberta antes de salvar; o segredo é guardado cifrado */
+  async updateConfig(companyId: string, dto: UpdateSsoConfigDto, performedById: string) {
+    const company = await this.repo.findCompanyById(companyId);
+    if (!company) {
+      throw new NotFoundException('Empresa não encontrada');
+    }
+
+    const current = await this.repo.findConfig(companyId);
+    const clientSecret = dto.clientSecret
+      ? encryptSecret(dto.clientSecret, this.encryptionKey())
+      : current?.clientSecret;
+    if (!clientSecret) {
+      throw new BadRequestException('clientSecret é obrigatório na primeira configuração');
+    }
+
+    const { issuer } = dto;
+    try {
+      await this.oidcClient.discover(issuer);
+    } catch (err) {
+      if (err instanceof HttpException) {
+        throw new BadRequestException(
+          'Não foi possível carregar a configuração do provedor de identidade',
+        );
+      }
+      throw err;
+    }
+
+    const updated = await this.repo.upsertConfig(companyId, {
+      issuer,
+      clientId: dto.clientId,
+      clientSecret,
+      allowedDomains: [...new Set(dto.allowedDomains.map((d) => d.toLowerCase()))],
+      enabled: dto.enabled ?? current?.enabled ?? true,
+      autoProvision: dto.autoProvision ?? current?.autoProvision ?? true,
+    });
+
+    this.logger.info(
+      {
+        companyId,
+        issuer,
+        enabled: updated.enabled,
+        secretRotated: !!dto.clientSecret,
+        performedById,
+      },
+      'Company SSO configuration updated',
+    );
+    return toConfigView(updated);
+  }
+
+  async deleteConfig(companyId: string, performedById: string) {
+    const { count } = await this.repo.deleteConfig(companyId);
+    if (count === 0) {
+      throw new NotFoundException('SSO não configurado para esta empresa');
+    }
+    this.logger.info({ companyId, performedById }, 'Company SSO configuration removed');
+  }
+
+  // ── Fluxo de login ────────────────────────────────────────────────────────────
+
+  /** Gera state, nonce e PKCE e retorna a URL de autorização do provedor */
+  async authorize(companyId: string, loginHint?: string) {
+    const config = await this.findEnabledConfig(companyId);
+    const metadata = await this.oidcClient.discover(config.issuer);
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+
+    await this.repo.createLoginRequest({
+      companyId,
+      stateHash: hashState(state),
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + LOGIN_REQUEST_TTL_MS),
+    });
+
+    const authorizationUrl = this.oidcClient.buildAuthorizationUrl(metadata, {
+      clientId: config.clientId,
+      redirectUri: this.redirectUri(),
+      state,
+      nonce,
+      codeVerifier,
+      loginHint,
+    });
+
+    return { authorizationUrl };
+  }
+
+  /**
+   * Conclui o login: troca o código, valida o id_token e vincula o usuário pelo email.
+   * Usuários com 2FA (ou em empresas que o exigem) recebem o mesmo desafio do login por senha.
+   */
+  async callback(dto: SsoCallbackDto, context: SessionContext = {}) {
+    const request = await this.repo.consumeLoginRequest(hashState(dto.state));
+    if (!request) {
+      this.logger.warn('SSO callback with invalid or expired state');
+      throw new UnauthorizedException('Solicitação de login inválida ou expirada');
+    }
+
+    const config = await this.findEnabledConfig(request.companyId);
+    const metadata = await this.oidcClient.discover(config.issuer);
+
+    const idToken = await this.oidcClient.exchangeCode(metadata, {
+      clientId: config.clientId,
+      clientSecret: decryptSecret(config.clientSecret, this.encryptionKey()),
+      code: dto.code,
+      redirectUri: this.redirectUri(),
+      codeVerifier: request.codeVerifier,
+    });
+    const claims = await this.oidcClient.verifyIdToken(metadata, idToken, {
+      clientId: config.clientId,
+      nonce: request.nonce,
+    });
+
+    const email = this.assertAllowedEmail(config, claims);
+    const user = await this.resolveUser(config, email, claims);
+
+    this.logger.info(
+      { userId: user.id, companyId: config.companyId, subject: claims.sub },
+      'User authenticated via SSO',
+    );
+    return this.twoFactorService.loginWithPassword(user, context);
+  }
+
+  private assertAllowedEmail(config: CompanySsoConfig, claims: OidcIdTokenClaims) {
+    const email = claims.email?.trim().toLowerCase();
+    if (!email) {
+      throw new UnauthorizedException('O provedor de identidade não informou o email');
+    }
+
+    if (claims.email_verified === false || claims.email_verified === 'false') {
+      this.logger.warn({ companyId: config.companyId, email }, 'SSO email not verified');
+      throw new UnauthorizedException('Email não verificado pelo provedor de identidade');
+    }
+
+    const domain = email.split('@')[1];
+    if (!config.allowedDomains.includes(domain)) {
+      this.logger.warn({ companyId: config.companyId, email }, 'SSO email domain not allowed');
+      throw new ForbiddenException('Domínio de email não permitido para esta empresa');
+    }
+
+    return email;
+  }
+
+  /**
+   * Vincula ao usuário existente somente se ele já for membro ativo da empresa; contas de
+   * fora da empresa e superusuários não entram pelo SSO. Com autoProvision, emails ainda
+   * não cadastrados ganham usuário e vínculo de membro.
+   */
+  private async resolveUser(config: CompanySsoConfig, email: string, claims: OidcIdTokenClaims) {
+    const { companyId } = config;
+    const existing = await this.repo.findUserByEmail(email);
+
+    if (existing) {
+      if (!existing.isActive) {
+        throw new UnauthorizedException('Usuário inativo');
+      }
+
+      if (existing.isSuperuser) {
+        this.logger.warn({ userId: existing.id, companyId }, 'SSO login refused for superuser');
+        throw new ForbiddenException('Superusuários não podem entrar pelo SSO da empresa');
+      }
+
+      const membership = await this.repo.findCompanyMembership(existing.id, companyId);
+      if (!membership) {
+        this.logger.warn({ userId: existing.id, companyId }, 'SSO login refused for non-member');
+        throw new ForbiddenException('Usuário não pertence a esta empresa');
+      }
+      return existing;
+    }
+
+    if (!config.autoProvision) {
+      throw new ForbiddenException('Usuário não pertence a esta empresa');
+    }
+
+    // Senha aleatória: o usuário entra pelo SSO e pode definir uma senha via "esqueci a senha"
+    const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+    const user = await this.repo.createUserWithCompanyMembership(companyId, {
+      email,
+      name: claims.name?.trim() || email.split('@')[0],
+      passwordHash,
+    });
+
+    this.logger.info({ userId: user.id, companyId }, 'User provisioned via SSO');
+    return user;
+  }
+
+  private async findEnabledConfig(companyId: string) {
+    const [company, config] = await Promise.all([
+      this.repo.findCompanyById(companyId),
+      this.repo.findConfig(companyId),
+    ]);
+
+    if (!company || !company.isActive || !config || !config.enabled) {
+      throw new NotFoundException('SSO não disponível para esta empresa');
+    }
+    return config;
+  }
+
+  private redirectUri() {
+    return (
+      this.configService.get<string>('SSO_REDIRECT_URL') ??
+      `${this.configService.getOrThrow<string>('FRONTEND_URL')}/sso/callback`
+    );
+  }
+
+  private encryptionKey() {
+    return this.configService.getOrThrow<string>('SSO_ENCRYPTION_KEY');
+  }
+}
+
+function toConfigView(config: CompanySsoConfig) {
+  return {
+    issuer: config.issuer,
+    clientId: config.clientId,
+    hasClientSecret: !!config.clientSecret,
+    allowedDomains: config.allowedDomains,
+    enabled: config.enabled,
+    autoProvision: config.autoProvision,
+    updatedAt: config.updatedAt,
+  };
+}
+
+function randomToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashState(state: string) {
+  return crypto.createHash('sha256').update(state).digest('hex');
+}
@@ -1,5 +1,5 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 
 export class UpdateCompanyDto {
   @ApiPropertyOptional({ example: 'Acme S.A.' })
@@ -13,4 +13,9 @@ export class UpdateCompanyDto {
   @IsString()
   @IsNotEmpty()
   taxId?: string;
+
+  @ApiPropertyOptional({ description: 'Exigir autenticação em dois fatores de todos os membros' })
+  @IsOptional()
+  @IsBoolean()
+  requireTwoFactor?: boolean;
 }
@@ -7,7 +7,9 @@ export class UpdateProfileDto {
   @IsString()
   name?: string;
 
-  @ApiPropertyOptional({ description: 'Email (deve ser único)' })
+  @ApiPropertyOptional({
+    description: 'Novo email — aplicado somente após confirmação pelo link enviado a ele',
+  })
   @IsOptional()
   @IsEmail()
   email?: string;
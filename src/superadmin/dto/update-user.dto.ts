@@ -12,7 +12,9 @@ export class UpdateUserDto {
   @IsString()
   name?: string;
 
-  @ApiPropertyOptional({ description: 'Email do usuário (deve ser único)' })
+  @ApiPropertyOptional({
+    description: 'Novo email — aplicado somente após confirmação pelo link enviado a ele',
+  })
   @IsOptional()
   @IsEmail()
   email?: string;
@@ -3,18 +3,19 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
   HttpCode,
   HttpStatus,
+  Ip,
   Param,
   Patch,
   Post,
   Query,
-  UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { AuthUser } from '../auth/strategies/jwt.strategy';
-import { SuperuserGuard } from './guards/superuser.guard';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
 import { SuperadminService } from './superadmin.service';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { ListCompaniesQueryDto } from './dto/list-companies-query.dto';
@@ -25,7 +26,7 @@ import { UpdateUserDto } from './dto/update-user.dto';
 
 @ApiTags('superadmin')
 @ApiBearerAuth()
-@UseGuards(SuperuserGuard)
+@RequirePermission('platform.manage')
 @Controller('superadmin')
 export class SuperadminController {
   constructor(private readonly superadminService: SuperadminService) {}
@@ -152,4 +153,70 @@ export class SuperadminController {
   getMagicLink(@Param('id') id: string) {
     return this.superadminService.getMagicLink(id);
   }
+
+  @Get('usuarios/:id/sessoes')
+  @ApiOperation({ summary: 'Listar sessões ativas de um usuário' })
+  @ApiResponse({ status: 200, description: 'Sessões ativas do usuário' })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
+  listUserSessions(@Param('id') id: string) {
+    return this.superadminService.listUserSessions(id);
+  }
+
+  @Delete('usuarios/:id/sessoes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revogar todas as sessões de um usuário' })
+  @ApiResponse({ status: 200, description: 'Sessões revogadas — retorna a quantidade' })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
+  revokeUserSessions(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.superadminService.revokeUserSessions(id, user.id);
+  }
+
+  @Delete('usuarios/:id/sessoes/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revogar uma sessão de um usuário' })
+  @ApiResponse({ status: 204, description: 'Sessão revogada' })
+  @ApiResponse({ status: 404, description: 'Usuário ou sessão não encontrados' })
+  async revokeUserSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.superadminService.revokeUserSession(id, sessionId, user.id);
+  }
+
+  @Post('usuarios/:id/desbloquear')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Desbloquear login de um usuário bloqueado por tentativas inválidas' })
+  @ApiResponse({ status: 204, description: 'Conta desbloqueada' })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
+  async unlockUser(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    await this.superadminService.unlockUser(id, user.id);
+  }
+
+  @Post('usuarios/:id/personificar')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Personificar um usuário (token de curta duração)' })
+  @ApiResponse({ status: 200, description: 'Token de acesso com o claim do personificador' })
+  @ApiResponse({ status: 400, description: 'Usuário inativo ou o próprio superadmin' })
+  @ApiResponse({ status: 403, description: 'Não é permitido personificar um superadmin' })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
+  impersonateUser(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.superadminService.impersonateUser(id, user.id, { userAgent, ipAddress });
+  }
+
+  @Get('usuarios/:id/personificacoes')
+  @ApiOperation({ summary: 'Histórico de personificações de um usuário' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessões de personificação com o superadmin responsável',
+  })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado' })
+  listUserImpersonations(@Param('id') id: string) {
+    return this.superadminService.listUserImpersonations(id);
+  }
 }
@@ -30,6 +30,7 @@ export class SuperadminRepository {
         legalName: true,
         taxId: true,
         isActive: true,
+        requireTwoFactor: true,
         createdAt: true,
         updatedAt: true,
         createdBy: { select: { id: true, name: true, email: true } },
@@ -94,6 +95,7 @@ export class SuperadminRepository {
         isActive: true,
         isSuperuser: true,
         mustResetPassword: true,
+        totpEnabledAt: true,
         createdAt: true,
         updatedAt: true,
         memberships: {
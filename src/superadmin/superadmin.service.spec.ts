@@ -100,7 +100,18 @@ function makeService(
     generateFirstAccessToken: jest.fn().mockResolvedValue('raw-token-abc'),
     invalidateUserCredentials: jest.fn().mockResolvedValue('raw-token-abc'),
     getOrRegenerateFirstAccessToken: jest.fn().mockResolvedValue('raw-token-abc'),
+    listSessions: jest.fn().mockResolvedValue([]),
+    revokeSession: jest.fn().mockResolvedValue(undefined),
+    revokeOtherSessions: jest.fn().mockResolvedValue({ revoked: 2 }),
+    revokeUserTokens: jest.fn().mockResolvedValue(undefined),
+    requestEmailChange: jest.fn((_userId: string, email: string) =>
+      Promise.resolve({ pendingEmail: email, expiresAt: NOW }),
+    ),
+    startImpersonation: jest.fn().mockResolvedValue({ access_token: 'jwt-imp' }),
+    listImpersonations: jest.fn().mockResolvedValue([]),
   };
+  const authThrottle = { unlockAccount: jest.fn().mockResolvedValue(undefined) };
+  const passwordPolicy = { assertPasswordAllowed: jest.fn().mockResolvedValue(undefined) };
   const configService = {
     get: jest.fn((key: string, fallback?: unknown) => {
       const map: Record<string, unknown> = {
@@ -124,11 +135,15 @@ function makeService(
       repo,
       mailerService as any,
       authService as any,
+      authThrottle as any,
+      passwordPolicy as any,
       configService,
       logger as any,
     ),
     mailerService,
     authService,
+    authThrottle,
+    passwordPolicy,
   };
 }
 
@@ -374,6 +389,46 @@ describe('SuperadminService.updateUser', () => {
     ).rejects.toThrow(ConflictException);
   });
 
+  it('não altera o email diretamente — inicia a confirmação pelo novo endereço', async () => {
+    const repo = makeRepo({
+      findUserById: jest.fn().mockResolvedValue(makeUser({ email: 'old@x.com' })),
+      findUserByEmailExcluding: jest.fn().mockResolvedValue(null),
+      updateUser: jest.fn().mockResolvedValue({ id: 'user-1', email: 'old@x.com' }),
+    });
+    const { service, authService } = makeService(repo);
+    const result = await service.updateUser(
+      'user-1',
+      { email: 'new@x.com', name: 'Novo' },
+      'super-1',
+    );
+
+    expect(authService.requestEmailChange).toHaveBeenCalledWith('user-1', 'new@x.com', {
+      performedById: 'super-1',
+    });
+    expect(repo.updateUser.mock.calls[0][1]).toEqual({ name: 'Novo' });
+    expect(result).toEqual(expect.objectContaining({ pendingEmail: 'new@x.com' }));
+  });
+
+  it('revoga os tokens do usuário ao inativá-lo', async () => {
+    const repo = makeRepo({
+      findUserById: jest.fn().mockResolvedValue(makeUser()),
+      updateUser: jest.fn().mockResolvedValue({}),
+    });
+    const { service, authService } = makeService(repo);
+    await service.updateUser('user-1', { isActive: false }, 'super-1');
+    expect(authService.revokeUserTokens).toHaveBeenCalledWith('user-1', 'super-1');
+  });
+
+  it('não revoga tokens quando apenas dados cadastrais mudam', async () => {
+    const repo = makeRepo({
+      findUserById: jest.fn().mockResolvedValue(makeUser()),
+      updateUser: jest.fn().mockResolvedValue({}),
+    });
+    const { service, authService } = makeService(repo);
+    await service.updateUser('user-1', { name: 'Novo Nome' }, 'super-1');
+    expect(authService.revokeUserTokens).not.toHaveBeenCalled();
+  });
+
   it('seta mustResetPassword=true quando senha é redefinida pelo superadmin', async () => {
     const user = makeUser();
     const repo = makeRepo({
@@ -422,6 +477,20 @@ describe('SuperadminService.updateProfile', () => {
     );
   });
 
+  it('inicia a confirmação do novo email sem aplicá-lo', async () => {
+    const repo = makeRepo({
+      findUserById: jest.fn().mockResolvedValue(makeUser({ email: 'old@x.com' })),
+      findUserByEmailExcluding: jest.fn().mockResolvedValue(null),
+      updateProfile: jest.fn().mockResolvedValue({}),
+    });
+    const { service, authService } = makeService(repo);
+    await service.updateProfile('user-1', { email: 'new@x.com' });
+    expect(authService.requestEmailChange).toHaveBeenCalledWith('user-1', 'new@x.com', {
+      performedById: 'user-1',
+    });
+    expect(repo.updateProfile.mock.calls[0][1]).toEqual({});
+  });
+
   it('faz hash da senha quando password fornecida', async () => {
     const user = makeUser();
     const repo = makeRepo({
@@ -573,3 +642,64 @@ describe('SuperadminService.getMagicLink', () => {
     expect(result.magicLink).toBe('http://localhost:3000/first-access?token=raw-token-abc');
   });
 });
+
+// ── sessões ────────────────────────────────────────────────────────────────────
+
+describe('SuperadminService.revokeUserSessions', () => {
+  it('lança NotFoundException quando usuário não encontrado', async () => {
+    const repo = makeRepo({ findUserById: jest.fn().mockResolvedValue(null) });
+    const { service, authService } = makeService(repo);
+    await expect(service.revokeUserSessions('user-x', 'super-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(authService.revokeOtherSessions).not.toHaveBeenCalled();
+  });
+
+  it('revoga todas as sessões do usuário', async () => {
+    const repo = makeRepo({ findUserById: jest.fn().mockResolvedValue({ id: 'user-1' }) });
+    const { service, authService } = makeService(repo);
+    const result = await service.revokeUserSessions('user-1', 'super-1');
+    expect(authService.revokeOtherSessions).toHaveBeenCalledWith('user-1', undefined, 'super-1');
+    expect(result).toEqual({ revoked: 2 });
+  });
+});
+
+describe('SuperadminService.unlockUser', () => {
+  it('lança NotFoundException quando usuário não encontrado', async () => {
+    const repo = makeRepo({ findUserById: jest.fn().mockResolvedValue(null) });
+    const { service, authThrottle } = makeService(repo);
+    await expect(service.unlockUser('user-x', 'super-1')).rejects.toThrow(NotFoundException);
+    expect(authThrottle.unlockAccount).not.toHaveBeenCalled();
+  });
+
+  it('desbloqueia o login pelo email do usuário', async () => {
+    const repo = makeRepo({
+      findUserById: jest.fn().mockResolvedValue({ id: 'user-1', email: 'user@acme.com' }),
+    });
+    const { service, authThrottle } = makeService(repo);
+    await service.unlockUser('user-1', 'super-1');
+    expect(authThrottle.unlockAccount).toHaveBeenCalledWith('user@acme.com', 'super-1');
+  });
+});
+
+// ── personificação ─────────────────────────────────────────────────────────────
+
+describe('SuperadminService.impersonateUser', () => {
+  it('delega ao AuthService com o superadmin como personificador', async () => {
+    const { service, authService } = makeService(makeRepo());
+    const result = await service.impersonateUser('user-1', 'super-1', { ipAddress: '10.0.0.1' });
+    expect(authService.startImpersonation).toHaveBeenCalledWith('user-1', 'super-1', {
+      ipAddress: '10.0.0.1',
+    });
+    expect(result).toEqual({ access_token: 'jwt-imp' });
+  });
+});
+
+describe('SuperadminService.listUserImpersonations', () => {
+  it('lança NotFoundException quando usuário não encontrado', async () => {
+    const repo = makeRepo({ findUserById: jest.fn().mockResolvedValue(null) });
+    const { service, authService } = makeService(repo);
+    await expect(service.listUserImpersonations('user-x')).rejects.toThrow(NotFoundException);
+    expect(authService.listImpersonations).not.toHaveBeenCalled();
+  });
+});
@@ -9,7 +9,9 @@ import * as crypto from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
 import { Prisma } from '../generated/prisma/client';
-import { AuthService } from '../auth/auth.service';
+import { AuthThrottleService } from '../auth/auth-throttle.service';
+import { AuthService, SessionContext } from '../auth/auth.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
 import { MailerService } from '../mailer/mailer.service';
 import { SuperadminRepository } from './superadmin.repository';
 import { CreateCompanyDto } from './dto/create-company.dto';
@@ -25,6 +27,8 @@ export class SuperadminService {
     private readonly repo: SuperadminRepository,
     private readonly mailerService: MailerService,
     private readonly authService: AuthService,
+    private readonly authThrottle: AuthThrottleService,
+    private readonly passwordPolicy: PasswordPolicyService,
     private readonly configService: ConfigService,
     @InjectPinoLogger(SuperadminService.name)
     private readonly logger: PinoLogger,
@@ -47,7 +51,7 @@ export class SuperadminService {
         { legalName: dto.legalName, taxId: dto.taxId, createdById },
         existingUser.id,
       );
-      admin = existingUser;
+      admin = { id: existingUser.id, name: existingUser.name, email: existingUser.email };
     } else {
       isNewUser = true;
       const placeholderHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
@@ -188,16 +192,24 @@ export class SuperadminService {
       }
     }
 
-    const { password, ...rest } = dto;
+    const { password, email, ...rest } = dto;
     const data: Record<string, unknown> = { ...rest };
 
     if (password) {
+      await this.passwordPolicy.assertPasswordAllowed(userId, password, dto.name);
       data.passwordHash = await bcrypt.hash(password, 10);
+      data.passwordHistory = { create: { passwordHash: data.passwordHash } };
     }
 
+    // O email só muda quando o novo endereço confirma o token
+    const emailChange =
+      email && email !== user.email
+        ? await this.authService.requestEmailChange(userId, email, { performedById: userId })
+        : null;
+
     const updated = await this.repo.updateProfile(userId, data);
     this.logger.info({ userId, changes: Object.keys(dto) }, 'Superuser updated own profile');
-    return updated;
+    return emailChange ? { ...updated, pendingEmail: emailChange.pendingEmail } : updated;
   }
 
   async getUserDetail(id: string) {
@@ -293,7 +305,7 @@ export class SuperadminService {
       }
     }
 
-    const { password, ...rest } = dto;
+    const { password, email, ...rest } = dto;
     const data: Record<string, unknown> = { ...rest };
 
     if (password) {
@@ -301,13 +313,24 @@ export class SuperadminService {
       data.mustResetPassword = true;
     }
 
+    // O email só muda quando o novo endereço confirma o token
+    const emailChange =
+      email && email !== user.email
+        ? await this.authService.requestEmailChange(id, email, { performedById: currentUserId })
+        : null;
+
     const updated = await this.repo.updateUser(id, data);
 
+    // Inativação ou troca de senha derrubam imediatamente os tokens já emitidos
+    if (dto.isActive === false || password) {
+      await this.authService.revokeUserTokens(id, currentUserId);
+    }
+
     this.logger.info(
       { targetUserId: id, changes: Object.keys(dto), performedById: currentUserId },
       'User updated by superadmin',
     );
-    return updated;
+    return emailChange ? { ...updated, pendingEmail: emailChange.pendingEmail } : updated;
   }
 
   async invalidateUserCredentials(targetUserId: string, performedById: string) {
@@ -324,4 +347,45 @@ export class SuperadminService {
     const frontendUrl = this.configService.getOrThrow<string>('FRONTEND_URL');
     return { magicLink: `${frontendUrl}/first-access?token=${rawToken}` };
   }
+
+  // ── Sessões ──────────────────────────────────────────────────────────────────
+
+  private async assertUser(id: string) {
+    const user = await this.repo.findUserById(id);
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+    return user;
+  }
+
+  async listUserSessions(targetUserId: string) {
+    await this.assertUser(targetUserId);
+    return this.authService.listSessions(targetUserId);
+  }
+
+  async revokeUserSession(targetUserId: string, sessionId: string, performedById: string) {
+    await this.assertUser(targetUserId);
+    await this.authService.revokeSession(targetUserId, sessionId, performedById);
+  }
+
+  async revokeUserSessions(targetUserId: string, performedById: string) {
+    await this.assertUser(targetUserId);
+    return this.authService.revokeOtherSessions(targetUserId, undefined, performedById);
+  }
+
+  async unlockUser(targetUserId: string, performedById: string) {
+    const user = await this.assertUser(targetUserId);
+    await this.authThrottle.unlockAccount(user.email, performedById);
+  }
+
+  // ── Personificação ───────────────────────────────────────────────────────────
+
+  impersonateUser(targetUserId: string, performedById: string, context: SessionContext = {}) {
+    return this.authService.startImpersonation(targetUserId, performedById, context);
+  }
+
+  async listUserImpersonations(targetUserId: string) {
+    await this.assertUser(targetUserId);
+    return this.authService.listImpersonations(targetUserId);
+  }
 }
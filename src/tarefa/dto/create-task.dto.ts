@@ -0,0 +1,68 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { TaskPriority } from '../../generated/prisma/client';
+
+export class CreateTaskDto {
+  @ApiProperty({ example: 'Implementar tela de login' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Tela com email, senha e link de recuperação' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: TaskPriority, default: TaskPriority.medium })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description: 'Coluna inicial — padrão: primeira coluna do projeto',
+  })
+  @IsOptional()
+  @IsUUID()
+  columnId?: string;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description: 'Tarefa pai do mesmo projeto — cria a tarefa como subtarefa',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentTaskId?: string;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description: 'Relator — padrão: usuário autenticado',
+  })
+  @IsOptional()
+  @IsUUID()
+  reporterId?: string;
+
+  @ApiPropertyOptional({ format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-01', format: 'date' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-15', format: 'date' })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+}
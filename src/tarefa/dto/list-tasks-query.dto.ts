@@ -0,0 +1,66 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEnum, IsIn, IsInt, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+import { TaskPriority } from '../../generated/prisma/client';
+
+export class ListTasksQueryDto {
+  @ApiPropertyOptional({ description: 'Busca por título' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ format: 'uuid', description: 'Filtrar por coluna' })
+  @IsOptional()
+  @IsUUID()
+  columnId?: string;
+
+  @ApiPropertyOptional({ format: 'uuid', description: 'Filtrar por responsável' })
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string;
+
+  @ApiPropertyOptional({ format: 'uuid', description: 'Filtrar subtarefas de uma tarefa' })
+  @IsOptional()
+  @IsUUID()
+  parentTaskId?: string;
+
+  @ApiPropertyOptional({ enum: TaskPriority, description: 'Filtrar por prioridade' })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Filtrar por etiquetas — ids separados por vírgula ou parâmetro repetido',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: string | string[] }) =>
+    (Array.isArray(value) ? value : value.split(',')).map((id) => id.trim()).filter(Boolean),
+  )
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    enum: ['any', 'all'],
+    default: 'any',
+    description: 'any: ao menos uma das etiquetas; all: todas as etiquetas',
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  labelMatch?: 'any' | 'all' = 'any';
+
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @IsOptional()
+  @Transform(({ value }: { value: string }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 200 })
+  @IsOptional()
+  @Transform(({ value }: { value: string }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsUUID, Min } from 'class-validator';
+
+export class MoveTaskDto {
+  @ApiProperty({ format: 'uuid', description: 'Coluna de destino (do mesmo projeto)' })
+  @IsUUID()
+  columnId: string;
+
+  @ApiProperty({
+    example: 0,
+    minimum: 0,
+    description: 'Posição na coluna de destino (0 = topo). Valores maiores vão para o final.',
+  })
+  @IsInt()
+  @Min(0)
+  position: number;
+}
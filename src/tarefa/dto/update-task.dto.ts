@@ -0,0 +1,65 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { TaskPriority } from '../../generated/prisma/client';
+
+export class UpdateTaskDto {
+  @ApiPropertyOptional({ example: 'Implementar tela de login' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title?: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @ApiPropertyOptional({ enum: TaskPriority })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    nullable: true,
+    description: 'Tarefa pai do mesmo projeto — null torna a tarefa independente',
+  })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  parentTaskId?: string | null;
+
+  @ApiPropertyOptional({ format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  reporterId?: string;
+
+  @ApiPropertyOptional({ format: 'uuid', nullable: true, description: 'null remove o responsável' })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string | null;
+
+  @ApiPropertyOptional({ example: '2026-03-01', format: 'date', nullable: true })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsDateString()
+  startDate?: string | null;
+
+  @ApiPropertyOptional({ example: '2026-03-15', format: 'date', nullable: true })
+  @ValidateIf((_obj, value) => value !== null)
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string | null;
+}
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { ProjectScope, TarefaService } from './tarefa.service';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+
+@ApiTags('tarefas')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller('empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/tarefas')
+export class TarefaController {
+  constructor(private readonly tarefaService: TarefaService) {}
+
+  @Post()
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Criar tarefa no projeto' })
+  @ApiResponse({ status: 201, description: 'Tarefa criada' })
+  @ApiResponse({
+    status: 400,
+    description: 'Datas inválidas, relator/responsável fora do time ou tarefa pai inválida',
+  })
+  @ApiResponse({ status: 404, description: 'Projeto, coluna ou tarefa pai não encontrada' })
+  createTask(
+    @Param() scope: ProjectScope,
+    @Body() dto: CreateTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tarefaService.createTask(scope, dto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar tarefas do projeto com filtros e paginação' })
+  @ApiResponse({ status: 200, description: 'Lista paginada de tarefas' })
+  @ApiResponse({ status: 404, description: 'Projeto não encontrado' })
+  listTasks(@Param() scope: ProjectScope, @Query() query: ListTasksQueryDto) {
+    return this.tarefaService.listTasks(scope, query);
+  }
+
+  @Get(':taskId')
+  @ApiOperation({ summary: 'Detalhes de uma tarefa' })
+  @ApiResponse({ status: 200, description: 'Tarefa encontrada' })
+  @ApiResponse({ status: 404, description: 'Projeto ou tarefa não encontrada' })
+  getTask(@Param() scope: ProjectScope, @Param('taskId') taskId: string) {
+    return this.tarefaService.getTask(scope, taskId);
+  }
+
+  @Patch(':taskId')
+  @RequirePermission('task.write')
+  @ApiOperation({ summary: 'Editar tarefa' })
+  @ApiResponse({ status: 200, description: 'Tarefa atualizada' })
+  @ApiResponse({
+    status: 400,
+    description: 'Datas inválidas, relator/responsável fora do time ou tarefa pai inválida',
+  })
+  @ApiResponse({ status: 404, description: 'Projeto, tarefa ou tarefa pai não encontrada' })
+  updateTask(
+    @Param() scope: ProjectScope,
+    @Param('taskId') taskId: string,
+    @Body() dto: UpdateTaskDto,
+  ) {
+    return this.tarefaService.updateTask(scope, taskId, dto);
+  }
+
+  @Post(':taskId/mover')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mover tarefa para outra coluna/posição do quadro' })
+  @ApiResponse({ status: 200, description: 'Tarefa movida — colunas renumeradas' })
+  @ApiResponse({ status: 400, description: 'Coluna de destino pertence a outro projeto' })
+  @ApiResponse({ status: 404, description: 'Projeto, tarefa ou coluna não encontrada' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Tarefa movida simultaneamente por outro usuário, ou subtarefas em aberto ao concluir',
+  })
+  moveTask(
+    @Param() scope: ProjectScope,
+    @Param('taskId') taskId: string,
+    @Body() dto: MoveTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tarefaService.moveTask(scope, taskId, dto, user.id);
+  }
+
+  @Post(':taskId/etiquetas/:labelId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Vincular etiqueta do workspace à tarefa' })
+  @ApiResponse({ status: 200, description: 'Tarefa com as etiquetas atualizadas' })
+  @ApiResponse({ status: 404, description: 'Projeto, tarefa ou etiqueta não encontrada' })
+  attachLabel(
+    @Param() scope: ProjectScope,
+    @Param('taskId') taskId: string,
+    @Param('labelId') labelId: string,
+  ) {
+    return this.tarefaService.attachLabel(scope, taskId, labelId);
+  }
+
+  @Delete(':taskId/etiquetas/:labelId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Desvincular etiqueta da tarefa' })
+  @ApiResponse({ status: 204, description: 'Etiqueta desvinculada' })
+  @ApiResponse({ status: 404, description: 'Projeto, tarefa ou vínculo não encontrado' })
+  async detachLabel(
+    @Param() scope: ProjectScope,
+    @Param('taskId') taskId: string,
+    @Param('labelId') labelId: string,
+  ) {
+    await this.tarefaService.detachLabel(scope, taskId, labelId);
+  }
+
+  @Delete(':taskId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Soft delete de tarefa e de suas subtarefas' })
+  @ApiResponse({ status: 204, description: 'Tarefa removida' })
+  @ApiResponse({ status: 404, description: 'Projeto ou tarefa não encontrada' })
+  async deleteTask(
+    @Param() scope: ProjectScope,
+    @Param('taskId') taskId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.tarefaService.deleteTask(scope, taskId, user.id);
+  }
+}
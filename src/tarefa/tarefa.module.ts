@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { TarefaController } from './tarefa.controller';
+import { TarefaRepository } from './tarefa.repository';
+import { TarefaService } from './tarefa.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TarefaController],
+  providers: [TarefaRepository, TarefaService],
+})
+export class TarefaModule {}
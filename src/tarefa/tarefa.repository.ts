@@ -0,0 +1,253 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, ResourceType, TaskLinkType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } satisfies Prisma.UserSelect;
+
+const CHECKLIST_ITEM_SELECT = {
+  id: true,
+  title: true,
+  order: true,
+  isCompleted: true,
+  completedAt: true,
+  dueDate: true,
+  assignee: { select: USER_SUMMARY_SELECT },
+} satisfies Prisma.TaskChecklistItemSelect;
+
+const TASK_SELECT = {
+  id: true,
+  projectId: true,
+  columnId: true,
+  parentTaskId: true,
+  title: true,
+  description: true,
+  priority: true,
+  order: true,
+  startDate: true,
+  dueDate: true,
+  createdAt: true,
+  updatedAt: true,
+  reporter: { select: USER_SUMMARY_SELECT },
+  assignee: { select: USER_SUMMARY_SELECT },
+  createdBy: { select: USER_SUMMARY_SELECT },
+  labels: {
+    orderBy: { label: { name: 'asc' } },
+    select: { label: { select: { id: true, name: true, color: true } } },
+  },
+  checklistItems: { orderBy: { order: 'asc' }, select: CHECKLIST_ITEM_SELECT },
+  subtasks: {
+    where: { deletedAt: null },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      title: true,
+      columnId: true,
+      assignee: { select: USER_SUMMARY_SELECT },
+      column: { select: { isDone: true } },
+    },
+  },
+  _count: {
+    select: {
+      incomingLinks: {
+        where: {
+          type: TaskLinkType.blocks,
+          sourceTask: { deletedAt: null, column: { isDone: false } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.TaskSelect;
+
+@Injectable()
+export class TarefaRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Projects ──────────────────────────────────────────────────────────────────
+
+  findProject(projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.project.findFirst({
+      where: {
+        id: projectId,
+        workspaceId,
+        deletedAt: null,
+        workspace: { companyId, deletedAt: null },
+      },
+    });
+  }
+
+  // ── Columns ───────────────────────────────────────────────────────────────────
+
+  findColumnById(columnId: string, projectId: string) {
+    return this.prisma.column.findFirst({
+      where: { id: columnId, projectId, deletedAt: null },
+    });
+  }
+
+  findColumn(columnId: string) {
+    return this.prisma.column.findFirst({ where: { id: columnId, deletedAt: null } });
+  }
+
+  findFirstColumn(projectId: string) {
+    return this.prisma.column.findFirst({
+      where: { projectId, deletedAt: null },
+      orderBy: { order: 'asc' },
+    });
+  }
+
+  // ── Labels ────────────────────────────────────────────────────────────────────
+
+  findLabel(labelId: string, workspaceId: string) {
+    return this.prisma.label.findFirst({ where: { id: labelId, workspaceId } });
+  }
+
+  /** Vincula a etiqueta à tarefa; não faz nada se o vínculo já existir */
+  attachLabel(taskId: string, labelId: string) {
+    return this.prisma.taskLabel.createMany({
+      data: [{ taskId, labelId }],
+      skipDuplicates: true,
+    });
+  }
+
+  detachLabel(taskId: string, labelId: string) {
+    return this.prisma.taskLabel.deleteMany({ where: { taskId, labelId } });
+  }
+
+  // ── Members ───────────────────────────────────────────────────────────────────
+
+  /** Retorna os ids (dentre userIds) de usuários ativos com vínculo no workspace ou na empresa */
+  async findMemberUserIds(userIds: string[], companyId: string, workspaceId: string) {
+    const memberships = await this.prisma.membership.findMany({
+      where: {
+        userId: { in: userIds },
+        deletedAt: null,
+        user: { deletedAt: null, isActive: true },
+        OR: [
+          { resourceType: ResourceType.company, resourceId: companyId },
+          { resourceType: ResourceType.workspace, resourceId: workspaceId },
+        ],
+      },
+      select: { userId: true },
+    });
+    return new Set(memberships.map((m) => m.userId));
+  }
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────────
+
+  findTaskById(taskId: string, projectId: string) {
+    return this.prisma.task.findFirst({
+      where: { id: taskId, projectId, deletedAt: null },
+    });
+  }
+
+  findTaskByIdSelect(taskId: string, projectId: string) {
+    return this.prisma.task.findFirst({
+      where: { id: taskId, projectId, deletedAt: null },
+      select: TASK_SELECT,
+    });
+  }
+
+  findTasks(where: Prisma.TaskWhereInput, page: number, limit: number) {
+    return Promise.all([
+      this.prisma.task.findMany({
+        where,
+        orderBy: [{ columnId: 'asc' }, { order: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: TASK_SELECT,
+      }),
+      this.prisma.task.count({ where }),
+    ]);
+  }
+
+  findLastTaskInColumn(columnId: string) {
+    return this.prisma.task.findFirst({
+      where: { columnId, deletedAt: null },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+  }
+
+  countSubtasks(taskId: string) {
+    return this.prisma.task.count({ where: { parentTaskId: taskId, deletedAt: null } });
+  }
+
+  /** Subtarefas ativas que não estão em uma coluna de conclusão */
+  countOpenSubtasks(taskId: string) {
+    return this.prisma.task.count({
+      where: { parentTaskId: taskId, deletedAt: null, column: { isDone: false } },
+    });
+  }
+
+  createTask(data: Prisma.TaskUncheckedCreateInput) {
+    return this.prisma.task.create({ data, select: TASK_SELECT });
+  }
+
+  updateTask(id: string, data: Prisma.TaskUncheckedUpdateInput) {
+    return this.prisma.task.update({ where: { id }, data, select: TASK_SELECT });
+  }
+
+  /** Soft delete da tarefa junto com suas subtarefas */
+  softDeleteTask(id: string) {
+    return this.prisma.task.updateMany({
+      where: { OR: [{ id }, { parentTaskId: id }], deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  // ── Transactions ──────────────────────────────────────────────────────────────
+
+  /**
+   * Move a tarefa para a posição indicada da coluna destino e renumera (0..n-1) as
+   * colunas envolvidas. As linhas das colunas são travadas (FOR UPDATE, em ordem de id)
+   * para serializar movimentos concorrentes no mesmo quadro.
+   * Retorna null se a tarefa mudou de coluna antes de o lock ser obtido.
+   */
+  moveTask(taskId: string, fromColumnId: string, toColumnId: string, position: number) {
+    return this.prisma.$transaction(async (tx) => {
+      const lockedColumnIds = [...new Set([fromColumnId, toColumnId])].sort();
+      await tx.$queryRaw`
+        SELECT id FROM "columns" WHERE id IN (${Prisma.join(lockedColumnIds)}) ORDER BY id FOR UPDATE
+      `;
+
+      const current = await tx.task.findFirst({
+        where: { id: taskId, deletedAt: null },
+        select: { columnId: true },
+      });
+      if (!current || current.columnId !== fromColumnId) {
+        return null;
+      }
+
+      const siblings = await tx.task.findMany({
+        where: { columnId: toColumnId, deletedAt: null, id: { not: taskId } },
+        orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true, order: true },
+      });
+
+      const index = Math.min(position, siblings.length);
+      const sequence = [...siblings.slice(0, index), null, ...siblings.slice(index)];
+
+      for (const [order, sibling] of sequence.entries()) {
+        if (sibling === null) {
+          await tx.task.update({ where: { id: taskId }, data: { columnId: toColumnId, order } });
+        } else if (sibling.order !== order) {
+          await tx.task.update({ where: { id: sibling.id }, data: { order } });
+        }
+      }
+
+      if (fromColumnId !== toColumnId) {
+        const remaining = await tx.task.findMany({
+          where: { columnId: fromColumnId, deletedAt: null },
+          orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+          select: { id: true, order: true },
+        });
+        for (const [order, task] of remaining.entries()) {
+          if (task.order !== order) {
+            await tx.task.update({ where: { id: task.id }, data: { order } });
+          }
+        }
+      }
+
+      return tx.task.findUnique({ where: { id: taskId }, select: TASK_SELECT });
+    });
+  }
+}
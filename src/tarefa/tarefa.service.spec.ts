@@ -0,0 +1,523 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma, TaskPriority } from '../generated/prisma/client';
+import { TarefaRepository } from './tarefa.repository';
+import { ProjectScope, TarefaService } from './tarefa.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const SCOPE: ProjectScope = { companyId: 'company-1', workspaceId: 'ws-1', projectId: 'project-1' };
+
+function makeProject(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'project-1',
+    workspaceId: 'ws-1',
+    name: 'Projeto 1',
+    isActive: true,
+    blockDoneWithOpenSubtasks: false,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeColumn(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'col-1',
+    projectId: 'project-1',
+    name: 'A fazer',
+    order: 0,
+    isDone: false,
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'task-1',
+    projectId: 'project-1',
+    columnId: 'col-1',
+    parentTaskId: null,
+    title: 'Tarefa',
+    description: null,
+    priority: TaskPriority.medium,
+    order: 0,
+    reporterId: 'user-1',
+    assigneeId: null,
+    startDate: null,
+    dueDate: null,
+    createdById: 'user-1',
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    checklistItems: [],
+    subtasks: [],
+    _count: { incomingLinks: 0 },
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof TarefaRepository, jest.Mock>> = {},
+): jest.Mocked<TarefaRepository> {
+  return {
+    findProject: jest.fn().mockResolvedValue(makeProject()),
+    findColumnById: jest.fn(),
+    findColumn: jest.fn(),
+    findFirstColumn: jest.fn().mockResolvedValue(makeColumn()),
+    findMemberUserIds: jest
+      .fn()
+      .mockImplementation((ids: string[]) => Promise.resolve(new Set(ids))),
+    findTaskById: jest.fn(),
+    findTaskByIdSelect: jest.fn(),
+    findTasks: jest.fn(),
+    findLastTaskInColumn: jest.fn().mockResolvedValue(null),
+    countSubtasks: jest.fn().mockResolvedValue(0),
+    countOpenSubtasks: jest.fn().mockResolvedValue(0),
+    createTask: jest.fn().mockImplementation((data) => Promise.resolve(makeTask(data))),
+    updateTask: jest.fn(),
+    softDeleteTask: jest.fn(),
+    moveTask: jest.fn(),
+    findLabel: jest.fn().mockResolvedValue({ id: 'label-1', workspaceId: 'ws-1' }),
+    attachLabel: jest.fn().mockResolvedValue({ count: 1 }),
+    detachLabel: jest.fn().mockResolvedValue({ count: 1 }),
+    ...overrides,
+  } as unknown as jest.Mocked<TarefaRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<TarefaRepository>) {
+  return new TarefaService(repo, makeLogger() as any);
+}
+
+// ── createTask ─────────────────────────────────────────────────────────────────
+
+describe('TarefaService.createTask', () => {
+  it('lança NotFoundException quando projeto não existe', async () => {
+    const repo = makeRepo({ findProject: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.createTask(SCOPE, { title: 'T' }, 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança NotFoundException quando coluna não pertence ao projeto', async () => {
+    const repo = makeRepo({ findColumnById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.createTask(SCOPE, { title: 'T', columnId: 'col-x' }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('lança BadRequestException quando startDate > dueDate', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(
+      service.createTask(
+        SCOPE,
+        { title: 'T', startDate: '2026-03-10', dueDate: '2026-03-01' },
+        'user-1',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('lança BadRequestException quando responsável não é membro', async () => {
+    const repo = makeRepo({
+      findMemberUserIds: jest.fn().mockResolvedValue(new Set(['user-1'])),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.createTask(SCOPE, { title: 'T', assigneeId: 'outsider' }, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.createTask).not.toHaveBeenCalled();
+  });
+
+  it('usa primeira coluna, usuário autenticado como relator e createdById', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await service.createTask(SCOPE, { title: 'T' }, 'user-1');
+    expect(repo.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 'project-1',
+        columnId: 'col-1',
+        reporterId: 'user-1',
+        createdById: 'user-1',
+        order: 0,
+      }),
+    );
+  });
+
+  it('posiciona a tarefa no final da coluna', async () => {
+    const repo = makeRepo({ findLastTaskInColumn: jest.fn().mockResolvedValue({ order: 7 }) });
+    const service = makeService(repo);
+    await service.createTask(SCOPE, { title: 'T', startDate: '2026-03-01' }, 'user-1');
+    const data = repo.createTask.mock.calls[0][0] as Record<string, unknown>;
+    expect(data.order).toBe(8);
+    expect(data.startDate).toEqual(new Date('2026-03-01'));
+  });
+
+  it('lança NotFoundException quando a tarefa pai não é do projeto', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.createTask(SCOPE, { title: 'T', parentTaskId: 'task-x' }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+    expect(repo.findTaskById).toHaveBeenCalledWith('task-x', 'project-1');
+    expect(repo.createTask).not.toHaveBeenCalled();
+  });
+
+  it('recusa subtarefa de uma subtarefa', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask({ id: 'task-2', parentTaskId: 'task-1' })),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.createTask(SCOPE, { title: 'T', parentTaskId: 'task-2' }, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('cria a subtarefa vinculada à tarefa pai', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(makeTask()) });
+    const service = makeService(repo);
+    await service.createTask(SCOPE, { title: 'T', parentTaskId: 'task-1' }, 'user-1');
+    expect(repo.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ parentTaskId: 'task-1' }),
+    );
+  });
+});
+
+// ── listTasks ──────────────────────────────────────────────────────────────────
+
+describe('TarefaService.listTasks', () => {
+  it('aplica filtros e paginação', async () => {
+    const repo = makeRepo({ findTasks: jest.fn().mockResolvedValue([[makeTask()], 1]) });
+    const service = makeService(repo);
+    const result = await service.listTasks(SCOPE, {
+      columnId: 'col-1',
+      priority: TaskPriority.high,
+      page: 1,
+      limit: 10,
+    });
+    expect(repo.findTasks).toHaveBeenCalledWith(
+      {
+        projectId: 'project-1',
+        deletedAt: null,
+        columnId: 'col-1',
+        priority: TaskPriority.high,
+      },
+      1,
+      10,
+    );
+    expect(result.total).toBe(1);
+  });
+
+  it('filtra por qualquer uma das etiquetas por padrão', async () => {
+    const repo = makeRepo({ findTasks: jest.fn().mockResolvedValue([[], 0]) });
+    await makeService(repo).listTasks(SCOPE, { labelIds: ['label-1', 'label-2', 'label-1'] });
+    expect(repo.findTasks.mock.calls[0][0]).toEqual({
+      projectId: 'project-1',
+      deletedAt: null,
+      labels: { some: { labelId: { in: ['label-1', 'label-2'] } } },
+    });
+  });
+
+  it('exige todas as etiquetas com labelMatch=all', async () => {
+    const repo = makeRepo({ findTasks: jest.fn().mockResolvedValue([[], 0]) });
+    await makeService(repo).listTasks(SCOPE, {
+      labelIds: ['label-1', 'label-2'],
+      labelMatch: 'all',
+    });
+    expect(repo.findTasks.mock.calls[0][0]).toEqual({
+      projectId: 'project-1',
+      deletedAt: null,
+      AND: [
+        { labels: { some: { labelId: 'label-1' } } },
+        { labels: { some: { labelId: 'label-2' } } },
+      ],
+    });
+  });
+});
+
+// ── etiquetas ──────────────────────────────────────────────────────────────────
+
+describe('TarefaService.attachLabel', () => {
+  it('lança NotFoundException quando a etiqueta não é do workspace do projeto', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findLabel: jest.fn().mockResolvedValue(null),
+    });
+    await expect(makeService(repo).attachLabel(SCOPE, 'task-1', 'label-x')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.findLabel).toHaveBeenCalledWith('label-x', 'ws-1');
+    expect(repo.attachLabel).not.toHaveBeenCalled();
+  });
+
+  it('lança NotFoundException quando a etiqueta é removida antes do vínculo (P2003)', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      attachLabel: jest.fn().mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Foreign key constraint failed', {
+          code: 'P2003',
+          clientVersion: 'test',
+        }),
+      ),
+    });
+    await expect(makeService(repo).attachLabel(SCOPE, 'task-1', 'label-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('vincula a etiqueta e retorna a tarefa atualizada', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findTaskByIdSelect: jest.fn().mockResolvedValue(makeTask()),
+    });
+    const result = await makeService(repo).attachLabel(SCOPE, 'task-1', 'label-1');
+    expect(repo.attachLabel).toHaveBeenCalledWith('task-1', 'label-1');
+    expect(result).toMatchObject({ id: 'task-1', isBlocked: false });
+  });
+});
+
+describe('TarefaService.detachLabel', () => {
+  it('lança NotFoundException quando a etiqueta não está vinculada', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      detachLabel: jest.fn().mockResolvedValue({ count: 0 }),
+    });
+    await expect(makeService(repo).detachLabel(SCOPE, 'task-1', 'label-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
+
+// ── getTask ────────────────────────────────────────────────────────────────────
+
+describe('TarefaService.getTask', () => {
+  it('lança NotFoundException quando tarefa não existe', async () => {
+    const repo = makeRepo({ findTaskByIdSelect: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.getTask(SCOPE, 'task-1')).rejects.toThrow(NotFoundException);
+  });
+
+  it('calcula o progresso do checklist e das subtarefas', async () => {
+    const repo = makeRepo({
+      findTaskByIdSelect: jest.fn().mockResolvedValue(
+        makeTask({
+          checklistItems: [{ isCompleted: true }, { isCompleted: false }, { isCompleted: true }],
+          subtasks: [{ column: { isDone: true } }, { column: { isDone: false } }],
+        }),
+      ),
+    });
+    const result = await makeService(repo).getTask(SCOPE, 'task-1');
+    expect(result.progress).toEqual({
+      checklist: { completed: 2, total: 3, percent: 67 },
+      subtasks: { completed: 1, total: 2, percent: 50 },
+    });
+  });
+
+  it('retorna percentual nulo quando não há itens nem subtarefas', async () => {
+    const repo = makeRepo({ findTaskByIdSelect: jest.fn().mockResolvedValue(makeTask()) });
+    const result = await makeService(repo).getTask(SCOPE, 'task-1');
+    expect(result.progress.checklist.percent).toBeNull();
+    expect(result.progress.subtasks.percent).toBeNull();
+  });
+
+  it('marca a tarefa como bloqueada enquanto houver bloqueadoras em aberto', async () => {
+    const repo = makeRepo({
+      findTaskByIdSelect: jest.fn().mockResolvedValue(makeTask({ _count: { incomingLinks: 1 } })),
+    });
+    const result = await makeService(repo).getTask(SCOPE, 'task-1');
+    expect(result.isBlocked).toBe(true);
+    expect(result).not.toHaveProperty('_count');
+  });
+});
+
+// ── updateTask ─────────────────────────────────────────────────────────────────
+
+describe('TarefaService.updateTask', () => {
+  it('lança NotFoundException quando tarefa não existe', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.updateTask(SCOPE, 'task-1', { title: 'X' })).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('valida startDate contra o dueDate já salvo', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask({ dueDate: new Date('2026-03-01') })),
+    });
+    const service = makeService(repo);
+    await expect(service.updateTask(SCOPE, 'task-1', { startDate: '2026-03-05' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('permite limpar datas e responsável com null', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask({ assigneeId: 'user-2' })),
+      updateTask: jest.fn().mockResolvedValue(makeTask()),
+    });
+    const service = makeService(repo);
+    await service.updateTask(SCOPE, 'task-1', { assigneeId: null, dueDate: null });
+    expect(repo.updateTask).toHaveBeenCalledWith('task-1', { assigneeId: null, dueDate: null });
+    expect(repo.findMemberUserIds).not.toHaveBeenCalled();
+  });
+
+  it('recusa tornar a tarefa subtarefa de si mesma', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(makeTask()) });
+    const service = makeService(repo);
+    await expect(service.updateTask(SCOPE, 'task-1', { parentTaskId: 'task-1' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('recusa tornar subtarefa uma tarefa que já tem subtarefas', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      countSubtasks: jest.fn().mockResolvedValue(2),
+    });
+    const service = makeService(repo);
+    await expect(service.updateTask(SCOPE, 'task-1', { parentTaskId: 'task-2' })).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(repo.updateTask).not.toHaveBeenCalled();
+  });
+
+  it('permite desvincular a subtarefa com parentTaskId null', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask({ parentTaskId: 'task-2' })),
+      updateTask: jest.fn().mockResolvedValue(makeTask()),
+    });
+    const service = makeService(repo);
+    await service.updateTask(SCOPE, 'task-1', { parentTaskId: null });
+    expect(repo.updateTask).toHaveBeenCalledWith('task-1', { parentTaskId: null });
+    expect(repo.countSubtasks).not.toHaveBeenCalled();
+  });
+
+  it('lança BadRequestException quando novo relator não é membro', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findMemberUserIds: jest.fn().mockResolvedValue(new Set()),
+    });
+    const service = makeService(repo);
+    await expect(service.updateTask(SCOPE, 'task-1', { reporterId: 'outsider' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+// ── moveTask ───────────────────────────────────────────────────────────────────
+
+describe('TarefaService.moveTask', () => {
+  it('lança NotFoundException quando tarefa não existe', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(
+      service.moveTask(SCOPE, 'task-1', { columnId: 'col-2', position: 0 }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('lança NotFoundException quando coluna destino não existe', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findColumn: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.moveTask(SCOPE, 'task-1', { columnId: 'col-2', position: 0 }, 'user-1'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('recusa mover para coluna de outro projeto', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findColumn: jest.fn().mockResolvedValue(makeColumn({ id: 'col-9', projectId: 'project-2' })),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.moveTask(SCOPE, 'task-1', { columnId: 'col-9', position: 0 }, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.moveTask).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando a tarefa mudou de coluna concorrentemente', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findColumn: jest.fn().mockResolvedValue(makeColumn({ id: 'col-2' })),
+      moveTask: jest.fn().mockResolvedValue(null),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.moveTask(SCOPE, 'task-1', { columnId: 'col-2', position: 0 }, 'user-1'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('move a tarefa da coluna atual para a posição pedida', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask({ columnId: 'col-1' })),
+      findColumn: jest.fn().mockResolvedValue(makeColumn({ id: 'col-2' })),
+      moveTask: jest.fn().mockResolvedValue(makeTask({ columnId: 'col-2', order: 3 })),
+    });
+    const service = makeService(repo);
+    const result = await service.moveTask(
+      SCOPE,
+      'task-1',
+      { columnId: 'col-2', position: 3 },
+      'user-1',
+    );
+    expect(repo.moveTask).toHaveBeenCalledWith('task-1', 'col-1', 'col-2', 3);
+    expect(result.columnId).toBe('col-2');
+  });
+
+  it('bloqueia concluir tarefa com subtarefas em aberto quando o projeto exige', async () => {
+    const repo = makeRepo({
+      findProject: jest.fn().mockResolvedValue(makeProject({ blockDoneWithOpenSubtasks: true })),
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findColumn: jest.fn().mockResolvedValue(makeColumn({ id: 'col-3', isDone: true })),
+      countOpenSubtasks: jest.fn().mockResolvedValue(2),
+    });
+    const service = makeService(repo);
+    await expect(
+      service.moveTask(SCOPE, 'task-1', { columnId: 'col-3', position: 0 }, 'user-1'),
+    ).rejects.toThrow(ConflictException);
+    expect(repo.moveTask).not.toHaveBeenCalled();
+  });
+
+  it('permite concluir com subtarefas em aberto quando o projeto não exige', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      findColumn: jest.fn().mockResolvedValue(makeColumn({ id: 'col-3', isDone: true })),
+      countOpenSubtasks: jest.fn().mockResolvedValue(2),
+      moveTask: jest.fn().mockResolvedValue(makeTask({ columnId: 'col-3' })),
+    });
+    const service = makeService(repo);
+    await service.moveTask(SCOPE, 'task-1', { columnId: 'col-3', position: 0 }, 'user-1');
+    expect(repo.countOpenSubtasks).not.toHaveBeenCalled();
+    expect(repo.moveTask).toHaveBeenCalled();
+  });
+});
+
+// ── deleteTask ─────────────────────────────────────────────────────────────────
+
+describe('TarefaService.deleteTask', () => {
+  it('lança NotFoundException quando tarefa não existe', async () => {
+    const repo = makeRepo({ findTaskById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.deleteTask(SCOPE, 'task-1', 'user-1')).rejects.toThrow(NotFoundException);
+  });
+
+  it('chama softDeleteTask com taskId', async () => {
+    const repo = makeRepo({
+      findTaskById: jest.fn().mockResolvedValue(makeTask()),
+      softDeleteTask: jest.fn().mockResolvedValue({}),
+    });
+    const service = makeService(repo);
+    await service.deleteTask(SCOPE, 'task-1', 'user-1');
+    expect(repo.softDeleteTask).toHaveBeenCalledWith('task-1');
+  });
+});
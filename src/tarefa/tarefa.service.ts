@@ -0,0 +1,386 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { Prisma } from '../generated/prisma/client';
+import { TarefaRepository } from './tarefa.repository';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+
+/** Identifica o projeto da rota: empresa → workspace → projeto */
+export interface ProjectScope {
+  companyId: string;
+  workspaceId: string;
+  projectId: string;
+}
+
+/** Identifica a tarefa da rota: empresa → workspace → projeto → tarefa */
+export interface TaskScope extends ProjectScope {
+  taskId: string;
+}
+
+/** Percentual concluído (0–100); null quando não há itens */
+function percent(completed: number, total: number) {
+  return total === 0 ? null : Math.round((completed / total) * 100);
+}
+
+/**
+ * Acrescenta à tarefa os campos calculados: progresso do checklist e das subtarefas e
+ * isBlocked — verdadeiro enquanto alguma tarefa que a bloqueia não estiver concluída.
+ */
+function toTaskResponse<
+  T extends {
+    checklistItems: Array<{ isCompleted: boolean }>;
+    subtasks: Array<{ column: { isDone: boolean } }>;
+    _count: { incomingLinks: number };
+  },
+>({ _count, ...task }: T) {
+  const checklistTotal = task.checklistItems.length;
+  const checklistCompleted = task.checklistItems.filter((item) => item.isCompleted).length;
+  const subtasksTotal = task.subtasks.length;
+  const subtasksCompleted = task.subtasks.filter((subtask) => subtask.column.isDone).length;
+
+  return {
+    ...task,
+    isBlocked: _count.incomingLinks > 0,
+    progress: {
+      checklist: {
+        completed: checklistCompleted,
+        total: checklistTotal,
+        percent: percent(checklistCompleted, checklistTotal),
+      },
+      subtasks: {
+        completed: subtasksCompleted,
+        total: subtasksTotal,
+        percent: percent(subtasksCompleted, subtasksTotal),
+      },
+    },
+  };
+}
+
+@Injectable()
+export class TarefaService {
+  constructor(
+    private readonly repo: TarefaRepository,
+    @InjectPinoLogger(TarefaService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se o projeto não existir no workspace/empresa da rota */
+  private async assertProject(scope: ProjectScope) {
+    const project = await this.repo.findProject(
+      scope.projectId,
+      scope.workspaceId,
+      scope.companyId,
+    );
+    if (!project) {
+      throw new NotFoundException('Projeto não encontrado');
+    }
+    return project;
+  }
+
+  /** Lança BadRequestException se algum usuário não for membro do workspace ou da empresa */
+  private async assertMembers(scope: ProjectScope, userIds: Array<string | null | undefined>) {
+    const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return;
+
+    const members = await this.repo.findMemberUserIds(ids, scope.companyId, scope.workspaceId);
+    const outsiders = ids.filter((id) => !members.has(id));
+
+    if (outsiders.length > 0) {
+      throw new BadRequestException(
+        'Relator e responsável devem ser membros ativos do workspace ou da empresa',
+      );
+    }
+  }
+
+  /**
+   * Valida a tarefa pai de uma subtarefa: deve existir no mesmo projeto e não pode ser ela
+   * própria uma subtarefa — as subtarefas têm um único nível.
+   */
+  private async assertParentTask(scope: ProjectScope, parentTaskId: string, taskId?: string) {
+    if (parentTaskId === taskId) {
+      throw new BadRequestException('Uma tarefa não pode ser subtarefa de si mesma');
+    }
+
+    const parent = await this.repo.findTaskById(parentTaskId, scope.projectId);
+    if (!parent) {
+      throw new NotFoundException('Tarefa pai não encontrada neste projeto');
+    }
+
+    if (parent.parentTaskId) {
+      throw new BadRequestException('Subtarefas não podem ter subtarefas');
+    }
+  }
+
+  /** Lança BadRequestException se startDate for posterior a dueDate */
+  private assertDateRange(startDate?: Date | null, dueDate?: Date | null) {
+    if (startDate && dueDate && startDate > dueDate) {
+      throw new BadRequestException('A data de início não pode ser posterior à data de entrega');
+    }
+  }
+
+  // ── Tarefas ───────────────────────────────────────────────────────────────────
+
+  async createTask(scope: ProjectScope, dto: CreateTaskDto, createdById: string) {
+    await this.assertProject(scope);
+
+    const column = dto.columnId
+      ? await this.repo.findColumnById(dto.columnId, scope.projectId)
+      : await this.repo.findFirstColumn(scope.projectId);
+
+    if (!column) {
+      throw new NotFoundException('Coluna não encontrada neste projeto');
+    }
+
+    const startDate = dto.startDate ? new Date(dto.startDate) : null;
+    const dueDate = dto.dueDate ? new Date(dto.dueDate) : null;
+    this.assertDateRange(startDate, dueDate);
+
+    const reporterId = dto.reporterId ?? createdById;
+    await this.assertMembers(scope, [reporterId, dto.assigneeId]);
+
+    if (dto.parentTaskId) {
+      await this.assertParentTask(scope, dto.parentTaskId);
+    }
+
+    const last = await this.repo.findLastTaskInColumn(column.id);
+
+    const task = await this.repo.createTask({
+      projectId: scope.projectId,
+      columnId: column.id,
+      parentTaskId: dto.parentTaskId,
+      title: dto.title,
+      description: dto.description,
+      priority: dto.priority,
+      order: last ? last.order + 1 : 0,
+      reporterId,
+      assigneeId: dto.assigneeId,
+      startDate,
+      dueDate,
+      createdById,
+    });
+
+    this.logger.info(
+      {
+        projectId: scope.projectId,
+        taskId: task.id,
+        columnId: column.id,
+        parentTaskId: task.parentTaskId,
+        createdById,
+      },
+      'Task created',
+    );
+    return toTaskResponse(task);
+  }
+
+  async listTasks(scope: ProjectScope, query: ListTasksQueryDto) {
+    const {
+      search,
+      columnId,
+      assigneeId,
+      parentTaskId,
+      priority,
+      labelIds,
+      labelMatch = 'any',
+      page = 1,
+      limit = 50,
+    } = query;
+
+    await this.assertProject(scope);
+
+    const where: Prisma.TaskWhereInput = { projectId: scope.projectId, deletedAt: null };
+
+    if (search) {
+      where.title = { contains: search, mode: 'insensitive' };
+    }
+
+    if (columnId) {
+      where.columnId = columnId;
+    }
+
+    if (assigneeId) {
+      where.assigneeId = assigneeId;
+    }
+
+    if (parentTaskId) {
+      where.parentTaskId = parentTaskId;
+    }
+
+    if (priority) {
+      where.priority = priority;
+    }
+
+    if (labelIds?.length) {
+      const ids = [...new Set(labelIds)];
+      if (labelMatch === 'all') {
+        where.AND = ids.map((labelId) => ({ labels: { some: { labelId } } }));
+      } else {
+        where.labels = { some: { labelId: { in: ids } } };
+      }
+    }
+
+    const [tasks, total] = await this.repo.findTasks(where, page, limit);
+    return { data: tasks.map(toTaskResponse), total, page, limit };
+  }
+
+  async getTask(scope: ProjectScope, taskId: string) {
+    await this.assertProject(scope);
+
+    const task = await this.repo.findTaskByIdSelect(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    return toTaskResponse(task);
+  }
+
+  async updateTask(scope: ProjectScope, taskId: string, dto: UpdateTaskDto) {
+    await this.assertProject(scope);
+
+    const task = await this.repo.findTaskById(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    const { startDate, dueDate, ...rest } = dto;
+    const data: Prisma.TaskUncheckedUpdateInput = { ...rest };
+
+    if (startDate !== undefined) {
+      data.startDate = startDate === null ? null : new Date(startDate);
+    }
+
+    if (dueDate !== undefined) {
+      data.dueDate = dueDate === null ? null : new Date(dueDate);
+    }
+
+    this.assertDateRange(
+      data.startDate !== undefined ? (data.startDate as Date | null) : task.startDate,
+      data.dueDate !== undefined ? (data.dueDate as Date | null) : task.dueDate,
+    );
+
+    await this.assertMembers(scope, [dto.reporterId, dto.assigneeId]);
+
+    if (dto.parentTaskId) {
+      await this.assertParentTask(scope, dto.parentTaskId, taskId);
+
+      if ((await this.repo.countSubtasks(taskId)) > 0) {
+        throw new BadRequestException('Uma tarefa com subtarefas não pode virar subtarefa');
+      }
+    }
+
+    const updated = await this.repo.updateTask(taskId, data);
+    this.logger.info(
+      { projectId: scope.projectId, taskId, changes: Object.keys(dto) },
+      'Task updated',
+    );
+    return toTaskResponse(updated);
+  }
+
+  async moveTask(scope: ProjectScope, taskId: string, dto: MoveTaskDto, performedById: string) {
+    const project = await this.assertProject(scope);
+
+    const task = await this.repo.findTaskById(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    const target = await this.repo.findColumn(dto.columnId);
+    if (!target) {
+      throw new NotFoundException('Coluna de destino não encontrada');
+    }
+
+    if (target.projectId !== scope.projectId) {
+      throw new BadRequestException('Não é possível mover tarefas para outro projeto');
+    }
+
+    if (project.blockDoneWithOpenSubtasks && target.isDone && target.id !== task.columnId) {
+      const openSubtasks = await this.repo.countOpenSubtasks(taskId);
+      if (openSubtasks > 0) {
+        throw new ConflictException(
+          `A tarefa tem ${openSubtasks} subtarefa(s) em aberto. Conclua-as antes de movê-la para uma coluna de conclusão.`,
+        );
+      }
+    }
+
+    const moved = await this.repo.moveTask(taskId, task.columnId, target.id, dto.position);
+    if (!moved) {
+      throw new ConflictException(
+        'A tarefa foi movida por outro usuário. Atualize o quadro e tente novamente.',
+      );
+    }
+
+    this.logger.info(
+      {
+        projectId: scope.projectId,
+        taskId,
+        fromColumnId: task.columnId,
+        toColumnId: target.id,
+        position: moved.order,
+        performedById,
+      },
+      'Task moved',
+    );
+    return toTaskResponse(moved);
+  }
+
+  // ── Etiquetas ─────────────────────────────────────────────────────────────────
+
+  /** Vincula uma etiqueta do workspace à tarefa (idempotente) */
+  async attachLabel(scope: ProjectScope, taskId: string, labelId: string) {
+    await this.assertProject(scope);
+
+    const task = await this.repo.findTaskById(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    const label = await this.repo.findLabel(labelId, scope.workspaceId);
+    if (!label) {
+      throw new NotFoundException('Etiqueta não encontrada neste workspace');
+    }
+
+    await this.repo.attachLabel(taskId, labelId).catch((err: unknown) => {
+      // A etiqueta pode ter sido removida entre a consulta acima e o vínculo
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2003') {
+        throw new NotFoundException('Etiqueta não encontrada neste workspace');
+      }
+      throw err;
+    });
+    this.logger.info({ projectId: scope.projectId, taskId, labelId }, 'Label attached to task');
+    const updated = await this.repo.findTaskByIdSelect(taskId, scope.projectId);
+    return updated && toTaskResponse(updated);
+  }
+
+  async detachLabel(scope: ProjectScope, taskId: string, labelId: string) {
+    await this.assertProject(scope);
+
+    const task = await this.repo.findTaskById(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    const { count } = await this.repo.detachLabel(taskId, labelId);
+    if (count === 0) {
+      throw new NotFoundException('Etiqueta não vinculada a esta tarefa');
+    }
+    this.logger.info({ projectId: scope.projectId, taskId, labelId }, 'Label detached from task');
+  }
+
+  async deleteTask(scope: ProjectScope, taskId: string, performedById: string) {
+    await this.assertProject(scope);
+
+    const task = await this.repo.findTaskById(taskId, scope.projectId);
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+
+    await this.repo.softDeleteTask(taskId);
+    this.logger.info({ projectId: scope.projectId, taskId, performedById }, 'Task soft-deleted');
+  }
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsUUID } from 'class-validator';
+import { TaskLinkType } from '../../generated/prisma/client';
+
+export class CreateTaskLinkDto {
+  @ApiProperty({
+    enum: TaskLinkType,
+    description:
+      'blocks: esta tarefa bloqueia a tarefa alvo; relates_to: tarefas relacionadas; ' +
+      'duplicates: esta tarefa duplica a tarefa alvo',
+  })
+  @IsEnum(TaskLinkType)
+  type: TaskLinkType;
+
+  @ApiProperty({
+    format: 'uuid',
+    description: 'Tarefa alvo — pode ser de outro projeto da mesma empresa',
+  })
+  @IsUUID()
+  targetTaskId: string;
+}
@@ -0,0 +1,57 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { VinculoService } from './vinculo.service';
+import { CreateTaskLinkDto } from './dto/create-task-link.dto';
+
+@ApiTags('vinculos')
+@ApiBearerAuth()
+@RequirePermission('task.read')
+@Controller(
+  'empresa/:companyId/workspaces/:workspaceId/projetos/:projectId/tarefas/:taskId/vinculos',
+)
+export class VinculoController {
+  constructor(private readonly vinculoService: VinculoService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Listar vínculos em que a tarefa é origem ou alvo' })
+  @ApiResponse({ status: 200, description: 'Vínculos com as tarefas de origem e alvo' })
+  @ApiResponse({ status: 404, description: 'Tarefa não encontrada' })
+  listLinks(@Param() scope: TaskScope) {
+    return this.vinculoService.listLinks(scope);
+  }
+
+  @Post()
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Vincular a tarefa a outra tarefa da empresa' })
+  @ApiResponse({ status: 201, description: 'Vínculo criado' })
+  @ApiResponse({ status: 400, description: 'Vínculo com a própria tarefa ou dependência circular' })
+  @ApiResponse({ status: 403, description: 'Sem acesso ao projeto da tarefa alvo' })
+  @ApiResponse({ status: 404, description: 'Tarefa de origem ou alvo não encontrada' })
+  @ApiResponse({ status: 409, description: 'Vínculo do mesmo tipo já existe' })
+  createLink(
+    @Param() scope: TaskScope,
+    @Body() dto: CreateTaskLinkDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.vinculoService.createLink(scope, dto, user);
+  }
+
+  @Delete(':linkId')
+  @RequirePermission('task.write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover vínculo' })
+  @ApiResponse({ status: 204, description: 'Vínculo removido' })
+  @ApiResponse({ status: 404, description: 'Tarefa ou vínculo não encontrado' })
+  async deleteLink(
+    @Param() scope: TaskScope,
+    @Param('linkId') linkId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.vinculoService.deleteLink(scope, linkId, user.id);
+  }
+}
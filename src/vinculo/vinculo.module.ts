@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PolicyModule } from '../policy/policy.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { VinculoController } from './vinculo.controller';
+import { VinculoRepository } from './vinculo.repository';
+import { VinculoService } from './vinculo.service';
+
+@Module({
+  imports: [PrismaModule, PolicyModule],
+  controllers: [VinculoController],
+  providers: [VinculoRepository, VinculoService],
+})
+export class VinculoModule {}
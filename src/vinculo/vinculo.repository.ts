@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TaskLinkType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const LINKED_TASK_SELECT = {
+  id: true,
+  title: true,
+  projectId: true,
+  column: { select: { id: true, name: true, isDone: true } },
+} satisfies Prisma.TaskSelect;
+
+const LINK_SELECT = {
+  id: true,
+  type: true,
+  createdAt: true,
+  sourceTask: { select: LINKED_TASK_SELECT },
+  targetTask: { select: LINKED_TASK_SELECT },
+  createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.TaskLinkSelect;
+
+@Injectable()
+export class VinculoRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────────
+
+  /** Tarefa ativa do projeto, validando também workspace e empresa da rota */
+  findTask(taskId: string, projectId: string, workspaceId: string, companyId: string) {
+    return this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        projectId,
+        deletedAt: null,
+        project: { workspaceId, deletedAt: null, workspace: { companyId, deletedAt: null } },
+      },
+      select: { id: true },
+    });
+  }
+
+  /** Tarefa ativa de qualquer projeto ativo da empresa */
+  findCompanyTask(taskId: string, companyId: string) {
+    return this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        deletedAt: null,
+        project: { deletedAt: null, workspace: { companyId, deletedAt: null } },
+      },
+      select: { id: true, projectId: true, project: { select: { workspaceId: true } } },
+    });
+  }
+
+  // ── Links ─────────────────────────────────────────────────────────────────────
+
+  /** Vínculos em que a tarefa é origem ou alvo, ignorando os que envolvem tarefas removidas */
+  findLinks(taskId: string) {
+    return this.prisma.taskLink.findMany({
+      where: {
+        OR: [
+          { sourceTaskId: taskId, targetTask: { deletedAt: null } },
+          { targetTaskId: taskId, sourceTask: { deletedAt: null } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      select: LINK_SELECT,
+    });
+  }
+
+  findLink(linkId: string, taskId: string) {
+    return this.prisma.taskLink.findFirst({
+      where: { id: linkId, OR: [{ sourceTaskId: taskId }, { targetTaskId: taskId }] },
+    });
+  }
+
+  deleteLink(id: string) {
+    return this.prisma.taskLink.delete({ where: { id } });
+  }
+
+  // ── Transactions ──────────────────────────────────────────────────────────────
+
+  /**
+   * Cria o vínculo, ou retorna o motivo da recusa: `duplicate` quando as tarefas já têm um
+   * vínculo do tipo (para `blocks`, na mesma direção) e `cycle` quando a tarefa alvo já
+   * bloqueia, direta ou transitivamente, a tarefa de origem.
+   * Um advisory lock por empresa serializa as inserções, para que requisições simultâneas
+   * não escapem das verificações nem colidam na restrição única.
+   */
+  createLink(data: Prisma.TaskLinkUncheckedCreateInput, companyId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`task_links:${companyId}`}))`;
+
+      // blocks tem direção: o vínculo inverso não é duplicado, e sim um ciclo (verificado abaixo)
+      const duplicate = await tx.taskLink.findFirst({
+        where: {
+          type: data.type,
+          OR: [
+            { sourceTaskId: data.sourceTaskId, targetTaskId: data.targetTaskId },
+            ...(data.type === TaskLinkType.blocks
+              ? []
+              : [{ sourceTaskId: data.targetTaskId, targetTaskId: data.sourceTaskId }]),
+          ],
+        },
+        select: { id: true },
+      });
+      if (duplicate) {
+        return { link: null, rejection: 'duplicate' as const };
+      }
+
+      if (data.type === TaskLinkType.blocks) {
+        const [{ cycle }] = await tx.$queryRaw<Array<{ cycle: boolean }>>`
+          WITH RECURSIVE blocked(task_id) AS (
+            SELECT ${data.targetTaskId}::text
+            UNION
+            SELECT l.target_task_id
+            FROM "task_links" l
+            JOIN blocked b ON l.source_task_id = b.task_id
+            JOIN "tasks" t ON t.id = l.target_task_id AND t.deleted_at IS NULL
+            WHERE l.type = 'blocks'
+          )
+          SELECT EXISTS (SELECT 1 FROM blocked WHERE task_id = ${data.sourceTaskId}) AS cycle
+        `;
+        if (cycle) {
+          return { link: null, rejection: 'cycle' as const };
+        }
+      }
+
+      const link = await tx.taskLink.create({ data, select: LINK_SELECT });
+      return { link, rejection: null };
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { TaskLinkType } from '../generated/prisma/client';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { VinculoRepository } from './vinculo.repository';
+import { VinculoService } from './vinculo.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const SCOPE: TaskScope = {
+  companyId: 'company-1',
+  workspaceId: 'ws-1',
+  projectId: 'project-1',
+  taskId: 'task-1',
+};
+
+const USER: AuthUser = {
+  id: 'user-1',
+  email: 'user@acme.com',
+  isSuperuser: false,
+  mustResetPassword: false,
+};
+
+function makeTarget(overrides: Record<string, unknown> = {}) {
+  return { id: 'task-2', projectId: 'project-1', project: { workspaceId: 'ws-1' }, ...overrides };
+}
+
+function makeLink(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link-1',
+    sourceTaskId: 'task-1',
+    targetTaskId: 'task-2',
+    type: TaskLinkType.blocks,
+    createdById: 'user-1',
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof VinculoRepository, jest.Mock>> = {},
+): jest.Mocked<VinculoRepository> {
+  return {
+    findTask: jest.fn().mockResolvedValue({ id: 'task-1' }),
+    findCompanyTask: jest.fn().mockResolvedValue(makeTarget()),
+    findLinks: jest.fn().mockResolvedValue([]),
+    findLink: jest.fn().mockResolvedValue(makeLink()),
+    createLink: jest.fn().mockResolvedValue({ link: makeLink(), rejection: null }),
+    deleteLink: jest.fn().mockResolvedValue(makeLink()),
+    ...overrides,
+  } as unknown as jest.Mocked<VinculoRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<VinculoRepository>) {
+  const policy = { assertCan: jest.fn().mockResolvedValue(undefined) };
+  const service = new VinculoService(repo, policy as any, makeLogger() as any);
+  return { service, policy };
+}
+
+// ── createLink ─────────────────────────────────────────────────────────────────
+
+describe('VinculoService.createLink', () => {
+  it('lança NotFoundException quando a tarefa da rota não existe', async () => {
+    const repo = makeRepo({ findTask: jest.fn().mockResolvedValue(null) });
+    const { service } = makeService(repo);
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.blocks, targetTaskId: 'task-2' }, USER),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('recusa vincular a tarefa a si mesma', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.relates_to, targetTaskId: 'task-1' }, USER),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.createLink).not.toHaveBeenCalled();
+  });
+
+  it('lança NotFoundException quando a tarefa alvo é de outra empresa', async () => {
+    const repo = makeRepo({ findCompanyTask: jest.fn().mockResolvedValue(null) });
+    const { service } = makeService(repo);
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.blocks, targetTaskId: 'task-x' }, USER),
+    ).rejects.toThrow(NotFoundException);
+    expect(repo.findCompanyTask).toHaveBeenCalledWith('task-x', 'company-1');
+  });
+
+  it('exige acesso de leitura ao projeto da tarefa alvo quando é de outro projeto', async () => {
+    const repo = makeRepo({
+      findCompanyTask: jest
+        .fn()
+        .mockResolvedValue(
+          makeTarget({ projectId: 'project-2', project: { workspaceId: 'ws-2' } }),
+        ),
+    });
+    const { service, policy } = makeService(repo);
+    policy.assertCan.mockRejectedValue(new ForbiddenException());
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.blocks, targetTaskId: 'task-2' }, USER),
+    ).rejects.toThrow(ForbiddenException);
+    expect(policy.assertCan).toHaveBeenCalledWith(USER, 'task.read', {
+      companyId: 'company-1',
+      workspaceId: 'ws-2',
+      projectId: 'project-2',
+    });
+    expect(repo.createLink).not.toHaveBeenCalled();
+  });
+
+  it('não consulta permissões para tarefas do mesmo projeto', async () => {
+    const repo = makeRepo();
+    const { service, policy } = makeService(repo);
+    await service.createLink(SCOPE, { type: TaskLinkType.blocks, targetTaskId: 'task-2' }, USER);
+    expect(policy.assertCan).not.toHaveBeenCalled();
+    expect(repo.createLink).toHaveBeenCalledWith(
+      {
+        sourceTaskId: 'task-1',
+        targetTaskId: 'task-2',
+        type: TaskLinkType.blocks,
+        createdById: 'user-1',
+      },
+      'company-1',
+    );
+  });
+
+  it('lança ConflictException quando o repositório encontra vínculo igual', async () => {
+    const repo = makeRepo({
+      createLink: jest.fn().mockResolvedValue({ link: null, rejection: 'duplicate' }),
+    });
+    const { service } = makeService(repo);
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.relates_to, targetTaskId: 'task-2' }, USER),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('lança BadRequestException quando o bloqueio fecharia um ciclo', async () => {
+    const repo = makeRepo({
+      createLink: jest.fn().mockResolvedValue({ link: null, rejection: 'cycle' }),
+    });
+    const { service } = makeService(repo);
+    await expect(
+      service.createLink(SCOPE, { type: TaskLinkType.blocks, targetTaskId: 'task-2' }, USER),
+    ).rejects.toThrow(BadRequestException);
+    expect(repo.createLink).toHaveBeenCalled();
+  });
+});
+
+// ── deleteLink ─────────────────────────────────────────────────────────────────
+
+describe('VinculoService.deleteLink', () => {
+  it('lança NotFoundException quando o vínculo não envolve a tarefa', async () => {
+    const repo = makeRepo({ findLink: jest.fn().mockResolvedValue(null) });
+    const { service } = makeService(repo);
+    await expect(service.deleteLink(SCOPE, 'link-x', 'user-1')).rejects.toThrow(NotFoundException);
+    expect(repo.deleteLink).not.toHaveBeenCalled();
+  });
+
+  it('remove o vínculo', async () => {
+    const repo = makeRepo();
+    const { service } = makeService(repo);
+    await service.deleteLink(SCOPE, 'link-1', 'user-1');
+    expect(repo.findLink).toHaveBeenCalledWith('link-1', 'task-1');
+    expect(repo.deleteLink).toHaveBeenCalledWith('link-1');
+  });
+});
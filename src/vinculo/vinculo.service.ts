@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { PolicyService } from '../policy/policy.service';
+import { TaskScope } from '../tarefa/tarefa.service';
+import { VinculoRepository } from './vinculo.repository';
+import { CreateTaskLinkDto } from './dto/create-task-link.dto';
+
+@Injectable()
+export class VinculoService {
+  constructor(
+    private readonly repo: VinculoRepository,
+    private readonly policy: PolicyService,
+    @InjectPinoLogger(VinculoService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se a tarefa não existir no projeto/workspace/empresa da rota */
+  private async assertTask(scope: TaskScope) {
+    const task = await this.repo.findTask(
+      scope.taskId,
+      scope.projectId,
+      scope.workspaceId,
+      scope.companyId,
+    );
+    if (!task) {
+      throw new NotFoundException('Tarefa não encontrada');
+    }
+    return task;
+  }
+
+  // ── Vínculos ──────────────────────────────────────────────────────────────────
+
+  async listLinks(scope: TaskScope) {
+    await this.assertTask(scope);
+    return this.repo.findLinks(scope.taskId);
+  }
+
+  /**
+   * Vincula a tarefa da rota (origem) a outra tarefa da mesma empresa. Tarefas de outros
+   * projetos exigem que o usuário também possa ver o projeto da tarefa alvo.
+   */
+  async createLink(scope: TaskScope, dto: CreateTaskLinkDto, user: AuthUser) {
+    await this.assertTask(scope);
+
+    if (dto.targetTaskId === scope.taskId) {
+      throw new BadRequestException('Uma tarefa não pode ser vinculada a si mesma');
+    }
+
+    const target = await this.repo.findCompanyTask(dto.targetTaskId, scope.companyId);
+    if (!target) {
+      throw new NotFoundException('Tarefa alvo não encontrada nesta empresa');
+    }
+
+    if (target.projectId !== scope.projectId) {
+      await this.policy.assertCan(user, 'task.read', {
+        companyId: scope.companyId,
+        workspaceId: target.project.workspaceId,
+        projectId: target.projectId,
+      });
+    }
+
+    const { link, rejection } = await this.repo.createLink(
+      {
+        sourceTaskId: scope.taskId,
+        targetTaskId: target.id,
+        type: dto.type,
+        createdById: user.id,
+      },
+      scope.companyId,
+    );
+    if (rejection === 'duplicate') {
+      throw new ConflictException('As tarefas já possuem um vínculo deste tipo');
+    }
+    if (!link) {
+      throw new BadRequestException(
+        'O vínculo criaria uma dependência circular: a tarefa alvo já bloqueia esta tarefa',
+      );
+    }
+
+    this.logger.info(
+      {
+        taskId: scope.taskId,
+        targetTaskId: target.id,
+        linkId: link.id,
+        type: dto.type,
+        createdById: user.id,
+      },
+      'Task link created',
+    );
+    return link;
+  }
+
+  async deleteLink(scope: TaskScope, linkId: string, performedById: string) {
+    await this.assertTask(scope);
+
+    const link = await this.repo.findLink(linkId, scope.taskId);
+    if (!link) {
+      throw new NotFoundException('Vínculo não encontrado');
+    }
+
+    await this.repo.deleteLink(linkId);
+    this.logger.info({ taskId: scope.taskId, linkId, performedById }, 'Task link deleted');
+  }
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AddWorkspaceMemberDto {
+  @ApiProperty({ example: 'uuid-do-usuario', format: 'uuid' })
+  @IsUUID()
+  userId: string;
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/strategies/jwt.strategy';
+import { ListMembersQueryDto } from '../empresa/dto/list-members-query.dto';
+import { UpdateWorkspaceDto } from '../empresa/dto/update-workspace.dto';
+import { RequirePermission } from '../policy/decorators/require-permission.decorator';
+import { WorkspaceService } from './workspace.service';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+
+/**
+ * Autogestão do workspace pelos seus workspace_admin. Os projetos do workspace são
+ * gerenciados em empresa/:companyId/workspaces/:workspaceId/projetos, que também aceita
+ * workspace_admin.
+ */
+@ApiTags('workspace')
+@ApiBearerAuth()
+@Controller('workspace/:workspaceId')
+export class WorkspaceController {
+  constructor(private readonly workspaceService: WorkspaceService) {}
+
+  // ── Workspace ─────────────────────────────────────────────────────────────────
+
+  @Get()
+  @RequirePermission('workspace.read')
+  @ApiOperation({ summary: 'Detalhes do workspace administrado' })
+  @ApiResponse({ status: 200, description: 'Workspace encontrado' })
+  @ApiResponse({ status: 403, description: 'Usuário não é administrador deste workspace' })
+  getWorkspace(@Param('workspaceId') workspaceId: string) {
+    return this.workspaceService.getWorkspace(workspaceId);
+  }
+
+  @Patch()
+  @RequirePermission('workspace.update')
+  @ApiOperation({ summary: 'Editar nome ou descrição do workspace' })
+  @ApiResponse({ status: 200, description: 'Workspace atualizado' })
+  @ApiResponse({ status: 403, description: 'Usuário não é administrador deste workspace' })
+  updateWorkspace(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: UpdateWorkspaceDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.workspaceService.updateWorkspace(workspaceId, dto, user.id);
+  }
+
+  // ── Membros ───────────────────────────────────────────────────────────────────
+
+  @Get('membros')
+  @RequirePermission('workspace.members.read')
+  @ApiOperation({ summary: 'Listar membros do workspace com filtros e paginação' })
+  @ApiResponse({ status: 200, description: 'Lista paginada de membros' })
+  listMembers(@Param('workspaceId') workspaceId: string, @Query() query: ListMembersQueryDto) {
+    return this.workspaceService.listMembers(workspaceId, query);
+  }
+
+  @Post('membros')
+  @RequirePermission('workspace.members.manage')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Adicionar membro da empresa ao workspace' })
+  @ApiResponse({ status: 201, description: 'Membro adicionado' })
+  @ApiResponse({ status: 404, description: 'Usuário não é membro desta empresa' })
+  @ApiResponse({ status: 409, description: 'Usuário já é membro deste workspace' })
+  addMember(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: AddWorkspaceMemberDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.workspaceService.addMember(workspaceId, dto, user.id);
+  }
+
+  @Delete('membros/:userId')
+  @RequirePermission('workspace.members.manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remover membro do workspace e de seus projetos' })
+  @ApiResponse({ status: 204, description: 'Membro removido' })
+  @ApiResponse({ status: 400, description: 'Não é possível remover a si mesmo' })
+  @ApiResponse({ status: 403, description: 'Alvo é administrador do workspace' })
+  @ApiResponse({ status: 404, description: 'Membro não encontrado' })
+  async removeMember(
+    @Param('workspaceId') workspaceId: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.workspaceService.removeMember(workspaceId, userId, user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { WorkspaceController } from './workspace.controller';
+import { WorkspaceRepository } from './workspace.repository';
+import { WorkspaceService } from './workspace.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [WorkspaceController],
+  providers: [WorkspaceRepository, WorkspaceService],
+})
+export class WorkspaceModule {}
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const WORKSPACE_SELECT = {
+  id: true,
+  companyId: true,
+  name: true,
+  description: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WorkspaceSelect;
+
+const WORKSPACE_MEMBER_SELECT = {
+  id: true,
+  userId: true,
+  role: true,
+  createdAt: true,
+  customRole: { select: { id: true, name: true } },
+  user: { select: { id: true, name: true, email: true, phone: true, isActive: true } },
+} satisfies Prisma.MembershipSelect;
+
+@Injectable()
+export class WorkspaceRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Workspaces ────────────────────────────────────────────────────────────────
+
+  findWorkspaceById(workspaceId: string) {
+    return this.prisma.workspace.findFirst({ where: { id: workspaceId, deletedAt: null } });
+  }
+
+  findWorkspaceByIdSelect(workspaceId: string) {
+    return this.prisma.workspace.findFirst({
+      where: { id: workspaceId, deletedAt: null },
+      select: WORKSPACE_SELECT,
+    });
+  }
+
+  updateWorkspace(id: string, data: Prisma.WorkspaceUpdateInput) {
+    return this.prisma.workspace.update({ where: { id }, data, select: WORKSPACE_SELECT });
+  }
+
+  findWorkspaceProjectIds(workspaceId: string) {
+    return this.prisma.project.findMany({
+      where: { workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+  }
+
+  // ── Memberships ───────────────────────────────────────────────────────────────
+
+  findMembership(where: Prisma.MembershipWhereInput) {
+    return this.prisma.membership.findFirst({ where });
+  }
+
+  findWorkspaceMembers(where: Prisma.MembershipWhereInput, page: number, limit: number) {
+    return Promise.all([
+      this.prisma.membership.findMany({
+        where,
+        orderBy: { user: { name: 'asc' } },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: WORKSPACE_MEMBER_SELECT,
+      }),
+      this.prisma.membership.count({ where }),
+    ]);
+  }
+
+  createWorkspaceMembership(workspaceId: string, userId: string) {
+    return this.prisma.membership.create({
+      data: {
+        userId,
+        resourceType: ResourceType.workspace,
+        resourceId: workspaceId,
+        role: MembershipRole.member,
+      },
+      select: WORKSPACE_MEMBER_SELECT,
+    });
+  }
+
+  updateManyMemberships(where: Prisma.MembershipWhereInput, data: Prisma.MembershipUpdateInput) {
+    return this.prisma.membership.updateMany({ where, data });
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { MembershipRole, ResourceType } from '../generated/prisma/client';
+import { WorkspaceRepository } from './workspace.repository';
+import { WorkspaceService } from './workspace.service';
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function makeWorkspace(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'ws-1',
+    name: 'Workspace 1',
+    description: null,
+    companyId: 'company-1',
+    isActive: true,
+    createdById: 'user-1',
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeMembership(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mem-1',
+    userId: 'user-2',
+    resourceType: ResourceType.workspace,
+    resourceId: 'ws-1',
+    role: MembershipRole.member,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeRepo(
+  overrides: Partial<Record<keyof WorkspaceRepository, jest.Mock>> = {},
+): jest.Mocked<WorkspaceRepository> {
+  return {
+    findWorkspaceById: jest.fn().mockResolvedValue(makeWorkspace()),
+    findWorkspaceByIdSelect: jest.fn(),
+    updateWorkspace: jest.fn(),
+    findWorkspaceProjectIds: jest.fn().mockResolvedValue([]),
+    findMembership: jest.fn(),
+    findWorkspaceMembers: jest.fn(),
+    createWorkspaceMembership: jest.fn(),
+    updateManyMemberships: jest.fn().mockResolvedValue({ count: 1 }),
+    ...overrides,
+  } as unknown as jest.Mocked<WorkspaceRepository>;
+}
+
+function makeLogger() {
+  return { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+}
+
+function makeService(repo: jest.Mocked<WorkspaceRepository>) {
+  return new WorkspaceService(repo, makeLogger() as any);
+}
+
+// ── updateWorkspace ────────────────────────────────────────────────────────────
+
+describe('WorkspaceService.updateWorkspace', () => {
+  it('lança NotFoundException quando workspace não existe', async () => {
+    const repo = makeRepo({ findWorkspaceById: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.updateWorkspace('ws-1', { name: 'Novo' }, 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('atualiza nome e descrição', async () => {
+    const repo = makeRepo({ updateWorkspace: jest.fn().mockResolvedValue(makeWorkspace()) });
+    const service = makeService(repo);
+    await service.updateWorkspace('ws-1', { name: 'Novo' }, 'user-1');
+    expect(repo.updateWorkspace).toHaveBeenCalledWith('ws-1', { name: 'Novo' });
+  });
+});
+
+// ── listMembers ────────────────────────────────────────────────────────────────
+
+describe('WorkspaceService.listMembers', () => {
+  it('filtra memberships do workspace com busca por nome ou email', async () => {
+    const repo = makeRepo({ findWorkspaceMembers: jest.fn().mockResolvedValue([[], 0]) });
+    const service = makeService(repo);
+    const result = await service.listMembers('ws-1', { search: 'ana', page: 2, limit: 10 });
+
+    expect(result).toEqual({ data: [], total: 0, page: 2, limit: 10 });
+    const [where, page, limit] = repo.findWorkspaceMembers.mock.calls[0];
+    expect(where).toMatchObject({
+      resourceType: ResourceType.workspace,
+      resourceId: 'ws-1',
+      deletedAt: null,
+    });
+    expect((where.user as { OR: unknown[] }).OR).toHaveLength(2);
+    expect(page).toBe(2);
+    expect(limit).toBe(10);
+  });
+});
+
+// ── addMember ──────────────────────────────────────────────────────────────────
+
+describe('WorkspaceService.addMember', () => {
+  it('lança NotFoundException quando usuário não é membro da empresa', async () => {
+    const repo = makeRepo({ findMembership: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.addMember('ws-1', { userId: 'user-2' }, 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repo.createWorkspaceMembership).not.toHaveBeenCalled();
+  });
+
+  it('lança ConflictException quando usuário já é membro do workspace', async () => {
+    const repo = makeRepo({
+      findMembership: jest
+        .fn()
+        .mockResolvedValueOnce(makeMembership({ resourceType: ResourceType.company }))
+        .mockResolvedValueOnce(makeMembership()),
+    });
+    const service = makeService(repo);
+    await expect(service.addMember('ws-1', { userId: 'user-2' }, 'user-1')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('cria membership de workspace para membro da empresa', async () => {
+    const repo = makeRepo({
+      findMembership: jest
+        .fn()
+        .mockResolvedValueOnce(makeMembership({ resourceType: ResourceType.company }))
+        .mockResolvedValueOnce(null),
+      createWorkspaceMembership: jest.fn().mockResolvedValue({}),
+    });
+    const service = makeService(repo);
+    await service.addMember('ws-1', { userId: 'user-2' }, 'user-1');
+    expect(repo.createWorkspaceMembership).toHaveBeenCalledWith('ws-1', 'user-2');
+  });
+});
+
+// ── removeMember ───────────────────────────────────────────────────────────────
+
+describe('WorkspaceService.removeMember', () => {
+  it('lança BadRequestException ao tentar remover a si mesmo', async () => {
+    const repo = makeRepo();
+    const service = makeService(repo);
+    await expect(service.removeMember('ws-1', 'user-1', 'user-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('lança NotFoundException quando membro não encontrado', async () => {
+    const repo = makeRepo({ findMembership: jest.fn().mockResolvedValue(null) });
+    const service = makeService(repo);
+    await expect(service.removeMember('ws-1', 'user-2', 'user-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lança ForbiddenException ao tentar remover outro workspace_admin', async () => {
+    const repo = makeRepo({
+      findMembership: jest
+        .fn()
+        .mockResolvedValue(makeMembership({ role: MembershipRole.workspace_admin })),
+    });
+    const service = makeService(repo);
+    await expect(service.removeMember('ws-1', 'user-2', 'user-1')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(repo.updateManyMemberships).not.toHaveBeenCalled();
+  });
+
+  it('soft-deleta o membership do workspace e os dos projetos dele', async () => {
+    const repo = makeRepo({
+      findMembership: jest.fn().mockResolvedValue(makeMembership()),
+      findWorkspaceProjectIds: jest.fn().mockResolvedValue([{ id: 'proj-1' }]),
+    });
+    const service = makeService(repo);
+    await service.removeMember('ws-1', 'user-2', 'user-1');
+
+    const [where, data] = repo.updateManyMemberships.mock.calls[0] as [
+      { OR: unknown[] },
+      { deletedAt: Date },
+    ];
+    expect(where.OR).toEqual([
+      { resourceType: ResourceType.workspace, resourceId: 'ws-1' },
+      { resourceType: ResourceType.project, resourceId: { in: ['proj-1'] } },
+    ]);
+    expect(data.deletedAt).toBeInstanceOf(Date);
+  });
+});
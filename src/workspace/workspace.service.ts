@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectPinoLogger, PinoLogger } from 'nestjs-pino';
+import { MembershipRole, Prisma, ResourceType } from '../generated/prisma/client';
+import { ListMembersQueryDto } from '../empresa/dto/list-members-query.dto';
+import { UpdateWorkspaceDto } from '../empresa/dto/update-workspace.dto';
+import { WorkspaceRepository } from './workspace.repository';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+
+@Injectable()
+export class WorkspaceService {
+  constructor(
+    private readonly repo: WorkspaceRepository,
+    @InjectPinoLogger(WorkspaceService.name)
+    private readonly logger: PinoLogger,
+  ) {}
+
+  /** Lança NotFoundException se o workspace não existir */
+  private async assertWorkspace(workspaceId: string) {
+    const workspace = await this.repo.findWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new NotFoundException('Workspace não encontrado');
+    }
+    return workspace;
+  }
+
+  // ── Workspace ─────────────────────────────────────────────────────────────────
+
+  async getWorkspace(workspaceId: string) {
+    const workspace = await this.repo.findWorkspaceByIdSelect(workspaceId);
+    if (!workspace) {
+      throw new NotFoundException('Workspace não encontrado');
+    }
+    return workspace;
+  }
+
+  async updateWorkspace(workspaceId: string, dto: UpdateWorkspaceDto, performedById: string) {
+    await this.assertWorkspace(workspaceId);
+
+    const updated = await this.repo.updateWorkspace(workspaceId, dto);
+    this.logger.info(
+      { workspaceId, changes: Object.keys(dto), performedById },
+      'Workspace updated by workspace admin',
+    );
+    return updated;
+  }
+
+  // ── Membros ───────────────────────────────────────────────────────────────────
+
+  async listMembers(workspaceId: string, query: ListMembersQueryDto) {
+    const { search, isActive, page = 1, limit = 20 } = query;
+
+    await this.assertWorkspace(workspaceId);
+
+    const userWhere: Prisma.UserWhereInput = { deletedAt: null };
+
+    if (isActive !== undefined) {
+      userWhere.isActive = isActive;
+    }
+
+    if (search) {
+      userWhere.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await this.repo.findWorkspaceMembers(
+      {
+        resourceType: ResourceType.workspace,
+        resourceId: workspaceId,
+        deletedAt: null,
+        user: userWhere,
+      },
+      page,
+      limit,
+    );
+
+    return { data, total, page, limit };
+  }
+
+  /** Adiciona ao workspace um usuário que já é membro da empresa dona dele */
+  async addMember(workspaceId: string, dto: AddWorkspaceMemberDto, performedById: string) {
+    const workspace = await this.assertWorkspace(workspaceId);
+
+    const companyMembership = await this.repo.findMembership({
+      userId: dto.userId,
+      resourceType: ResourceType.company,
+      resourceId: workspace.companyId,
+      deletedAt: null,
+      user: { deletedAt: null },
+    });
+    if (!companyMembership) {
+      throw new NotFoundException('Usuário não é membro desta empresa');
+    }
+
+    const existing = await this.repo.findMembership({
+      userId: dto.userId,
+      resourceType: ResourceType.workspace,
+      resourceId: workspaceId,
+      role: { not: MembershipRole.custom },
+      deletedAt: null,
+    });
+    if (existing) {
+      throw new ConflictException('Usuário já é membro deste workspace');
+    }
+
+    const membership = await this.repo.createWorkspaceMembership(workspaceId, dto.userId);
+    this.logger.info(
+      { workspaceId, targetUserId: dto.userId, performedById },
+      'Member added to workspace',
+    );
+    return membership;
+  }
+
+  /** Remove um membro comum do workspace (inclusive papéis customizados) e dos projetos dele */
+  async removeMember(workspaceId: string, targetUserId: string, performedById: string) {
+    if (targetUserId === performedById) {
+      throw new BadRequestException('Não é possível remover a si mesmo do workspace');
+    }
+
+    await this.assertWorkspace(workspaceId);
+
+    const membership = await this.repo.findMembership({
+      userId: targetUserId,
+      resourceType: ResourceType.workspace,
+      resourceId: workspaceId,
+      role: { not: MembershipRole.custom },
+      deletedAt: null,
+    });
+    if (!membership) {
+      throw new NotFoundException('Membro não encontrado neste workspace');
+    }
+
+    if (membership.role === MembershipRole.workspace_admin) {
+      throw new ForbiddenException(
+        'Somente administradores da empresa podem remover um administrador do workspace',
+      );
+    }
+
+    const projectRows = await this.repo.findWorkspaceProjectIds(workspaceId);
+    const projectIds = projectRows.map((p) => p.id);
+
+    const result = await this.repo.updateManyMemberships(
+      {
+        userId: targetUserId,
+        deletedAt: null,
+        OR: [
+          { resourceType: ResourceType.workspace, resourceId: workspaceId },
+          ...(projectIds.length > 0
+            ? [{ resourceType: ResourceType.project, resourceId: { in: projectIds } }]
+            : []),
+        ],
+      },
+      { deletedAt: new Date() },
+    );
+
+    this.logger.info(
+      { workspaceId, targetUserId, performedById, membershipsRevoked: result.count },
+      'Member removed from workspace and its projects',
+    );
+  }
+}